@@ -8,6 +8,8 @@ import AuthPage from "@/pages/auth-page";
 import OnboardingPage from "@/pages/onboarding-page";
 import DashboardLayout from "@/pages/dashboard/layout";
 import SharedProfilePage from "@/pages/shared-profile-page";
+import RecommenderPage from "@/pages/recommender-page";
+import AdvisorDashboard from "@/pages/advisor-dashboard";
 import PrivacyPage from "@/pages/privacy-page";
 import { ProtectedRoute } from "@/lib/protected-route";
 import { ErrorBoundary } from "@/lib/error-boundary";
@@ -25,9 +27,16 @@ function Router() {
         <ProtectedRoute path="/dashboard" component={DashboardLayout} />
         <ProtectedRoute path="/dashboard/chat" component={DashboardLayout} />
         <ProtectedRoute path="/dashboard/colleges" component={DashboardLayout} />
+        <ProtectedRoute path="/dashboard/essays" component={DashboardLayout} />
         <ProtectedRoute path="/dashboard/profile" component={DashboardLayout} />
         <ProtectedRoute path="/dashboard/advisors" component={DashboardLayout} />
+        <ProtectedRoute path="/dashboard/onboarding" component={DashboardLayout} />
+        <ProtectedRoute path="/dashboard/compare" component={DashboardLayout} />
+        <ProtectedRoute path="/dashboard/activities" component={DashboardLayout} />
+        <ProtectedRoute path="/dashboard/recommenders" component={DashboardLayout} />
+        <ProtectedRoute path="/advisor" component={AdvisorDashboard} />
         <Route path="/shared/:shareToken" component={SharedProfilePage} />
+        <Route path="/recommender/:shareToken" component={RecommenderPage} />
         <Route component={NotFound} />
       </Switch>
     </ErrorBoundary>
@@ -0,0 +1,390 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  AcademicRecord,
+  academicRecordSchema,
+  AwardLevel,
+  AwardLevelType,
+  CourseLevel,
+  CourseLevelType,
+  User as SelectUser,
+} from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface AcademicRecordEditorProps {
+  user: SelectUser;
+  onSaved: (user: SelectUser) => void;
+}
+
+const courseLevelOptions: { value: CourseLevelType; label: string }[] = [
+  { value: CourseLevel.STANDARD, label: "Standard" },
+  { value: CourseLevel.HONORS, label: "Honors" },
+  { value: CourseLevel.AP, label: "AP" },
+  { value: CourseLevel.IB, label: "IB" },
+  { value: CourseLevel.DUAL_ENROLLMENT, label: "Dual enrollment" },
+];
+
+const awardLevelOptions: { value: AwardLevelType; label: string }[] = [
+  { value: AwardLevel.SCHOOL, label: "School" },
+  { value: AwardLevel.REGIONAL, label: "Regional" },
+  { value: AwardLevel.STATE, label: "State" },
+  { value: AwardLevel.NATIONAL, label: "National" },
+  { value: AwardLevel.INTERNATIONAL, label: "International" },
+];
+
+// Select items can't have an empty value, so these stand in for "not set"
+const NO_AWARD_LEVEL = "none";
+const NO_GRADE_LEVEL = "none";
+
+// Form state keeps numbers as strings so fields can be blank while editing
+type CourseDraft = { name: string; level: CourseLevelType; grade: string; gradeLevel: string };
+type AwardDraft = { name: string; level: string; gradeLevel: string };
+type RecordDraft = {
+  unweightedGpa: string;
+  unweightedScale: string;
+  weightedGpa: string;
+  weightedScale: string;
+  satTotal: string;
+  satReadingWriting: string;
+  satMath: string;
+  actComposite: string;
+  actEnglish: string;
+  actMath: string;
+  actReading: string;
+  actScience: string;
+  rank: string;
+  classSize: string;
+  courses: CourseDraft[];
+  awards: AwardDraft[];
+  notes: string;
+};
+
+const text = (value: number | null | undefined) => (value === null || value === undefined ? "" : String(value));
+const num = (value: string) => (value.trim() === "" ? null : Number(value));
+
+function toDraft(record: AcademicRecord): RecordDraft {
+  return {
+    unweightedGpa: text(record.unweightedGpa?.value),
+    unweightedScale: record.unweightedGpa ? String(record.unweightedGpa.scale) : "4",
+    weightedGpa: text(record.weightedGpa?.value),
+    weightedScale: record.weightedGpa ? String(record.weightedGpa.scale) : "5",
+    satTotal: text(record.sat?.total),
+    satReadingWriting: text(record.sat?.readingWriting),
+    satMath: text(record.sat?.math),
+    actComposite: text(record.act?.composite),
+    actEnglish: text(record.act?.english),
+    actMath: text(record.act?.math),
+    actReading: text(record.act?.reading),
+    actScience: text(record.act?.science),
+    rank: text(record.classRank?.rank),
+    classSize: text(record.classRank?.classSize),
+    courses: record.courses.map(course => ({
+      name: course.name,
+      level: course.level,
+      grade: course.grade ?? "",
+      gradeLevel: course.gradeLevel === null ? NO_GRADE_LEVEL : String(course.gradeLevel),
+    })),
+    awards: record.awards.map(award => ({
+      name: award.name,
+      level: award.level ?? NO_AWARD_LEVEL,
+      gradeLevel: award.gradeLevel === null ? NO_GRADE_LEVEL : String(award.gradeLevel),
+    })),
+    notes: record.notes,
+  };
+}
+
+// Turn the form back into a record, leaving validation to the shared schema
+function fromDraft(draft: RecordDraft) {
+  const gpa = (value: string, scale: string) => (num(value) === null ? null : { value: num(value), scale: num(scale) });
+  const gradeLevel = (value: string) => (value === NO_GRADE_LEVEL ? null : Number(value));
+
+  return academicRecordSchema.safeParse({
+    unweightedGpa: gpa(draft.unweightedGpa, draft.unweightedScale),
+    weightedGpa: gpa(draft.weightedGpa, draft.weightedScale),
+    sat: num(draft.satTotal) === null ? null : {
+      total: num(draft.satTotal),
+      readingWriting: num(draft.satReadingWriting),
+      math: num(draft.satMath),
+    },
+    act: num(draft.actComposite) === null ? null : {
+      composite: num(draft.actComposite),
+      english: num(draft.actEnglish),
+      math: num(draft.actMath),
+      reading: num(draft.actReading),
+      science: num(draft.actScience),
+    },
+    classRank: num(draft.rank) === null ? null : { rank: num(draft.rank), classSize: num(draft.classSize) },
+    courses: draft.courses
+      .filter(course => course.name.trim())
+      .map(course => ({ ...course, grade: course.grade.trim() || null, gradeLevel: gradeLevel(course.gradeLevel) })),
+    awards: draft.awards
+      .filter(award => award.name.trim())
+      .map(award => ({
+        ...award,
+        level: award.level === NO_AWARD_LEVEL ? null : award.level,
+        gradeLevel: gradeLevel(award.gradeLevel),
+      })),
+    notes: draft.notes,
+  });
+}
+
+function ScoreField({ id, label, value, onChange, placeholder }: {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">{label}</Label>
+      <Input id={id} type="number" inputMode="decimal" value={value} placeholder={placeholder} onChange={(e) => onChange(e.target.value)} />
+    </div>
+  );
+}
+
+function GradeLevelSelect({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-[110px]">
+        <SelectValue placeholder="Year" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_GRADE_LEVEL}>Any year</SelectItem>
+        {[9, 10, 11, 12].map(grade => (
+          <SelectItem key={grade} value={String(grade)}>{grade}th grade</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Editor for the student's GPA, test scores, class rank, courses and awards
+export function AcademicRecordEditor({ user, onSaved }: AcademicRecordEditorProps) {
+  const [draft, setDraft] = useState<RecordDraft>(() => toDraft(user.academicRecord ?? academicRecordSchema.parse({})));
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Start over from the saved record whenever a fresh user is loaded
+  useEffect(() => {
+    setDraft(toDraft(user.academicRecord ?? academicRecordSchema.parse({})));
+  }, [user]);
+
+  const update = (changes: Partial<RecordDraft>) => setDraft(prev => ({ ...prev, ...changes }));
+  const updateCourse = (index: number, changes: Partial<CourseDraft>) =>
+    update({ courses: draft.courses.map((course, i) => (i === index ? { ...course, ...changes } : course)) });
+  const updateAward = (index: number, changes: Partial<AwardDraft>) =>
+    update({ awards: draft.awards.map((award, i) => (i === index ? { ...award, ...changes } : award)) });
+
+  const saveRecordMutation = useMutation({
+    mutationFn: async (record: AcademicRecord) => {
+      const res = await apiRequest("POST", "/api/user/academic-record", record);
+      return await res.json() as SelectUser;
+    },
+    onSuccess: (updatedUser) => {
+      queryClient.setQueryData(["/api/user"], updatedUser);
+      queryClient.setQueryData(["/api/me"], updatedUser);
+      // Reach/target/likely labels depend on the record
+      queryClient.invalidateQueries({ queryKey: ["/api/college-fit"] });
+      onSaved(updatedUser);
+      toast({
+        title: "Academic record saved",
+        description: "Your GPA, scores, courses and awards have been updated.",
+      });
+    },
+    onError: (error: any) => {
+      console.error("Error saving academic record:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save your academic record. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    const parsed = fromDraft(draft);
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      toast({
+        title: "Check your academic record",
+        description: `${issue.path.join(" ")}: ${issue.message}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    saveRecordMutation.mutate(parsed.data);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h4 className="text-sm font-medium mb-2">GPA</h4>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          <ScoreField id="unweighted-gpa" label="Unweighted" value={draft.unweightedGpa} placeholder="3.85" onChange={(value) => update({ unweightedGpa: value })} />
+          <ScoreField id="unweighted-scale" label="Out of" value={draft.unweightedScale} onChange={(value) => update({ unweightedScale: value })} />
+          <ScoreField id="weighted-gpa" label="Weighted" value={draft.weightedGpa} placeholder="4.40" onChange={(value) => update({ weightedGpa: value })} />
+          <ScoreField id="weighted-scale" label="Out of" value={draft.weightedScale} onChange={(value) => update({ weightedScale: value })} />
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium mb-2">SAT</h4>
+        <div className="grid grid-cols-3 gap-3">
+          <ScoreField id="sat-total" label="Total" value={draft.satTotal} placeholder="1500" onChange={(value) => update({ satTotal: value })} />
+          <ScoreField id="sat-rw" label="Reading & Writing" value={draft.satReadingWriting} onChange={(value) => update({ satReadingWriting: value })} />
+          <ScoreField id="sat-math" label="Math" value={draft.satMath} onChange={(value) => update({ satMath: value })} />
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium mb-2">ACT</h4>
+        <div className="grid grid-cols-5 gap-3">
+          <ScoreField id="act-composite" label="Composite" value={draft.actComposite} placeholder="33" onChange={(value) => update({ actComposite: value })} />
+          <ScoreField id="act-english" label="English" value={draft.actEnglish} onChange={(value) => update({ actEnglish: value })} />
+          <ScoreField id="act-math" label="Math" value={draft.actMath} onChange={(value) => update({ actMath: value })} />
+          <ScoreField id="act-reading" label="Reading" value={draft.actReading} onChange={(value) => update({ actReading: value })} />
+          <ScoreField id="act-science" label="Science" value={draft.actScience} onChange={(value) => update({ actScience: value })} />
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium mb-2">Class rank</h4>
+        <div className="grid grid-cols-2 gap-3 max-w-xs">
+          <ScoreField id="class-rank" label="Rank" value={draft.rank} onChange={(value) => update({ rank: value })} />
+          <ScoreField id="class-size" label="Class size" value={draft.classSize} onChange={(value) => update({ classSize: value })} />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium">Courses</h4>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => update({ courses: [...draft.courses, { name: "", level: CourseLevel.STANDARD, grade: "", gradeLevel: NO_GRADE_LEVEL }] })}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add course
+          </Button>
+        </div>
+        {draft.courses.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No courses added yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {draft.courses.map((course, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <Input
+                  className="flex-1 min-w-[160px]"
+                  placeholder="Course name, e.g. Calculus BC"
+                  value={course.name}
+                  onChange={(e) => updateCourse(index, { name: e.target.value })}
+                />
+                <Select value={course.level} onValueChange={(value) => updateCourse(index, { level: value as CourseLevelType })}>
+                  <SelectTrigger className="w-[140px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {courseLevelOptions.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="w-[90px]"
+                  placeholder="Grade"
+                  title="Letter grade, or exam score for AP/IB"
+                  value={course.grade}
+                  onChange={(e) => updateCourse(index, { grade: e.target.value })}
+                />
+                <GradeLevelSelect value={course.gradeLevel} onChange={(value) => updateCourse(index, { gradeLevel: value })} />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Remove course"
+                  onClick={() => update({ courses: draft.courses.filter((_, i) => i !== index) })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium">Awards</h4>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => update({ awards: [...draft.awards, { name: "", level: NO_AWARD_LEVEL, gradeLevel: NO_GRADE_LEVEL }] })}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add award
+          </Button>
+        </div>
+        {draft.awards.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No awards added yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {draft.awards.map((award, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <Input
+                  className="flex-1 min-w-[160px]"
+                  placeholder="Award, e.g. National Merit Semifinalist"
+                  value={award.name}
+                  onChange={(e) => updateAward(index, { name: e.target.value })}
+                />
+                <Select value={award.level} onValueChange={(value) => updateAward(index, { level: value })}>
+                  <SelectTrigger className="w-[140px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_AWARD_LEVEL}>Any level</SelectItem>
+                    {awardLevelOptions.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <GradeLevelSelect value={award.gradeLevel} onChange={(value) => updateAward(index, { gradeLevel: value })} />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Remove award"
+                  onClick={() => update({ awards: draft.awards.filter((_, i) => i !== index) })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="academic-notes">Notes</Label>
+        <Textarea
+          id="academic-notes"
+          rows={3}
+          placeholder="Anything else about your academics"
+          value={draft.notes}
+          onChange={(e) => update({ notes: e.target.value })}
+        />
+      </div>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saveRecordMutation.isPending}>
+          {saveRecordMutation.isPending ? "Saving..." : "Save academic record"}
+        </Button>
+      </div>
+    </div>
+  );
+}
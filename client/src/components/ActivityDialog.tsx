@@ -0,0 +1,280 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Sparkles } from "lucide-react";
+import {
+  Activity,
+  ActivityType,
+  ActivityTypeLabels,
+  ActivityTypeValue,
+  ACTIVITY_DESCRIPTION_LIMIT,
+  ACTIVITY_GRADE_LEVELS,
+  ACTIVITY_ORGANIZATION_LIMIT,
+  ACTIVITY_ROLE_LIMIT,
+} from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+
+interface ActivityDialogProps {
+  activity: Activity | null; // Null to add a new activity
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Form state keeps numbers as strings so fields can be blank while editing
+type ActivityDraft = {
+  type: ActivityTypeValue;
+  role: string;
+  organization: string;
+  description: string;
+  gradeLevels: number[];
+  hoursPerWeek: string;
+  weeksPerYear: string;
+};
+
+function toDraft(activity: Activity | null): ActivityDraft {
+  return {
+    type: activity?.type ?? ActivityType.OTHER,
+    role: activity?.role ?? "",
+    organization: activity?.organization ?? "",
+    description: activity?.description ?? "",
+    gradeLevels: activity?.gradeLevels ?? [],
+    hoursPerWeek: activity?.hoursPerWeek != null ? String(activity.hoursPerWeek) : "",
+    weeksPerYear: activity?.weeksPerYear != null ? String(activity.weeksPerYear) : "",
+  };
+}
+
+function toNumber(value: string) {
+  return value.trim() === "" ? null : Number(value);
+}
+
+// "12/50", turning red past the limit
+export function CharacterCount({ value, limit }: { value: string; limit: number }) {
+  return (
+    <span className={`text-xs ${value.length > limit ? "text-red-600 font-medium" : "text-muted-foreground"}`}>
+      {value.length}/{limit}
+    </span>
+  );
+}
+
+// Add or edit one activity in the Common App's format
+export function ActivityDialog({ activity, open, onOpenChange }: ActivityDialogProps) {
+  const [draft, setDraft] = useState<ActivityDraft>(() => toDraft(activity));
+  const [suggestion, setSuggestion] = useState<string | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (open) {
+      setDraft(toDraft(activity));
+      setSuggestion(null);
+    }
+  }, [open, activity]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        type: draft.type,
+        role: draft.role,
+        organization: draft.organization,
+        description: draft.description,
+        gradeLevels: draft.gradeLevels,
+        hoursPerWeek: toNumber(draft.hoursPerWeek),
+        weeksPerYear: toNumber(draft.weeksPerYear),
+      };
+      const res = activity
+        ? await apiRequest("PATCH", `/api/activities/${activity.id}`, body)
+        : await apiRequest("POST", "/api/activities", body);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      console.error("Error saving activity:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save this activity. Check the hours and weeks, then try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Tightening works on the saved activity, so it's only offered once the activity exists
+  const tightenMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/activities/${activity!.id}/tighten`, { description: draft.description });
+      return await res.json() as { description: string };
+    },
+    onSuccess: (data) => {
+      setSuggestion(data.description);
+    },
+    onError: (error: any) => {
+      console.error("Error tightening description:", error);
+      toast({
+        title: "Error",
+        description: "Failed to tighten the description. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleGrade = (grade: number) => {
+    setDraft(prev => ({
+      ...prev,
+      gradeLevels: prev.gradeLevels.includes(grade)
+        ? prev.gradeLevels.filter(g => g !== grade)
+        : [...prev.gradeLevels, grade].sort((a, b) => a - b),
+    }));
+  };
+
+  const isOverLimit = draft.role.length > ACTIVITY_ROLE_LIMIT ||
+    draft.organization.length > ACTIVITY_ORGANIZATION_LIMIT ||
+    draft.description.length > ACTIVITY_DESCRIPTION_LIMIT;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl max-w-[95vw] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{activity ? "Edit activity" : "Add activity"}</DialogTitle>
+          <DialogDescription>
+            Fill this in the way it will appear on the Common App.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="activity-type">Activity type</Label>
+            <Select value={draft.type} onValueChange={(value) => setDraft(prev => ({ ...prev, type: value as ActivityTypeValue }))}>
+              <SelectTrigger id="activity-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ActivityTypeLabels) as ActivityTypeValue[]).map(type => (
+                  <SelectItem key={type} value={type}>{ActivityTypeLabels[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="activity-role">Position/leadership description</Label>
+              <CharacterCount value={draft.role} limit={ACTIVITY_ROLE_LIMIT} />
+            </div>
+            <Input
+              id="activity-role"
+              placeholder="e.g. Captain, Founder, Volunteer"
+              value={draft.role}
+              onChange={(e) => setDraft(prev => ({ ...prev, role: e.target.value }))}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="activity-organization">Organization name</Label>
+              <CharacterCount value={draft.organization} limit={ACTIVITY_ORGANIZATION_LIMIT} />
+            </div>
+            <Input
+              id="activity-organization"
+              value={draft.organization}
+              onChange={(e) => setDraft(prev => ({ ...prev, organization: e.target.value }))}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="activity-description">Description</Label>
+              <CharacterCount value={draft.description} limit={ACTIVITY_DESCRIPTION_LIMIT} />
+            </div>
+            <Textarea
+              id="activity-description"
+              rows={3}
+              placeholder="What you did and what came of it"
+              value={draft.description}
+              onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+            />
+            {activity && (
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={!draft.description.trim() || tightenMutation.isPending}
+                onClick={() => tightenMutation.mutate()}
+              >
+                <Sparkles className="h-4 w-4 mr-1" />
+                {tightenMutation.isPending ? "Tightening..." : "Tighten this description"}
+              </Button>
+            )}
+            {suggestion !== null && (
+              <div className="rounded-md border border-primary/30 bg-primary/5 p-3 space-y-2 text-sm">
+                <p>{suggestion}</p>
+                <div className="flex items-center justify-between gap-2">
+                  <CharacterCount value={suggestion} limit={ACTIVITY_DESCRIPTION_LIMIT} />
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setSuggestion(null)}>Dismiss</Button>
+                    <Button
+                      size="sm"
+                      onClick={() => {
+                        setDraft(prev => ({ ...prev, description: suggestion }));
+                        setSuggestion(null);
+                      }}
+                    >
+                      Use this
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <Label>Participation grade levels</Label>
+            <div className="flex gap-4">
+              {ACTIVITY_GRADE_LEVELS.map(grade => (
+                <label key={grade} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox checked={draft.gradeLevels.includes(grade)} onCheckedChange={() => toggleGrade(grade)} />
+                  {grade}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="activity-hours">Hours per week</Label>
+              <Input
+                id="activity-hours"
+                inputMode="numeric"
+                value={draft.hoursPerWeek}
+                onChange={(e) => setDraft(prev => ({ ...prev, hoursPerWeek: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="activity-weeks">Weeks per year</Label>
+              <Input
+                id="activity-weeks"
+                inputMode="numeric"
+                value={draft.weeksPerYear}
+                onChange={(e) => setDraft(prev => ({ ...prev, weeksPerYear: e.target.value }))}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={isOverLimit || saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,256 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { MessageCircle, Reply, Trash2 } from "lucide-react";
+import { AdvisorComment, AdvisorCommentWithAdvisor } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+
+// An advisor comment the student hasn't seen yet
+export function isUnreadComment(comment: AdvisorComment) {
+  return comment.authorType === "advisor" && !comment.isRead;
+}
+
+// Group comments into threads: the comment that started each thread, followed by its replies
+export function groupCommentThreads<T extends AdvisorComment>(comments: T[]): { root: T; replies: T[] }[] {
+  return comments
+    .filter(comment => comment.parentId === null)
+    .map(root => ({
+      root,
+      replies: comments.filter(comment => comment.parentId === root.id)
+    }));
+}
+
+function formatCommentTime(date: Date | string) {
+  return new Date(date).toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+// Text box for a new comment or reply
+export function CommentComposer({
+  placeholder,
+  isPending,
+  onSubmit,
+  onCancel,
+}: {
+  placeholder: string;
+  isPending: boolean;
+  onSubmit: (content: string) => Promise<unknown> | void;
+  onCancel?: () => void;
+}) {
+  const [content, setContent] = useState("");
+
+  const handleSubmit = async () => {
+    if (!content.trim() || isPending) return;
+    try {
+      await onSubmit(content.trim());
+      setContent("");
+    } catch (error) {
+      // Keep the text so it can be posted again; the caller reports the error
+      console.error("Error posting comment:", error);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        autoFocus
+        placeholder={placeholder}
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        className="min-h-[60px] text-sm"
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            handleSubmit();
+          }
+        }}
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button size="sm" onClick={handleSubmit} disabled={!content.trim() || isPending}>
+          {isPending ? "Posting..." : "Post"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Threaded comments on one chat message or essay, used by both the student and the advisor views
+export function CommentThreads<T extends AdvisorComment>({
+  comments,
+  getAuthorName,
+  highlightIds,
+  isReplyPending,
+  onReply,
+  onDelete,
+}: {
+  comments: T[];
+  getAuthorName: (comment: T) => string;
+  highlightIds?: number[];
+  isReplyPending: boolean;
+  onReply: (thread: T, content: string) => Promise<unknown>;
+  onDelete?: (comment: T) => void;
+}) {
+  const [replyingTo, setReplyingTo] = useState<number | null>(null);
+  const threads = groupCommentThreads(comments);
+
+  if (threads.length === 0) {
+    return null;
+  }
+
+  const renderComment = (comment: T) => (
+    <div key={comment.id} className="group">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">{getAuthorName(comment)}</span>
+        <span>{formatCommentTime(comment.createdAt)}</span>
+        {highlightIds?.includes(comment.id) && (
+          <Badge className="h-4 px-1.5 text-[10px]">New</Badge>
+        )}
+        {onDelete && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 ml-auto opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground"
+            onClick={() => onDelete(comment)}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+      <div className="text-sm whitespace-pre-wrap text-foreground">{comment.content}</div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      {threads.map(({ root, replies }) => (
+        <div key={root.id} className="rounded-md border border-amber-300/60 bg-amber-50/60 dark:bg-amber-950/20 p-3 space-y-2">
+          {root.quotedText && (
+            <blockquote className="border-l-4 border-amber-400/60 pl-3 text-xs italic text-muted-foreground line-clamp-3">
+              {root.quotedText}
+            </blockquote>
+          )}
+          {renderComment(root)}
+          {replies.length > 0 && (
+            <div className="pl-3 border-l border-border/60 space-y-2">
+              {replies.map(renderComment)}
+            </div>
+          )}
+          {replyingTo === root.id ? (
+            <CommentComposer
+              placeholder="Write a reply..."
+              isPending={isReplyPending}
+              onSubmit={async (content) => {
+                await onReply(root, content);
+                setReplyingTo(null);
+              }}
+              onCancel={() => setReplyingTo(null)}
+            />
+          ) : (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs text-muted-foreground"
+              onClick={() => setReplyingTo(root.id)}
+            >
+              <Reply className="h-3.5 w-3.5 mr-1" />
+              Reply
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Mark the advisor comments on screen as read. Returns the IDs that were unread when first shown,
+// so they can stay highlighted while the student is looking at them.
+export function useMarkCommentsRead(comments: AdvisorComment[]) {
+  const queryClient = useQueryClient();
+  const [newCommentIds, setNewCommentIds] = useState<number[]>([]);
+  const unreadIds = comments.filter(isUnreadComment).map(comment => comment.id);
+  const unreadKey = unreadIds.join(",");
+
+  useEffect(() => {
+    if (unreadIds.length === 0) return;
+
+    setNewCommentIds(prev => Array.from(new Set([...prev, ...unreadIds])));
+    apiRequest('POST', '/api/comments/read', { commentIds: unreadIds })
+      .then(() => queryClient.invalidateQueries({ queryKey: ['/api/comments'] }))
+      .catch(error => console.error("Error marking comments as read:", error));
+  }, [unreadKey]);
+
+  return newCommentIds;
+}
+
+// Advisor comment threads in the student's dashboard, with replying and deleting wired up
+export function StudentCommentThreads({
+  comments,
+  highlightIds,
+}: {
+  comments: AdvisorCommentWithAdvisor[];
+  highlightIds?: number[];
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const replyMutation = useMutation({
+    mutationFn: async ({ commentId, content }: { commentId: number; content: string }) => {
+      const res = await apiRequest('POST', `/api/comments/${commentId}/replies`, { content });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/comments'] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to post reply. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (commentId: number) => {
+      return await apiRequest('DELETE', `/api/comments/${commentId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/comments'] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete comment. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  if (comments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2">
+      <div className="flex items-center gap-1.5 text-xs text-muted-foreground mb-1">
+        <MessageCircle className="h-3.5 w-3.5" />
+        Advisor comments
+      </div>
+      <CommentThreads
+        comments={comments}
+        getAuthorName={(comment) => comment.authorType === "student" ? "You" : comment.advisorName}
+        highlightIds={highlightIds}
+        isReplyPending={replyMutation.isPending}
+        onReply={(thread, content) => replyMutation.mutateAsync({ commentId: thread.id, content })}
+        onDelete={(comment) => deleteMutation.mutate(comment.id)}
+      />
+    </div>
+  );
+}
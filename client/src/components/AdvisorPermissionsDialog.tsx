@@ -0,0 +1,174 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Advisor, AdvisorPermissions, CollegeStatus, CollegeStatusType } from "@shared/schema";
+import { updateAdvisorPermissions } from "@/lib/advisorApi";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+interface AdvisorPermissionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  advisor: Advisor | null;
+}
+
+const collegeStatusOptions: { value: CollegeStatusType; label: string }[] = [
+  { value: CollegeStatus.APPLYING, label: "Applying" },
+  { value: CollegeStatus.RESEARCHING, label: "Researching" },
+  { value: CollegeStatus.NOT_APPLYING, label: "Not Applying" },
+];
+
+export function AdvisorPermissionsDialog({ open, onOpenChange, advisor }: AdvisorPermissionsDialogProps) {
+  const [permissions, setPermissions] = useState<AdvisorPermissions | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Start from the advisor's saved permissions each time the dialog opens
+  useEffect(() => {
+    if (open && advisor) {
+      setPermissions(advisor.permissions);
+    }
+  }, [open, advisor]);
+
+  const savePermissionsMutation = useMutation({
+    mutationFn: async (updated: AdvisorPermissions) => {
+      if (!advisor) return;
+      return await updateAdvisorPermissions(advisor.id, updated);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/advisors"] });
+      toast({
+        title: "Permissions saved",
+        description: `Sharing permissions have been updated for ${advisor?.name}`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      console.error("Error updating advisor permissions:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update permissions. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleStatusToggle = (status: CollegeStatusType) => {
+    setPermissions(prev => prev && {
+      ...prev,
+      collegeStatuses: prev.collegeStatuses.includes(status)
+        ? prev.collegeStatuses.filter(s => s !== status)
+        : [...prev.collegeStatuses, status]
+    });
+  };
+
+  if (!advisor || !permissions) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Permissions for {advisor.name}</DialogTitle>
+          <DialogDescription>
+            Choose what {advisor.name} can see and do through their share link.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 py-2">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="permission-profile">Profile</Label>
+              <p className="text-xs text-muted-foreground">Your profile description</p>
+            </div>
+            <Switch
+              id="permission-profile"
+              checked={permissions.showProfile}
+              onCheckedChange={(checked) => setPermissions({ ...permissions, showProfile: checked })}
+            />
+          </div>
+
+          <div>
+            <Label>College lists</Label>
+            <p className="text-xs text-muted-foreground mb-2">Which of your college lists they can see</p>
+            <div className="space-y-2">
+              {collegeStatusOptions.map(option => (
+                <div key={option.value} className="flex items-center space-x-3">
+                  <Checkbox
+                    id={`permission-status-${option.value}`}
+                    checked={permissions.collegeStatuses.includes(option.value)}
+                    onCheckedChange={() => handleStatusToggle(option.value)}
+                  />
+                  <label htmlFor={`permission-status-${option.value}`} className="text-sm leading-none">
+                    {option.label}
+                  </label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="permission-college-notes">College notes</Label>
+              <p className="text-xs text-muted-foreground">Show your notes, pros and cons, and ratings on shared colleges</p>
+            </div>
+            <Switch
+              id="permission-college-notes"
+              // Links saved before this setting existed don't have it
+              checked={permissions.showCollegeNotes ?? false}
+              onCheckedChange={(checked) => setPermissions({ ...permissions, showCollegeNotes: checked })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="permission-recommendations">Recommendations</Label>
+              <p className="text-xs text-muted-foreground">Let them recommend colleges to you</p>
+            </div>
+            <Switch
+              id="permission-recommendations"
+              checked={permissions.allowRecommendations}
+              onCheckedChange={(checked) => setPermissions({ ...permissions, allowRecommendations: checked })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="permission-comments">Comments</Label>
+              <p className="text-xs text-muted-foreground">Let them comment on shared chats and essays</p>
+            </div>
+            <Switch
+              id="permission-comments"
+              checked={permissions.allowComments}
+              onCheckedChange={(checked) => setPermissions({ ...permissions, allowComments: checked })}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="flex flex-col sm:flex-row sm:justify-between sm:space-x-2">
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => savePermissionsMutation.mutate(permissions)}
+            disabled={savePermissionsMutation.isPending}
+          >
+            {savePermissionsMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
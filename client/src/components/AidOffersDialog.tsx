@@ -0,0 +1,268 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, FileText, Trash2, Upload } from "lucide-react";
+import {
+  AidItem,
+  AidItemType,
+  AidItemTypeValue,
+  AidOfferWithSummary,
+  FileAttachment,
+} from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatDollars } from "@/components/CollegeCostsDialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+
+interface AidOffersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  colleges: { id: number; name: string }[];
+}
+
+export const aidItemTypeLabels: Record<AidItemTypeValue, string> = {
+  [AidItemType.GRANT]: "Grant",
+  [AidItemType.SCHOLARSHIP]: "Scholarship",
+  [AidItemType.WORK_STUDY]: "Work-study",
+  [AidItemType.LOAN]: "Loan",
+  [AidItemType.PARENT_LOAN]: "Parent loan",
+  [AidItemType.OTHER]: "Other",
+};
+
+const isLoan = (item: AidItem) => item.type === AidItemType.LOAN || item.type === AidItemType.PARENT_LOAN;
+
+// Upload award letters and compare the offers side by side, with loans called out as what they are
+export function AidOffersDialog({ open, onOpenChange, colleges }: AidOffersDialogProps) {
+  const [collegeId, setCollegeId] = useState<string>("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: offers = [], isLoading } = useQuery<AidOfferWithSummary[]>({
+    queryKey: ["/api/aid-offers"],
+    enabled: open,
+  });
+
+  const collegeName = (id: number) => colleges.find(college => college.id === id)?.name || "Unknown college";
+
+  const showError = (description: string) => (error: any) => {
+    console.error(description, error);
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const parseMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("files", file);
+      const uploadRes = await fetch("/api/upload", { method: "POST", body: formData });
+      if (!uploadRes.ok) {
+        const error = await uploadRes.json();
+        throw new Error(error.error || "Failed to upload file");
+      }
+      const [attachment] = await uploadRes.json() as FileAttachment[];
+
+      const res = await apiRequest("POST", "/api/aid-offers/parse", { collegeId: Number(collegeId), attachment });
+      return await res.json() as AidOfferWithSummary;
+    },
+    onSuccess: (offer) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/aid-offers"] });
+      toast({
+        title: "Award letter read",
+        description: `Check the line items for ${collegeName(offer.collegeId)} below and fix any that were misread.`,
+      });
+    },
+    onError: (error: any) => {
+      console.error("Error reading award letter:", error);
+      toast({
+        title: "Couldn't read the letter",
+        description: error.message?.startsWith("422") ? "That file doesn't look like an award letter." : "Failed to read the award letter. Please try again.",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    },
+  });
+
+  const updateItemsMutation = useMutation({
+    mutationFn: async ({ offerId, items }: { offerId: number; items: AidItem[] }) => {
+      const res = await apiRequest("PATCH", `/api/aid-offers/${offerId}`, { items });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/aid-offers"] });
+    },
+    onError: showError("Failed to update this offer. Please try again."),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (offerId: number) => {
+      await apiRequest("DELETE", `/api/aid-offers/${offerId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/aid-offers"] });
+    },
+    onError: showError("Failed to delete this offer. Please try again."),
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) parseMutation.mutate(file);
+  };
+
+  const changeItemType = (offer: AidOfferWithSummary, index: number, type: AidItemTypeValue) => {
+    const items = offer.items.map((item, i) => i === index ? { ...item, type } : item);
+    updateItemsMutation.mutate({ offerId: offer.id, items });
+  };
+
+  const money = (amount: number | null) => amount === null ? "—" : formatDollars(amount);
+
+  // Rows of the comparison table
+  const rows: { label: string; value: (offer: AidOfferWithSummary) => string; emphasis?: boolean }[] = [
+    { label: "Cost of attendance", value: offer => money(offer.costOfAttendance) },
+    { label: "Grants and scholarships", value: offer => money(offer.summary.giftAid) },
+    { label: "True cost (net price)", value: offer => money(offer.summary.netPrice), emphasis: true },
+    { label: "Work-study", value: offer => money(offer.summary.workStudy) },
+    { label: "Student loans", value: offer => money(offer.summary.loans) },
+    { label: "Parent loans", value: offer => money(offer.summary.parentLoans) },
+    { label: "Still to pay", value: offer => money(offer.summary.outOfPocket) },
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-w-[95vw] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Financial Aid Offers</DialogTitle>
+          <DialogDescription>
+            Upload award letters to compare what each college really costs. Loans have to be repaid, so they don't lower the true cost.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1 flex-1 min-w-[200px]">
+            <Label htmlFor="aid-offer-college">College</Label>
+            <Select value={collegeId} onValueChange={setCollegeId}>
+              <SelectTrigger id="aid-offer-college">
+                <SelectValue placeholder="Choose a college" />
+              </SelectTrigger>
+              <SelectContent>
+                {colleges.map(college => (
+                  <SelectItem key={college.id} value={String(college.id)}>{college.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <input
+            type="file"
+            ref={fileInputRef}
+            onChange={handleFileChange}
+            className="hidden"
+            accept="image/jpeg,image/png,image/gif,image/webp,application/pdf,text/plain"
+          />
+          <Button
+            disabled={!collegeId || parseMutation.isPending}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {parseMutation.isPending ? "Reading letter..." : "Upload award letter"}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="h-24 bg-muted animate-pulse rounded" />
+        ) : offers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No aid offers yet.</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border/40">
+                    <th className="py-2 pr-2" />
+                    {offers.map(offer => (
+                      <th key={offer.id} className="py-2 px-2 text-right font-medium align-bottom">
+                        {collegeName(offer.collegeId)}
+                        {offer.academicYear && (
+                          <div className="text-xs font-normal text-muted-foreground">{offer.academicYear}</div>
+                        )}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.label} className={`border-b border-border/20 ${row.emphasis ? "font-semibold" : ""}`}>
+                      <td className="py-2 pr-2 text-muted-foreground">{row.label}</td>
+                      {offers.map(offer => (
+                        <td key={offer.id} className="py-2 px-2 text-right">{row.value(offer)}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {offers.map(offer => (
+              <div key={offer.id} className="rounded-md border border-border/40 p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <FileText className="h-4 w-4 text-primary flex-shrink-0" />
+                    <span className="font-medium truncate">{collegeName(offer.collegeId)}</span>
+                    {offer.attachment && (
+                      <a href={offer.attachment.url} target="_blank" rel="noopener noreferrer" className="text-xs text-muted-foreground hover:text-foreground truncate">
+                        {offer.attachment.filename}
+                      </a>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(offer.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                {offer.summary.loansCountedAsAid && (
+                  <div className="flex items-start gap-2 text-xs text-amber-700 bg-amber-50 dark:bg-amber-950/30 dark:text-amber-400 rounded p-2">
+                    <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                    <span>
+                      This letter's total aid of {money(offer.statedTotalAid)} counts {money(offer.summary.loans + offer.summary.parentLoans)} in loans, which have to be repaid.
+                    </span>
+                  </div>
+                )}
+
+                {offer.items.map((item, index) => (
+                  <div key={index} className="flex items-center gap-2 text-sm">
+                    <span className="flex-1 min-w-0 truncate">
+                      {item.name}
+                      {isLoan(item) && <span className="ml-2 text-xs text-amber-700 dark:text-amber-400">must be repaid</span>}
+                    </span>
+                    <Select
+                      value={item.type}
+                      onValueChange={(value) => changeItemType(offer, index, value as AidItemTypeValue)}
+                    >
+                      <SelectTrigger className="h-8 w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(aidItemTypeLabels) as AidItemTypeValue[]).map(type => (
+                          <SelectItem key={type} value={type}>{aidItemTypeLabels[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <span className="w-24 text-right">{formatDollars(item.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,146 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { CalendarPlus, Copy, RefreshCw } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+
+interface CalendarFeedDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Lets the student subscribe to their deadlines from Google Calendar, Apple Calendar, Outlook, etc.
+export function CalendarFeedDialog({ open, onOpenChange }: CalendarFeedDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<{ calendarToken: string | null }>({
+    queryKey: ['/api/calendar/feed'],
+    enabled: open,
+  });
+
+  const calendarToken = data?.calendarToken || null;
+  const feedUrl = calendarToken ? `${window.location.origin}/api/calendar/${calendarToken}.ics` : "";
+
+  // Creates the feed, or replaces the token so any old link stops working
+  const createFeedMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/calendar/feed');
+      return await res.json();
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(['/api/calendar/feed'], result);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create calendar link. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const disableFeedMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('DELETE', '/api/calendar/feed');
+      return await res.json();
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(['/api/calendar/feed'], result);
+      toast({
+        title: "Calendar link turned off",
+        description: "Calendars subscribed to the old link will stop updating.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to turn off calendar link. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({
+        title: "Link copied",
+        description: "Paste it into your calendar app's \"subscribe by URL\" option.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Couldn't copy the link. Please copy it manually.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-w-[95vw]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <CalendarPlus className="h-5 w-5 mr-2 text-primary" />
+            Add deadlines to your calendar
+          </DialogTitle>
+          <DialogDescription>
+            Subscribe to this private link in your calendar app to see every deadline and checklist item with a due date.
+            Anyone with the link can see your deadlines, so only share it with people you trust.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin h-6 w-6 border-2 border-primary border-t-transparent rounded-full"></div>
+          </div>
+        ) : calendarToken ? (
+          <div className="flex gap-2">
+            <Input value={feedUrl} readOnly onFocus={(e) => e.target.select()} />
+            <Button variant="outline" size="icon" onClick={handleCopy}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <div className="text-sm text-muted-foreground py-2">
+            Your calendar link is turned off.
+          </div>
+        )}
+
+        <DialogFooter className="flex flex-col sm:flex-row gap-2">
+          {calendarToken ? (
+            <>
+              <Button
+                variant="outline"
+                className="text-red-500"
+                onClick={() => disableFeedMutation.mutate()}
+                disabled={disableFeedMutation.isPending}
+              >
+                Turn off link
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => createFeedMutation.mutate()}
+                disabled={createFeedMutation.isPending}
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Reset link
+              </Button>
+            </>
+          ) : (
+            <Button
+              onClick={() => createFeedMutation.mutate()}
+              disabled={createFeedMutation.isPending || isLoading}
+              className="bg-primary hover:bg-primary/90 text-primary-foreground"
+            >
+              Create calendar link
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
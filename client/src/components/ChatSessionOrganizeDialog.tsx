@@ -0,0 +1,161 @@
+import { useEffect, useState } from "react";
+import { Plus, X } from "lucide-react";
+import { ChatFolder, ChatSession, MAX_CHAT_TAGS } from "@shared/schema";
+import { createChatFolder, updateChatSessionOrganization } from "@/lib/chatApi";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+
+interface ChatSessionOrganizeDialogProps {
+  session: ChatSession | null;
+  folders: ChatFolder[];
+  existingTags: string[]; // Tags on the user's other sessions, offered as suggestions
+  onOpenChange: (open: boolean) => void;
+  onSaved: (session: ChatSession, newFolder: ChatFolder | null) => void;
+}
+
+const NO_FOLDER = "none";
+const NEW_FOLDER = "new";
+
+// Set the tags and folder of one chat session
+export function ChatSessionOrganizeDialog({ session, folders, existingTags, onOpenChange, onSaved }: ChatSessionOrganizeDialogProps) {
+  const [tags, setTags] = useState<string[]>([]);
+  const [newTag, setNewTag] = useState("");
+  const [folderChoice, setFolderChoice] = useState(NO_FOLDER);
+  const [newFolderName, setNewFolderName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (session) {
+      setTags(session.tags);
+      setNewTag("");
+      setFolderChoice(session.folderId !== null ? String(session.folderId) : NO_FOLDER);
+      setNewFolderName("");
+    }
+  }, [session]);
+
+  const hasTag = (tag: string) => tags.some(existing => existing.toLowerCase() === tag.trim().toLowerCase());
+
+  const addTag = (tag: string) => {
+    if (!tag.trim() || hasTag(tag) || tags.length >= MAX_CHAT_TAGS) return;
+    setTags(prev => [...prev, tag.trim()]);
+    setNewTag("");
+  };
+
+  const handleSave = async () => {
+    if (!session) return;
+    setIsSaving(true);
+    try {
+      const newFolder = folderChoice === NEW_FOLDER ? await createChatFolder(newFolderName.trim()) : null;
+      const folderId = newFolder ? newFolder.id : folderChoice === NO_FOLDER ? null : parseInt(folderChoice);
+      const updatedSession = await updateChatSessionOrganization(session.id, { tags, folderId });
+      onSaved(updatedSession, newFolder);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error organizing chat session:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save tags and folder. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const suggestions = existingTags.filter(tag => !hasTag(tag));
+
+  return (
+    <Dialog open={session !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Organize chat</DialogTitle>
+          <DialogDescription className="truncate">{session?.title}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Tags</Label>
+            {tags.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {tags.map(tag => (
+                  <Badge key={tag} variant="secondary" className="gap-1">
+                    {tag}
+                    <button onClick={() => setTags(prev => prev.filter(t => t !== tag))} aria-label={`Remove ${tag}`}>
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Input
+                value={newTag}
+                maxLength={40}
+                placeholder="e.g. financial aid, essays, Tufts"
+                disabled={tags.length >= MAX_CHAT_TAGS}
+                onChange={(e) => setNewTag(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    addTag(newTag);
+                  }
+                }}
+              />
+              <Button variant="outline" size="icon" onClick={() => addTag(newTag)} disabled={!newTag.trim() || hasTag(newTag) || tags.length >= MAX_CHAT_TAGS}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            {suggestions.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {suggestions.map(tag => (
+                  <Button key={tag} variant="outline" size="sm" className="h-7 text-xs" onClick={() => addTag(tag)}>
+                    <Plus className="h-3 w-3 mr-1" />
+                    {tag}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="chat-folder">Folder</Label>
+            <Select value={folderChoice} onValueChange={setFolderChoice}>
+              <SelectTrigger id="chat-folder">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_FOLDER}>No folder</SelectItem>
+                {folders.map(folder => (
+                  <SelectItem key={folder.id} value={String(folder.id)}>{folder.name}</SelectItem>
+                ))}
+                <SelectItem value={NEW_FOLDER}>New folder...</SelectItem>
+              </SelectContent>
+            </Select>
+            {folderChoice === NEW_FOLDER && (
+              <Input
+                autoFocus
+                value={newFolderName}
+                maxLength={60}
+                placeholder="Folder name"
+                onChange={(e) => setNewFolderName(e.target.value)}
+              />
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving || (folderChoice === NEW_FOLDER && !newFolderName.trim())}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
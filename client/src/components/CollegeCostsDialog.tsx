@@ -0,0 +1,232 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  FinancialProfile,
+  financialProfileSchema,
+  IncomeBand,
+  IncomeBandType,
+  incomeBandLabels,
+  NetPriceReport,
+  User as SelectUser,
+} from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+
+interface CollegeCostsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  colleges: { id: number; name: string; status: string }[];
+  report: NetPriceReport | undefined;
+}
+
+// Form state keeps numbers as strings so fields can be blank while editing
+type ProfileDraft = { incomeBand: IncomeBandType; assets: string; familySize: string; includeMeritAid: boolean };
+
+const emptyDraft: ProfileDraft = {
+  incomeBand: IncomeBand.FROM_48K_TO_75K,
+  assets: "",
+  familySize: "4",
+  includeMeritAid: true,
+};
+
+function toDraft(profile: FinancialProfile | null | undefined): ProfileDraft {
+  if (!profile) return emptyDraft;
+  return {
+    incomeBand: profile.incomeBand,
+    assets: String(profile.assets),
+    familySize: String(profile.familySize),
+    includeMeritAid: profile.includeMeritAid,
+  };
+}
+
+export function formatDollars(amount: number) {
+  return `$${amount.toLocaleString("en-US")}`;
+}
+
+// The student's household finances, and the estimated four-year cost of each college side by side
+export function CollegeCostsDialog({ open, onOpenChange, colleges, report }: CollegeCostsDialogProps) {
+  const [draft, setDraft] = useState<ProfileDraft>(emptyDraft);
+  const [editing, setEditing] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (open) {
+      setDraft(toDraft(report?.profile));
+      setEditing(!report?.profile);
+    }
+  }, [open, report?.profile]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (profile: FinancialProfile) => {
+      const res = await apiRequest("POST", "/api/user/financial-profile", profile);
+      return await res.json() as SelectUser;
+    },
+    onSuccess: (updatedUser) => {
+      queryClient.setQueryData(["/api/user"], updatedUser);
+      queryClient.setQueryData(["/api/me"], updatedUser);
+      queryClient.invalidateQueries({ queryKey: ["/api/net-price"] });
+      setEditing(false);
+    },
+    onError: (error: any) => {
+      console.error("Error saving financial profile:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save your finances. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    const parsed = financialProfileSchema.safeParse({
+      incomeBand: draft.incomeBand,
+      assets: draft.assets.trim() === "" ? 0 : Number(draft.assets.replace(/[$,]/g, "")),
+      familySize: Number(draft.familySize),
+      includeMeritAid: draft.includeMeritAid,
+    });
+    if (!parsed.success) {
+      toast({
+        title: "Check your answers",
+        description: "Savings must be a whole dollar amount and family size a number from 1 to 20.",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate(parsed.data);
+  };
+
+  // Colleges with an estimate, cheapest first
+  const rows = colleges
+    .filter(college => college.status !== "not_applying")
+    .map(college => ({ college, estimate: report?.colleges[college.id] ?? null }))
+    .sort((a, b) => (a.estimate?.fourYearCost ?? Infinity) - (b.estimate?.fourYearCost ?? Infinity));
+  const usesAverages = rows.some(row => row.estimate?.basis === "average");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-w-[95vw] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>College Costs</DialogTitle>
+          <DialogDescription>
+            Estimated net price after grants and scholarships, based on your family's finances.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editing ? (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="income-band">Household income</Label>
+              <Select
+                value={draft.incomeBand}
+                onValueChange={(value) => setDraft(prev => ({ ...prev, incomeBand: value as IncomeBandType }))}
+              >
+                <SelectTrigger id="income-band">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(incomeBandLabels) as IncomeBandType[]).map(band => (
+                    <SelectItem key={band} value={band}>{incomeBandLabels[band]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="family-assets">Savings and investments</Label>
+                <Input
+                  id="family-assets"
+                  inputMode="numeric"
+                  placeholder="0"
+                  value={draft.assets}
+                  onChange={(e) => setDraft(prev => ({ ...prev, assets: e.target.value }))}
+                />
+                <p className="text-xs text-muted-foreground">Leave out retirement accounts and your home</p>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="family-size">People in your household</Label>
+                <Input
+                  id="family-size"
+                  inputMode="numeric"
+                  value={draft.familySize}
+                  onChange={(e) => setDraft(prev => ({ ...prev, familySize: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="include-merit-aid">Include likely merit aid</Label>
+                <p className="text-xs text-muted-foreground">
+                  Estimate scholarships at colleges where your scores are well above their typical range
+                </p>
+              </div>
+              <Switch
+                id="include-merit-aid"
+                checked={draft.includeMeritAid}
+                onCheckedChange={(checked) => setDraft(prev => ({ ...prev, includeMeritAid: checked }))}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              {report?.profile && (
+                <Button variant="outline" onClick={() => setEditing(false)}>Cancel</Button>
+              )}
+              <Button onClick={handleSave} disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? "Saving..." : "Estimate costs"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-4 text-sm">
+              <span className="text-muted-foreground">
+                {report?.profile && `${incomeBandLabels[report.profile.incomeBand]} · household of ${report.profile.familySize}`}
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => setEditing(true)}>Edit finances</Button>
+            </div>
+
+            {rows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Add colleges to your list to compare their costs.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b border-border/40">
+                    <th className="py-2 font-medium">College</th>
+                    <th className="py-2 font-medium text-right">Per year</th>
+                    <th className="py-2 font-medium text-right">Merit aid</th>
+                    <th className="py-2 font-medium text-right">4-year total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(({ college, estimate }) => (
+                    <tr key={college.id} className="border-b border-border/20">
+                      <td className="py-2 pr-2">
+                        {college.name}
+                        {estimate?.basis === "average" && <span className="text-muted-foreground">*</span>}
+                      </td>
+                      <td className="py-2 text-right">{estimate ? formatDollars(estimate.netPrice) : "—"}</td>
+                      <td className="py-2 text-right text-muted-foreground">
+                        {estimate && estimate.meritAid > 0 ? formatDollars(estimate.meritAid) : "—"}
+                      </td>
+                      <td className="py-2 text-right font-medium">{estimate ? formatDollars(estimate.fourYearCost) : "No data"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              {usesAverages && "* Scaled from the college's average net price, since we don't have its prices by income. "}
+              Four-year totals assume prices rise 3% a year. Use each college's net price calculator before deciding.
+            </p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,23 @@
+import { CollegeFit, CollegeFitResult, CollegeFitType } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+
+export const fitLabels: Record<CollegeFitType, { singular: string; plural: string; className: string }> = {
+  [CollegeFit.REACH]: { singular: "Reach", plural: "Reaches", className: "bg-red-100 text-red-800 hover:bg-red-100" },
+  [CollegeFit.TARGET]: { singular: "Target", plural: "Targets", className: "bg-amber-100 text-amber-800 hover:bg-amber-100" },
+  [CollegeFit.LIKELY]: { singular: "Likely", plural: "Likely", className: "bg-green-100 text-green-800 hover:bg-green-100" },
+};
+
+// Reach/target/likely label, faded when the classification isn't confident
+export function CollegeFitBadge({ result }: { result: CollegeFitResult | null | undefined }) {
+  if (!result) return null;
+
+  const label = fitLabels[result.fit];
+  return (
+    <Badge
+      className={`${label.className} h-5 px-1.5 text-[11px] font-medium ${result.confidence < 0.5 ? "opacity-70" : ""}`}
+      title={`${Math.round(result.confidence * 100)}% confidence`}
+    >
+      {label.singular}
+    </Badge>
+  );
+}
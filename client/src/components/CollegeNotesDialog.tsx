@@ -0,0 +1,327 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Plus, Star, ThumbsDown, ThumbsUp, X } from "lucide-react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { CollegeNotes, CollegeRating, collegeNotesSchema, SUGGESTED_RATING_CRITERIA } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+
+type NotedCollege = { id: number; name: string } & Partial<CollegeNotes>;
+
+interface CollegeNotesDialogProps {
+  college: NotedCollege;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const markdownComponents = {
+  a: ({ node, ...props }: any) => <a className="text-primary hover:underline" target="_blank" rel="noopener noreferrer" {...props} />,
+  ul: ({ node, ...props }: any) => <ul className="list-disc ml-4 my-1" {...props} />,
+  ol: ({ node, ...props }: any) => <ol className="list-decimal ml-4 my-1" {...props} />,
+  p: ({ node, ...props }: any) => <p className="my-1" {...props} />,
+};
+
+function toDraft(college: NotedCollege): CollegeNotes {
+  return {
+    notes: college.notes ?? null,
+    pros: college.pros ?? [],
+    cons: college.cons ?? [],
+    ratings: college.ratings ?? [],
+  };
+}
+
+export function hasCollegeNotes(college: NotedCollege) {
+  return !!college.notes?.trim() || !!college.pros?.length || !!college.cons?.length || !!college.ratings?.length;
+}
+
+// The student's average rating across their criteria, to one decimal place
+export function averageRating(ratings: CollegeRating[] | undefined) {
+  if (!ratings?.length) return null;
+  return Math.round(ratings.reduce((sum, rating) => sum + rating.score, 0) / ratings.length * 10) / 10;
+}
+
+function StarScore({ score, onChange }: { score: number; onChange?: (score: number) => void }) {
+  return (
+    <div className="flex items-center gap-0.5">
+      {[1, 2, 3, 4, 5].map(value => (
+        <button
+          key={value}
+          type="button"
+          disabled={!onChange}
+          onClick={() => onChange?.(value)}
+          className={onChange ? "cursor-pointer" : "cursor-default"}
+          aria-label={`${value} out of 5`}
+        >
+          <Star className={`h-4 w-4 ${value <= score ? "fill-amber-400 text-amber-400" : "text-muted-foreground/40"}`} />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Read-only view of a college's notes, pros/cons and ratings, e.g. for an advisor
+export function CollegeNotesSummary({ college }: { college: NotedCollege }) {
+  if (!hasCollegeNotes(college)) return null;
+
+  return (
+    <div className="mt-2 space-y-2 text-sm">
+      {!!college.ratings?.length && (
+        <div className="space-y-1">
+          {college.ratings.map(rating => (
+            <div key={rating.criterion} className="flex items-center justify-between gap-2">
+              <span className="text-muted-foreground">{rating.criterion}</span>
+              <StarScore score={rating.score} />
+            </div>
+          ))}
+        </div>
+      )}
+      {!!college.pros?.length && (
+        <ul className="space-y-0.5">
+          {college.pros.map((pro, index) => (
+            <li key={index} className="flex gap-2"><ThumbsUp className="h-3.5 w-3.5 mt-0.5 text-green-600 flex-shrink-0" />{pro}</li>
+          ))}
+        </ul>
+      )}
+      {!!college.cons?.length && (
+        <ul className="space-y-0.5">
+          {college.cons.map((con, index) => (
+            <li key={index} className="flex gap-2"><ThumbsDown className="h-3.5 w-3.5 mt-0.5 text-red-600 flex-shrink-0" />{con}</li>
+          ))}
+        </ul>
+      )}
+      {college.notes?.trim() && (
+        <div className="markdown-content text-foreground/90">
+          <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>{college.notes}</ReactMarkdown>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// A list of short pros or cons with a field to add another
+function PointList({ label, icon, points, onChange }: {
+  label: string;
+  icon: React.ReactNode;
+  points: string[];
+  onChange: (points: string[]) => void;
+}) {
+  const [newPoint, setNewPoint] = useState("");
+
+  const add = () => {
+    if (!newPoint.trim()) return;
+    onChange([...points, newPoint.trim()]);
+    setNewPoint("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      {points.map((point, index) => (
+        <div key={index} className="flex items-start gap-2 text-sm">
+          {icon}
+          <span className="flex-1 min-w-0 break-words">{point}</span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 text-muted-foreground"
+            onClick={() => onChange(points.filter((_, i) => i !== index))}
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <Input
+          value={newPoint}
+          maxLength={300}
+          placeholder={`Add a ${label.toLowerCase().replace(/s$/, "")}`}
+          onChange={(e) => setNewPoint(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              add();
+            }
+          }}
+        />
+        <Button variant="outline" size="icon" onClick={add} disabled={!newPoint.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// The student's private notes, pros/cons and ratings for one college
+export function CollegeNotesDialog({ college, open, onOpenChange }: CollegeNotesDialogProps) {
+  const [draft, setDraft] = useState<CollegeNotes>(() => toDraft(college));
+  const [previewNotes, setPreviewNotes] = useState(false);
+  const [newCriterion, setNewCriterion] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (open) {
+      setDraft(toDraft(college));
+      setPreviewNotes(false);
+      setNewCriterion("");
+    }
+  }, [open, college]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (notes: CollegeNotes) => {
+      const res = await apiRequest("PATCH", `/api/colleges/${college.id}/notes`, notes);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/colleges"] });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      console.error("Error saving college notes:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save your notes. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isRated = (criterion: string) => draft.ratings.some(rating => rating.criterion.toLowerCase() === criterion.trim().toLowerCase());
+
+  const addCriterion = (criterion: string) => {
+    if (!criterion.trim() || isRated(criterion)) return;
+    setDraft(prev => ({ ...prev, ratings: [...prev.ratings, { criterion: criterion.trim(), score: 3 }] }));
+    setNewCriterion("");
+  };
+
+  const setScore = (criterion: string, score: number) => {
+    setDraft(prev => ({
+      ...prev,
+      ratings: prev.ratings.map(rating => rating.criterion === criterion ? { ...rating, score } : rating),
+    }));
+  };
+
+  const handleSave = () => {
+    const parsed = collegeNotesSchema.safeParse({ ...draft, notes: draft.notes?.trim() ? draft.notes : null });
+    if (!parsed.success) {
+      toast({
+        title: "Check your notes",
+        description: parsed.error.errors[0]?.message || "Something in your notes is too long.",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate(parsed.data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-w-[95vw] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Notes on {college.name}</DialogTitle>
+          <DialogDescription>
+            Your own impressions, for you and the AI. Advisors only see them if you turn on college notes for their link.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label>Ratings</Label>
+            {draft.ratings.map(rating => (
+              <div key={rating.criterion} className="flex items-center gap-3 text-sm">
+                <span className="flex-1 min-w-0 truncate">{rating.criterion}</span>
+                <StarScore score={rating.score} onChange={(score) => setScore(rating.criterion, score)} />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 text-muted-foreground"
+                  onClick={() => setDraft(prev => ({ ...prev, ratings: prev.ratings.filter(r => r.criterion !== rating.criterion) }))}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-2">
+              {SUGGESTED_RATING_CRITERIA.filter(criterion => !isRated(criterion)).map(criterion => (
+                <Button key={criterion} variant="outline" size="sm" onClick={() => addCriterion(criterion)}>
+                  <Plus className="h-3 w-3 mr-1" />
+                  {criterion}
+                </Button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Input
+                value={newCriterion}
+                maxLength={50}
+                placeholder="Your own criterion, e.g. Dorms"
+                onChange={(e) => setNewCriterion(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    addCriterion(newCriterion);
+                  }
+                }}
+              />
+              <Button variant="outline" onClick={() => addCriterion(newCriterion)} disabled={!newCriterion.trim() || isRated(newCriterion)}>
+                Add
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+            <PointList
+              label="Pros"
+              icon={<ThumbsUp className="h-4 w-4 mt-0.5 text-green-600 flex-shrink-0" />}
+              points={draft.pros}
+              onChange={(pros) => setDraft(prev => ({ ...prev, pros }))}
+            />
+            <PointList
+              label="Cons"
+              icon={<ThumbsDown className="h-4 w-4 mt-0.5 text-red-600 flex-shrink-0" />}
+              points={draft.cons}
+              onChange={(cons) => setDraft(prev => ({ ...prev, cons }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="college-notes">Notes</Label>
+              <Button variant="ghost" size="sm" onClick={() => setPreviewNotes(prev => !prev)}>
+                {previewNotes ? "Edit" : "Preview"}
+              </Button>
+            </div>
+            {previewNotes ? (
+              <div className="markdown-content min-h-[160px] rounded-md border border-border/40 p-3 text-sm">
+                {draft.notes?.trim()
+                  ? <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>{draft.notes}</ReactMarkdown>
+                  : <span className="text-muted-foreground">Nothing written yet.</span>}
+              </div>
+            ) : (
+              <Textarea
+                id="college-notes"
+                className="min-h-[160px]"
+                maxLength={20000}
+                placeholder="Campus visit impressions, questions to ask, what current students said... Markdown works."
+                value={draft.notes ?? ""}
+                onChange={(e) => setDraft(prev => ({ ...prev, notes: e.target.value }))}
+              />
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save notes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { CalendarClock, Plus, Trash2 } from "lucide-react";
+import { CollegeTask, CollegeTaskType, CollegeTaskTypeValue, CollegeTaskTypeLabels } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+// Format a task due date, or explain that there isn't one
+export function formatDueDate(dueDate: Date | string | null) {
+  if (!dueDate) return "No due date";
+  return new Date(dueDate).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+}
+
+export function isTaskOverdue(task: CollegeTask) {
+  return !task.isCompleted && !!task.dueDate && new Date(task.dueDate) < new Date();
+}
+
+// Invalidate every query that lists tasks
+export function invalidateCollegeTasks(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ queryKey: ['/api/college-tasks'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/college-tasks/upcoming'] });
+}
+
+interface CollegeTasksDialogProps {
+  college: { id: number; name: string };
+  tasks: CollegeTask[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Checklist of deadlines, essays, letters and other application tasks for one college
+export function CollegeTasksDialog({ college, tasks, open, onOpenChange }: CollegeTasksDialogProps) {
+  const [type, setType] = useState<CollegeTaskTypeValue>(CollegeTaskType.REGULAR_DECISION);
+  const [title, setTitle] = useState("");
+  const [dueDate, setDueDate] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const addTaskMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/colleges/${college.id}/tasks`, {
+        type,
+        title: title.trim() || CollegeTaskTypeLabels[type],
+        // Date inputs give YYYY-MM-DD; treat the deadline as the end of that day locally
+        dueDate: dueDate ? new Date(`${dueDate}T23:59:00`).toISOString() : null
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateCollegeTasks(queryClient);
+      setTitle("");
+      setDueDate("");
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to add task. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const toggleTaskMutation = useMutation({
+    mutationFn: async ({ taskId, isCompleted }: { taskId: number; isCompleted: boolean }) => {
+      const res = await apiRequest('PATCH', `/api/college-tasks/${taskId}`, { isCompleted });
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateCollegeTasks(queryClient);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update task. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteTaskMutation = useMutation({
+    mutationFn: async (taskId: number) => {
+      return await apiRequest('DELETE', `/api/college-tasks/${taskId}`);
+    },
+    onSuccess: () => {
+      invalidateCollegeTasks(queryClient);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete task. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const completedCount = tasks.filter(task => task.isCompleted).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl max-w-[95vw]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <CalendarClock className="h-5 w-5 mr-2 text-primary" />
+            {college.name} checklist
+          </DialogTitle>
+          <DialogDescription>
+            {tasks.length > 0
+              ? `${completedCount} of ${tasks.length} done`
+              : "Track deadlines, essays, recommendation letters and everything else this application needs."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+          {tasks.map(task => (
+            <div
+              key={task.id}
+              className="flex items-center gap-3 p-2 rounded-md border border-border/40"
+            >
+              <Checkbox
+                checked={task.isCompleted}
+                onCheckedChange={(checked) => toggleTaskMutation.mutate({ taskId: task.id, isCompleted: checked === true })}
+              />
+              <div className="flex-1 min-w-0">
+                <div className={`font-medium truncate ${task.isCompleted ? "line-through text-muted-foreground" : ""}`}>
+                  {task.title}
+                </div>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Badge variant="outline" className="text-xs">{CollegeTaskTypeLabels[task.type]}</Badge>
+                  <span className={isTaskOverdue(task) ? "text-red-600 font-medium" : ""}>
+                    {isTaskOverdue(task) ? "Overdue: " : ""}{formatDueDate(task.dueDate)}
+                  </span>
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-muted-foreground"
+                onClick={() => deleteTaskMutation.mutate(task.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {/* Add task form */}
+        <div className="pt-2 border-t border-border/40 space-y-2">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <Select value={type} onValueChange={(value) => setType(value as CollegeTaskTypeValue)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(CollegeTaskType).map(value => (
+                  <SelectItem key={value} value={value}>{CollegeTaskTypeLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Input
+              placeholder={CollegeTaskTypeLabels[type]}
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !addTaskMutation.isPending) {
+                  e.preventDefault();
+                  addTaskMutation.mutate();
+                }
+              }}
+            />
+            <Button
+              onClick={() => addTaskMutation.mutate()}
+              disabled={addTaskMutation.isPending}
+              className="bg-primary hover:bg-primary/90 text-primary-foreground"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,22 @@
+import { EssayDiffSegment } from "@shared/schema";
+
+// Render a word diff with insertions highlighted and deletions struck through
+export function DiffView({ segments }: { segments: EssayDiffSegment[] }) {
+  if (segments.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nothing to compare yet.</p>;
+  }
+
+  return (
+    <div className="whitespace-pre-wrap text-sm leading-relaxed">
+      {segments.map((segment, index) => {
+        if (segment.type === "insert") {
+          return <span key={index} className="bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-100">{segment.text}</span>;
+        }
+        if (segment.type === "delete") {
+          return <span key={index} className="bg-red-100 text-red-900 line-through dark:bg-red-900/40 dark:text-red-100">{segment.text}</span>;
+        }
+        return <span key={index}>{segment.text}</span>;
+      })}
+    </div>
+  );
+}
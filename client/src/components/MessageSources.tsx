@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { ChevronDown, ChevronRight, Globe } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { WebCitation, CitationSupport } from "@shared/schema";
+
+// Insert markdown footnote markers like [[1]](url) after each supported segment of the text
+export function addFootnoteMarkers(
+  content: string,
+  citations?: WebCitation[] | null,
+  supports?: CitationSupport[] | null
+): string {
+  if (!citations || citations.length === 0 || !supports || supports.length === 0) {
+    return content;
+  }
+
+  // Find where each segment ends in the text. Gemini's indices are byte offsets,
+  // so look the segment text up instead of trusting them directly.
+  const insertions: { position: number; markers: string }[] = [];
+  let searchFrom = 0;
+
+  for (const support of [...supports].sort((a, b) => a.startIndex - b.startIndex)) {
+    let found = content.indexOf(support.text, searchFrom);
+    if (found === -1) {
+      found = content.indexOf(support.text);
+    }
+    if (found === -1) continue;
+
+    const position = found + support.text.length;
+    searchFrom = position;
+
+    const markers = support.citationIndices
+      .filter(index => citations[index])
+      .map(index => `[[${index + 1}]](${citations[index].uri} "${citations[index].title.replace(/"/g, "'")}")`)
+      .join("");
+
+    if (markers) {
+      insertions.push({ position, markers });
+    }
+  }
+
+  // Insert from the end so earlier positions stay valid
+  let result = content;
+  for (const { position, markers } of insertions.sort((a, b) => b.position - a.position)) {
+    result = result.slice(0, position) + markers + result.slice(position);
+  }
+
+  return result;
+}
+
+// Collapsible numbered list of the web sources behind an AI response
+export function MessageSources({
+  citations,
+  searchQueries,
+}: {
+  citations?: WebCitation[] | null;
+  searchQueries?: string[] | null;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!citations || citations.length === 0) {
+    return null;
+  }
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="mt-3 pt-2 border-t border-primary/10">
+      <CollapsibleTrigger className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground">
+        {isOpen ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+        <Globe className="h-3.5 w-3.5" />
+        {citations.length} {citations.length === 1 ? "source" : "sources"}
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        {searchQueries && searchQueries.length > 0 && (
+          <p className="text-xs text-muted-foreground mt-2">
+            Searched for: {searchQueries.join(", ")}
+          </p>
+        )}
+        <ol className="list-decimal ml-5 mt-2 space-y-1 text-sm">
+          {citations.map((citation, index) => (
+            <li key={index}>
+              <a
+                href={citation.uri}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-primary hover:underline"
+              >
+                {citation.title}
+              </a>
+              {citation.snippet && (
+                <span className="text-muted-foreground"> - {citation.snippet}</span>
+              )}
+            </li>
+          ))}
+        </ol>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
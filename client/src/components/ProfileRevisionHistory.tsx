@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Check, GitCompare, RotateCcw, X } from "lucide-react";
+import {
+  EssayDiffSegment,
+  ProfileRevision,
+  ProfileRevisionSource,
+  ProfileRevisionSourceType,
+  ProfileRevisionStatus,
+  User as SelectUser,
+} from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { DiffView } from "@/components/DiffView";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+
+interface ProfileRevisionHistoryProps {
+  user: SelectUser;
+  onUserChange: (user: SelectUser) => void;
+}
+
+type ProfileDiff = {
+  from: number | "current";
+  to: number | "current";
+  segments: EssayDiffSegment[];
+};
+
+const sourceLabels: Record<ProfileRevisionSourceType, string> = {
+  [ProfileRevisionSource.EXISTING]: "Earlier profile",
+  [ProfileRevisionSource.ONBOARDING]: "Onboarding",
+  [ProfileRevisionSource.CHAT]: "From chat",
+  [ProfileRevisionSource.MANUAL]: "Your edit",
+  [ProfileRevisionSource.REVERT]: "Restored",
+};
+
+function appliedAt(revision: ProfileRevision) {
+  return new Date(revision.reviewedAt ?? revision.createdAt).getTime();
+}
+
+function formatRevisionDate(date: Date | string) {
+  return new Date(date).toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+// Pending AI changes to review, the approval setting, and every earlier version of the profile
+export function ProfileRevisionHistory({ user, onUserChange }: ProfileRevisionHistoryProps) {
+  const [diffRequest, setDiffRequest] = useState<{ from: number | "current"; to: number | "current"; title: string } | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: revisions = [], isLoading } = useQuery<ProfileRevision[]>({
+    queryKey: ["/api/profile/revisions"],
+  });
+
+  const { data: diff, isLoading: isDiffLoading } = useQuery<ProfileDiff>({
+    queryKey: [`/api/profile/diff?from=${diffRequest?.from}&to=${diffRequest?.to}`],
+    enabled: diffRequest !== null,
+    staleTime: 0,
+  });
+
+  const pending = revisions.filter(revision => revision.status === ProfileRevisionStatus.PENDING);
+  const history = revisions.filter(revision => revision.status !== ProfileRevisionStatus.PENDING);
+  // Applied versions in the order they took effect; approved proposals count from when they were approved
+  const applied = history
+    .filter(revision => revision.status === ProfileRevisionStatus.APPLIED)
+    .sort((a, b) => appliedAt(b) - appliedAt(a) || b.id - a.id);
+
+  const handleUserUpdated = (updatedUser: SelectUser | undefined) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/profile/revisions"] });
+    if (updatedUser) {
+      queryClient.setQueryData(["/api/user"], updatedUser);
+      queryClient.setQueryData(["/api/me"], updatedUser);
+      onUserChange(updatedUser);
+    }
+  };
+
+  const showError = (description: string) => (error: any) => {
+    console.error(description, error);
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const revertMutation = useMutation({
+    mutationFn: async (revisionId: number) => {
+      const res = await apiRequest("POST", `/api/profile/revisions/${revisionId}/revert`);
+      return await res.json() as { user: SelectUser | undefined };
+    },
+    onSuccess: (result) => {
+      handleUserUpdated(result.user);
+      toast({ title: "Profile restored", description: "That version is your profile again." });
+    },
+    onError: showError("Failed to restore this version. Please try again."),
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async (revisionId: number) => {
+      const res = await apiRequest("POST", `/api/profile/revisions/${revisionId}/approve`);
+      return await res.json() as { user: SelectUser | undefined };
+    },
+    onSuccess: (result) => {
+      handleUserUpdated(result.user);
+      toast({ title: "Change applied", description: "Your profile has been updated." });
+    },
+    onError: showError("Failed to apply this change. Please try again."),
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async (revisionId: number) => {
+      await apiRequest("POST", `/api/profile/revisions/${revisionId}/reject`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/profile/revisions"] });
+    },
+    onError: showError("Failed to dismiss this change. Please try again."),
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: async (requireProfileApproval: boolean) => {
+      const res = await apiRequest("POST", "/api/user/profile-settings", { requireProfileApproval });
+      return await res.json() as SelectUser;
+    },
+    onSuccess: (updatedUser) => handleUserUpdated(updatedUser),
+    onError: showError("Failed to update the setting. Please try again."),
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="require-profile-approval">Review AI changes</Label>
+          <p className="text-xs text-muted-foreground">
+            Hold profile updates picked up from your chats until you approve them
+          </p>
+        </div>
+        <Switch
+          id="require-profile-approval"
+          checked={user.requireProfileApproval}
+          disabled={settingsMutation.isPending}
+          onCheckedChange={(checked) => settingsMutation.mutate(checked)}
+        />
+      </div>
+
+      {pending.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium mb-2">Waiting for your approval</h4>
+          <div className="space-y-2">
+            {pending.map(revision => (
+              <div key={revision.id} className="flex flex-wrap items-center gap-2 p-2 rounded-md border border-primary/30 bg-primary/5">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium">{sourceLabels[revision.source]}</div>
+                  <div className="text-xs text-muted-foreground">{formatRevisionDate(revision.createdAt)}</div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDiffRequest({ from: "current", to: revision.id, title: "Proposed change" })}
+                >
+                  <GitCompare className="h-4 w-4 mr-1" />
+                  Review
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={approveMutation.isPending}
+                  onClick={() => approveMutation.mutate(revision.id)}
+                >
+                  <Check className="h-4 w-4 mr-1" />
+                  Apply
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={rejectMutation.isPending}
+                  onClick={() => rejectMutation.mutate(revision.id)}
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  Dismiss
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <h4 className="text-sm font-medium mb-2">History</h4>
+        {isLoading ? (
+          <div className="h-10 bg-muted animate-pulse rounded" />
+        ) : history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No earlier versions yet.</p>
+        ) : (
+          <div className="space-y-1">
+            {history.map(revision => {
+              const isRejected = revision.status === ProfileRevisionStatus.REJECTED;
+              const appliedIndex = applied.indexOf(revision);
+              const isCurrent = appliedIndex === 0;
+              // The applied version this one replaced, to show what it changed
+              const previous = appliedIndex === -1 ? undefined : applied[appliedIndex + 1];
+
+              return (
+                <div key={revision.id} className={`flex flex-wrap items-center gap-2 p-2 rounded-md border border-border/40 ${isRejected ? "opacity-60" : ""}`}>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium">{sourceLabels[revision.source]}</div>
+                    <div className="text-xs text-muted-foreground">{formatRevisionDate(revision.createdAt)}</div>
+                  </div>
+                  {isCurrent && <Badge variant="secondary" className="text-xs">Current</Badge>}
+                  {isRejected && <Badge variant="outline" className="text-xs">Dismissed</Badge>}
+                  {previous && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setDiffRequest({ from: previous.id, to: revision.id, title: "What changed" })}
+                    >
+                      <GitCompare className="h-4 w-4 mr-1" />
+                      Changes
+                    </Button>
+                  )}
+                  {!isCurrent && !isRejected && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDiffRequest({ from: revision.id, to: "current", title: "Compared with your current profile" })}
+                      >
+                        vs. current
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={revertMutation.isPending}
+                        onClick={() => revertMutation.mutate(revision.id)}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Restore
+                      </Button>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Diff between versions */}
+      <Dialog open={!!diffRequest} onOpenChange={(open) => !open && setDiffRequest(null)}>
+        <DialogContent className="sm:max-w-2xl max-w-[95vw] max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{diffRequest?.title}</DialogTitle>
+            <DialogDescription>Added words are highlighted and removed words are struck through.</DialogDescription>
+          </DialogHeader>
+          {isDiffLoading || !diff ? (
+            <div className="flex justify-center py-4">
+              <div className="animate-spin h-6 w-6 border-2 border-primary border-t-transparent rounded-full"></div>
+            </div>
+          ) : (
+            <DiffView segments={diff.segments} />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { BadgeCheck, MapPin, Users, DollarSign } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+
+interface RecommendationFactsProps {
+  recommendation: {
+    location: string | null;
+    undergradEnrollment: number | null;
+    netPrice: number | null;
+    statsVerified: boolean;
+  };
+}
+
+// Catalog facts for a recommendation, and whether its numbers are verified or the AI's estimates
+export function RecommendationFacts({ recommendation }: RecommendationFactsProps) {
+  return (
+    <>
+      {recommendation.location && (
+        <Badge variant="outline" className="font-normal">
+          <MapPin className="h-3 w-3 mr-1" />
+          {recommendation.location}
+        </Badge>
+      )}
+      {recommendation.undergradEnrollment !== null && (
+        <Badge variant="outline" className="font-normal">
+          <Users className="h-3 w-3 mr-1" />
+          {recommendation.undergradEnrollment.toLocaleString()} undergrads
+        </Badge>
+      )}
+      {recommendation.netPrice !== null && (
+        <Badge variant="outline" className="font-normal">
+          <DollarSign className="h-3 w-3 mr-0.5" />
+          {recommendation.netPrice.toLocaleString()}/yr avg. net price
+        </Badge>
+      )}
+      {recommendation.statsVerified ? (
+        <Badge variant="secondary" className="font-normal" title="Numbers come from the College Scorecard catalog">
+          <BadgeCheck className="h-3 w-3 mr-1" />
+          Verified stats
+        </Badge>
+      ) : (
+        <Badge variant="outline" className="font-normal text-muted-foreground" title="This college isn't in the catalog, so its numbers are AI estimates">
+          AI-estimated stats
+        </Badge>
+      )}
+    </>
+  );
+}
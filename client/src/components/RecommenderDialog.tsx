@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  College,
+  RecommenderRole,
+  RecommenderRoleLabels,
+  RecommenderRoleValue,
+  RecommenderWithLetters,
+} from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+
+interface RecommenderDialogProps {
+  recommender: RecommenderWithLetters | null; // Null to invite a new recommender
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type RecommenderDraft = {
+  name: string;
+  role: RecommenderRoleValue;
+  subject: string;
+  email: string;
+  message: string;
+  collegeIds: number[];
+};
+
+function toDraft(recommender: RecommenderWithLetters | null): RecommenderDraft {
+  return {
+    name: recommender?.name ?? "",
+    role: recommender?.role ?? RecommenderRole.TEACHER,
+    subject: recommender?.subject ?? "",
+    email: recommender?.email ?? "",
+    message: recommender?.message ?? "",
+    collegeIds: recommender?.letters.map(letter => letter.collegeId) ?? [],
+  };
+}
+
+// Add or edit a recommender and choose which colleges they're writing for
+export function RecommenderDialog({ recommender, open, onOpenChange }: RecommenderDialogProps) {
+  const [draft, setDraft] = useState<RecommenderDraft>(() => toDraft(recommender));
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: colleges = [] } = useQuery<College[]>({
+    queryKey: ["/api/colleges"],
+  });
+
+  useEffect(() => {
+    if (open) {
+      setDraft(toDraft(recommender));
+    }
+  }, [open, recommender]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const { collegeIds, ...details } = draft;
+      const body = {
+        ...details,
+        subject: details.subject.trim() || null,
+        message: details.message.trim() || null,
+      };
+      if (!recommender) {
+        const res = await apiRequest("POST", "/api/recommenders", { ...body, collegeIds });
+        return await res.json();
+      }
+      await apiRequest("PATCH", `/api/recommenders/${recommender.id}`, body);
+      const res = await apiRequest("PUT", `/api/recommenders/${recommender.id}/colleges`, { collegeIds });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recommenders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/recommendation-letters"] });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      console.error("Error saving recommender:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save this recommender. Check the email address, then try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleCollege = (collegeId: number) => {
+    setDraft(prev => ({
+      ...prev,
+      collegeIds: prev.collegeIds.includes(collegeId)
+        ? prev.collegeIds.filter(id => id !== collegeId)
+        : [...prev.collegeIds, collegeId],
+    }));
+  };
+
+  // Colleges the student has ruled out aren't worth asking for letters to
+  const listedColleges = colleges.filter(college => college.status !== "not_applying" || draft.collegeIds.includes(college.id));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl max-w-[95vw] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{recommender ? "Edit recommender" : "Add recommender"}</DialogTitle>
+          <DialogDescription>
+            They'll get their own link showing your brag sheet, activities and deadlines, where they can mark each letter as submitted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="recommender-name">Name</Label>
+              <Input
+                id="recommender-name"
+                maxLength={100}
+                placeholder="e.g. Ms. Rivera"
+                value={draft.name}
+                onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="recommender-role">Role</Label>
+              <Select value={draft.role} onValueChange={(value) => setDraft(prev => ({ ...prev, role: value as RecommenderRoleValue }))}>
+                <SelectTrigger id="recommender-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(RecommenderRoleLabels) as RecommenderRoleValue[]).map(role => (
+                    <SelectItem key={role} value={role}>{RecommenderRoleLabels[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="recommender-subject">Subject</Label>
+              <Input
+                id="recommender-subject"
+                maxLength={100}
+                placeholder="e.g. AP Chemistry"
+                value={draft.subject}
+                onChange={(e) => setDraft(prev => ({ ...prev, subject: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="recommender-email">Email</Label>
+              <Input
+                id="recommender-email"
+                type="email"
+                maxLength={200}
+                value={draft.email}
+                onChange={(e) => setDraft(prev => ({ ...prev, email: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="recommender-message">Message for them</Label>
+            <Textarea
+              id="recommender-message"
+              rows={3}
+              maxLength={2000}
+              placeholder="Thank you for writing for me! A few things I'd love you to mention..."
+              value={draft.message}
+              onChange={(e) => setDraft(prev => ({ ...prev, message: e.target.value }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Letters for</Label>
+            {listedColleges.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Add colleges to your list to ask for letters to them.</p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {listedColleges.map(college => (
+                  <label key={college.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox checked={draft.collegeIds.includes(college.id)} onCheckedChange={() => toggleCollege(college.id)} />
+                    <span className="truncate">{college.name}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={!draft.name.trim() || saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,8 +1,15 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { ChatSession } from "@shared/schema";
-import { fetchChatSessions } from "@/lib/chatApi";
-import { shareChatsWithAdvisor, getSharedChatSessions, unshareChatsWithAdvisor } from "@/lib/advisorApi";
+import { ChatSession, SharedChatCollection, isChatSessionShared } from "@shared/schema";
+import { fetchChatSessions, fetchChatFolders } from "@/lib/chatApi";
+import {
+  shareChatsWithAdvisor,
+  getSharedChatSessions,
+  unshareChatsWithAdvisor,
+  getSharedChatCollections,
+  shareChatCollectionWithAdvisor,
+  unshareChatCollectionWithAdvisor,
+} from "@/lib/advisorApi";
 import { useToast } from "@/hooks/use-toast";
 import {
   Dialog,
@@ -14,7 +21,8 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
-import { MessageSquare } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Folder, MessageSquare, Tag } from "lucide-react";
 
 interface ShareChatsDialogProps {
   open: boolean;
@@ -49,6 +57,55 @@ export function ShareChatsDialog({ open, onOpenChange, advisor }: ShareChatsDial
     enabled: !!advisor,
   });
 
+  const { data: folders = [] } = useQuery({
+    queryKey: ["/api/chat/folders"],
+    queryFn: fetchChatFolders,
+  });
+
+  // Tags and folders shared as a whole, which also cover sessions added to them later
+  const { data: sharedCollections = [] } = useQuery({
+    queryKey: ["/api/advisors", advisor?.id, "shared-chat-collections"],
+    queryFn: async () => {
+      if (!advisor) return [];
+      return await getSharedChatCollections(advisor.id);
+    },
+    enabled: !!advisor,
+  });
+
+  // Every tag in use, once each regardless of case
+  const tags = chatSessions
+    .flatMap((session: ChatSession) => session.tags)
+    .filter((tag, i, all) => all.findIndex(other => other.toLowerCase() === tag.toLowerCase()) === i)
+    .sort((a, b) => a.localeCompare(b));
+
+  const findTagShare = (tag: string) =>
+    sharedCollections.find(collection => collection.tag?.toLowerCase() === tag.toLowerCase());
+  const findFolderShare = (folderId: number) =>
+    sharedCollections.find(collection => collection.folderId === folderId);
+
+  // Shared or unshared straight away, unlike the session checkboxes below
+  const collectionMutation = useMutation({
+    mutationFn: async ({ share, existing }: { share: { tag: string } | { folderId: number }; existing?: SharedChatCollection }) => {
+      if (!advisor) return;
+      if (existing) {
+        await unshareChatCollectionWithAdvisor(advisor.id, existing.id);
+      } else {
+        await shareChatCollectionWithAdvisor(advisor.id, share);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/advisors", advisor?.id, "shared-chat-collections"] });
+    },
+    onError: (error: any) => {
+      console.error("Error updating shared tags and folders:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update sharing for this tag or folder. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Set initial selection when dialog opens or shared sessions data loads
   useEffect(() => {
     if (open && sharedSessionIds) {
@@ -223,6 +280,47 @@ export function ShareChatsDialog({ open, onOpenChange, advisor }: ShareChatsDial
           </DialogDescription>
         </DialogHeader>
         
+        {(tags.length > 0 || folders.length > 0) && (
+          <div className="space-y-2 border-b border-border/40 pb-4">
+            <p className="text-sm font-medium">Share a whole tag or folder</p>
+            <p className="text-xs text-muted-foreground">
+              Chats you add to a shared tag or folder later are shared too.
+            </p>
+            {folders.map(folder => {
+              const existing = findFolderShare(folder.id);
+              return (
+                <label key={`folder-${folder.id}`} className="flex items-center justify-between gap-3 text-sm cursor-pointer">
+                  <span className="flex items-center gap-2 min-w-0">
+                    <Folder className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    <span className="truncate">{folder.name}</span>
+                  </span>
+                  <Switch
+                    checked={!!existing}
+                    disabled={collectionMutation.isPending}
+                    onCheckedChange={() => collectionMutation.mutate({ share: { folderId: folder.id }, existing })}
+                  />
+                </label>
+              );
+            })}
+            {tags.map(tag => {
+              const existing = findTagShare(tag);
+              return (
+                <label key={`tag-${tag}`} className="flex items-center justify-between gap-3 text-sm cursor-pointer">
+                  <span className="flex items-center gap-2 min-w-0">
+                    <Tag className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    <span className="truncate">{tag}</span>
+                  </span>
+                  <Switch
+                    checked={!!existing}
+                    disabled={collectionMutation.isPending}
+                    onCheckedChange={() => collectionMutation.mutate({ share: { tag }, existing })}
+                  />
+                </label>
+              );
+            })}
+          </div>
+        )}
+
         <div className="max-h-[300px] overflow-y-auto">
           {isLoadingChats || isLoadingShared ? (
             <div className="flex items-center justify-center py-6">
@@ -235,26 +333,31 @@ export function ShareChatsDialog({ open, onOpenChange, advisor }: ShareChatsDial
             </div>
           ) : (
             <div className="space-y-4 my-4">
-              {chatSessions.map((session: ChatSession) => (
-                <div key={session.id} className="flex items-start space-x-3 py-2">
-                  <Checkbox 
-                    id={`session-${session.id}`}
-                    checked={selectedSessionIds.includes(session.id)}
-                    onCheckedChange={() => handleSessionToggle(session.id)}
-                  />
-                  <div className="grid gap-1.5">
-                    <label
-                      htmlFor={`session-${session.id}`}
-                      className="font-medium text-sm leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                    >
-                      {session.title || `Chat Session ${session.id}`}
-                    </label>
-                    <p className="text-xs text-muted-foreground">
-                      Created {new Date(session.createdAt).toLocaleDateString()}
-                    </p>
+              {chatSessions.map((session: ChatSession) => {
+                const isSharedByCollection = isChatSessionShared(session, [], sharedCollections);
+                return (
+                  <div key={session.id} className="flex items-start space-x-3 py-2">
+                    <Checkbox 
+                      id={`session-${session.id}`}
+                      checked={isSharedByCollection || selectedSessionIds.includes(session.id)}
+                      disabled={isSharedByCollection}
+                      onCheckedChange={() => handleSessionToggle(session.id)}
+                    />
+                    <div className="grid gap-1.5">
+                      <label
+                        htmlFor={`session-${session.id}`}
+                        className="font-medium text-sm leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                      >
+                        {session.title || `Chat Session ${session.id}`}
+                      </label>
+                      <p className="text-xs text-muted-foreground">
+                        Created {new Date(session.createdAt).toLocaleDateString()}
+                        {isSharedByCollection && " · Shared through a tag or folder"}
+                      </p>
+                    </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           )}
         </div>
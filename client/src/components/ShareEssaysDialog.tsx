@@ -0,0 +1,157 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Essay } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { FileText } from "lucide-react";
+
+interface ShareEssaysDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  advisor: {
+    id: number;
+    name: string;
+  } | null;
+}
+
+export function ShareEssaysDialog({ open, onOpenChange, advisor }: ShareEssaysDialogProps) {
+  const [selectedEssayIds, setSelectedEssayIds] = useState<number[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: essays = [], isLoading: isLoadingEssays } = useQuery<Essay[]>({
+    queryKey: ["/api/essays"],
+    enabled: open,
+  });
+
+  // Fetch currently shared essays for this advisor
+  const { data: sharedEssayIds = [], isLoading: isLoadingShared } = useQuery<number[]>({
+    queryKey: [`/api/advisors/${advisor?.id}/shared-essays`],
+    enabled: open && !!advisor,
+  });
+
+  // Set initial selection when dialog opens or shared essays data loads
+  useEffect(() => {
+    if (open && sharedEssayIds) {
+      setSelectedEssayIds(sharedEssayIds);
+    }
+  }, [open, sharedEssayIds]);
+
+  const saveSharingMutation = useMutation({
+    mutationFn: async () => {
+      if (!advisor) return;
+
+      const essaysToUnshare = sharedEssayIds.filter(id => !selectedEssayIds.includes(id));
+      if (essaysToUnshare.length > 0) {
+        await apiRequest("POST", `/api/advisors/${advisor.id}/unshare-essays`, { essayIds: essaysToUnshare });
+      }
+
+      if (selectedEssayIds.length > 0) {
+        await apiRequest("POST", `/api/advisors/${advisor.id}/share-essays`, { essayIds: selectedEssayIds });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/advisors/${advisor?.id}/shared-essays`] });
+      toast({
+        title: "Essays saved",
+        description: `Essay sharing preferences have been updated for ${advisor?.name}`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      console.error("Error sharing essays:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update essay sharing. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Handle checkbox change
+  const handleEssayToggle = (essayId: number) => {
+    setSelectedEssayIds(prev => {
+      if (prev.includes(essayId)) {
+        return prev.filter(id => id !== essayId);
+      } else {
+        return [...prev, essayId];
+      }
+    });
+  };
+
+  if (!advisor) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share Essays with {advisor.name}</DialogTitle>
+          <DialogDescription>
+            Select which essays this advisor can read. They'll always see your latest draft.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[300px] overflow-y-auto">
+          {isLoadingEssays || isLoadingShared ? (
+            <div className="flex items-center justify-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-primary"></div>
+            </div>
+          ) : essays.length === 0 ? (
+            <div className="text-center py-4 text-muted-foreground">
+              <FileText className="h-10 w-10 mx-auto mb-2 opacity-50" />
+              <p>You have no essays yet.</p>
+            </div>
+          ) : (
+            <div className="space-y-4 my-4">
+              {essays.map(essay => (
+                <div key={essay.id} className="flex items-start space-x-3 py-2">
+                  <Checkbox
+                    id={`essay-${essay.id}`}
+                    checked={selectedEssayIds.includes(essay.id)}
+                    onCheckedChange={() => handleEssayToggle(essay.id)}
+                  />
+                  <div className="grid gap-1.5">
+                    <label
+                      htmlFor={`essay-${essay.id}`}
+                      className="font-medium text-sm leading-none"
+                    >
+                      {essay.title}
+                    </label>
+                    <p className="text-xs text-muted-foreground">
+                      Updated {new Date(essay.updatedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="flex flex-col sm:flex-row sm:justify-between sm:space-x-2">
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveSharingMutation.mutate()}
+            disabled={isLoadingEssays || isLoadingShared || saveSharingMutation.isPending}
+          >
+            {saveSharingMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,203 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Eye, EyeOff } from "lucide-react";
+import { Advisor, AdvisorAccessLog } from "@shared/schema";
+import { updateAdvisorLinkLimits } from "@/lib/advisorApi";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+
+interface ShareLinkActivityDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  advisor: Advisor | null;
+}
+
+// yyyy-mm-dd in local time, for the date input
+function toDateInputValue(date: Date | string | null) {
+  if (!date) return "";
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+// A short, readable description of the browser and device that opened the link
+function describeUserAgent(userAgent: string | null) {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\//.test(userAgent) ? "Opera" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    null;
+
+  const device =
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Android/.test(userAgent) ? "Android" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X/.test(userAgent) ? "Mac" :
+    /Linux/.test(userAgent) ? "Linux" :
+    null;
+
+  if (browser && device) return `${browser} on ${device}`;
+  return browser || device || userAgent;
+}
+
+// Expiry and view limit for an advisor's share link, plus a log of every time it was opened
+export function ShareLinkActivityDialog({ open, onOpenChange, advisor }: ShareLinkActivityDialogProps) {
+  const [expiresOn, setExpiresOn] = useState("");
+  const [maxViews, setMaxViews] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: accessLog = [], isLoading: isLoadingLog } = useQuery<AdvisorAccessLog[]>({
+    queryKey: [`/api/advisors/${advisor?.id}/access-log`],
+    enabled: open && !!advisor,
+  });
+
+  // Start from the saved limits each time the dialog opens
+  useEffect(() => {
+    if (open && advisor) {
+      setExpiresOn(toDateInputValue(advisor.expiresAt));
+      setMaxViews(advisor.maxViews ? String(advisor.maxViews) : "");
+    }
+  }, [open, advisor]);
+
+  const saveLimitsMutation = useMutation({
+    mutationFn: async () => {
+      if (!advisor) return;
+      return await updateAdvisorLinkLimits(advisor.id, {
+        // The link works through the end of the chosen day
+        expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`) : null,
+        maxViews: maxViews ? parseInt(maxViews) : null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/advisors"] });
+      toast({
+        title: "Link settings saved",
+        description: `The share link limits have been updated for ${advisor?.name}`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      console.error("Error updating link limits:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update link settings. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!advisor) return null;
+
+  const isMaxViewsValid = maxViews === "" || (/^\d+$/.test(maxViews) && parseInt(maxViews) > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-w-[95vw]">
+        <DialogHeader>
+          <DialogTitle>Link activity for {advisor.name}</DialogTitle>
+          <DialogDescription>
+            Limit how long and how often this share link works, and see when it was opened.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="link-expires">Expires after</Label>
+            <Input
+              id="link-expires"
+              type="date"
+              min={toDateInputValue(new Date())}
+              value={expiresOn}
+              onChange={(e) => setExpiresOn(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Leave empty to never expire</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="link-max-views">Maximum views</Label>
+            <Input
+              id="link-max-views"
+              type="number"
+              min={1}
+              placeholder="Unlimited"
+              value={maxViews}
+              onChange={(e) => setMaxViews(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Viewed {advisor.viewCount} {advisor.viewCount === 1 ? "time" : "times"} so far
+            </p>
+          </div>
+        </div>
+
+        <Separator />
+
+        <div>
+          <h3 className="text-sm font-medium mb-2">Access log</h3>
+          <div className="max-h-[240px] overflow-y-auto">
+            {isLoadingLog ? (
+              <div className="flex items-center justify-center py-6">
+                <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-primary"></div>
+              </div>
+            ) : accessLog.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4 text-center">
+                This link hasn't been opened yet.
+              </p>
+            ) : (
+              <ul className="divide-y divide-border/60">
+                {accessLog.map(entry => (
+                  <li key={entry.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+                    <div className="flex items-center gap-2 min-w-0">
+                      {entry.allowed ? (
+                        <Eye className="h-4 w-4 text-muted-foreground shrink-0" />
+                      ) : (
+                        <EyeOff className="h-4 w-4 text-destructive shrink-0" />
+                      )}
+                      <span className="truncate" title={entry.userAgent || undefined}>
+                        {describeUserAgent(entry.userAgent)}
+                      </span>
+                      {!entry.allowed && (
+                        <span className="text-xs text-destructive shrink-0">Blocked</span>
+                      )}
+                    </div>
+                    <span className="text-xs text-muted-foreground shrink-0">
+                      {new Date(entry.accessedAt).toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="flex flex-col sm:flex-row sm:justify-between sm:space-x-2">
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveLimitsMutation.mutate()}
+            disabled={!isMaxViewsValid || saveLimitsMutation.isPending}
+          >
+            {saveLimitsMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,7 +4,7 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { User as SelectUser, InsertUser } from "@shared/schema";
+import { User as SelectUser, InsertUser, UserRole } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
@@ -20,6 +20,11 @@ type AuthContextType = {
   registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
 };
 
+// Advisors land on their caseload, students on their dashboard
+export function getHomePath(user: SelectUser) {
+  return user.role === UserRole.ADVISOR ? "/advisor" : "/dashboard";
+}
+
 // Create a context
 export const AuthContext = createContext<AuthContextType | null>(null);
 
@@ -50,7 +55,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       // Update both cache entries
       queryClient.setQueryData(["/api/me"], user);
       queryClient.setQueryData(["/api/user"], user);
-      setLocation("/dashboard");
+      setLocation(getHomePath(user));
       toast({
         title: "Login successful",
         description: `Welcome back, ${user.username}!`,
@@ -1,4 +1,4 @@
-import { Advisor, InsertAdvisor, CollegeRecommendation, ChatSession } from "@shared/schema";
+import { Advisor, AdvisorPermissions, AdvisorLinkLimits, InsertAdvisor, CollegeRecommendation, ChatSession, SharedChatCollection } from "@shared/schema";
 import { apiRequest } from "./queryClient";
 
 // Get all advisors for the current user
@@ -22,6 +22,20 @@ export async function updateAdvisorStatus(advisorId: number, isActive: boolean)
   return data as Advisor;
 }
 
+// Update what an advisor can see and do through their share link
+export async function updateAdvisorPermissions(advisorId: number, permissions: AdvisorPermissions) {
+  const response = await apiRequest("PATCH", `/api/advisors/${advisorId}/permissions`, permissions);
+  const data = await response.json();
+  return data as Advisor;
+}
+
+// Set or clear the expiry date and view limit on an advisor's share link
+export async function updateAdvisorLinkLimits(advisorId: number, limits: AdvisorLinkLimits) {
+  const response = await apiRequest("PATCH", `/api/advisors/${advisorId}/limits`, limits);
+  const data = await response.json();
+  return data as Advisor;
+}
+
 // Delete an advisor
 export async function deleteAdvisor(advisorId: number) {
   const response = await apiRequest("DELETE", `/api/advisors/${advisorId}`);
@@ -177,4 +191,24 @@ export async function unshareChatsWithAdvisor(advisorId: number, sessionIds: num
     console.error('Unexpected error in unshareChatsWithAdvisor:', error);
     return { success: false, error: 'An unexpected error occurred. Please try again.' };
   }
-}
\ No newline at end of file
+}
+
+// Get the tags and folders shared with an advisor
+export async function getSharedChatCollections(advisorId: number) {
+  const response = await apiRequest("GET", `/api/advisors/${advisorId}/shared-chat-collections`);
+  const data = await response.json();
+  return data as SharedChatCollection[];
+}
+
+// Share a whole tag or folder with an advisor, including sessions added to it later
+export async function shareChatCollectionWithAdvisor(advisorId: number, collection: { tag: string } | { folderId: number }) {
+  const response = await apiRequest("POST", `/api/advisors/${advisorId}/shared-chat-collections`, collection);
+  const data = await response.json();
+  return data as SharedChatCollection;
+}
+
+// Stop sharing a tag or folder with an advisor
+export async function unshareChatCollectionWithAdvisor(advisorId: number, collectionId: number) {
+  const response = await apiRequest("DELETE", `/api/advisors/${advisorId}/shared-chat-collections/${collectionId}`);
+  return response;
+}
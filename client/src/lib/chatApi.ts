@@ -1,6 +1,7 @@
 // Chat-related API functions
 
-import { ChatMessage, ChatSession, MessageFeedback } from "@shared/schema";
+import { ChatMessage, ChatMessageWithSiblings, ChatSession, ChatSearchResult, ChatFolder, ChatSessionOrganization, MessageFeedback, WebCitation, CitationSupport } from "@shared/schema";
+import { apiRequest } from "./queryClient";
 
 // Fetch all chat sessions
 export const fetchChatSessions = async () => {
@@ -13,7 +14,7 @@ export const fetchChatSessions = async () => {
   return response.json() as Promise<ChatSession[]>;
 };
 
-// Fetch messages for a specific chat session
+// Fetch the messages on the branch of a chat session being shown
 export const fetchChatMessages = async (sessionId: number) => {
   const response = await fetch(`/api/chat/sessions/${sessionId}/messages`);
   
@@ -21,7 +22,24 @@ export const fetchChatMessages = async (sessionId: number) => {
     throw new Error("Failed to fetch chat messages");
   }
   
-  return response.json() as Promise<ChatMessage[]>;
+  return response.json() as Promise<ChatMessageWithSiblings[]>;
+};
+
+// Show another version of a message, returning the branch that continues from it
+export const switchChatBranch = async (sessionId: number, messageId: number) => {
+  const response = await apiRequest("PATCH", `/api/chat/sessions/${sessionId}/active-message`, { messageId });
+  return response.json() as Promise<ChatMessageWithSiblings[]>;
+};
+
+// Search the text of every message in the user's chats, best matches first
+export const searchChatMessages = async (query: string) => {
+  const response = await fetch(`/api/chat/search?q=${encodeURIComponent(query)}`);
+  
+  if (!response.ok) {
+    throw new Error("Failed to search chat messages");
+  }
+  
+  return response.json() as Promise<ChatSearchResult[]>;
 };
 
 // Create a new chat session
@@ -74,19 +92,49 @@ export const deleteChatSession = async (sessionId: number) => {
   return response.json() as Promise<{ success: boolean }>;
 };
 
+// Pin a session, set its tags, or move it to a folder (null for none)
+export const updateChatSessionOrganization = async (sessionId: number, updates: ChatSessionOrganization) => {
+  const response = await apiRequest("PATCH", `/api/chat/sessions/${sessionId}/organization`, updates);
+  return response.json() as Promise<ChatSession>;
+};
+
+// Fetch the user's chat folders
+export const fetchChatFolders = async () => {
+  const response = await apiRequest("GET", "/api/chat/folders");
+  return response.json() as Promise<ChatFolder[]>;
+};
+
+export const createChatFolder = async (name: string) => {
+  const response = await apiRequest("POST", "/api/chat/folders", { name });
+  return response.json() as Promise<ChatFolder>;
+};
+
+export const renameChatFolder = async (folderId: number, name: string) => {
+  const response = await apiRequest("PATCH", `/api/chat/folders/${folderId}`, { name });
+  return response.json() as Promise<ChatFolder>;
+};
+
+// Delete a folder; its sessions are kept outside any folder
+export const deleteChatFolder = async (folderId: number) => {
+  const response = await apiRequest("DELETE", `/api/chat/folders/${folderId}`);
+  return response.json() as Promise<{ success: boolean }>;
+};
+
 // Send a message to a chat session or create a new session if needed
-// This is a single request that sends the user message and returns both the user message and AI response
+// The AI reply is streamed back as Server-Sent Events; onUpdate is called with the
+// full text received so far, and the promise resolves with both saved messages once done
 export const sendChatMessage = async (
   sessionId: number | null, 
   content: string, 
   attachments?: { filename: string; url: string; contentType: string; size: number }[],
   shareWithAdvisorIds?: number[],
   useWebSearch?: boolean,
-  extendThinking?: boolean
+  extendThinking?: boolean,
+  onUpdate?: (text: string) => void
 ) => {
   let url = sessionId 
-    ? `/api/chat/sessions/${sessionId}/messages` 
-    : `/api/chat/messages`;  // New endpoint for sessionless messages
+    ? `/api/chat/sessions/${sessionId}/messages/stream` 
+    : `/api/chat/messages/stream`;  // New endpoint for sessionless messages
   
   console.log(`Sending message to ${sessionId ? `session ${sessionId}` : 'new session'}: ${content}`);
   
@@ -109,22 +157,144 @@ export const sendChatMessage = async (
     method: "POST",
     headers: {
       "Content-Type": "application/json",
+      "Accept": "text/event-stream",
     },
     body: JSON.stringify(payload),
   });
   
-  if (!response.ok) {
+  if (!response.ok || !response.body) {
     console.error("Server error response:", response);
     throw new Error("Failed to send message");
   }
   
-  const result = await response.json();
+  const result = await readChatStream(response.body, onUpdate);
+  
   console.log("Response from server:", result);
   
-  // If the response includes sharedAdvisorIds, that means the server successfully
-  // shared the chat with the specified advisors
-  if (result.sharedAdvisorIds) {
-    console.log("Server reports chat shared with advisors:", result.sharedAdvisorIds);
+  return result;
+};
+
+// Send new text for a message; the AI reply to it streams back like sendChatMessage
+export const editChatMessage = async (
+  sessionId: number,
+  messageId: number,
+  content: string,
+  useWebSearch?: boolean,
+  extendThinking?: boolean,
+  onUpdate?: (text: string) => void
+) => {
+  const response = await fetch(`/api/chat/sessions/${sessionId}/messages/${messageId}/edit/stream`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Accept": "text/event-stream",
+    },
+    body: JSON.stringify({ content, useWebSearch, extendThinking }),
+  });
+  
+  if (!response.ok || !response.body) {
+    throw new Error("Failed to edit message");
+  }
+  
+  return readChatStream(response.body, onUpdate);
+};
+
+// Ask for another version of an AI reply, streamed back like sendChatMessage
+export const regenerateChatMessage = async (
+  sessionId: number,
+  messageId: number,
+  useWebSearch?: boolean,
+  extendThinking?: boolean,
+  onUpdate?: (text: string) => void
+) => {
+  const response = await fetch(`/api/chat/sessions/${sessionId}/messages/${messageId}/regenerate/stream`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Accept": "text/event-stream",
+    },
+    body: JSON.stringify({ useWebSearch, extendThinking }),
+  });
+  
+  if (!response.ok || !response.body) {
+    throw new Error("Failed to regenerate message");
+  }
+  
+  return readChatStream(response.body, onUpdate);
+};
+
+// What a streamed chat reply resolves to, in the same shape the non-streaming endpoint returns
+export type ChatStreamResult = {
+  userMessage?: ChatMessage;
+  aiMessage?: ChatMessage;
+  sessionId?: number;
+  profileUpdated?: boolean;
+  profileUpdateProposed?: boolean;
+  searchQueries?: string[] | null;
+  citations?: WebCitation[];
+  citationSupports?: CitationSupport[];
+  error?: string;
+};
+
+// Collect the Server-Sent Events of a chat reply, calling onUpdate with the full text received so far
+const readChatStream = async (body: ReadableStream<Uint8Array>, onUpdate?: (text: string) => void) => {
+  const result: ChatStreamResult = {};
+  let text = "";
+  
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    
+    buffer += decoder.decode(value, { stream: true });
+    
+    // Events are separated by a blank line
+    const events = buffer.split("\n\n");
+    buffer = events.pop() || "";
+    
+    for (const rawEvent of events) {
+      let eventName = "message";
+      let data = "";
+      
+      for (const line of rawEvent.split("\n")) {
+        if (line.startsWith("event:")) {
+          eventName = line.slice(6).trim();
+        } else if (line.startsWith("data:")) {
+          data += line.slice(5).trim();
+        }
+      }
+      
+      if (!data) continue;
+      const parsed = JSON.parse(data);
+      
+      switch (eventName) {
+        case "user-message":
+          result.userMessage = parsed.userMessage;
+          break;
+        case "delta":
+          text += parsed.text;
+          onUpdate?.(text);
+          break;
+        case "citations":
+          result.citations = parsed.citations;
+          result.citationSupports = parsed.citationSupports;
+          result.searchQueries = parsed.searchQueries;
+          break;
+        case "done":
+          result.aiMessage = parsed.aiMessage;
+          result.sessionId = parsed.sessionId;
+          result.profileUpdated = parsed.profileUpdated;
+          result.profileUpdateProposed = parsed.profileUpdateProposed;
+          result.searchQueries = parsed.searchQueries;
+          break;
+        case "error":
+          result.error = parsed.error;
+          break;
+      }
+    }
   }
   
   return result;
@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { LogOut, Users, ExternalLink, UserMinus, Clock } from "lucide-react";
+import { CaseloadStudent, CollegeStatus } from "@shared/schema";
+import Logo from "@/components/logo";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+const statusLabels = {
+  [CollegeStatus.APPLYING]: "Applying",
+  [CollegeStatus.RESEARCHING]: "Researching",
+  [CollegeStatus.NOT_APPLYING]: "Not applying",
+};
+
+// Pull the share token out of a pasted link, or accept the bare token
+function extractShareToken(input: string) {
+  const match = input.match(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i);
+  return match ? match[0].toLowerCase() : null;
+}
+
+function formatActivity(date: string | null) {
+  if (!date) return "No activity yet";
+  return `Active ${new Date(date).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" })}`;
+}
+
+// Caseload for advisor accounts: every student whose share link the advisor has claimed
+export default function AdvisorDashboard() {
+  const { user, logoutMutation } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [linkInput, setLinkInput] = useState("");
+
+  const { data: students = [], isLoading, error } = useQuery<CaseloadStudent[]>({
+    queryKey: ['/api/advisor/students'],
+  });
+
+  const claimMutation = useMutation({
+    mutationFn: async (shareToken: string) => {
+      const res = await apiRequest('POST', '/api/advisor/claims', { shareToken });
+      return await res.json() as CaseloadStudent;
+    },
+    onSuccess: (student) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/advisor/students'] });
+      setLinkInput("");
+      toast({
+        title: "Student added",
+        description: `${student.username} is now in your caseload.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't add student",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (advisorId: number) => {
+      return await apiRequest('DELETE', `/api/advisor/claims/${advisorId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/advisor/students'] });
+      toast({
+        title: "Student removed",
+        description: "You can still open their share link directly.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to remove student. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleClaim = (e: React.FormEvent) => {
+    e.preventDefault();
+    const shareToken = extractShareToken(linkInput);
+    if (!shareToken) {
+      toast({
+        title: "Invalid link",
+        description: "Paste the share link the student sent you.",
+        variant: "destructive",
+      });
+      return;
+    }
+    claimMutation.mutate(shareToken);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="flex items-center justify-between px-4 lg:px-8 py-4 border-b border-border/40 bg-card">
+        <Logo className="h-8 w-auto" />
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-muted-foreground hidden sm:inline">{user?.username}</span>
+          <Button variant="ghost" size="sm" onClick={() => logoutMutation.mutate()}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Log out
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-5xl">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold flex items-center">
+            <Users className="h-6 w-6 mr-2 text-primary" />
+            Your students
+          </h1>
+          <p className="text-muted-foreground">
+            Everyone who shared their CollegeWayfarer profile with you, most recently active first.
+          </p>
+        </div>
+
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle className="text-lg">Add a student</CardTitle>
+            <CardDescription>Paste the share link a student sent you to keep it in your caseload.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleClaim} className="flex flex-col sm:flex-row gap-2">
+              <Input
+                placeholder="https://.../shared/..."
+                value={linkInput}
+                onChange={(e) => setLinkInput(e.target.value)}
+              />
+              <Button type="submit" disabled={!linkInput.trim() || claimMutation.isPending}>
+                {claimMutation.isPending ? "Adding..." : "Add student"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+          </div>
+        ) : error ? (
+          <p className="text-destructive text-center py-12">Failed to load your students. Please refresh the page.</p>
+        ) : students.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <Users className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>No students yet. Add a share link above to get started.</p>
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {students.map(student => (
+              <Card key={student.advisorId} className={student.isActive ? "" : "opacity-70"}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <CardTitle className="text-lg">{student.username}</CardTitle>
+                      <CardDescription>You're their {student.relationship.toLowerCase()}</CardDescription>
+                    </div>
+                    {!student.isActive && <Badge variant="outline">Link inactive</Badge>}
+                  </div>
+                  <div className="flex items-center text-xs text-muted-foreground pt-1">
+                    <Clock className="h-3.5 w-3.5 mr-1" />
+                    {formatActivity(student.lastActivityAt)}
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex flex-wrap gap-2">
+                    {Object.entries(statusLabels)
+                      .filter(([status]) => status in student.collegeCounts)
+                      .map(([status, label]) => (
+                        <Badge key={status} variant="secondary">
+                          {label}: {student.collegeCounts[status as keyof typeof statusLabels]}
+                        </Badge>
+                      ))}
+                  </div>
+
+                  {student.recentCollegeChanges.length > 0 && (
+                    <div>
+                      <p className="text-xs font-medium text-muted-foreground mb-1">Recent college list changes</p>
+                      <ul className="space-y-1">
+                        {student.recentCollegeChanges.map(change => (
+                          <li key={change.id} className="flex items-center justify-between text-sm">
+                            <span className="truncate">
+                              {change.name}
+                              {change.isNew && <Badge className="ml-2 h-4 px-1.5 text-[10px]">New</Badge>}
+                            </span>
+                            <span className="text-xs text-muted-foreground shrink-0 ml-2">
+                              {statusLabels[change.status]}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  <div className="flex justify-between gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-muted-foreground"
+                      onClick={() => removeMutation.mutate(student.advisorId)}
+                      disabled={removeMutation.isPending}
+                    >
+                      <UserMinus className="h-4 w-4 mr-1" />
+                      Remove
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => window.location.href = `/shared/${student.shareToken}`}
+                      disabled={!student.isActive}
+                    >
+                      <ExternalLink className="h-4 w-4 mr-1" />
+                      Open profile
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
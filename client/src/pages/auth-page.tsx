@@ -5,7 +5,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { insertUserSchema } from "@shared/schema";
+import { insertUserSchema, UserRole } from "@shared/schema";
 import Logo from "@/components/logo";
 import { Loader2 } from "lucide-react";
 import { useLocation } from "wouter";
@@ -13,7 +13,7 @@ import { useState, useEffect } from "react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { User as SelectUser } from "@shared/schema";
-import { useAuth } from "@/hooks/use-auth";
+import { useAuth, getHomePath } from "@/hooks/use-auth";
 
 // Schemas for form validation
 const loginSchema = z.object({
@@ -35,11 +35,12 @@ export default function AuthPage() {
   const [, setLocation] = useLocation();
   const [isLoggingIn, setIsLoggingIn] = useState(false);
   const [isRegistering, setIsRegistering] = useState(false);
+  const [showAdvisorSignup, setShowAdvisorSignup] = useState(false);
   
   // Redirect to dashboard if already logged in
   useEffect(() => {
     if (!isLoading && user) {
-      setLocation("/dashboard");
+      setLocation(getHomePath(user));
     }
   }, [user, isLoading, setLocation]);
   
@@ -79,7 +80,7 @@ export default function AuthPage() {
       });
       
       // Redirect to dashboard
-      window.location.href = "/dashboard";
+      window.location.href = getHomePath(user);
     } catch (error) {
       toast({
         title: "Login failed",
@@ -91,11 +92,11 @@ export default function AuthPage() {
     }
   };
 
-  // Register handler
+  // Register handler - students sign up through onboarding, so this creates advisor accounts
   const handleRegister = async (data: RegisterFormValues) => {
     try {
       setIsRegistering(true);
-      const res = await apiRequest("POST", "/api/register", data);
+      const res = await apiRequest("POST", "/api/register", { ...data, role: UserRole.ADVISOR });
       const user: SelectUser = await res.json();
       
       // Update both cache entries
@@ -108,8 +109,8 @@ export default function AuthPage() {
         description: `Welcome to CollegeWayfarer, ${user.username}!`,
       });
       
-      // Redirect to dashboard using window.location for a full reload
-      window.location.href = "/dashboard";
+      // Redirect to the caseload using window.location for a full reload
+      window.location.href = getHomePath(user);
     } catch (error) {
       toast({
         title: "Registration failed",
@@ -208,6 +209,84 @@ export default function AuthPage() {
               </div>
             </TabsContent>
           </Tabs>
+
+          {/* Advisor sign up - counselors get a caseload instead of the student onboarding */}
+          {showAdvisorSignup ? (
+            <div className="bg-card p-6 rounded-lg border border-border/40 mt-6">
+              <h2 className="font-semibold mb-1">Create an advisor account</h2>
+              <p className="text-sm text-muted-foreground mb-4">
+                Keep every student who shares their profile with you in one caseload.
+              </p>
+              <form onSubmit={registerForm.handleSubmit(handleRegister)}>
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="register-username">Username</Label>
+                    <Input
+                      id="register-username"
+                      placeholder="Choose a username"
+                      {...registerForm.register("username")}
+                    />
+                    {registerForm.formState.errors.username && (
+                      <p className="text-sm text-destructive">
+                        {registerForm.formState.errors.username.message}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="register-password">Password</Label>
+                    <Input
+                      id="register-password"
+                      type="password"
+                      placeholder="Choose a password"
+                      {...registerForm.register("password")}
+                    />
+                    {registerForm.formState.errors.password && (
+                      <p className="text-sm text-destructive">
+                        {registerForm.formState.errors.password.message}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="flex-1"
+                      onClick={() => setShowAdvisorSignup(false)}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      type="submit"
+                      className="flex-1 bg-primary hover:bg-primary/90"
+                      disabled={isRegistering}
+                    >
+                      {isRegistering ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Creating...
+                        </>
+                      ) : (
+                        "Create account"
+                      )}
+                    </Button>
+                  </div>
+                </div>
+              </form>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center mt-6">
+              Counselor or advisor?{" "}
+              <button
+                type="button"
+                className="text-primary hover:underline"
+                onClick={() => setShowAdvisorSignup(true)}
+              >
+                Create an advisor account
+              </button>
+            </p>
+          )}
         </div>
       </div>
 
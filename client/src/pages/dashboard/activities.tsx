@@ -0,0 +1,189 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { GripVertical, Pencil, Plus, Trash2, Trophy } from "lucide-react";
+import {
+  Activity,
+  ActivityTypeLabels,
+  ACTIVITY_DESCRIPTION_LIMIT,
+  MAX_ACTIVITIES,
+} from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ActivityDialog, CharacterCount } from "@/components/ActivityDialog";
+import { Button } from "@/components/ui/button";
+
+// "Grades 9-12 · 6 hrs/wk · 30 wks/yr"
+function participationSummary(activity: Activity) {
+  const levels = activity.gradeLevels;
+  const grades = levels.length === 0 ? null
+    : levels.length > 2 && levels[levels.length - 1] - levels[0] === levels.length - 1
+      ? `Grades ${levels[0]}-${levels[levels.length - 1]}`
+      : `Grade${levels.length > 1 ? "s" : ""} ${levels.join(", ")}`;
+  return [
+    grades,
+    activity.hoursPerWeek !== null && `${activity.hoursPerWeek} hrs/wk`,
+    activity.weeksPerYear !== null && `${activity.weeksPerYear} wks/yr`,
+  ].filter(Boolean).join(" · ");
+}
+
+// The student's extracurriculars in Common App format, ranked by dragging
+export default function ActivitiesTab() {
+  const [editing, setEditing] = useState<Activity | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [order, setOrder] = useState<Activity[]>([]);
+  const dragId = useRef<number | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: activities = [], isLoading } = useQuery<Activity[]>({
+    queryKey: ["/api/activities"],
+  });
+
+  // Local copy so the list can be rearranged while dragging
+  useEffect(() => {
+    setOrder(activities);
+  }, [activities]);
+
+  const reorderMutation = useMutation({
+    mutationFn: async (activityIds: number[]) => {
+      const res = await apiRequest("PUT", "/api/activities/order", { activityIds });
+      return await res.json() as Activity[];
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/activities"], updated);
+    },
+    onError: (error: any) => {
+      console.error("Error reordering activities:", error);
+      setOrder(activities);
+      toast({
+        title: "Error",
+        description: "Failed to save the new order. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (activityId: number) => {
+      await apiRequest("DELETE", `/api/activities/${activityId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+    },
+    onError: (error: any) => {
+      console.error("Error deleting activity:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete this activity. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openEditor = (activity: Activity | null) => {
+    setEditing(activity);
+    setDialogOpen(true);
+  };
+
+  // Move the dragged activity into the hovered one's place
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, overId: number) => {
+    e.preventDefault();
+    const draggedId = dragId.current;
+    if (draggedId === null || draggedId === overId) return;
+
+    setOrder(prev => {
+      const from = prev.findIndex(activity => activity.id === draggedId);
+      const to = prev.findIndex(activity => activity.id === overId);
+      if (from === -1 || to === -1) return prev;
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  // Save the order once the drag is over, if it changed
+  const handleDragEnd = () => {
+    dragId.current = null;
+    const ids = order.map(activity => activity.id);
+    if (ids.some((id, i) => id !== activities[i]?.id)) {
+      reorderMutation.mutate(ids);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <header className="bg-card border-b border-border/40 py-4 px-4 sm:px-6 flex flex-wrap justify-between items-center gap-3">
+        <div>
+          <h1 className="text-xl font-bold">Activities</h1>
+          <p className="text-sm text-muted-foreground">
+            {activities.length}/{MAX_ACTIVITIES} · Drag to rank them, most important first
+          </p>
+        </div>
+        <Button onClick={() => openEditor(null)} disabled={activities.length >= MAX_ACTIVITIES}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Activity
+        </Button>
+      </header>
+
+      <ActivityDialog activity={editing} open={dialogOpen} onOpenChange={setDialogOpen} />
+
+      <div className="flex-1 p-4 sm:p-6">
+        <div className="max-w-3xl mx-auto space-y-3">
+          {isLoading ? (
+            <div className="h-24 bg-muted animate-pulse rounded" />
+          ) : order.length === 0 ? (
+            <div className="border border-dashed border-border/60 rounded-lg p-8 text-center">
+              <Trophy className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
+              <p className="text-sm text-muted-foreground mb-4">
+                List clubs, sports, jobs, family responsibilities and anything else you spend time on. The Common App has room for {MAX_ACTIVITIES}.
+              </p>
+              <Button variant="outline" onClick={() => openEditor(null)}>Add your first activity</Button>
+            </div>
+          ) : (
+            order.map((activity, index) => (
+              <div
+                key={activity.id}
+                draggable
+                onDragStart={() => { dragId.current = activity.id; }}
+                onDragOver={(e) => handleDragOver(e, activity.id)}
+                onDragEnd={handleDragEnd}
+                className="flex gap-3 p-4 bg-card border border-border/40 rounded-lg cursor-move"
+              >
+                <div className="flex flex-col items-center text-muted-foreground">
+                  <span className="text-sm font-semibold">{index + 1}</span>
+                  <GripVertical className="h-4 w-4 mt-1" />
+                </div>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="text-xs text-muted-foreground">{ActivityTypeLabels[activity.type]}</div>
+                  <div className="font-medium truncate">
+                    {[activity.role, activity.organization].filter(Boolean).join(", ") || "Untitled activity"}
+                  </div>
+                  {activity.description && <p className="text-sm">{activity.description}</p>}
+                  <div className="flex flex-wrap items-center gap-x-3 text-xs text-muted-foreground">
+                    {participationSummary(activity) && <span>{participationSummary(activity)}</span>}
+                    <CharacterCount value={activity.description} limit={ACTIVITY_DESCRIPTION_LIMIT} />
+                  </div>
+                </div>
+                <div className="flex flex-col gap-1">
+                  <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground" onClick={() => openEditor(activity)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(activity.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { AdvisorType, AdvisorTypeValue } from "@shared/schema";
+import { Advisor, AdvisorType, AdvisorTypeValue } from "@shared/schema";
 import { fetchAdvisors, createAdvisor, updateAdvisorStatus, deleteAdvisor, getShareUrl } from "@/lib/advisorApi";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,10 +9,14 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter }
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
 import { AlertDialogTrigger, AlertDialogContent, AlertDialogHeader, AlertDialogTitle, AlertDialogDescription, AlertDialogFooter, AlertDialog } from "@/components/ui/alert-dialog";
 import { ShareChatsDialog } from "@/components/ShareChatsDialog";
+import { ShareEssaysDialog } from "@/components/ShareEssaysDialog";
+import { AdvisorPermissionsDialog } from "@/components/AdvisorPermissionsDialog";
+import { ShareLinkActivityDialog } from "@/components/ShareLinkActivityDialog";
 import { useToast } from "@/hooks/use-toast";
-import { Copy, Trash2, UserPlus, Link, Mail, Share2, MessageSquare } from "lucide-react";
+import { Copy, Trash2, UserPlus, Link, Mail, Share2, MessageSquare, FileText, ShieldCheck, Activity } from "lucide-react";
 
 export default function AdvisorsTab() {
   const [name, setName] = useState("");
@@ -22,6 +26,9 @@ export default function AdvisorsTab() {
   const [deleteDialogAdvisor, setDeleteDialogAdvisor] = useState<any>(null);
   const [shareChatDialogOpen, setShareChatDialogOpen] = useState(false);
   const [selectedAdvisorForChats, setSelectedAdvisorForChats] = useState<any>(null);
+  const [selectedAdvisorForEssays, setSelectedAdvisorForEssays] = useState<any>(null);
+  const [selectedAdvisorForPermissions, setSelectedAdvisorForPermissions] = useState<Advisor | null>(null);
+  const [selectedAdvisorForActivity, setSelectedAdvisorForActivity] = useState<Advisor | null>(null);
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -218,6 +225,27 @@ export default function AdvisorsTab() {
         advisor={selectedAdvisorForChats}
       />
 
+      {/* Share Essays Dialog */}
+      <ShareEssaysDialog
+        open={!!selectedAdvisorForEssays}
+        onOpenChange={(open) => !open && setSelectedAdvisorForEssays(null)}
+        advisor={selectedAdvisorForEssays}
+      />
+
+      {/* Advisor Permissions Dialog */}
+      <AdvisorPermissionsDialog
+        open={!!selectedAdvisorForPermissions}
+        onOpenChange={(open) => !open && setSelectedAdvisorForPermissions(null)}
+        advisor={selectedAdvisorForPermissions}
+      />
+
+      {/* Share Link Activity Dialog */}
+      <ShareLinkActivityDialog
+        open={!!selectedAdvisorForActivity}
+        onOpenChange={(open) => !open && setSelectedAdvisorForActivity(null)}
+        advisor={selectedAdvisorForActivity}
+      />
+
       {isLoading ? (
         <div className="flex justify-center py-10">
           <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-primary"></div>
@@ -257,6 +285,9 @@ export default function AdvisorsTab() {
                   <div>
                     <CardTitle>{advisor.name}</CardTitle>
                     <CardDescription>{advisor.type}</CardDescription>
+                    {advisor.accountUserId !== null && (
+                      <Badge variant="secondary" className="mt-2">Added to their advisor account</Badge>
+                    )}
                   </div>
                   <AlertDialog>
                     <AlertDialogTrigger asChild>
@@ -309,6 +340,22 @@ export default function AdvisorsTab() {
                       {advisor.isActive ? "Active" : "Inactive"}
                     </Label>
                   </div>
+                  {advisor.expiresAt && new Date(advisor.expiresAt) <= new Date() ? (
+                    <Badge variant="destructive">Expired</Badge>
+                  ) : advisor.maxViews !== null && advisor.viewCount >= advisor.maxViews ? (
+                    <Badge variant="destructive">View limit reached</Badge>
+                  ) : null}
+                </div>
+                <div className="text-xs text-muted-foreground mt-2 space-y-0.5">
+                  <p>
+                    {advisor.lastViewedAt
+                      ? `Last viewed ${new Date(advisor.lastViewedAt).toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })}`
+                      : "Not viewed yet"}
+                    {advisor.maxViews !== null && ` · ${advisor.viewCount} of ${advisor.maxViews} views`}
+                  </p>
+                  {advisor.expiresAt && new Date(advisor.expiresAt) > new Date() && (
+                    <p>Expires {new Date(advisor.expiresAt).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" })}</p>
+                  )}
                 </div>
               </CardContent>
               <CardFooter className="flex flex-wrap gap-2 justify-between pt-1">
@@ -321,6 +368,35 @@ export default function AdvisorsTab() {
                   <MessageSquare className="h-4 w-4 mr-2" />
                   Share Chats
                 </Button>
+
+                <Button 
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setSelectedAdvisorForEssays(advisor)}
+                  disabled={!advisor.isActive}
+                >
+                  <FileText className="h-4 w-4 mr-2" />
+                  Share Essays
+                </Button>
+
+                <Button 
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setSelectedAdvisorForPermissions(advisor)}
+                  disabled={!advisor.isActive}
+                >
+                  <ShieldCheck className="h-4 w-4 mr-2" />
+                  Permissions
+                </Button>
+
+                <Button 
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setSelectedAdvisorForActivity(advisor)}
+                >
+                  <Activity className="h-4 w-4 mr-2" />
+                  Link Activity
+                </Button>
                 
                 <Dialog>
                   <DialogTrigger asChild>
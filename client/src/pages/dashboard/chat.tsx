@@ -1,31 +1,29 @@
 import { useEffect, useState, FormEvent, useRef } from "react";
-import { SendHorizontal, History, PlusCircle, X, Search, Clock, Edit2, Trash2, Brain, Sparkles, ThumbsUp, ThumbsDown, File as FileIcon } from "lucide-react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { SendHorizontal, History, PlusCircle, X, Search, Clock, Edit2, Trash2, Brain, Sparkles, ThumbsUp, ThumbsDown, File as FileIcon, Pin, PinOff, Tag, Folder, RefreshCw, ChevronLeft, ChevronRight } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { useLocation } from "wouter";
-import { createChatSession, sendChatMessage, fetchChatSessions, fetchChatMessages, updateChatSessionTitle, deleteChatSession, submitMessageFeedback } from "@/lib/chatApi";
+import { createChatSession, sendChatMessage, fetchChatSessions, fetchChatMessages, searchChatMessages, updateChatSessionTitle, deleteChatSession, submitMessageFeedback, fetchChatFolders, renameChatFolder, deleteChatFolder, updateChatSessionOrganization, editChatMessage, regenerateChatMessage, switchChatBranch, type ChatStreamResult } from "@/lib/chatApi";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ChatSessionOrganizeDialog } from "@/components/ChatSessionOrganizeDialog";
 import {
   Tooltip,
   TooltipContent,
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { ChatSession, FileAttachment } from "@shared/schema";
+import { ChatSession, ChatFolder, ChatMessageWithSiblings, ChatSearchResult, FileAttachment, WebCitation, CitationSupport, AdvisorCommentWithAdvisor } from "@shared/schema";
 import { Separator } from "@/components/ui/separator";
 import { cn } from "@/lib/utils";
 import { ChatShareControls } from "@/components/ChatShareControls";
 import { FileAttachmentButton, AttachmentPreview } from "@/components/FileAttachment";
-
-// Citation interface for web search results
-type Citation = {
-  title: string;
-  uri: string;
-  snippet?: string | null;
-};
+import { MessageSources, addFootnoteMarkers } from "@/components/MessageSources";
+import { StudentCommentThreads, useMarkCommentsRead, isUnreadComment } from "@/components/AdvisorComments";
 
 // Basic message type
 type Message = {
@@ -33,13 +31,28 @@ type Message = {
   content: string;
   sender: "user" | "ai";
   attachments?: FileAttachment[];
-  // Citations are now embedded directly in the content
-  // We still keep searchQueries for potential debugging or metadata
+  // Web sources that grounded an AI response, and the text spans they support
+  citations?: WebCitation[] | null;
+  citationSupports?: CitationSupport[] | null;
   searchQueries?: string[] | null;
+  // Every version of this message from edits or regenerations, oldest first; unset until saved
+  siblingIds?: number[];
 };
 
+// Transform a saved message to our local format
+const toMessage = (msg: ChatMessageWithSiblings): Message => ({
+  id: msg.id,
+  content: msg.content,
+  sender: msg.sender as "user" | "ai",
+  attachments: msg.attachments?.length ? msg.attachments : undefined,
+  citations: msg.citations,
+  citationSupports: msg.citationSupports,
+  searchQueries: msg.sender === "ai" ? msg.searchQueries : null,
+  siblingIds: msg.siblingIds
+});
+
 // Memory Update Notification Component
-const MemoryUpdateNotification = () => {
+const MemoryUpdateNotification = ({ pendingReview }: { pendingReview: boolean }) => {
   return (
     <div className="mb-4 flex">
       <div className="flex items-center bg-primary/10 border border-primary/30 text-primary rounded-md px-3 py-1.5 text-sm memory-notification">
@@ -55,7 +68,7 @@ const MemoryUpdateNotification = () => {
             strokeLinejoin="round"
           />
         </svg>
-        Memory updated
+        {pendingReview ? "Profile change waiting for your review" : "Memory updated"}
       </div>
     </div>
   );
@@ -64,13 +77,83 @@ const MemoryUpdateNotification = () => {
 import ReactMarkdown, { Components } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
-// No longer need the Citations component as citations are now embedded in the response text
+// Arrows for stepping through the versions of a message, e.g. "< 2 / 3 >"
+const VersionSwitcher = ({
+  message,
+  onSwitch,
+  disabled,
+}: {
+  message: Message;
+  onSwitch: (messageId: number) => void;
+  disabled: boolean;
+}) => {
+  const siblingIds = message.siblingIds ?? [];
+  const index = siblingIds.indexOf(message.id);
+  if (siblingIds.length < 2 || index === -1) return null;
+  
+  return (
+    <div className="flex items-center text-xs text-muted-foreground">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 w-7 p-0"
+        disabled={disabled || index === 0}
+        onClick={() => onSwitch(siblingIds[index - 1])}
+      >
+        <ChevronLeft className="h-4 w-4" />
+        <span className="sr-only">Previous version</span>
+      </Button>
+      <span>{index + 1} / {siblingIds.length}</span>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 w-7 p-0"
+        disabled={disabled || index === siblingIds.length - 1}
+        onClick={() => onSwitch(siblingIds[index + 1])}
+      >
+        <ChevronRight className="h-4 w-4" />
+        <span className="sr-only">Next version</span>
+      </Button>
+    </div>
+  );
+};
 
 // Simple message component
-const ChatMessage = ({ message }: { message: Message }) => {
+const ChatMessage = ({
+  message,
+  comments = [],
+  highlightCommentIds,
+  isFocused = false,
+  isBusy = false,
+  onEdit,
+  onRegenerate,
+  onSwitchVersion,
+}: {
+  message: Message;
+  comments?: AdvisorCommentWithAdvisor[];
+  highlightCommentIds?: number[];
+  isFocused?: boolean; // Opened from a search result or just switched to
+  isBusy?: boolean; // A reply is on its way, so the message can't change yet
+  onEdit?: (content: string) => void;
+  onRegenerate?: () => void;
+  onSwitchVersion?: (messageId: number) => void;
+}) => {
   const isAI = message.sender === "ai";
   const { toast } = useToast();
   const [feedbackSubmitted, setFeedbackSubmitted] = useState<'positive' | 'negative' | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState("");
+  // Temporary messages can't be edited until they're saved
+  const isSaved = message.siblingIds !== undefined;
+  
+  const handleSubmitEdit = () => {
+    const content = editText.trim();
+    if (!content || isBusy) return;
+    setIsEditing(false);
+    if (content !== message.content) {
+      onEdit?.(content);
+    }
+  };
   
   // Handle feedback submission
   const handleFeedback = async (isPositive: boolean) => {
@@ -101,8 +184,11 @@ const ChatMessage = ({ message }: { message: Message }) => {
   };
   
   return (
-    <div className={`${isAI ? "mb-6" : "mb-4"} ${isAI ? "" : "flex justify-end"}`}>
-      <div className={`${isAI ? "max-w-[90%] bg-secondary/60 rounded-lg p-4" : "max-w-[80%] bg-primary rounded-lg p-4"}`}>
+    <div id={`message-${message.id}`} className={`${isAI ? "mb-6" : "mb-4"} ${isAI ? "" : "flex flex-col items-end"}`}>
+      <div className={cn(
+        isAI ? "max-w-[90%] bg-secondary/60 rounded-lg p-4" : "max-w-[80%] bg-primary rounded-lg p-4",
+        isFocused && "ring-2 ring-amber-400 ring-offset-2 ring-offset-background transition-shadow"
+      )}>
         {isAI ? (
           <div className="markdown-content text-foreground">
             <ReactMarkdown 
@@ -133,10 +219,10 @@ const ChatMessage = ({ message }: { message: Message }) => {
                 }
               }}
             >
-              {message.content}
+              {addFootnoteMarkers(message.content, message.citations, message.citationSupports)}
             </ReactMarkdown>
             
-            {/* No need to display citations separately as they're now embedded in the response text */}
+            <MessageSources citations={message.citations} searchQueries={message.searchQueries} />
             
             {/* Feedback buttons for AI messages */}
             {isAI && (
@@ -179,9 +265,61 @@ const ChatMessage = ({ message }: { message: Message }) => {
                     </TooltipContent>
                   </Tooltip>
                 </TooltipProvider>
+                
+                {isSaved && onRegenerate && (
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="rounded-full p-0 h-8 w-8"
+                          onClick={onRegenerate}
+                          disabled={isBusy}
+                        >
+                          <RefreshCw className="h-4 w-4" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Regenerate response</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                )}
+                
+                {onSwitchVersion && (
+                  <div className="ml-auto">
+                    <VersionSwitcher message={message} onSwitch={onSwitchVersion} disabled={isBusy} />
+                  </div>
+                )}
               </div>
             )}
           </div>
+        ) : isEditing ? (
+          <div className="space-y-2">
+            <Textarea
+              value={editText}
+              autoFocus
+              className="min-h-[80px] bg-background text-foreground"
+              onChange={(e) => setEditText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSubmitEdit();
+                } else if (e.key === 'Escape') {
+                  setIsEditing(false);
+                }
+              }}
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" size="sm" onClick={() => setIsEditing(false)}>
+                Cancel
+              </Button>
+              <Button variant="secondary" size="sm" onClick={handleSubmitEdit} disabled={!editText.trim() || isBusy}>
+                Send
+              </Button>
+            </div>
+          </div>
         ) : (
           <div className="text-primary-foreground whitespace-pre-wrap">
             {message.content}
@@ -195,32 +333,108 @@ const ChatMessage = ({ message }: { message: Message }) => {
           </div>
         )}
       </div>
+      
+      {/* Edit and version controls for the student's messages */}
+      {!isAI && isSaved && !isEditing && (onEdit || onSwitchVersion) && (
+        <div className="flex items-center gap-1 mt-1">
+          {onSwitchVersion && <VersionSwitcher message={message} onSwitch={onSwitchVersion} disabled={isBusy} />}
+          {onEdit && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0 text-muted-foreground"
+              disabled={isBusy}
+              onClick={() => {
+                setEditText(message.content);
+                setIsEditing(true);
+              }}
+            >
+              <Edit2 className="h-3.5 w-3.5" />
+              <span className="sr-only">Edit message</span>
+            </Button>
+          )}
+        </div>
+      )}
+      
+      {/* Advisor comments on this message */}
+      {comments.length > 0 && (
+        <div className={`w-full ${isAI ? "max-w-[90%]" : "max-w-[80%]"}`}>
+          <StudentCommentThreads comments={comments} highlightIds={highlightCommentIds} />
+        </div>
+      )}
     </div>
   );
 };
 
+// A search result snippet with the matched words marked
+const HighlightedSnippet = ({ result }: { result: ChatSearchResult }) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  result.highlights.forEach((highlight, index) => {
+    parts.push(result.snippet.slice(position, highlight.start));
+    parts.push(
+      <mark key={index} className="bg-amber-200/70 text-foreground rounded-sm px-0.5">
+        {result.snippet.slice(highlight.start, highlight.end)}
+      </mark>
+    );
+    position = highlight.end;
+  });
+  parts.push(result.snippet.slice(position));
+  return <>{parts}</>;
+};
+
 // Chat History Dialog Component
 function ChatHistoryDialog({
   isOpen,
   onClose,
   onSelectSession,
+  onSelectMessage,
   onDeleteSession,
   onRenameSession,
+  unreadSessionIds,
 }: {
   isOpen: boolean;
   onClose: () => void;
   onSelectSession: (sessionId: number) => void;
   onDeleteSession: (sessionId: number) => void;
   onRenameSession: (sessionId: number, newTitle: string) => void;
+  onSelectMessage: (sessionId: number, messageId: number) => void;
+  unreadSessionIds: number[];
 }) {
   const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [folders, setFolders] = useState<ChatFolder[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
   const [isEditing, setIsEditing] = useState<number | null>(null);
   const [editTitle, setEditTitle] = useState("");
+  const [editingFolderId, setEditingFolderId] = useState<number | null>(null);
+  const [editFolderName, setEditFolderName] = useState("");
+  const [organizingSession, setOrganizingSession] = useState<ChatSession | null>(null);
+  const [messageResults, setMessageResults] = useState<ChatSearchResult[]>([]);
+  const [isSearchingMessages, setIsSearchingMessages] = useState(false);
+  const isSearching = searchQuery.trim() !== "";
+  const { toast } = useToast();
+  
+  // Every tag in use, once each regardless of case
+  const allTags = sessions
+    .flatMap(session => session.tags)
+    .filter((tag, i, tags) => tags.findIndex(other => other.toLowerCase() === tag.toLowerCase()) === i)
+    .sort((a, b) => a.localeCompare(b));
+  
+  const tagFilteredSessions = tagFilter === null
+    ? sessions
+    : sessions.filter(session => session.tags.some(tag => tag.toLowerCase() === tagFilter.toLowerCase()));
+  
+  // Pinned sessions come first, then folders; date groups hold everything else
+  const pinnedSessions = tagFilteredSessions.filter(session => session.isPinned);
+  const unpinnedSessions = tagFilteredSessions.filter(session => !session.isPinned);
+  const folderGroups = folders
+    .map(folder => ({ folder, sessions: unpinnedSessions.filter(session => session.folderId === folder.id) }))
+    .filter(group => group.sessions.length > 0 || tagFilter === null);
   
   // Group sessions by date
-  const groupedSessions = sessions.reduce((groups, session) => {
+  const groupedSessions = unpinnedSessions.filter(session => session.folderId === null).reduce((groups, session) => {
     const date = new Date(session.updatedAt);
     const today = new Date();
     const yesterday = new Date(today);
@@ -258,18 +472,19 @@ function ChatHistoryDialog({
   // Order of groups to display
   const groupOrder = ["Today", "Yesterday", "Last 7 Days", "Older"];
   
-  // Load chat sessions
+  // Load chat sessions and folders
   useEffect(() => {
     if (isOpen) {
       const loadSessions = async () => {
         try {
           setIsLoading(true);
-          const data = await fetchChatSessions();
+          const [data, folderData] = await Promise.all([fetchChatSessions(), fetchChatFolders()]);
           // Sort by updatedAt in descending order (newest first)
           const sortedSessions = [...data].sort((a, b) => 
             new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
           );
           setSessions(sortedSessions);
+          setFolders(folderData);
         } catch (error) {
           console.error("Failed to load chat sessions:", error);
         } finally {
@@ -281,13 +496,45 @@ function ChatHistoryDialog({
     }
   }, [isOpen]);
   
+  // Search message text as well as titles, after a pause in typing
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setMessageResults([]);
+      return;
+    }
+    
+    let cancelled = false;
+    setIsSearchingMessages(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const results = await searchChatMessages(query);
+        if (!cancelled) setMessageResults(results);
+      } catch (error) {
+        console.error("Failed to search chat messages:", error);
+      } finally {
+        if (!cancelled) setIsSearchingMessages(false);
+      }
+    }, 300);
+    
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [searchQuery]);
+  
   // Filter sessions based on search query
   const filteredSessions = searchQuery.trim() === "" 
-    ? sessions 
-    : sessions.filter(session => 
+    ? tagFilteredSessions 
+    : tagFilteredSessions.filter(session => 
         session.title.toLowerCase().includes(searchQuery.toLowerCase())
       );
   
+  // Message results are only narrowed by tag once the sessions are loaded
+  const filteredMessageResults = tagFilter === null
+    ? messageResults
+    : messageResults.filter(result => tagFilteredSessions.some(session => session.id === result.sessionId));
+  
   // Format the relative time (e.g., "10 minutes ago", "2 days ago")
   const formatRelativeTime = (date: Date) => {
     const now = new Date();
@@ -324,6 +571,220 @@ function ChatHistoryDialog({
     }
   };
   
+  const replaceSession = (updatedSession: ChatSession) => {
+    setSessions(prevSessions => prevSessions.map(session => session.id === updatedSession.id ? updatedSession : session));
+  };
+  
+  const handleTogglePin = async (session: ChatSession) => {
+    try {
+      replaceSession(await updateChatSessionOrganization(session.id, { isPinned: !session.isPinned }));
+    } catch (error) {
+      console.error("Failed to pin session:", error);
+      toast({
+        title: "Error",
+        description: "Failed to pin this chat. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+  
+  const handleRenameFolder = async (folderId: number) => {
+    if (!editFolderName.trim()) return;
+    
+    try {
+      const updatedFolder = await renameChatFolder(folderId, editFolderName.trim());
+      setFolders(prevFolders => prevFolders
+        .map(folder => folder.id === folderId ? updatedFolder : folder)
+        .sort((a, b) => a.name.localeCompare(b.name)));
+      setEditingFolderId(null);
+      setEditFolderName("");
+    } catch (error) {
+      console.error("Failed to rename folder:", error);
+    }
+  };
+  
+  // The folder's chats stay, outside any folder
+  const handleDeleteFolder = async (folderId: number) => {
+    try {
+      await deleteChatFolder(folderId);
+      setFolders(prevFolders => prevFolders.filter(folder => folder.id !== folderId));
+      setSessions(prevSessions => prevSessions.map(session => 
+        session.folderId === folderId ? { ...session, folderId: null } : session
+      ));
+    } catch (error) {
+      console.error("Failed to delete folder:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete this folder. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+  
+  const renderSession = (session: ChatSession) => (
+    <div 
+      key={session.id} 
+      className="group flex items-center justify-between p-2 rounded-md hover:bg-card/80 cursor-pointer"
+      onClick={() => {
+        if (isEditing !== session.id) {
+          onSelectSession(session.id);
+          onClose();
+        }
+      }}
+    >
+      {isEditing === session.id ? (
+        <div className="flex-1 flex items-center">
+          <Input 
+            value={editTitle} 
+            onChange={(e) => setEditTitle(e.target.value)}
+            autoFocus
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                handleRename(session.id);
+              } else if (e.key === 'Escape') {
+                setIsEditing(null);
+                setEditTitle("");
+              }
+            }}
+            onClick={(e) => e.stopPropagation()}
+          />
+          <Button 
+            variant="ghost" 
+            size="sm" 
+            className="ml-2"
+            onClick={(e) => {
+              e.stopPropagation();
+              handleRename(session.id);
+            }}
+          >
+            Save
+          </Button>
+        </div>
+      ) : (
+        <>
+          <div className="flex-1 min-w-0 mr-2">
+            <div className="flex items-center gap-2 min-w-0">
+              {unreadSessionIds.includes(session.id) && (
+                <span className="h-2 w-2 rounded-full bg-primary shrink-0" title="New advisor comments" />
+              )}
+              {session.isPinned && <Pin className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />}
+              <span className="truncate">{session.title}</span>
+            </div>
+            {session.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {session.tags.map(tag => (
+                  <Badge key={tag} variant="secondary" className="text-[10px] px-1.5 py-0 font-normal">{tag}</Badge>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+            <Button 
+              variant="ghost" 
+              size="icon" 
+              className="h-7 w-7" 
+              title={session.isPinned ? "Unpin" : "Pin"}
+              onClick={(e) => {
+                e.stopPropagation();
+                handleTogglePin(session);
+              }}
+            >
+              {session.isPinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+            </Button>
+            <Button 
+              variant="ghost" 
+              size="icon" 
+              className="h-7 w-7" 
+              title="Tags and folder"
+              onClick={(e) => {
+                e.stopPropagation();
+                setOrganizingSession(session);
+              }}
+            >
+              <Tag className="h-3.5 w-3.5" />
+            </Button>
+            <Button 
+              variant="ghost" 
+              size="icon" 
+              className="h-7 w-7" 
+              onClick={(e) => {
+                e.stopPropagation();
+                setIsEditing(session.id);
+                setEditTitle(session.title);
+              }}
+            >
+              <Edit2 className="h-3.5 w-3.5" />
+            </Button>
+            <Button 
+              variant="ghost" 
+              size="icon" 
+              className="h-7 w-7 text-destructive hover:text-destructive/90" 
+              onClick={(e) => {
+                e.stopPropagation();
+                onDeleteSession(session.id);
+              }}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+          <div className="text-xs text-muted-foreground ml-2 hidden sm:block">
+            {formatRelativeTime(new Date(session.updatedAt))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+  
+  const renderFolderHeading = (folder: ChatFolder) => (
+    editingFolderId === folder.id ? (
+      <div className="flex items-center mb-2">
+        <Input 
+          value={editFolderName} 
+          maxLength={60}
+          onChange={(e) => setEditFolderName(e.target.value)}
+          autoFocus
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              handleRenameFolder(folder.id);
+            } else if (e.key === 'Escape') {
+              setEditingFolderId(null);
+              setEditFolderName("");
+            }
+          }}
+        />
+        <Button variant="ghost" size="sm" className="ml-2" onClick={() => handleRenameFolder(folder.id)}>
+          Save
+        </Button>
+      </div>
+    ) : (
+      <div className="group flex items-center gap-2 mb-2">
+        <Folder className="h-4 w-4 text-muted-foreground" />
+        <h3 className="text-sm font-semibold truncate">{folder.name}</h3>
+        <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+          <Button 
+            variant="ghost" 
+            size="icon" 
+            className="h-6 w-6" 
+            onClick={() => {
+              setEditingFolderId(folder.id);
+              setEditFolderName(folder.name);
+            }}
+          >
+            <Edit2 className="h-3 w-3" />
+          </Button>
+          <Button 
+            variant="ghost" 
+            size="icon" 
+            className="h-6 w-6 text-destructive hover:text-destructive/90" 
+            onClick={() => handleDeleteFolder(folder.id)}
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+    )
+  );
+  
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <DialogContent className="sm:max-w-[600px] max-h-[85vh] overflow-hidden flex flex-col">
@@ -332,7 +793,7 @@ function ChatHistoryDialog({
         </DialogHeader>
         
         {/* Search Box */}
-        <div className="relative mb-4">
+        <div className="relative mb-2">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input 
             placeholder="Search chats..." 
@@ -342,6 +803,24 @@ function ChatHistoryDialog({
           />
         </div>
         
+        {/* Tag filter */}
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mb-2">
+            {allTags.map(tag => (
+              <Button
+                key={tag}
+                variant={tagFilter?.toLowerCase() === tag.toLowerCase() ? "default" : "outline"}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setTagFilter(prev => prev?.toLowerCase() === tag.toLowerCase() ? null : tag)}
+              >
+                <Tag className="h-3 w-3 mr-1" />
+                {tag}
+              </Button>
+            ))}
+          </div>
+        )}
+        
         {/* Sessions List */}
         <div className="overflow-y-auto flex-1 pr-2 -mr-2">
           {isLoading ? (
@@ -352,90 +831,81 @@ function ChatHistoryDialog({
                 <div className="w-2 h-2 bg-muted-foreground rounded-full animate-pulse" style={{ animationDelay: "600ms" }}></div>
               </div>
             </div>
-          ) : filteredSessions.length === 0 ? (
+          ) : !isSearching && sessions.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No chat history yet
+            </div>
+          ) : isSearching && filteredSessions.length === 0 && filteredMessageResults.length === 0 && !isSearchingMessages ? (
             <div className="text-center py-8 text-muted-foreground">
-              {searchQuery ? "No chats found matching your search" : "No chat history yet"}
+              No chats found matching your search
             </div>
           ) : (
-            searchQuery ? (
-              <div className="space-y-2">
-                {filteredSessions.map(session => (
-                  <div 
-                    key={session.id} 
-                    className="group flex items-center justify-between p-2 rounded-md hover:bg-card/80 cursor-pointer"
-                    onClick={() => {
-                      if (isEditing !== session.id) {
-                        onSelectSession(session.id);
-                        onClose();
-                      }
-                    }}
-                  >
-                    {isEditing === session.id ? (
-                      <div className="flex-1 flex items-center">
-                        <Input 
-                          value={editTitle} 
-                          onChange={(e) => setEditTitle(e.target.value)}
-                          autoFocus
-                          onKeyDown={(e) => {
-                            if (e.key === 'Enter') {
-                              handleRename(session.id);
-                            } else if (e.key === 'Escape') {
-                              setIsEditing(null);
-                              setEditTitle("");
-                            }
-                          }}
-                          onClick={(e) => e.stopPropagation()}
-                        />
-                        <Button 
-                          variant="ghost" 
-                          size="sm" 
-                          className="ml-2"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleRename(session.id);
+            isSearching ? (
+              <div className="space-y-4">
+                {filteredSessions.length > 0 && (
+                  <div>
+                    <h3 className="text-sm font-semibold mb-2">Chats</h3>
+                    <div className="space-y-2">
+                      {filteredSessions.map(renderSession)}
+                    </div>
+                  </div>
+                )}
+                <div>
+                  <h3 className="text-sm font-semibold mb-2">Messages</h3>
+                  {isSearchingMessages && filteredMessageResults.length === 0 ? (
+                    <p className="text-sm text-muted-foreground p-2">Searching messages...</p>
+                  ) : filteredMessageResults.length === 0 ? (
+                    <p className="text-sm text-muted-foreground p-2">No messages match your search</p>
+                  ) : (
+                    <div className="space-y-1">
+                      {filteredMessageResults.map(result => (
+                        <button
+                          key={result.messageId}
+                          className="w-full text-left p-2 rounded-md hover:bg-card/80"
+                          onClick={() => {
+                            onSelectMessage(result.sessionId, result.messageId);
+                            onClose();
                           }}
                         >
-                          Save
-                        </Button>
-                      </div>
-                    ) : (
-                      <>
-                        <div className="flex-1 truncate mr-2">{session.title}</div>
-                        <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                          <Button 
-                            variant="ghost" 
-                            size="icon" 
-                            className="h-7 w-7" 
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              setIsEditing(session.id);
-                              setEditTitle(session.title);
-                            }}
-                          >
-                            <Edit2 className="h-3.5 w-3.5" />
-                          </Button>
-                          <Button 
-                            variant="ghost" 
-                            size="icon" 
-                            className="h-7 w-7 text-destructive hover:text-destructive/90" 
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              onDeleteSession(session.id);
-                            }}
-                          >
-                            <Trash2 className="h-3.5 w-3.5" />
-                          </Button>
-                        </div>
-                        <div className="text-xs text-muted-foreground ml-2 hidden sm:block">
-                          {formatRelativeTime(new Date(session.updatedAt))}
-                        </div>
-                      </>
-                    )}
-                  </div>
-                ))}
+                          <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground mb-1">
+                            <span className="truncate">{result.sessionTitle} · {result.sender === "ai" ? "Assistant" : "You"}</span>
+                            <span className="shrink-0">{formatRelativeTime(new Date(result.createdAt))}</span>
+                          </div>
+                          <p className="text-sm line-clamp-3">
+                            <HighlightedSnippet result={result} />
+                          </p>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            ) : tagFilteredSessions.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                No chats are tagged "{tagFilter}"
               </div>
             ) : (
               <div className="space-y-4">
+                {pinnedSessions.length > 0 && (
+                  <div>
+                    <h3 className="text-sm font-semibold mb-2">Pinned</h3>
+                    <div className="space-y-2">
+                      {pinnedSessions.map(renderSession)}
+                    </div>
+                  </div>
+                )}
+                
+                {folderGroups.map(({ folder, sessions: sessionsInFolder }) => (
+                  <div key={`folder-${folder.id}`}>
+                    {renderFolderHeading(folder)}
+                    <div className="space-y-2">
+                      {sessionsInFolder.length > 0
+                        ? sessionsInFolder.map(renderSession)
+                        : <p className="text-xs text-muted-foreground px-2">No chats in this folder</p>}
+                    </div>
+                  </div>
+                ))}
+                
                 {groupOrder.map(group => {
                   const sessionsInGroup = groupedSessions[group];
                   if (!sessionsInGroup || sessionsInGroup.length === 0) return null;
@@ -444,80 +914,7 @@ function ChatHistoryDialog({
                     <div key={group}>
                       <h3 className="text-sm font-semibold mb-2">{group}</h3>
                       <div className="space-y-2">
-                        {sessionsInGroup.map(session => (
-                          <div 
-                            key={session.id} 
-                            className="group flex items-center justify-between p-2 rounded-md hover:bg-card/80 cursor-pointer"
-                            onClick={() => {
-                              if (isEditing !== session.id) {
-                                onSelectSession(session.id);
-                                onClose();
-                              }
-                            }}
-                          >
-                            {isEditing === session.id ? (
-                              <div className="flex-1 flex items-center">
-                                <Input 
-                                  value={editTitle} 
-                                  onChange={(e) => setEditTitle(e.target.value)}
-                                  autoFocus
-                                  onKeyDown={(e) => {
-                                    if (e.key === 'Enter') {
-                                      handleRename(session.id);
-                                    } else if (e.key === 'Escape') {
-                                      setIsEditing(null);
-                                      setEditTitle("");
-                                    }
-                                  }}
-                                  onClick={(e) => e.stopPropagation()}
-                                />
-                                <Button 
-                                  variant="ghost" 
-                                  size="sm" 
-                                  className="ml-2"
-                                  onClick={(e) => {
-                                    e.stopPropagation();
-                                    handleRename(session.id);
-                                  }}
-                                >
-                                  Save
-                                </Button>
-                              </div>
-                            ) : (
-                              <>
-                                <div className="flex-1 truncate mr-2">{session.title}</div>
-                                <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                                  <Button 
-                                    variant="ghost" 
-                                    size="icon" 
-                                    className="h-7 w-7" 
-                                    onClick={(e) => {
-                                      e.stopPropagation();
-                                      setIsEditing(session.id);
-                                      setEditTitle(session.title);
-                                    }}
-                                  >
-                                    <Edit2 className="h-3.5 w-3.5" />
-                                  </Button>
-                                  <Button 
-                                    variant="ghost" 
-                                    size="icon" 
-                                    className="h-7 w-7 text-destructive hover:text-destructive/90" 
-                                    onClick={(e) => {
-                                      e.stopPropagation();
-                                      onDeleteSession(session.id);
-                                    }}
-                                  >
-                                    <Trash2 className="h-3.5 w-3.5" />
-                                  </Button>
-                                </div>
-                                <div className="text-xs text-muted-foreground ml-2 hidden sm:block">
-                                  {formatRelativeTime(new Date(session.updatedAt))}
-                                </div>
-                              </>
-                            )}
-                          </div>
-                        ))}
+                        {sessionsInGroup.map(renderSession)}
                       </div>
                     </div>
                   );
@@ -526,6 +923,19 @@ function ChatHistoryDialog({
             )
           )}
         </div>
+        
+        <ChatSessionOrganizeDialog
+          session={organizingSession}
+          folders={folders}
+          existingTags={allTags}
+          onOpenChange={(open) => !open && setOrganizingSession(null)}
+          onSaved={(updatedSession, newFolder) => {
+            replaceSession(updatedSession);
+            if (newFolder) {
+              setFolders(prevFolders => [...prevFolders, newFolder].sort((a, b) => a.name.localeCompare(b.name)));
+            }
+          }}
+        />
       </DialogContent>
     </Dialog>
   );
@@ -541,14 +951,29 @@ export default function ChatTab() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [sessionId, setSessionId] = useState<number | null>(null);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
-  const [showMemoryUpdate, setShowMemoryUpdate] = useState(false);
+  const [focusMessageId, setFocusMessageId] = useState<number | null>(null);
+  const [showMemoryUpdate, setShowMemoryUpdate] = useState<"updated" | "proposed" | null>(null);
+  const queryClient = useQueryClient();
   const [advisorsToShareWith, setAdvisorsToShareWith] = useState<number[]>([]);
   const [attachments, setAttachments] = useState<FileAttachment[]>([]);
   const [useWebSearch, setUseWebSearch] = useState(false);
   const [extendThinking, setExtendThinking] = useState(false);
   
+  // Advisor comments on the messages in this chat, marked read once they're on screen
+  const { data: advisorComments = [] } = useQuery<AdvisorCommentWithAdvisor[]>({
+    queryKey: ['/api/comments'],
+  });
+  const sessionComments = advisorComments.filter(comment => sessionId !== null && comment.chatSessionId === sessionId);
+  const newCommentIds = useMarkCommentsRead(sessionComments);
+  const unreadSessionIds = Array.from(new Set(
+    advisorComments
+      .filter(comment => isUnreadComment(comment) && comment.chatSessionId !== null)
+      .map(comment => comment.chatSessionId as number)
+  ));
+  
   // References
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -599,6 +1024,9 @@ export default function ChatTab() {
     
     setMessages(prev => [...prev, userMessageObj]);
     
+    // Temporary ID for the AI message while its text streams in
+    const streamingMessageId = userMessageObj.id + 1;
+    
     try {
       // For new chats, include advisor IDs to share with
       // Send the message to the API - it will handle session creation if needed
@@ -613,56 +1041,52 @@ export default function ChatTab() {
         attachments.length > 0 ? attachments : undefined,
         advisorIds, // Only send advisorIds for new chats
         useWebSearch, // Include web search flag
-        extendThinking // Include extend thinking flag for advanced model
+        extendThinking, // Include extend thinking flag for advanced model
+        (text) => {
+          // Render the AI reply progressively as it streams in
+          setIsStreaming(true);
+          setMessages(prev => {
+            const withoutStreaming = prev.filter(m => m.id !== streamingMessageId);
+            return [...withoutStreaming, { id: streamingMessageId, content: text, sender: "ai" }];
+          });
+        }
       );
       
+      if (!response.userMessage || !response.aiMessage) {
+        throw new Error(response.error || "Failed to generate AI response");
+      }
+      
       // If we didn't have a session ID yet, set it now
       if (!sessionId && response.sessionId) {
         setSessionId(response.sessionId);
-        
-        // If the response has sharing information, update our state to match
-        // This helps maintain sharing status during the transition
-        if (response.shared !== undefined && advisorsToShareWith && advisorsToShareWith.length > 0) {
-          console.log("New chat was created with shared status:", response.shared);
-          console.log("Shared with advisor count:", response.sharedWithCount);
-          
-          // We don't need to update advisorsToShareWith since our ChatShareControls component
-          // will handle this with its own state and effect
-        }
       }
       
       // Add AI response to the UI when it comes back
-      // Citations are now embedded in the content directly
       const aiMessageObj: Message = {
         id: response.aiMessage.id,
         content: response.aiMessage.content,
         sender: "ai",
-        searchQueries: response.searchQueries || null
+        citations: response.aiMessage.citations,
+        citationSupports: response.aiMessage.citationSupports,
+        searchQueries: response.searchQueries || null,
+        siblingIds: [response.aiMessage.id]
       };
       
-      // Check if profile was updated
-      const profileUpdated = response.profileUpdated === true;
-      
-      // Update the messages array with the real user message ID and add the AI response
+      // Replace the temporary user and streaming AI messages with the saved ones
+      const savedUserMessage = response.userMessage;
       setMessages(prev => [
-        ...prev.slice(0, -1), // Remove the temporary user message
+        ...prev.filter(m => m.id !== userMessageObj.id && m.id !== streamingMessageId),
         {
-          id: response.userMessage.id,
-          content: response.userMessage.content,
-          sender: "user"
+          id: savedUserMessage.id,
+          content: savedUserMessage.content,
+          sender: "user",
+          attachments: userMessageObj.attachments,
+          siblingIds: [savedUserMessage.id]
         },
         aiMessageObj
       ]);
       
-      // Show memory update notification if profile was updated
-      if (profileUpdated) {
-        setTimeout(() => {
-          setShowMemoryUpdate(true);
-          setTimeout(() => {
-            setShowMemoryUpdate(false);
-          }, 5000);
-        }, 500);
-      }
+      notifyProfileUpdate(response);
     } catch (error) {
       console.error("Chat error:", error);
       
@@ -690,18 +1114,124 @@ export default function ChatTab() {
       // Reset web search on error
       setUseWebSearch(false);
       
-      // Remove the temporary user message on error
-      setMessages(prev => prev.slice(0, -1));
+      // Remove the temporary user and partial AI messages on error
+      setMessages(prev => prev.filter(m => m.id !== userMessageObj.id && m.id !== streamingMessageId));
+    } finally {
+      setIsLoading(false);
+      setIsStreaming(false);
+    }
+  };
+  
+  // Show memory update notification if the profile was updated, or a change is waiting for approval
+  const notifyProfileUpdate = (response: ChatStreamResult) => {
+    const profileUpdated = response.profileUpdated === true;
+    if (!profileUpdated && response.profileUpdateProposed !== true) return;
+    
+    queryClient.invalidateQueries({ queryKey: ["/api/profile/revisions"] });
+    setTimeout(() => {
+      setShowMemoryUpdate(profileUpdated ? "updated" : "proposed");
+      setTimeout(() => {
+        setShowMemoryUpdate(null);
+      }, 5000);
+    }, 500);
+  };
+  
+  // Replace a message and everything after it with a new version, streaming in the new AI reply
+  const streamNewVersion = async (
+    messageId: number,
+    editedMessage: Message | null, // Shown in place of the original; null when regenerating a reply
+    request: (chatSessionId: number, onUpdate: (text: string) => void) => Promise<ChatStreamResult>
+  ) => {
+    if (!sessionId || isLoading) return;
+    
+    setIsLoading(true);
+    const streamingMessageId = Date.now() + 1;
+    setMessages(prev => [
+      ...prev.slice(0, prev.findIndex(m => m.id === messageId)),
+      ...(editedMessage ? [editedMessage] : [])
+    ]);
+    
+    try {
+      const response = await request(sessionId, (text) => {
+        setIsStreaming(true);
+        setMessages(prev => [
+          ...prev.filter(m => m.id !== streamingMessageId),
+          { id: streamingMessageId, content: text, sender: "ai" }
+        ]);
+      });
+      
+      if (!response.aiMessage) {
+        throw new Error(response.error || "Failed to generate AI response");
+      }
+      
+      notifyProfileUpdate(response);
+    } catch (error) {
+      console.error("Chat error:", error);
+      toast({
+        title: "Error",
+        description: "Failed to get a new response. Please try again.",
+        variant: "destructive"
+      });
     } finally {
+      // Reload the branch either way, so the version counts include whatever was saved
+      const savedMessages = await fetchChatMessages(sessionId).catch(() => null);
+      if (savedMessages) setMessages(savedMessages.map(toMessage));
       setIsLoading(false);
+      setIsStreaming(false);
     }
   };
   
-  // Scroll to bottom when messages change
+  // Send new text for one of the student's messages, keeping the original as an earlier version
+  const handleEditMessage = (message: Message, content: string) => {
+    streamNewVersion(
+      message.id,
+      { id: Date.now(), content, sender: "user", attachments: message.attachments },
+      (chatSessionId, onUpdate) => editChatMessage(chatSessionId, message.id, content, useWebSearch, extendThinking, onUpdate)
+    );
+  };
+  
+  const handleRegenerateMessage = (message: Message) => {
+    streamNewVersion(
+      message.id,
+      null,
+      (chatSessionId, onUpdate) => regenerateChatMessage(chatSessionId, message.id, useWebSearch, extendThinking, onUpdate)
+    );
+  };
+  
+  // Show another version of a message and the conversation that continued from it
+  const handleSwitchVersion = async (messageId: number, chatSessionId = sessionId) => {
+    if (!chatSessionId) return;
+    
+    try {
+      const branch = await switchChatBranch(chatSessionId, messageId);
+      setFocusMessageId(messageId);
+      setMessages(branch.map(toMessage));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to switch to that version",
+        variant: "destructive"
+      });
+    }
+  };
+  
+  // Scroll to bottom when messages change, unless a search result is being shown
   useEffect(() => {
+    if (focusMessageId !== null) return;
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages, isLoading]);
   
+  // Bring a message opened from search into view, and mark it for a few seconds
+  useEffect(() => {
+    if (focusMessageId === null) return;
+    const element = document.getElementById(`message-${focusMessageId}`);
+    if (!element) return;
+    
+    element.scrollIntoView({ behavior: "smooth", block: "center" });
+    const timeout = setTimeout(() => setFocusMessageId(null), 3000);
+    return () => clearTimeout(timeout);
+  }, [focusMessageId, messages]);
+  
   // Reset to a new chat input without creating a session
   const createNewSession = () => {
     setSessionId(null);
@@ -717,14 +1247,7 @@ export default function ChatTab() {
       const messages = await fetchChatMessages(chatSessionId);
       
       // Transform the messages to our local format
-      const formattedMessages: Message[] = messages.map(msg => ({
-        id: msg.id,
-        content: msg.content,
-        sender: msg.sender as "user" | "ai",
-        attachments: msg.attachments?.length ? msg.attachments : undefined,
-        // Citations are now embedded in the content directly
-        searchQueries: (msg.sender === "ai" && (msg as any).searchQueries) ? (msg as any).searchQueries : null
-      }));
+      const formattedMessages = messages.map(toMessage);
       
       setSessionId(chatSessionId);
       setMessages(formattedMessages);
@@ -732,12 +1255,14 @@ export default function ChatTab() {
       // Reset attachments when switching to a different chat
       setAttachments([]);
       setInputValue("");
+      return formattedMessages;
     } catch (error) {
       toast({
         title: "Error",
         description: "Failed to load chat session",
         variant: "destructive"
       });
+      return null;
     } finally {
       setIsLoading(false);
     }
@@ -754,6 +1279,17 @@ export default function ChatTab() {
     }
   };
   
+  // Open the session a search result came from, at the matching message
+  const handleSelectMessage = async (chatSessionId: number, messageId: number) => {
+    setFocusMessageId(messageId);
+    const shownMessages = chatSessionId !== sessionId ? await loadChatSession(chatSessionId) : messages;
+    
+    // The match may be in another version of the conversation
+    if (shownMessages && !shownMessages.some(message => message.id === messageId)) {
+      await handleSwitchVersion(messageId, chatSessionId);
+    }
+  };
+  
   // Handle deleting a session
   const handleDeleteSession = async (chatSessionId: number) => {
     try {
@@ -870,6 +1406,9 @@ export default function ChatTab() {
         >
           <History className="h-4 w-4" />
           History
+          {unreadSessionIds.length > 0 && (
+            <span className="h-2 w-2 rounded-full bg-primary" title="New advisor comments" />
+          )}
         </Button>
         
         {/* Share controls for advisors */}
@@ -884,8 +1423,10 @@ export default function ChatTab() {
         isOpen={isHistoryOpen}
         onClose={() => setIsHistoryOpen(false)}
         onSelectSession={handleSelectSession}
+        onSelectMessage={handleSelectMessage}
         onDeleteSession={handleDeleteSession}
         onRenameSession={handleRenameSession}
+        unreadSessionIds={unreadSessionIds}
       />
       
       {/* Messages area */}
@@ -896,14 +1437,24 @@ export default function ChatTab() {
           
           {/* Chat messages */}
           {messages.map((message) => (
-            <ChatMessage key={message.id} message={message} />
+            <ChatMessage
+              key={message.id}
+              message={message}
+              comments={sessionComments.filter(comment => comment.chatMessageId === message.id)}
+              highlightCommentIds={newCommentIds}
+              isFocused={message.id === focusMessageId}
+              isBusy={isLoading}
+              onEdit={message.sender === "user" ? (content) => handleEditMessage(message, content) : undefined}
+              onRegenerate={message.sender === "ai" ? () => handleRegenerateMessage(message) : undefined}
+              onSwitchVersion={(messageId) => handleSwitchVersion(messageId)}
+            />
           ))}
           
           {/* Memory update notification */}
-          {showMemoryUpdate && <MemoryUpdateNotification />}
+          {showMemoryUpdate && <MemoryUpdateNotification pendingReview={showMemoryUpdate === "proposed"} />}
           
-          {/* Loading indicator */}
-          {isLoading && (
+          {/* Loading indicator until the first streamed text arrives */}
+          {isLoading && !isStreaming && (
             <div className="animate-fadeIn mb-6">
               <div className="max-w-[90%]">
                 <div className="flex items-center gap-1.5">
@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from "react";
-import { Building2, Plus, MoreVertical, Sparkles, Check, FastForward } from "lucide-react"; // Added FastForward import
+import { Building2, Plus, MoreVertical, Sparkles, Check, FastForward, CalendarClock, CalendarPlus, DollarSign, Receipt, Columns3, Star } from "lucide-react"; // Added FastForward import
 import { Button } from "@/components/ui/button";
 import { useLocation } from "wouter";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
@@ -17,13 +17,38 @@ import {
   DropdownMenuTrigger,
   DropdownMenuSeparator,
 } from "@/components/ui/dropdown-menu";
+import {
+  CollegeTask,
+  CatalogSearchResult,
+  CollegeFitReport,
+  CollegeFitResult,
+  CollegeFitType,
+  CollegeRating,
+  NetPriceEstimate,
+  NetPriceReport,
+  LetterStatus,
+  RecommendationLetter,
+  Recommender,
+} from "@shared/schema";
+import { CollegeTasksDialog, formatDueDate, isTaskOverdue } from "@/components/CollegeTasksDialog";
+import { CalendarFeedDialog } from "@/components/CalendarFeedDialog";
+import { RecommendationFacts } from "@/components/RecommendationFacts";
+import { CollegeFitBadge, fitLabels } from "@/components/CollegeFitBadge";
+import { CollegeCostsDialog, formatDollars } from "@/components/CollegeCostsDialog";
+import { AidOffersDialog } from "@/components/AidOffersDialog";
+import { CollegeNotesDialog, averageRating, hasCollegeNotes } from "@/components/CollegeNotesDialog";
 
 // Define the college type
 interface College {
   id: number;
   name: string;
+  institutionId: number | null;
   status: "applying" | "researching" | "not_applying";
   position: number;
+  notes: string | null;
+  pros: string[];
+  cons: string[];
+  ratings: CollegeRating[];
   userId: number;
   createdAt: string;
   updatedAt: string;
@@ -33,9 +58,14 @@ interface College {
 interface CollegeRecommendation {
   id: number;
   name: string;
+  institutionId: number | null;
   description: string;
   reason: string;
   acceptanceRate: number | null;
+  location: string | null;
+  undergradEnrollment: number | null;
+  netPrice: number | null;
+  statsVerified: boolean;
   userId: number;
   createdAt: string;
   updatedAt: string;
@@ -47,13 +77,66 @@ export default function CollegesTab() {
   const [, setLocation] = useLocation();
   const [addDialogOpen, setAddDialogOpen] = useState(false);
   const [newCollegeName, setNewCollegeName] = useState("");
+  const [selectedInstitution, setSelectedInstitution] = useState<CatalogSearchResult | null>(null);
+  const [catalogQuery, setCatalogQuery] = useState("");
   const [generateRecommendationsOpen, setGenerateRecommendationsOpen] = useState(false);
+  const [calendarFeedOpen, setCalendarFeedOpen] = useState(false);
+  const [costsOpen, setCostsOpen] = useState(false);
+  const [aidOffersOpen, setAidOffersOpen] = useState(false);
   const [preference, setPreference] = useState("");
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const dragItem = useRef<{ id: number; status: string } | null>(null);
   const dragNode = useRef<HTMLDivElement | null>(null);
 
+  // Fetch all deadlines and checklist items, plus the ones due soon
+  const { data: collegeTasks = [] } = useQuery<CollegeTask[]>({
+    queryKey: ['/api/college-tasks'],
+  });
+
+  const { data: upcomingTasks = [] } = useQuery<CollegeTask[]>({
+    queryKey: ['/api/college-tasks/upcoming'],
+  });
+
+  // Reach/target/likely labels for every college and recommendation
+  const { data: fitReport } = useQuery<CollegeFitReport>({
+    queryKey: ['/api/college-fit'],
+  });
+
+  // Estimated net price of each college, once the student has entered their finances
+  const { data: netPriceReport } = useQuery<NetPriceReport>({
+    queryKey: ['/api/net-price'],
+  });
+
+  // Recommendation letters requested for each college, and who is writing them
+  const { data: recommendationLetters = [] } = useQuery<RecommendationLetter[]>({
+    queryKey: ['/api/recommendation-letters'],
+  });
+
+  const { data: recommenders = [] } = useQuery<Recommender[]>({
+    queryKey: ['/api/recommenders'],
+  });
+
+  const getCollegeLetters = (collegeId: number): CollegeLetter[] =>
+    recommendationLetters
+      .filter(letter => letter.collegeId === collegeId)
+      .map(letter => ({
+        ...letter,
+        recommenderName: recommenders.find(recommender => recommender.id === letter.recommenderId)?.name ?? "Recommender",
+      }));
+
+  // Wait for a pause in typing before searching the catalog
+  useEffect(() => {
+    const timeout = setTimeout(() => setCatalogQuery(newCollegeName.trim()), 200);
+    return () => clearTimeout(timeout);
+  }, [newCollegeName]);
+
+  // Catalog suggestions for the Add College dialog
+  const { data: catalogResults = [] } = useQuery<CatalogSearchResult[]>({
+    queryKey: [`/api/catalog/search?q=${encodeURIComponent(catalogQuery)}`],
+    enabled: addDialogOpen && catalogQuery.length >= 2 && !selectedInstitution,
+  });
+
   // Fetch colleges from the API
   const { data: colleges = [] as College[], isLoading } = useQuery<College[]>({
     queryKey: ['/api/colleges'],
@@ -78,6 +161,8 @@ export default function CollegesTab() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/recommendations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/college-fit'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/net-price'] });
       toast({
         title: "Recommendations generated",
         description: "Check out your personalized college recommendations below.",
@@ -101,6 +186,8 @@ export default function CollegesTab() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/recommendations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/college-fit'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/net-price'] });
       toast({
         title: "Recommendation removed",
         description: "The recommendation has been removed from your list.",
@@ -124,6 +211,8 @@ export default function CollegesTab() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/colleges'] });
       queryClient.invalidateQueries({ queryKey: ['/api/recommendations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/college-fit'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/net-price'] });
       toast({
         title: "College added",
         description: "The recommendation has been added to your college board.",
@@ -132,7 +221,9 @@ export default function CollegesTab() {
     onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to add college from recommendation. Please try again.",
+        description: error.message.startsWith("409:")
+          ? "That college is already on your board."
+          : "Failed to add college from recommendation. Please try again.",
         variant: "destructive",
       });
     }
@@ -140,11 +231,12 @@ export default function CollegesTab() {
 
   // Add a new college mutation
   const addCollegeMutation = useMutation({
-    mutationFn: async (name: string) => {
+    mutationFn: async ({ name, institutionId }: { name: string; institutionId: number | null }) => {
       try {
         // Default status is "researching" and position is 1 for new entries
         const res = await apiRequest('POST', '/api/colleges', { 
           name,
+          institutionId,
           status: "researching",
           position: 1
         });
@@ -161,17 +253,22 @@ export default function CollegesTab() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/colleges'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/college-fit'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/net-price'] });
       toast({
         title: "College added",
         description: "Your college has been added to your board.",
       });
       setNewCollegeName("");
+      setSelectedInstitution(null);
       setAddDialogOpen(false);
     },
     onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to add college. Please try again.",
+        description: error.message.startsWith("409:")
+          ? "That college is already on your board."
+          : "Failed to add college. Please try again.",
         variant: "destructive",
       });
     }
@@ -202,6 +299,12 @@ export default function CollegesTab() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/colleges'] });
+      // The college's tasks, aid offers and letter requests are deleted with it
+      queryClient.invalidateQueries({ queryKey: ['/api/college-tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/college-tasks/upcoming'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/aid-offers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/recommendation-letters'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/recommenders'] });
       toast({
         title: "College deleted",
         description: "The college has been removed from your board.",
@@ -219,7 +322,10 @@ export default function CollegesTab() {
   // Handle add college form submission
   const handleAddCollege = () => {
     if (newCollegeName.trim()) {
-      addCollegeMutation.mutate(newCollegeName.trim());
+      addCollegeMutation.mutate({
+        name: newCollegeName.trim(),
+        institutionId: selectedInstitution?.id ?? null
+      });
     }
   };
 
@@ -239,6 +345,19 @@ export default function CollegesTab() {
   const notApplyingColleges = colleges.filter((college: College) => college.status === "not_applying")
     .sort((a: College, b: College) => a.position - b.position);
 
+  // Count reaches, targets and likely schools among the colleges the student is applying to or researching
+  const fitBalance = [...applyingColleges, ...researchingColleges].reduce(
+    (balance, college: College) => {
+      const result = fitReport?.colleges[college.id];
+      if (result) {
+        balance.counts[result.fit]++;
+        balance.labeled++;
+      }
+      return balance;
+    },
+    { counts: { reach: 0, target: 0, likely: 0 } as Record<CollegeFitType, number>, labeled: 0 }
+  );
+
   // Handle drag start
   const handleDragStart = (e: React.DragEvent<HTMLDivElement>, college: College) => {
     console.log('Drag started:', college.name);
@@ -291,17 +410,97 @@ export default function CollegesTab() {
     <div className="min-h-screen flex flex-col max-w-full">
       <header className="bg-card border-b border-border/40 py-4 px-4 sm:px-6 flex flex-wrap justify-between items-center gap-3">
         <h1 className="text-xl font-bold">My Colleges</h1>
-        <Button 
-          onClick={() => setAddDialogOpen(true)}
-          className="bg-primary hover:bg-primary/90 text-primary-foreground"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Add College
-        </Button>
+        <div className="flex flex-wrap gap-2">
+          <Button 
+            variant="outline"
+            onClick={() => setLocation("/dashboard/compare")}
+          >
+            <Columns3 className="h-4 w-4 mr-2" />
+            Compare
+          </Button>
+          <Button 
+            variant="outline"
+            onClick={() => setCostsOpen(true)}
+          >
+            <DollarSign className="h-4 w-4 mr-2" />
+            Costs
+          </Button>
+          <Button 
+            variant="outline"
+            onClick={() => setAidOffersOpen(true)}
+          >
+            <Receipt className="h-4 w-4 mr-2" />
+            Aid Offers
+          </Button>
+          <Button 
+            variant="outline"
+            onClick={() => setCalendarFeedOpen(true)}
+          >
+            <CalendarPlus className="h-4 w-4 mr-2" />
+            Calendar
+          </Button>
+          <Button 
+            onClick={() => setAddDialogOpen(true)}
+            className="bg-primary hover:bg-primary/90 text-primary-foreground"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add College
+          </Button>
+        </div>
       </header>
 
+      <CalendarFeedDialog open={calendarFeedOpen} onOpenChange={setCalendarFeedOpen} />
+      <CollegeCostsDialog open={costsOpen} onOpenChange={setCostsOpen} colleges={colleges} report={netPriceReport} />
+      <AidOffersDialog open={aidOffersOpen} onOpenChange={setAidOffersOpen} colleges={colleges} />
+
       <div className="flex-1 p-4 sm:p-6 overflow-x-hidden">
         <div className="mx-auto w-full">
+          {/* Upcoming deadlines this week */}
+          {collegeTasks.length > 0 && (
+            <div className="border border-border/40 rounded-lg bg-card/90 mb-6">
+              <div className="p-4 border-b border-border/40 flex items-center">
+                <CalendarClock className="h-5 w-5 mr-2 text-primary" />
+                <h2 className="text-lg font-bold">Upcoming This Week</h2>
+              </div>
+              <div className="p-4 space-y-2">
+                {upcomingTasks.length > 0 ? (
+                  upcomingTasks.map(task => (
+                    <div key={task.id} className="flex justify-between items-center gap-3 text-sm">
+                      <div className="truncate">
+                        <span className="font-medium">{task.title}</span>
+                        <span className="text-muted-foreground"> · {colleges.find((college: College) => college.id === task.collegeId)?.name}</span>
+                      </div>
+                      <span className={`whitespace-nowrap ${isTaskOverdue(task) ? "text-red-600 font-medium" : "text-muted-foreground"}`}>
+                        {isTaskOverdue(task) ? "Overdue: " : ""}{formatDueDate(task.dueDate)}
+                      </span>
+                    </div>
+                  ))
+                ) : (
+                  <div className="text-muted-foreground text-sm">
+                    Nothing due in the next 7 days.
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Reach/target/likely balance of the colleges still in play */}
+          {fitBalance.labeled > 0 && (
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mb-4 text-sm">
+              <span className="font-medium">List balance:</span>
+              {(Object.keys(fitLabels) as CollegeFitType[]).map(fit => (
+                <span key={fit} className="text-muted-foreground">
+                  {fitBalance.counts[fit]} {fitBalance.counts[fit] === 1 ? fitLabels[fit].singular.toLowerCase() : fitLabels[fit].plural.toLowerCase()}
+                </span>
+              ))}
+              {fitReport && !fitReport.stats.gpa && !fitReport.stats.sat && !fitReport.stats.act && (
+                <span className="text-xs text-muted-foreground">
+                  · Based on admit rates only. Add your GPA and test scores to your profile for better labels.
+                </span>
+              )}
+            </div>
+          )}
+
           {/* College Board */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 sm:gap-6 mb-8">
             {/* Applying Column */}
@@ -322,6 +521,10 @@ export default function CollegesTab() {
                       onMove={updateCollegeStatusMutation.mutate}
                       onDelete={deleteCollegeMutation.mutate}
                       onDragStart={handleDragStart}
+                      tasks={collegeTasks.filter(task => task.collegeId === college.id)}
+                      fit={fitReport?.colleges[college.id]}
+                      netPrice={netPriceReport?.colleges[college.id]}
+                      letters={getCollegeLetters(college.id)}
                     />
                   ))
                 ) : (
@@ -350,6 +553,10 @@ export default function CollegesTab() {
                       onMove={updateCollegeStatusMutation.mutate}
                       onDelete={deleteCollegeMutation.mutate}
                       onDragStart={handleDragStart}
+                      tasks={collegeTasks.filter(task => task.collegeId === college.id)}
+                      fit={fitReport?.colleges[college.id]}
+                      netPrice={netPriceReport?.colleges[college.id]}
+                      letters={getCollegeLetters(college.id)}
                     />
                   ))
                 ) : (
@@ -378,6 +585,10 @@ export default function CollegesTab() {
                       onMove={updateCollegeStatusMutation.mutate}
                       onDelete={deleteCollegeMutation.mutate}
                       onDragStart={handleDragStart}
+                      tasks={collegeTasks.filter(task => task.collegeId === college.id)}
+                      fit={fitReport?.colleges[college.id]}
+                      netPrice={netPriceReport?.colleges[college.id]}
+                      letters={getCollegeLetters(college.id)}
                     />
                   ))
                 ) : (
@@ -415,6 +626,7 @@ export default function CollegesTab() {
                     recommendation={recommendation}
                     onDelete={deleteRecommendationMutation.mutate}
                     onConvert={convertRecommendationMutation.mutate}
+                    fit={fitReport?.recommendations[recommendation.id]}
                   />
                 ))}
               </div>
@@ -450,9 +662,13 @@ export default function CollegesTab() {
             </label>
             <Input
               id="college-name"
-              placeholder="Enter college name"
+              placeholder="Start typing, e.g. UCLA"
+              autoComplete="off"
               value={newCollegeName}
-              onChange={(e) => setNewCollegeName(e.target.value)}
+              onChange={(e) => {
+                setNewCollegeName(e.target.value);
+                setSelectedInstitution(null);
+              }}
               onKeyDown={(e) => {
                 if (e.key === 'Enter' && newCollegeName.trim() && !addCollegeMutation.isPending) {
                   e.preventDefault();
@@ -460,6 +676,33 @@ export default function CollegesTab() {
                 }
               }}
             />
+            {selectedInstitution ? (
+              <p className="flex items-center text-xs text-muted-foreground mt-2">
+                <Check className="h-3.5 w-3.5 mr-1 text-primary" />
+                {[selectedInstitution.city, selectedInstitution.state].filter(Boolean).join(", ")}
+                {selectedInstitution.website && ` · ${selectedInstitution.website}`}
+              </p>
+            ) : catalogResults.length > 0 && newCollegeName.trim().length >= 2 && (
+              <div className="mt-2 max-h-60 overflow-y-auto rounded-md border border-border">
+                {catalogResults.map(institution => (
+                  <button
+                    key={institution.id}
+                    type="button"
+                    className="w-full text-left px-3 py-2 hover:bg-muted/60 border-b border-border/40 last:border-b-0"
+                    onClick={() => {
+                      setNewCollegeName(institution.name);
+                      setSelectedInstitution(institution);
+                    }}
+                  >
+                    <div className="text-sm font-medium">{institution.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {[institution.city, institution.state].filter(Boolean).join(", ")}
+                      {institution.matchedAlias && ` · Also known as ${institution.matchedAlias}`}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setAddDialogOpen(false)}>
@@ -554,17 +797,31 @@ export default function CollegesTab() {
   );
 }
 
+type CollegeLetter = RecommendationLetter & { recommenderName: string };
+
 // College Card Component
 interface CollegeCardProps {
   college: College;
   onMove: (params: { collegeId: number; status: string }) => void;
   onDelete: (collegeId: number) => void;
   onDragStart: (e: React.DragEvent<HTMLDivElement>, college: College) => void;
+  tasks: CollegeTask[];
+  fit?: CollegeFitResult | null;
+  netPrice?: NetPriceEstimate | null;
+  letters: CollegeLetter[];
 }
 
-function CollegeCard({ college, onMove, onDelete, onDragStart }: CollegeCardProps) {
+function CollegeCard({ college, onMove, onDelete, onDragStart, tasks, fit, netPrice, letters }: CollegeCardProps) {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const [tasksOpen, setTasksOpen] = useState(false);
+  const [notesOpen, setNotesOpen] = useState(false);
+  const rating = averageRating(college.ratings);
+
+  // Summarize checklist progress and the next open deadline
+  const completedCount = tasks.filter(task => task.isCompleted).length;
+  const nextTask = tasks.find(task => !task.isCompleted && task.dueDate);
+  const submittedLetters = letters.filter(letter => letter.status === LetterStatus.SUBMITTED);
 
   // Function to create a new chat session and send a message about a college
   const handleAskInChat = async (collegeName: string) => {
@@ -597,7 +854,64 @@ function CollegeCard({ college, onMove, onDelete, onDragStart }: CollegeCardProp
       draggable
       onDragStart={(e) => onDragStart(e, college)}
     >
-      <div className="font-medium text-foreground truncate mr-2">{college.name}</div>
+      <div className="min-w-0 mr-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <div className="font-medium text-foreground truncate">{college.name}</div>
+          <CollegeFitBadge result={fit} />
+        </div>
+        {netPrice && (
+          <div className="text-xs text-muted-foreground truncate">
+            Est. {formatDollars(netPrice.netPrice)}/yr{netPrice.basis === "average" ? " (rough)" : ""}
+          </div>
+        )}
+        {hasCollegeNotes(college) && (
+          <button
+            className="text-xs text-muted-foreground hover:text-foreground truncate flex items-center gap-1 max-w-full text-left"
+            onClick={() => setNotesOpen(true)}
+          >
+            {rating !== null && (
+              <>
+                <Star className="h-3 w-3 fill-amber-400 text-amber-400" />
+                {rating} ·{" "}
+              </>
+            )}
+            {college.pros.length} pros, {college.cons.length} cons{college.notes?.trim() ? " · notes" : ""}
+          </button>
+        )}
+        {letters.length > 0 && (
+          <div
+            className={`text-xs truncate ${submittedLetters.length === letters.length ? "text-green-600" : "text-muted-foreground"}`}
+            title={letters.map(letter => `${letter.recommenderName}: ${letter.status === LetterStatus.SUBMITTED ? "submitted" : "requested"}`).join("\n")}
+          >
+            Letters: {submittedLetters.length}/{letters.length} submitted
+            {" "}({letters.map(letter => letter.recommenderName).join(", ")})
+          </div>
+        )}
+        {tasks.length > 0 && (
+          <button
+            className="text-xs text-muted-foreground hover:text-foreground truncate block max-w-full text-left"
+            onClick={() => setTasksOpen(true)}
+          >
+            {completedCount}/{tasks.length} tasks done
+            {nextTask && (
+              <span className={isTaskOverdue(nextTask) ? "text-red-600" : ""}>
+                {" "}· next {formatDueDate(nextTask.dueDate)}
+              </span>
+            )}
+          </button>
+        )}
+      </div>
+      <CollegeTasksDialog
+        college={college}
+        tasks={tasks}
+        open={tasksOpen}
+        onOpenChange={setTasksOpen}
+      />
+      <CollegeNotesDialog
+        college={college}
+        open={notesOpen}
+        onOpenChange={setNotesOpen}
+      />
       <DropdownMenu>
         <DropdownMenuTrigger asChild>
           <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground flex-shrink-0 touch-manipulation">
@@ -611,6 +925,18 @@ function CollegeCard({ college, onMove, onDelete, onDragStart }: CollegeCardProp
           >
             Ask in chat
           </DropdownMenuItem>
+          <DropdownMenuItem 
+            onClick={() => setTasksOpen(true)}
+            className="py-2 cursor-pointer focus:bg-accent"
+          >
+            Deadlines & checklist
+          </DropdownMenuItem>
+          <DropdownMenuItem 
+            onClick={() => setNotesOpen(true)}
+            className="py-2 cursor-pointer focus:bg-accent"
+          >
+            Notes, pros & cons
+          </DropdownMenuItem>
           <DropdownMenuSeparator />
           <DropdownMenuItem 
             onClick={() => onMove({ collegeId: college.id, status: "applying" })}
@@ -650,9 +976,10 @@ interface RecommendationCardProps {
   recommendation: CollegeRecommendation;
   onDelete: (recommendationId: number) => void;
   onConvert: (params: { recommendationId: number; status: string }) => void;
+  fit?: CollegeFitResult | null;
 }
 
-function RecommendationCard({ recommendation, onDelete, onConvert }: RecommendationCardProps) {
+function RecommendationCard({ recommendation, onDelete, onConvert, fit }: RecommendationCardProps) {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
 
@@ -722,6 +1049,7 @@ function RecommendationCard({ recommendation, onDelete, onConvert }: Recommendat
           </DropdownMenu>
         </div>
         <div className="flex flex-wrap gap-2 mt-2">
+          <CollegeFitBadge result={fit} />
           {recommendation.acceptanceRate !== null && (
             <Badge className={getAcceptanceRateColor(recommendation.acceptanceRate)}>
               {recommendation.acceptanceRate}% acceptance rate
@@ -732,6 +1060,7 @@ function RecommendationCard({ recommendation, onDelete, onConvert }: Recommendat
               Recommended by {recommendation.recommendedBy}
             </Badge>
           )}
+          <RecommendationFacts recommendation={recommendation} />
         </div>
       </div>
 
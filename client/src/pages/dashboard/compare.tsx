@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import {
+  College,
+  CollegeComparisonEntry,
+  CollegeRecommendation,
+  CollegeStatus,
+  CollegeStatusType,
+  InstitutionControl,
+  InstitutionControlType,
+} from "@shared/schema";
+import { formatDueDate } from "@/components/CollegeTasksDialog";
+import { CollegeFitBadge, fitLabels } from "@/components/CollegeFitBadge";
+import { formatDollars } from "@/components/CollegeCostsDialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ArrowLeft, Loader2, MessageSquare } from "lucide-react";
+
+const MAX_COMPARED = 5;
+
+type Selection = { kind: "college" | "recommendation"; id: number };
+
+const statusLabels: Record<CollegeStatusType, string> = {
+  [CollegeStatus.APPLYING]: "Applying",
+  [CollegeStatus.RESEARCHING]: "Researching",
+  [CollegeStatus.NOT_APPLYING]: "Not applying",
+};
+
+const controlLabels: Record<InstitutionControlType, string> = {
+  [InstitutionControl.PUBLIC]: "Public",
+  [InstitutionControl.PRIVATE_NONPROFIT]: "Private nonprofit",
+  [InstitutionControl.PRIVATE_FOR_PROFIT]: "Private for-profit",
+};
+
+function range(low: number | null | undefined, high: number | null | undefined) {
+  return low != null && high != null ? `${low}–${high}` : null;
+}
+
+// The rows of the comparison table. Each returns null when there's nothing to show.
+const rows: { label: string; value: (entry: CollegeComparisonEntry) => React.ReactNode }[] = [
+  { label: "On your list", value: entry => entry.status ? statusLabels[entry.status] : "Recommended" },
+  {
+    label: "Location",
+    value: entry => entry.institution?.city && entry.institution.state ? `${entry.institution.city}, ${entry.institution.state}` : null,
+  },
+  { label: "Type", value: entry => entry.institution?.control ? controlLabels[entry.institution.control] : null },
+  { label: "Undergraduates", value: entry => entry.institution?.undergradEnrollment?.toLocaleString() ?? null },
+  { label: "Admit rate", value: entry => entry.institution?.admitRate != null ? `${entry.institution.admitRate}%` : null },
+  { label: "SAT (middle 50%)", value: entry => range(entry.institution?.sat25, entry.institution?.sat75) },
+  { label: "ACT (middle 50%)", value: entry => range(entry.institution?.act25, entry.institution?.act75) },
+  { label: "Fit for you", value: entry => entry.fit ? <CollegeFitBadge result={entry.fit} /> : null },
+  { label: "Average net price", value: entry => entry.institution?.netPrice != null ? `${formatDollars(entry.institution.netPrice)}/yr` : null },
+  { label: "Your estimated cost", value: entry => entry.netPrice ? `${formatDollars(entry.netPrice.netPrice)}/yr` : null },
+  { label: "Aid offer (true cost)", value: entry => entry.aidOffer?.netPrice != null ? `${formatDollars(entry.aidOffer.netPrice)}/yr` : null },
+  {
+    label: "Deadlines",
+    value: entry => entry.deadlines.length > 0 ? (
+      <ul className="space-y-0.5">
+        {entry.deadlines.map(task => (
+          <li key={task.id}>{task.title}: {formatDueDate(task.dueDate)}</li>
+        ))}
+      </ul>
+    ) : null,
+  },
+  {
+    label: "Your ratings",
+    value: entry => entry.ratings.length > 0 ? (
+      <ul className="space-y-0.5">
+        {entry.ratings.map(rating => <li key={rating.criterion}>{rating.criterion}: {rating.score}/5</li>)}
+      </ul>
+    ) : null,
+  },
+  { label: "Pros", value: entry => entry.pros.length > 0 ? entry.pros.join("; ") : null },
+  { label: "Cons", value: entry => entry.cons.length > 0 ? entry.cons.join("; ") : null },
+  { label: "Notes", value: entry => entry.notes ? <div className="whitespace-pre-wrap">{entry.notes}</div> : null },
+];
+
+// A plain-text version of the comparison for the chat, so the AI starts from the same facts
+function comparisonMessage(entries: CollegeComparisonEntry[]) {
+  const lines = entries.map(entry => {
+    const facts = [
+      entry.status ? statusLabels[entry.status].toLowerCase() : "recommended to me",
+      entry.fit && fitLabels[entry.fit.fit].singular.toLowerCase(),
+      entry.institution?.city && entry.institution.state && `${entry.institution.city}, ${entry.institution.state}`,
+      entry.institution?.admitRate != null && `${entry.institution.admitRate}% admit rate`,
+      range(entry.institution?.sat25, entry.institution?.sat75) && `SAT ${range(entry.institution?.sat25, entry.institution?.sat75)}`,
+      entry.netPrice && `my estimated cost ${formatDollars(entry.netPrice.netPrice)}/yr`,
+      entry.aidOffer?.netPrice != null && `aid offer leaves ${formatDollars(entry.aidOffer.netPrice)}/yr`,
+      entry.deadlines[0] && `next deadline ${entry.deadlines[0].title} ${formatDueDate(entry.deadlines[0].dueDate)}`,
+      entry.ratings.length > 0 && `my ratings ${entry.ratings.map(rating => `${rating.criterion} ${rating.score}/5`).join(", ")}`,
+      entry.pros.length > 0 && `pros: ${entry.pros.join(", ")}`,
+      entry.cons.length > 0 && `cons: ${entry.cons.join(", ")}`,
+      entry.notes && `notes: ${entry.notes}`,
+    ].filter(Boolean);
+    return `- ${entry.name} (${facts.join("; ")})`;
+  });
+
+  return `Help me compare these colleges:\n${lines.join("\n")}\n\nHow do they differ for someone like me, and what should I weigh in choosing between them?`;
+}
+
+// Pick 2-5 colleges or recommendations and see them side by side
+export default function CompareTab() {
+  const [selected, setSelected] = useState<Selection[]>([]);
+  const [, setLocation] = useLocation();
+
+  const { data: colleges = [] } = useQuery<College[]>({
+    queryKey: ["/api/colleges"],
+  });
+
+  const { data: recommendations = [] } = useQuery<CollegeRecommendation[]>({
+    queryKey: ["/api/recommendations"],
+  });
+
+  const idsOf = (kind: Selection["kind"]) => selected.filter(s => s.kind === kind).map(s => s.id).join(",");
+  const { data: entries, isLoading } = useQuery<CollegeComparisonEntry[]>({
+    queryKey: [`/api/compare?colleges=${idsOf("college")}&recommendations=${idsOf("recommendation")}`],
+    enabled: selected.length >= 2,
+    staleTime: 0,
+  });
+
+  const isSelected = (kind: Selection["kind"], id: number) => selected.some(s => s.kind === kind && s.id === id);
+
+  const toggle = (kind: Selection["kind"], id: number) => {
+    setSelected(prev => isSelected(kind, id)
+      ? prev.filter(s => !(s.kind === kind && s.id === id))
+      : [...prev, { kind, id }]);
+  };
+
+  const pickerItem = (kind: Selection["kind"], id: number, name: string) => {
+    const checked = isSelected(kind, id);
+    return (
+      <label key={`${kind}-${id}`} className="flex items-center gap-2 py-1 text-sm cursor-pointer">
+        <Checkbox
+          checked={checked}
+          disabled={!checked && selected.length >= MAX_COMPARED}
+          onCheckedChange={() => toggle(kind, id)}
+        />
+        <span className="truncate">{name}</span>
+      </label>
+    );
+  };
+
+  const askInChat = () => {
+    if (!entries) return;
+    setLocation(`/dashboard?message=${encodeURIComponent(comparisonMessage(entries))}`);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <header className="bg-card border-b border-border/40 py-4 px-4 sm:px-6 flex flex-wrap justify-between items-center gap-3">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => setLocation("/dashboard/colleges")}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <h1 className="text-xl font-bold">Compare Colleges</h1>
+        </div>
+        <Button onClick={askInChat} disabled={!entries || selected.length < 2}>
+          <MessageSquare className="h-4 w-4 mr-2" />
+          Ask the AI about these
+        </Button>
+      </header>
+
+      <div className="flex-1 p-4 sm:p-6 grid grid-cols-1 lg:grid-cols-[260px_1fr] gap-6">
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">Pick 2 to {MAX_COMPARED} colleges.</p>
+          {colleges.length > 0 && (
+            <div>
+              <h2 className="text-sm font-medium mb-1">Your colleges</h2>
+              {colleges.map(college => pickerItem("college", college.id, college.name))}
+            </div>
+          )}
+          {recommendations.length > 0 && (
+            <div>
+              <h2 className="text-sm font-medium mb-1">Recommendations</h2>
+              {recommendations.map(rec => pickerItem("recommendation", rec.id, rec.name))}
+            </div>
+          )}
+          {colleges.length === 0 && recommendations.length === 0 && (
+            <p className="text-sm text-muted-foreground">Add colleges to your list first.</p>
+          )}
+        </div>
+
+        <div className="min-w-0">
+          {selected.length < 2 ? (
+            <div className="border border-dashed border-border/60 rounded-lg p-8 text-center text-sm text-muted-foreground">
+              Choose at least two colleges to see them side by side.
+            </div>
+          ) : isLoading || !entries ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="overflow-x-auto border border-border/40 rounded-lg bg-card">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border/40">
+                    <th className="p-3" />
+                    {entries.map(entry => (
+                      <th key={`${entry.kind}-${entry.id}`} className="p-3 text-left font-semibold align-bottom min-w-[160px]">
+                        {entry.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.label} className="border-b border-border/20 align-top">
+                      <td className="p-3 text-muted-foreground whitespace-nowrap">{row.label}</td>
+                      {entries.map(entry => (
+                        <td key={`${entry.kind}-${entry.id}`} className="p-3">
+                          {row.value(entry) ?? <span className="text-muted-foreground">—</span>}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,535 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { FileText, Plus, Trash2, Save, Sparkles, History, GitCompare } from "lucide-react";
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Essay, EssayRevision, EssayDiffSegment, College, AdvisorCommentWithAdvisor, countWords } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { StudentCommentThreads, useMarkCommentsRead, isUnreadComment } from "@/components/AdvisorComments";
+import { DiffView } from "@/components/DiffView";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+type EssayWithRevisions = Essay & { revisions: EssayRevision[] };
+
+type EssayDiff = {
+  from: number | "current" | null;
+  to: number | "current";
+  segments: EssayDiffSegment[];
+};
+
+// Select value used for essays that aren't tied to a specific college
+const COMMON_APP = "common_app";
+
+function formatRevisionDate(date: Date | string) {
+  return new Date(date).toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+// Word count, highlighted when the draft goes over the limit
+function WordCount({ count, limit }: { count: number; limit: number | null }) {
+  const isOver = !!limit && count > limit;
+  return (
+    <span className={`text-sm ${isOver ? "text-red-600 font-medium" : "text-muted-foreground"}`}>
+      {count}{limit ? ` / ${limit}` : ""} words
+    </span>
+  );
+}
+
+export default function EssaysTab() {
+  const [selectedEssayId, setSelectedEssayId] = useState<number | null>(null);
+  const [draft, setDraft] = useState("");
+  const [newEssayOpen, setNewEssayOpen] = useState(false);
+  const [newTitle, setNewTitle] = useState("");
+  const [newCollege, setNewCollege] = useState(COMMON_APP);
+  const [newPrompt, setNewPrompt] = useState("");
+  const [newWordLimit, setNewWordLimit] = useState("");
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [viewedRevisionId, setViewedRevisionId] = useState<number | null>(null);
+  const [diffRequest, setDiffRequest] = useState<{ from: number; to: number | "current" } | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: essays = [], isLoading } = useQuery<Essay[]>({
+    queryKey: ['/api/essays'],
+  });
+
+  const { data: colleges = [] } = useQuery<College[]>({
+    queryKey: ['/api/colleges'],
+  });
+
+  const { data: essay } = useQuery<EssayWithRevisions>({
+    queryKey: [`/api/essays/${selectedEssayId}`],
+    enabled: selectedEssayId !== null,
+  });
+
+  const { data: diff, isLoading: isDiffLoading } = useQuery<EssayDiff>({
+    queryKey: [`/api/essays/${selectedEssayId}/diff?from=${diffRequest?.from}&to=${diffRequest?.to}`],
+    enabled: selectedEssayId !== null && diffRequest !== null,
+  });
+
+  // Advisor comments on the open essay, marked read once they're on screen
+  const { data: advisorComments = [] } = useQuery<AdvisorCommentWithAdvisor[]>({
+    queryKey: ['/api/comments'],
+  });
+  const essayComments = advisorComments.filter(comment => selectedEssayId !== null && comment.essayId === selectedEssayId);
+  const newCommentIds = useMarkCommentsRead(essayComments);
+  const unreadEssayIds = advisorComments
+    .filter(comment => isUnreadComment(comment) && comment.essayId !== null)
+    .map(comment => comment.essayId);
+
+  // Select the most recently edited essay by default
+  useEffect(() => {
+    if (selectedEssayId === null && essays.length > 0) {
+      setSelectedEssayId(essays[0].id);
+    }
+  }, [essays, selectedEssayId]);
+
+  // Load the working draft when switching essays
+  useEffect(() => {
+    if (essay) {
+      setDraft(essay.content);
+    }
+  }, [essay?.id]);
+
+  const collegeNames = new Map(colleges.map(college => [college.id, college.name]));
+  const getCollegeLabel = (collegeId: number | null) =>
+    collegeId ? collegeNames.get(collegeId) || "College" : "Common App";
+
+  const isDirty = !!essay && draft !== essay.content;
+  const viewedRevision = essay?.revisions.find(revision => revision.id === viewedRevisionId);
+
+  const invalidateEssay = (essayId: number) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/essays'] });
+    queryClient.invalidateQueries({ queryKey: [`/api/essays/${essayId}`] });
+  };
+
+  const createEssayMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/essays', {
+        title: newTitle.trim(),
+        collegeId: newCollege === COMMON_APP ? null : parseInt(newCollege),
+        prompt: newPrompt.trim() || null,
+        wordLimit: newWordLimit ? parseInt(newWordLimit) : null,
+      });
+      return await res.json() as Essay;
+    },
+    onSuccess: (newEssay) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/essays'] });
+      setSelectedEssayId(newEssay.id);
+      setNewEssayOpen(false);
+      setNewTitle("");
+      setNewCollege(COMMON_APP);
+      setNewPrompt("");
+      setNewWordLimit("");
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create essay. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Saves the working draft; the other actions call this first so they see the latest text
+  const saveDraft = async () => {
+    if (!essay || !isDirty) return;
+    await apiRequest('PATCH', `/api/essays/${essay.id}`, { content: draft });
+    invalidateEssay(essay.id);
+  };
+
+  const saveDraftMutation = useMutation({
+    mutationFn: saveDraft,
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save draft. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const saveRevisionMutation = useMutation({
+    mutationFn: async () => {
+      if (!essay) return;
+      await saveDraft();
+      const res = await apiRequest('POST', `/api/essays/${essay.id}/revisions`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      if (essay) invalidateEssay(essay.id);
+      toast({
+        title: "Version saved",
+        description: "You can compare against this version later.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save version. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const feedbackMutation = useMutation({
+    mutationFn: async () => {
+      if (!essay) return;
+      await saveDraft();
+      const res = await apiRequest('POST', `/api/essays/${essay.id}/feedback`);
+      return await res.json() as EssayRevision;
+    },
+    onSuccess: (revision) => {
+      if (essay) invalidateEssay(essay.id);
+      if (revision) setViewedRevisionId(revision.id);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to get feedback. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteEssayMutation = useMutation({
+    mutationFn: async (essayId: number) => {
+      return await apiRequest('DELETE', `/api/essays/${essayId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/essays'] });
+      setSelectedEssayId(null);
+      setDeleteDialogOpen(false);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete essay. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const isBusy = saveDraftMutation.isPending || saveRevisionMutation.isPending || feedbackMutation.isPending;
+
+  return (
+    <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 max-w-6xl">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold mb-2">Essays</h1>
+          <p className="text-muted-foreground">
+            Draft your application essays, keep every version and get feedback
+          </p>
+        </div>
+        <Button size="sm" onClick={() => setNewEssayOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Essay
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-10">
+          <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-primary"></div>
+        </div>
+      ) : essays.length === 0 ? (
+        <div className="text-center py-16 text-muted-foreground">
+          <FileText className="h-12 w-12 mx-auto mb-3 opacity-50" />
+          <p className="mb-4">No essays yet. Start a draft for the Common App or one of your colleges.</p>
+          <Button onClick={() => setNewEssayOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Essay
+          </Button>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-[220px_1fr] gap-6">
+          {/* Essay list */}
+          <div className="space-y-1">
+            {essays.map(item => (
+              <button
+                key={item.id}
+                onClick={() => {
+                  setSelectedEssayId(item.id);
+                  setViewedRevisionId(null);
+                }}
+                className={`w-full text-left px-3 py-2 rounded-md ${
+                  item.id === selectedEssayId
+                    ? "bg-primary/10 text-primary"
+                    : "hover:bg-accent"
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="font-medium truncate">{item.title}</span>
+                  {unreadEssayIds.includes(item.id) && (
+                    <span className="h-2 w-2 rounded-full bg-primary shrink-0" title="New advisor comments" />
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground truncate">{getCollegeLabel(item.collegeId)}</div>
+              </button>
+            ))}
+          </div>
+
+          {/* Editor */}
+          {essay && (
+            <div className="space-y-4 min-w-0">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <h2 className="text-xl font-semibold truncate">{essay.title}</h2>
+                  <Badge variant="outline" className="mt-1">{getCollegeLabel(essay.collegeId)}</Badge>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-muted-foreground"
+                  onClick={() => setDeleteDialogOpen(true)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {essay.prompt && (
+                <div className="text-sm p-3 rounded-md bg-muted/50 border border-border/40 whitespace-pre-wrap">
+                  {essay.prompt}
+                </div>
+              )}
+
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                placeholder="Start writing..."
+                className="min-h-[360px] text-base leading-relaxed"
+              />
+
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <WordCount count={countWords(draft)} limit={essay.wordLimit} />
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => saveDraftMutation.mutate()}
+                    disabled={!isDirty || isBusy}
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    {isDirty ? "Save Draft" : "Saved"}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => saveRevisionMutation.mutate()}
+                    disabled={!draft.trim() || isBusy}
+                  >
+                    <History className="h-4 w-4 mr-2" />
+                    Save Version
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => feedbackMutation.mutate()}
+                    disabled={!draft.trim() || isBusy}
+                    className="bg-primary hover:bg-primary/90 text-primary-foreground"
+                  >
+                    <Sparkles className="h-4 w-4 mr-2" />
+                    {feedbackMutation.isPending ? "Reviewing..." : "Get Feedback"}
+                  </Button>
+                </div>
+              </div>
+
+              <StudentCommentThreads comments={essayComments} highlightIds={newCommentIds} />
+
+              {/* Saved versions */}
+              <div className="pt-4 border-t border-border/40">
+                <h3 className="font-medium mb-2">Versions</h3>
+                {essay.revisions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Save a version to keep a snapshot you can compare against later.
+                  </p>
+                ) : (
+                  <div className="space-y-1">
+                    {essay.revisions.map((revision, index) => (
+                      <div
+                        key={revision.id}
+                        className="flex items-center gap-2 p-2 rounded-md border border-border/40"
+                      >
+                        <button
+                          className="flex-1 min-w-0 text-left"
+                          onClick={() => setViewedRevisionId(revision.id)}
+                        >
+                          <div className="text-sm font-medium">{formatRevisionDate(revision.createdAt)}</div>
+                          <div className="text-xs text-muted-foreground">{revision.wordCount} words</div>
+                        </button>
+                        {revision.feedback && (
+                          <Badge variant="secondary" className="text-xs">Feedback</Badge>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDiffRequest({ from: revision.id, to: "current" })}
+                        >
+                          <GitCompare className="h-4 w-4 mr-1" />
+                          vs. draft
+                        </Button>
+                        {essay.revisions[index + 1] && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setDiffRequest({ from: essay.revisions[index + 1].id, to: revision.id })}
+                          >
+                            vs. previous
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* New essay dialog */}
+      <Dialog open={newEssayOpen} onOpenChange={setNewEssayOpen}>
+        <DialogContent className="sm:max-w-lg max-w-[95vw]">
+          <DialogHeader>
+            <DialogTitle>New Essay</DialogTitle>
+            <DialogDescription>
+              Add the prompt and word limit so feedback can check your draft against them.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="grid gap-2">
+              <Label htmlFor="essay-title">Title</Label>
+              <Input
+                id="essay-title"
+                placeholder="e.g. Personal Statement"
+                value={newTitle}
+                onChange={(e) => setNewTitle(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>For</Label>
+              <Select value={newCollege} onValueChange={setNewCollege}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={COMMON_APP}>Common App</SelectItem>
+                  {colleges.map(college => (
+                    <SelectItem key={college.id} value={String(college.id)}>{college.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="essay-prompt">Prompt</Label>
+              <Textarea
+                id="essay-prompt"
+                placeholder="Paste the essay prompt"
+                value={newPrompt}
+                onChange={(e) => setNewPrompt(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="essay-word-limit">Word limit</Label>
+              <Input
+                id="essay-word-limit"
+                type="number"
+                min={1}
+                placeholder="e.g. 650"
+                value={newWordLimit}
+                onChange={(e) => setNewWordLimit(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNewEssayOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createEssayMutation.mutate()}
+              disabled={!newTitle.trim() || createEssayMutation.isPending}
+            >
+              {createEssayMutation.isPending ? "Creating..." : "Create Essay"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Saved version and its feedback */}
+      <Dialog open={!!viewedRevision} onOpenChange={(open) => !open && setViewedRevisionId(null)}>
+        <DialogContent className="sm:max-w-2xl max-w-[95vw] max-h-[85vh] overflow-y-auto">
+          {viewedRevision && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Version from {formatRevisionDate(viewedRevision.createdAt)}</DialogTitle>
+                <DialogDescription>{viewedRevision.wordCount} words</DialogDescription>
+              </DialogHeader>
+              {viewedRevision.feedback && (
+                <div className="prose prose-sm dark:prose-invert max-w-none p-3 rounded-md bg-primary/5 border border-primary/10">
+                  <ReactMarkdown remarkPlugins={[remarkGfm]}>{viewedRevision.feedback}</ReactMarkdown>
+                </div>
+              )}
+              <div className="whitespace-pre-wrap text-sm leading-relaxed">{viewedRevision.content}</div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Diff between versions */}
+      <Dialog open={!!diffRequest} onOpenChange={(open) => !open && setDiffRequest(null)}>
+        <DialogContent className="sm:max-w-2xl max-w-[95vw] max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Changes</DialogTitle>
+            <DialogDescription>
+              {diffRequest?.to === "current"
+                ? "What changed between this version and your saved draft."
+                : "What changed between this version and the one before it."}
+            </DialogDescription>
+          </DialogHeader>
+          {isDiffLoading || !diff ? (
+            <div className="flex justify-center py-4">
+              <div className="animate-spin h-6 w-6 border-2 border-primary border-t-transparent rounded-full"></div>
+            </div>
+          ) : (
+            <DiffView segments={diff.segments} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete essay?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This deletes the draft and every saved version. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => essay && deleteEssayMutation.mutate(essay.id)}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
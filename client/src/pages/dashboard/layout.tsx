@@ -1,15 +1,22 @@
 import { useLocation } from "wouter";
 import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import Logo from "@/components/logo";
-import { MessageSquare, Building2, User, Menu, X, Users } from "lucide-react";
+import { MessageSquare, Building2, User, Menu, X, Users, FileText, Trophy, PenLine } from "lucide-react";
 import ChatTab from "./chat";
 import CollegesTab from "./colleges";
+import EssaysTab from "./essays";
 import ProfileTab from "./profile";
 import AdvisorsTab from "./advisors";
+import OnboardingReviewTab from "./onboarding-review";
+import CompareTab from "./compare";
+import ActivitiesTab from "./activities";
+import RecommendersTab from "./recommenders";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { User as SelectUser } from "@shared/schema";
+import { User as SelectUser, AdvisorComment, UserRole } from "@shared/schema";
+import { isUnreadComment } from "@/components/AdvisorComments";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -27,6 +34,17 @@ export default function DashboardLayout() {
 
   const [location] = useLocation();
 
+  // Poll for advisor comments so new ones show up without a reload
+  const { data: advisorComments = [] } = useQuery<AdvisorComment[]>({
+    queryKey: ["/api/comments"],
+    refetchInterval: 60000,
+  });
+  const unreadComments = advisorComments.filter(isUnreadComment);
+  const unreadCounts = {
+    chat: unreadComments.filter(comment => comment.chatSessionId !== null).length,
+    essays: unreadComments.filter(comment => comment.essayId !== null).length,
+  };
+
   // Fetch user data
   useEffect(() => {
     const fetchUser = async () => {
@@ -56,13 +74,20 @@ export default function DashboardLayout() {
     fetchUser();
   }, []);
 
+  // Advisor accounts have no student dashboard, send them to their caseload
+  useEffect(() => {
+    if (user?.role === UserRole.ADVISOR) {
+      setLocation("/advisor");
+    }
+  }, [user, setLocation]);
+
   useEffect(() => {
     // Extract the tab from the URL
     const path = location.split("/").pop();
     
     if (path === "dashboard" || !path) {
       setActiveTab("chat");
-    } else if (["chat", "colleges", "profile", "advisors"].includes(path)) {
+    } else if (["chat", "colleges", "essays", "profile", "advisors", "onboarding", "compare"].includes(path)) {
       setActiveTab(path);
     }
   }, [location]);
@@ -138,13 +163,18 @@ export default function DashboardLayout() {
                 >
                   <MessageSquare className="h-5 w-5 mr-2" />
                   Chat
+                  {unreadCounts.chat > 0 && (
+                    <span className="ml-auto text-xs font-medium bg-primary text-primary-foreground rounded-full px-2 py-0.5">
+                      {unreadCounts.chat}
+                    </span>
+                  )}
                 </button>
               </li>
               <li>
                 <button
                   onClick={() => handleTabClick("colleges")}
                   className={`w-full flex items-center text-left px-3 py-2 rounded-md ${
-                    activeTab === "colleges"
+                    (activeTab === "colleges" || activeTab === "compare")
                       ? "bg-primary/10 text-primary font-medium"
                       : "text-sidebar-foreground hover:text-foreground hover:bg-sidebar-accent"
                   }`}
@@ -153,11 +183,55 @@ export default function DashboardLayout() {
                   Colleges
                 </button>
               </li>
+              <li>
+                <button
+                  onClick={() => handleTabClick("essays")}
+                  className={`w-full flex items-center text-left px-3 py-2 rounded-md ${
+                    activeTab === "essays"
+                      ? "bg-primary/10 text-primary font-medium"
+                      : "text-sidebar-foreground hover:text-foreground hover:bg-sidebar-accent"
+                  }`}
+                >
+                  <FileText className="h-5 w-5 mr-2" />
+                  Essays
+                  {unreadCounts.essays > 0 && (
+                    <span className="ml-auto text-xs font-medium bg-primary text-primary-foreground rounded-full px-2 py-0.5">
+                      {unreadCounts.essays}
+                    </span>
+                  )}
+                </button>
+              </li>
+              <li>
+                <button
+                  onClick={() => handleTabClick("activities")}
+                  className={`w-full flex items-center text-left px-3 py-2 rounded-md ${
+                    activeTab === "activities"
+                      ? "bg-primary/10 text-primary font-medium"
+                      : "text-sidebar-foreground hover:text-foreground hover:bg-sidebar-accent"
+                  }`}
+                >
+                  <Trophy className="h-5 w-5 mr-2" />
+                  Activities
+                </button>
+              </li>
+              <li>
+                <button
+                  onClick={() => handleTabClick("recommenders")}
+                  className={`w-full flex items-center text-left px-3 py-2 rounded-md ${
+                    activeTab === "recommenders"
+                      ? "bg-primary/10 text-primary font-medium"
+                      : "text-sidebar-foreground hover:text-foreground hover:bg-sidebar-accent"
+                  }`}
+                >
+                  <PenLine className="h-5 w-5 mr-2" />
+                  Recommenders
+                </button>
+              </li>
               <li>
                 <button
                   onClick={() => handleTabClick("profile")}
                   className={`w-full flex items-center text-left px-3 py-2 rounded-md ${
-                    activeTab === "profile"
+                    (activeTab === "profile" || activeTab === "onboarding")
                       ? "bg-primary/10 text-primary font-medium"
                       : "text-sidebar-foreground hover:text-foreground hover:bg-sidebar-accent"
                   }`}
@@ -236,13 +310,18 @@ export default function DashboardLayout() {
                   >
                     <MessageSquare className="h-5 w-5 mr-3" />
                     Chat
+                    {unreadCounts.chat > 0 && (
+                      <span className="ml-auto text-xs font-medium bg-primary text-primary-foreground rounded-full px-2 py-0.5">
+                        {unreadCounts.chat}
+                      </span>
+                    )}
                   </button>
                 </li>
                 <li>
                   <button
                     onClick={() => handleTabClick("colleges")}
                     className={`w-full flex items-center text-left px-3 py-3 rounded-md ${
-                      activeTab === "colleges"
+                      (activeTab === "colleges" || activeTab === "compare")
                         ? "bg-primary/10 text-primary font-medium"
                         : "text-foreground/70 hover:text-foreground hover:bg-accent"
                     }`}
@@ -251,11 +330,55 @@ export default function DashboardLayout() {
                     Colleges
                   </button>
                 </li>
+                <li>
+                  <button
+                    onClick={() => handleTabClick("essays")}
+                    className={`w-full flex items-center text-left px-3 py-3 rounded-md ${
+                      activeTab === "essays"
+                        ? "bg-primary/10 text-primary font-medium"
+                        : "text-foreground/70 hover:text-foreground hover:bg-accent"
+                    }`}
+                  >
+                    <FileText className="h-5 w-5 mr-3" />
+                    Essays
+                    {unreadCounts.essays > 0 && (
+                      <span className="ml-auto text-xs font-medium bg-primary text-primary-foreground rounded-full px-2 py-0.5">
+                        {unreadCounts.essays}
+                      </span>
+                    )}
+                  </button>
+                </li>
+                <li>
+                  <button
+                    onClick={() => handleTabClick("activities")}
+                    className={`w-full flex items-center text-left px-3 py-3 rounded-md ${
+                      activeTab === "activities"
+                        ? "bg-primary/10 text-primary font-medium"
+                        : "text-foreground/70 hover:text-foreground hover:bg-accent"
+                    }`}
+                  >
+                    <Trophy className="h-5 w-5 mr-3" />
+                    Activities
+                  </button>
+                </li>
+                <li>
+                  <button
+                    onClick={() => handleTabClick("recommenders")}
+                    className={`w-full flex items-center text-left px-3 py-3 rounded-md ${
+                      activeTab === "recommenders"
+                        ? "bg-primary/10 text-primary font-medium"
+                        : "text-foreground/70 hover:text-foreground hover:bg-accent"
+                    }`}
+                  >
+                    <PenLine className="h-5 w-5 mr-3" />
+                    Recommenders
+                  </button>
+                </li>
                 <li>
                   <button
                     onClick={() => handleTabClick("profile")}
                     className={`w-full flex items-center text-left px-3 py-3 rounded-md ${
-                      activeTab === "profile"
+                      (activeTab === "profile" || activeTab === "onboarding")
                         ? "bg-primary/10 text-primary font-medium"
                         : "text-foreground/70 hover:text-foreground hover:bg-accent"
                     }`}
@@ -312,8 +435,13 @@ export default function DashboardLayout() {
         <main className="flex-1 lg:ml-64">
           {activeTab === "chat" && <ChatTab />}
           {activeTab === "colleges" && <CollegesTab />}
+          {activeTab === "essays" && <EssaysTab />}
           {activeTab === "profile" && <ProfileTab />}
           {activeTab === "advisors" && <AdvisorsTab />}
+          {activeTab === "onboarding" && <OnboardingReviewTab />}
+          {activeTab === "compare" && <CompareTab />}
+          {activeTab === "activities" && <ActivitiesTab />}
+          {activeTab === "recommenders" && <RecommendersTab />}
         </main>
       </div>
     </div>
@@ -0,0 +1,228 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { EssayDiffSegment, OnboardingResponses, ProfileRevision, User as SelectUser } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { questions } from "@/pages/onboarding-page";
+import { DiffView } from "@/components/DiffView";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { ArrowLeft, Loader2 } from "lucide-react";
+
+const SKIPPED_ANSWER = "User skipped this question.";
+
+type OnboardingKey = keyof OnboardingResponses;
+
+type ProfileDiff = {
+  segments: EssayDiffSegment[];
+};
+
+// Answers as shown in the form, with skipped questions left blank
+function toAnswers(onboarding: OnboardingResponses | null | undefined): Record<string, string> {
+  return Object.fromEntries(questions.map(question => {
+    const answer = onboarding?.[question.key as OnboardingKey];
+    return [question.key, answer && answer !== SKIPPED_ANSWER ? answer : ""];
+  }));
+}
+
+// Review and edit onboarding answers after signup, optionally regenerating the profile from them
+export default function OnboardingReviewTab() {
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [regenerate, setRegenerate] = useState(true);
+  const [proposal, setProposal] = useState<ProfileRevision | null>(null);
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: user, isLoading } = useQuery<SelectUser>({
+    queryKey: ["/api/me"],
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    if (user) {
+      setAnswers(toAnswers(user.onboarding));
+    }
+  }, [user]);
+
+  const { data: diff, isLoading: isDiffLoading } = useQuery<ProfileDiff>({
+    queryKey: [`/api/profile/diff?from=current&to=${proposal?.id}`],
+    enabled: proposal !== null,
+    staleTime: 0,
+  });
+
+  const updateCachedUser = (updatedUser: SelectUser) => {
+    queryClient.setQueryData(["/api/user"], updatedUser);
+    queryClient.setQueryData(["/api/me"], updatedUser);
+    queryClient.invalidateQueries({ queryKey: ["/api/profile/revisions"] });
+  };
+
+  const saveAnswersMutation = useMutation({
+    mutationFn: async () => {
+      // Blank answers go back as skipped
+      const onboarding = Object.fromEntries(
+        Object.entries(answers).map(([key, answer]) => [key, answer.trim() || undefined])
+      );
+      const res = await apiRequest("POST", "/api/user/onboarding", onboarding);
+      const updatedUser = await res.json() as SelectUser;
+
+      if (!regenerate) {
+        return { updatedUser, revision: null };
+      }
+
+      const profileRes = await apiRequest("POST", "/api/generate-profile", {
+        username: updatedUser.username,
+        onboarding: updatedUser.onboarding,
+        review: true,
+      });
+      const profileData = await profileRes.json() as { profileDescription: string; revision?: ProfileRevision };
+      return {
+        updatedUser: profileData.revision ? updatedUser : { ...updatedUser, profileDescription: profileData.profileDescription },
+        revision: profileData.revision ?? null,
+      };
+    },
+    onSuccess: ({ updatedUser, revision }) => {
+      updateCachedUser(updatedUser);
+      // The academic record may have been re-parsed from the answers
+      queryClient.invalidateQueries({ queryKey: ["/api/college-fit"] });
+
+      if (revision) {
+        setProposal(revision);
+      } else {
+        toast({ title: "Answers saved", description: "Your onboarding answers have been updated." });
+      }
+    },
+    onError: (error: any) => {
+      console.error("Error saving onboarding answers:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save your answers. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async (accept: boolean) => {
+      if (!proposal) return null;
+      const res = await apiRequest("POST", `/api/profile/revisions/${proposal.id}/${accept ? "approve" : "reject"}`);
+      const result = await res.json();
+      return accept ? result.user as SelectUser : null;
+    },
+    onSuccess: (updatedUser) => {
+      if (updatedUser) {
+        updateCachedUser(updatedUser);
+        toast({ title: "Profile updated", description: "Your profile now reflects your updated answers." });
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/profile/revisions"] });
+        toast({ title: "Answers saved", description: "Your profile description was left as it was." });
+      }
+      setProposal(null);
+    },
+    onError: (error: any) => {
+      console.error("Error reviewing regenerated profile:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update your profile. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <div className="flex-1 p-6">
+        <div className="max-w-3xl mx-auto">
+          <Button variant="ghost" size="sm" className="mb-4" onClick={() => setLocation("/dashboard/profile")}>
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to profile
+          </Button>
+
+          <div className="bg-card rounded-lg border border-border/40 p-6">
+            <h3 className="text-lg font-medium mb-1">Your Onboarding Answers</h3>
+            <p className="text-sm text-muted-foreground mb-6">
+              Update any answer that has changed since you signed up.
+            </p>
+
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <div className="space-y-6">
+                {questions.map(question => (
+                  <div key={question.key} className="space-y-1">
+                    <Label htmlFor={`answer-${question.key}`} className="flex items-center gap-2">
+                      <question.icon className="h-4 w-4 text-primary" />
+                      {question.question}
+                    </Label>
+                    <p className="text-xs text-muted-foreground">{question.description}</p>
+                    <Textarea
+                      id={`answer-${question.key}`}
+                      rows={3}
+                      placeholder={question.placeholder}
+                      value={answers[question.key] ?? ""}
+                      onChange={(e) => setAnswers(prev => ({ ...prev, [question.key]: e.target.value }))}
+                    />
+                  </div>
+                ))}
+
+                <div className="flex items-center justify-between gap-4 pt-4 border-t border-border/40">
+                  <div>
+                    <Label htmlFor="regenerate-profile">Regenerate my profile</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Write a new profile description from these answers. You can compare it before it replaces the current one.
+                    </p>
+                  </div>
+                  <Switch id="regenerate-profile" checked={regenerate} onCheckedChange={setRegenerate} />
+                </div>
+
+                <div className="flex justify-end">
+                  <Button onClick={() => saveAnswersMutation.mutate()} disabled={saveAnswersMutation.isPending}>
+                    {saveAnswersMutation.isPending ? (
+                      <>
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        {regenerate ? "Regenerating..." : "Saving..."}
+                      </>
+                    ) : "Save answers"}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Preview of the regenerated description */}
+      <Dialog open={!!proposal} onOpenChange={(open) => !open && !reviewMutation.isPending && reviewMutation.mutate(false)}>
+        <DialogContent className="sm:max-w-2xl max-w-[95vw] max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Your new profile</DialogTitle>
+            <DialogDescription>
+              Added words are highlighted and removed words are struck through.
+            </DialogDescription>
+          </DialogHeader>
+          {isDiffLoading || !diff ? (
+            <div className="flex justify-center py-4">
+              <div className="animate-spin h-6 w-6 border-2 border-primary border-t-transparent rounded-full"></div>
+            </div>
+          ) : (
+            <DiffView segments={diff.segments} />
+          )}
+          <DialogFooter>
+            <Button variant="outline" disabled={reviewMutation.isPending} onClick={() => reviewMutation.mutate(false)}>
+              Keep current profile
+            </Button>
+            <Button disabled={reviewMutation.isPending} onClick={() => reviewMutation.mutate(true)}>
+              Use new profile
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,6 +1,11 @@
 import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { AcademicRecordEditor } from "@/components/AcademicRecordEditor";
+import { ProfileRevisionHistory } from "@/components/ProfileRevisionHistory";
+import { useToast } from "@/hooks/use-toast";
+import { ClipboardList, Pencil } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { User as SelectUser } from "@shared/schema";
 
@@ -8,6 +13,9 @@ export default function ProfileTab() {
   const [user, setUser] = useState<SelectUser | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [, setLocation] = useLocation();
+  const [editDraft, setEditDraft] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
 
   useEffect(() => {
     const fetchLatestUserData = async () => {
@@ -38,13 +46,50 @@ export default function ProfileTab() {
     fetchLatestUserData();
   }, []);
 
+  // Save a hand-edited profile description as a new revision
+  const saveDescription = async () => {
+    if (editDraft === null || !editDraft.trim()) return;
+    
+    try {
+      setIsSaving(true);
+      const response = await apiRequest("POST", "/api/user/profile-description", { profileDescription: editDraft.trim() });
+      const userData = await response.json() as SelectUser;
+      
+      setUser(userData);
+      setEditDraft(null);
+      queryClient.setQueryData(["/api/user"], userData);
+      queryClient.setQueryData(["/api/me"], userData);
+      queryClient.invalidateQueries({ queryKey: ["/api/profile/revisions"] });
+      toast({ title: "Profile saved", description: "Your edit is saved and can be undone from the history below." });
+    } catch (error) {
+      console.error("Error saving profile description:", error);
+      toast({ title: "Error", description: "Failed to save your profile. Please try again.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   return (
     <div className="min-h-screen flex flex-col">
       <div className="flex-1 p-6">
         <div className="max-w-3xl mx-auto">
           {/* AI-Generated Profile Description */}
           <div className="bg-card rounded-lg border border-border/40 p-6">
-            <h3 className="text-lg font-medium mb-4">Your College Application Profile</h3>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium">Your College Application Profile</h3>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" onClick={() => setLocation("/dashboard/onboarding")}>
+                  <ClipboardList className="h-4 w-4 mr-1" />
+                  Onboarding answers
+                </Button>
+                {user?.profileDescription && editDraft === null && (
+                  <Button variant="ghost" size="sm" onClick={() => setEditDraft(user.profileDescription)}>
+                    <Pencil className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                )}
+              </div>
+            </div>
             
             {isLoading ? (
               <div className="py-4">
@@ -54,6 +99,22 @@ export default function ProfileTab() {
                 <div className="h-4 bg-muted animate-pulse rounded mb-4 w-2/3"></div>
                 <div className="h-4 bg-muted animate-pulse rounded w-4/5"></div>
               </div>
+            ) : editDraft !== null ? (
+              <div className="space-y-3">
+                <Textarea
+                  rows={10}
+                  value={editDraft}
+                  onChange={(e) => setEditDraft(e.target.value)}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setEditDraft(null)} disabled={isSaving}>
+                    Cancel
+                  </Button>
+                  <Button onClick={saveDescription} disabled={isSaving || !editDraft.trim()}>
+                    {isSaving ? "Saving..." : "Save"}
+                  </Button>
+                </div>
+              </div>
             ) : user?.profileDescription ? (
               <div className="prose prose-sm dark:prose-invert max-w-none">
                 <p className="whitespace-pre-line text-foreground font-medium leading-relaxed">{user.profileDescription}</p>
@@ -67,6 +128,25 @@ export default function ProfileTab() {
               </div>
             )}
           </div>
+
+          {/* Profile versions and review of AI changes */}
+          {user && (
+            <div className="bg-card rounded-lg border border-border/40 p-6 mt-6">
+              <h3 className="text-lg font-medium mb-4">Profile History</h3>
+              <ProfileRevisionHistory user={user} onUserChange={setUser} />
+            </div>
+          )}
+
+          {/* Structured academic record */}
+          {user && (
+            <div className="bg-card rounded-lg border border-border/40 p-6 mt-6">
+              <h3 className="text-lg font-medium mb-1">Academic Record</h3>
+              <p className="text-sm text-muted-foreground mb-4">
+                Your grades, test scores, courses and awards. These are used for college fit and in your chats.
+              </p>
+              <AcademicRecordEditor user={user} onSaved={setUser} />
+            </div>
+          )}
         </div>
       </div>
     </div>
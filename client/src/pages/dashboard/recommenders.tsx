@@ -0,0 +1,264 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { CheckCircle2, Clock, Copy, Mail, PenLine, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  BRAG_SHEET_LIMIT,
+  College,
+  LetterStatus,
+  RecommenderRoleLabels,
+  RecommenderWithLetters,
+} from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { RecommenderDialog } from "@/components/RecommenderDialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+
+const getRecommenderUrl = (shareToken: string) => `${window.location.origin}/recommender/${shareToken}`;
+
+// The student's recommenders, the letters each is writing, and the brag sheet they all see
+export default function RecommendersTab() {
+  const [editing, setEditing] = useState<RecommenderWithLetters | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [bragSheet, setBragSheet] = useState("");
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: recommenders = [], isLoading } = useQuery<RecommenderWithLetters[]>({
+    queryKey: ["/api/recommenders"],
+  });
+
+  const { data: colleges = [] } = useQuery<College[]>({
+    queryKey: ["/api/colleges"],
+  });
+
+  useEffect(() => {
+    setBragSheet(user?.bragSheet ?? "");
+  }, [user?.bragSheet]);
+
+  const bragSheetMutation = useMutation({
+    mutationFn: async (bragSheet: string) => {
+      const res = await apiRequest("POST", "/api/user/brag-sheet", { bragSheet });
+      return await res.json();
+    },
+    onSuccess: (updatedUser) => {
+      queryClient.setQueryData(["/api/user"], updatedUser);
+      queryClient.setQueryData(["/api/me"], updatedUser);
+      toast({
+        title: "Brag sheet saved",
+        description: "Your recommenders will see the new version.",
+      });
+    },
+    onError: (error: any) => {
+      console.error("Error saving brag sheet:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save your brag sheet. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      const res = await apiRequest("PATCH", `/api/recommenders/${id}`, { isActive });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recommenders"] });
+    },
+    onError: (error: any) => {
+      console.error("Error updating recommender:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update this recommender's link. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/recommenders/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recommenders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/recommendation-letters"] });
+    },
+    onError: (error: any) => {
+      console.error("Error deleting recommender:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete this recommender. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openEditor = (recommender: RecommenderWithLetters | null) => {
+    setEditing(recommender);
+    setDialogOpen(true);
+  };
+
+  const handleCopyLink = (shareToken: string) => {
+    navigator.clipboard.writeText(getRecommenderUrl(shareToken));
+    toast({
+      title: "Link copied",
+      description: "Recommender link has been copied to clipboard.",
+    });
+  };
+
+  const handleEmailLink = (recommender: RecommenderWithLetters) => {
+    const subject = encodeURIComponent(`${user?.username ?? "A student"}'s recommendation letter details`);
+    const body = encodeURIComponent(`Hello ${recommender.name},\n\nThank you for writing a recommendation letter for me. My brag sheet, the colleges I'm applying to and their deadlines are here:\n\n${getRecommenderUrl(recommender.shareToken)}\n\nOnce you've submitted a letter, you can mark it as submitted on that page.\n\nThank you,\n${user?.username ?? ""}`);
+    window.location.href = `mailto:${recommender.email ?? ""}?subject=${subject}&body=${body}`;
+  };
+
+  const getCollegeName = (collegeId: number) => colleges.find(college => college.id === collegeId)?.name ?? "College";
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <header className="bg-card border-b border-border/40 py-4 px-4 sm:px-6 flex flex-wrap justify-between items-center gap-3">
+        <div>
+          <h1 className="text-xl font-bold">Recommenders</h1>
+          <p className="text-sm text-muted-foreground">
+            Track who is writing your letters and for which colleges
+          </p>
+        </div>
+        <Button onClick={() => openEditor(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Recommender
+        </Button>
+      </header>
+
+      <RecommenderDialog recommender={editing} open={dialogOpen} onOpenChange={setDialogOpen} />
+
+      <div className="flex-1 p-4 sm:p-6">
+        <div className="max-w-3xl mx-auto space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Brag sheet</CardTitle>
+              <CardDescription>
+                What you'd like your recommenders to know about you: achievements, goals, stories from their class. Every recommender sees it on their page. Markdown works.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Textarea
+                className="min-h-[180px]"
+                maxLength={BRAG_SHEET_LIMIT}
+                value={bragSheet}
+                onChange={(e) => setBragSheet(e.target.value)}
+              />
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-muted-foreground">{bragSheet.length}/{BRAG_SHEET_LIMIT}</span>
+                <Button
+                  size="sm"
+                  disabled={bragSheet === (user?.bragSheet ?? "") || bragSheetMutation.isPending}
+                  onClick={() => bragSheetMutation.mutate(bragSheet)}
+                >
+                  {bragSheetMutation.isPending ? "Saving..." : "Save brag sheet"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {isLoading ? (
+            <div className="h-24 bg-muted animate-pulse rounded" />
+          ) : recommenders.length === 0 ? (
+            <div className="border border-dashed border-border/60 rounded-lg p-8 text-center">
+              <PenLine className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
+              <p className="text-sm text-muted-foreground mb-4">
+                Add the teachers and counselor writing your letters. Each gets a link to your brag sheet and deadlines, and can mark their letters as submitted.
+              </p>
+              <Button variant="outline" onClick={() => openEditor(null)}>Add your first recommender</Button>
+            </div>
+          ) : (
+            recommenders.map(recommender => {
+              const submitted = recommender.letters.filter(letter => letter.status === LetterStatus.SUBMITTED).length;
+              return (
+                <Card key={recommender.id}>
+                  <CardHeader className="pb-3">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <CardTitle className="text-lg truncate">{recommender.name}</CardTitle>
+                        <CardDescription>
+                          {[RecommenderRoleLabels[recommender.role], recommender.subject].filter(Boolean).join(" · ")}
+                          {recommender.lastViewedAt && ` · Last opened ${new Date(recommender.lastViewedAt).toLocaleDateString()}`}
+                        </CardDescription>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground" onClick={() => openEditor(recommender)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-muted-foreground"
+                          disabled={deleteMutation.isPending}
+                          onClick={() => deleteMutation.mutate(recommender.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {recommender.letters.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No letters requested yet.</p>
+                    ) : (
+                      <div className="space-y-2">
+                        <p className="text-sm font-medium">{submitted}/{recommender.letters.length} letters submitted</p>
+                        <div className="flex flex-wrap gap-2">
+                          {recommender.letters.map(letter => (
+                            <Badge
+                              key={letter.id}
+                              variant="outline"
+                              className={letter.status === LetterStatus.SUBMITTED
+                                ? "border-green-600/40 bg-green-50 text-green-800"
+                                : "text-muted-foreground"}
+                            >
+                              {letter.status === LetterStatus.SUBMITTED
+                                ? <CheckCircle2 className="h-3 w-3 mr-1" />
+                                : <Clock className="h-3 w-3 mr-1" />}
+                              {getCollegeName(letter.collegeId)}
+                            </Badge>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <label className="flex items-center gap-2 text-sm cursor-pointer">
+                        <Switch
+                          checked={recommender.isActive}
+                          disabled={toggleActiveMutation.isPending}
+                          onCheckedChange={(isActive) => toggleActiveMutation.mutate({ id: recommender.id, isActive })}
+                        />
+                        {recommender.isActive ? "Link active" : "Link turned off"}
+                      </label>
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" disabled={!recommender.isActive} onClick={() => handleCopyLink(recommender.shareToken)}>
+                          <Copy className="h-4 w-4 mr-1" />
+                          Copy link
+                        </Button>
+                        <Button variant="outline" size="sm" disabled={!recommender.isActive} onClick={() => handleEmailLink(recommender)}>
+                          <Mail className="h-4 w-4 mr-1" />
+                          Email link
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
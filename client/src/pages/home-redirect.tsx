@@ -1,12 +1,12 @@
 import { useEffect } from "react";
 import { useLocation } from "wouter";
-import { useAuth } from "@/hooks/use-auth";
+import { useAuth, getHomePath } from "@/hooks/use-auth";
 import { Loader2 } from "lucide-react";
 
 /**
  * HomeRedirect component
  * Redirects from home page (/) to appropriate page based on authentication state
- * - If user is authenticated, redirect to dashboard
+ * - If user is authenticated, redirect to dashboard (or the caseload for advisors)
  * - If user is not authenticated, redirect to homepage
  */
 export default function HomeRedirect() {
@@ -18,7 +18,7 @@ export default function HomeRedirect() {
       if (user) {
         // If user is logged in, redirect to dashboard with a hard redirect
         // to ensure full page reload and proper session handling
-        window.location.href = "/dashboard";
+        window.location.href = getHomePath(user);
       } else {
         // If user is not logged in, redirect to homepage
         setLocation("/home");
@@ -40,8 +40,8 @@ const registerSchema = insertUserSchema.pick({
 type OnboardingFormValues = z.infer<typeof onboardingResponseSchema>;
 type RegisterFormValues = z.infer<typeof registerSchema>;
 
-// Onboarding questions with icons and descriptions
-const questions = [
+// Onboarding questions with icons and descriptions, also used to review answers from the dashboard
+export const questions = [
   {
     key: "programs",
     question: "What programs and majors interest you?",
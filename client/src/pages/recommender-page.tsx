@@ -0,0 +1,195 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, CalendarClock, CheckCircle2, GraduationCap, Trophy, User } from "lucide-react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import {
+  ActivityTypeLabels,
+  LetterStatus,
+  LetterStatusValue,
+  RecommenderPortal,
+  RecommenderRoleLabels,
+} from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import Logo from "@/components/logo";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+const formatDate = (date: string | Date) =>
+  new Date(date).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+
+// The page a recommender opens from the student's link: brag sheet, activities, and their letters with deadlines
+export default function RecommenderPage() {
+  const shareToken = window.location.pathname.split("/recommender/")[1];
+  const portalUrl = `/api/recommender/${shareToken}`;
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: portal, isLoading, error } = useQuery<RecommenderPortal>({
+    queryKey: [portalUrl],
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ letterId, status }: { letterId: number; status: LetterStatusValue }) => {
+      const res = await apiRequest("PATCH", `${portalUrl}/letters/${letterId}`, { status });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [portalUrl] });
+    },
+    onError: (error: any) => {
+      console.error("Error updating letter status:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update this letter. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const markdownComponents = {
+    a: ({ node, ...props }: any) => <a className="text-primary hover:underline" target="_blank" rel="noopener noreferrer" {...props} />,
+    ul: ({ node, ...props }: any) => <ul className="list-disc ml-4 my-1" {...props} />,
+    ol: ({ node, ...props }: any) => <ol className="list-decimal ml-4 my-1" {...props} />,
+    p: ({ node, ...props }: any) => <p className="my-2" {...props} />,
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center">
+            <Logo className="h-8 w-auto" />
+          </div>
+          <Button variant="ghost" onClick={() => window.location.href = "/"}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to home
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-primary mb-4"></div>
+            <p className="text-lg font-medium">Loading...</p>
+          </div>
+        ) : error || !portal ? (
+          <Card className="max-w-2xl mx-auto">
+            <CardHeader>
+              <CardTitle>Link not available</CardTitle>
+              <CardDescription>This recommender link doesn't exist or has been turned off by the student.</CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          <div className="max-w-3xl mx-auto grid gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <User className="h-5 w-5 mr-2" />
+                  Recommendation letters for {portal.student.username}
+                </CardTitle>
+                <CardDescription>
+                  For {portal.recommender.name}
+                  {` (${[RecommenderRoleLabels[portal.recommender.role], portal.recommender.subject].filter(Boolean).join(", ")})`}
+                </CardDescription>
+              </CardHeader>
+              {portal.recommender.message && (
+                <CardContent>
+                  <p className="whitespace-pre-wrap text-sm">{portal.recommender.message}</p>
+                </CardContent>
+              )}
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center text-lg">
+                  <GraduationCap className="h-5 w-5 mr-2" />
+                  Letters
+                </CardTitle>
+                <CardDescription>Mark each letter as submitted once you've sent it, so {portal.student.username} knows.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {portal.letters.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No letters have been requested yet.</p>
+                ) : (
+                  portal.letters.map(letter => {
+                    const isSubmitted = letter.status === LetterStatus.SUBMITTED;
+                    return (
+                      <div key={letter.id} className="flex flex-wrap items-center justify-between gap-3 p-3 border border-border/40 rounded-lg">
+                        <div className="min-w-0">
+                          <div className="font-medium">{letter.collegeName}</div>
+                          <div className="flex items-center text-xs text-muted-foreground mt-1">
+                            <CalendarClock className="h-3.5 w-3.5 mr-1" />
+                            {letter.deadline
+                              ? `${letter.deadlineTitle ?? "Deadline"}: ${formatDate(letter.deadline)}`
+                              : "No deadline entered yet"}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {isSubmitted && (
+                            <Badge variant="outline" className="border-green-600/40 bg-green-50 text-green-800">
+                              <CheckCircle2 className="h-3 w-3 mr-1" />
+                              Submitted{letter.submittedAt && ` ${formatDate(letter.submittedAt)}`}
+                            </Badge>
+                          )}
+                          <Button
+                            size="sm"
+                            variant={isSubmitted ? "ghost" : "default"}
+                            disabled={statusMutation.isPending}
+                            onClick={() => statusMutation.mutate({
+                              letterId: letter.id,
+                              status: isSubmitted ? LetterStatus.REQUESTED : LetterStatus.SUBMITTED,
+                            })}
+                          >
+                            {isSubmitted ? "Undo" : "Mark submitted"}
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Brag sheet</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {portal.student.bragSheet ? (
+                  <div className="markdown-content text-sm">
+                    <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>{portal.student.bragSheet}</ReactMarkdown>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">{portal.student.username} hasn't written a brag sheet yet.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {portal.activities.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center text-lg">
+                    <Trophy className="h-5 w-5 mr-2" />
+                    Activities
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {portal.activities.map((activity, index) => (
+                    <div key={activity.id} className="text-sm">
+                      <div className="font-medium">
+                        {index + 1}. {[activity.role, activity.organization].filter(Boolean).join(", ") || ActivityTypeLabels[activity.type]}
+                      </div>
+                      <div className="text-xs text-muted-foreground">{ActivityTypeLabels[activity.type]}</div>
+                      {activity.description && <p className="mt-1">{activity.description}</p>}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,9 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useLocation } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
 import { addRecommendation } from "@/lib/advisorApi";
-import { College, CollegeRecommendation, ChatSession, ChatMessage } from "@shared/schema";
-import { Building2, User, ExternalLink, ArrowLeft, GraduationCap, Sparkles, Plus, MessageCircle, MessageSquare, Clock } from "lucide-react";
+import { College, CollegeRecommendation, ChatSession, ChatMessage, Essay, AdvisorComment, AdvisorPermissions, UserRole, countWords } from "@shared/schema";
+import { Building2, User, ExternalLink, ArrowLeft, GraduationCap, Sparkles, Plus, MessageCircle, MessageSquare, Clock, FileText, MessageSquarePlus, UserPlus } from "lucide-react";
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
@@ -15,8 +15,13 @@ import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import Logo from "@/components/logo";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { MessageSources, addFootnoteMarkers } from "@/components/MessageSources";
+import { CommentThreads, CommentComposer } from "@/components/AdvisorComments";
+import { RecommendationFacts } from "@/components/RecommendationFacts";
+import { CollegeNotesSummary } from "@/components/CollegeNotesDialog";
 
 // Interface for shared profile data
 
@@ -25,6 +30,9 @@ interface SharedProfile {
     name: string;
     type: string;
     id: number;
+    isClaimed: boolean;
+    isClaimedByCurrentUser: boolean;
+    permissions: AdvisorPermissions;
   };
   user: {
     username: string;
@@ -33,6 +41,7 @@ interface SharedProfile {
   colleges: College[];
   recommendations: CollegeRecommendation[];
   sharedChatSessions: ChatSession[];
+  sharedEssays: Essay[];
 }
 
 export default function SharedProfilePage() {
@@ -47,7 +56,16 @@ export default function SharedProfilePage() {
   const [messagesViewingSessionId, setMessagesViewingSessionId] = useState<number | null>(null);
   const [currentMessages, setCurrentMessages] = useState<ChatMessage[]>([]);
   const [messagesLoading, setMessagesLoading] = useState(false);
+  const [viewingEssayId, setViewingEssayId] = useState<number | null>(null);
+  const [comments, setComments] = useState<AdvisorComment[]>([]);
+  const [commentingMessageId, setCommentingMessageId] = useState<number | null>(null);
+  const [essaySelection, setEssaySelection] = useState<{ start: number; end: number } | null>(null);
+  const [isPostingComment, setIsPostingComment] = useState(false);
+  const essayContentRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
+  const { user } = useAuth();
+  const isAdvisorAccount = user?.role === UserRole.ADVISOR;
+  const [isClaiming, setIsClaiming] = useState(false);
   
   // Get acceptance rate color based on percentage
   const getAcceptanceRateColor = (rate: number | null) => {
@@ -64,6 +82,90 @@ export default function SharedProfilePage() {
     session => session.id === messagesViewingSessionId
   );
   
+  const currentViewingEssay = profile?.sharedEssays?.find(
+    essay => essay.id === viewingEssayId
+  );
+  
+  // Label an essay with its college, or the Common App when it isn't college-specific
+  const getEssayCollegeName = (essay: Essay) => {
+    if (!essay.collegeId) return "Common App";
+    return profile?.colleges.find(college => college.id === essay.collegeId)?.name || "College essay";
+  };
+  
+  // Post a new comment thread or a reply; the server checks the target is shared with this advisor
+  const postComment = async (body: Record<string, unknown>) => {
+    setIsPostingComment(true);
+    try {
+      const response = await apiRequest("POST", `/api/shared/${shareToken}/comments`, body);
+      const comment = await response.json() as AdvisorComment;
+      setComments(prev => [...prev, comment]);
+      return comment;
+    } catch (error) {
+      console.error("Error posting comment:", error);
+      toast({
+        title: "Error",
+        description: "Failed to post comment. Please try again.",
+        variant: "destructive",
+      });
+      throw error;
+    } finally {
+      setIsPostingComment(false);
+    }
+  };
+  
+  const getCommentAuthorName = (comment: AdvisorComment) =>
+    comment.authorType === "advisor" ? "You" : profile?.user.username || "Student";
+  
+  // Work out which characters of the essay the advisor selected
+  const handleEssaySelection = () => {
+    const selection = window.getSelection();
+    const container = essayContentRef.current;
+    if (!selection || selection.isCollapsed || selection.rangeCount === 0 || !container) return;
+    
+    const range = selection.getRangeAt(0);
+    if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return;
+    
+    const beforeSelection = document.createRange();
+    beforeSelection.selectNodeContents(container);
+    beforeSelection.setEnd(range.startContainer, range.startOffset);
+    
+    const start = beforeSelection.toString().length;
+    const end = start + range.toString().length;
+    if (end > start) {
+      setEssaySelection({ start, end });
+    }
+  };
+  
+  // Split the essay into plain text and the passages that have comment threads.
+  // Passages that no longer match the draft (or overlap an earlier one) aren't highlighted.
+  const renderEssayWithHighlights = (essay: Essay) => {
+    const passages = comments
+      .filter(comment =>
+        comment.essayId === essay.id &&
+        comment.parentId === null &&
+        comment.rangeStart !== null &&
+        comment.rangeEnd !== null &&
+        essay.content.slice(comment.rangeStart, comment.rangeEnd) === comment.quotedText
+      )
+      .sort((a, b) => a.rangeStart! - b.rangeStart!);
+    
+    const pieces: JSX.Element[] = [];
+    let position = 0;
+    for (const passage of passages) {
+      if (passage.rangeStart! < position) continue;
+      pieces.push(<span key={`text-${position}`}>{essay.content.slice(position, passage.rangeStart!)}</span>);
+      pieces.push(
+        <mark key={`comment-${passage.id}`} className="bg-amber-200/70 dark:bg-amber-700/40 text-foreground rounded-sm">
+          {essay.content.slice(passage.rangeStart!, passage.rangeEnd!)}
+        </mark>
+      );
+      position = passage.rangeEnd!;
+    }
+    pieces.push(<span key={`text-${position}`}>{essay.content.slice(position)}</span>);
+    
+    return pieces;
+  };
+  
   // Handle selecting a chat session
   const handleSelectChatSession = async (sessionId: number) => {
     if (messagesViewingSessionId === sessionId) return;
@@ -96,9 +198,19 @@ export default function SharedProfilePage() {
         const data = await response.json();
         setProfile(data as SharedProfile);
         setError(null);
+        
+        // Comment threads are secondary, so a failure here shouldn't hide the profile
+        if ((data as SharedProfile).advisor.permissions.allowComments) {
+          apiRequest("GET", `/api/shared/${shareToken}/comments`)
+            .then(res => res.json())
+            .then(data => setComments(data))
+            .catch(err => console.error("Error fetching comments:", err));
+        }
       } catch (err) {
         console.error("Error fetching shared profile:", err);
-        setError("This shared profile link is invalid or has been deactivated");
+        setError(err instanceof Error && err.message.startsWith("410:")
+          ? "This shared profile link has expired or reached its view limit"
+          : "This shared profile link is invalid or has been deactivated");
       } finally {
         setLoading(false);
       }
@@ -112,6 +224,31 @@ export default function SharedProfilePage() {
     }
   }, [shareToken]);
   
+  // Add this share link to the signed-in advisor's caseload
+  const handleClaim = async () => {
+    try {
+      setIsClaiming(true);
+      await apiRequest("POST", "/api/advisor/claims", { shareToken });
+      setProfile(prev => prev && {
+        ...prev,
+        advisor: { ...prev.advisor, isClaimed: true, isClaimedByCurrentUser: true }
+      });
+      toast({
+        title: "Added to your caseload",
+        description: `${profile?.user.username} will now show up on your advisor dashboard.`,
+      });
+    } catch (err) {
+      console.error("Error claiming share link:", err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to add this student to your caseload",
+        variant: "destructive",
+      });
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
   // Handle adding a new recommendation
   const handleAddRecommendation = async () => {
     if (!collegeName.trim()) {
@@ -152,7 +289,9 @@ export default function SharedProfilePage() {
       console.error("Error adding recommendation:", err);
       toast({
         title: "Error",
-        description: "Failed to add your recommendation. Please try again.",
+        description: err instanceof Error && err.message.startsWith("409:")
+          ? `That college is already on ${profile?.user.username}'s list.`
+          : "Failed to add your recommendation. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -160,6 +299,10 @@ export default function SharedProfilePage() {
     }
   };
 
+  // What the student lets this advisor do
+  const canComment = profile?.advisor.permissions.allowComments ?? false;
+  const canRecommend = profile?.advisor.permissions.allowRecommendations ?? false;
+
   // Group colleges by status
   const collegesByStatus = profile?.colleges.reduce((acc, college) => {
     if (!acc[college.status]) {
@@ -192,10 +335,25 @@ export default function SharedProfilePage() {
           <div className="flex items-center">
             <Logo className="h-8 w-auto" />
           </div>
-          <Button variant="ghost" onClick={() => window.location.href = "/"}>
-            <ArrowLeft className="h-4 w-4 mr-2" />
-            Back to home
-          </Button>
+          {isAdvisorAccount ? (
+            <div className="flex items-center gap-2">
+              {profile && !profile.advisor.isClaimed && (
+                <Button variant="outline" onClick={handleClaim} disabled={isClaiming}>
+                  <UserPlus className="h-4 w-4 mr-2" />
+                  {isClaiming ? "Adding..." : "Add to my caseload"}
+                </Button>
+              )}
+              <Button variant="ghost" onClick={() => window.location.href = "/advisor"}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to caseload
+              </Button>
+            </div>
+          ) : (
+            <Button variant="ghost" onClick={() => window.location.href = "/"}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to home
+            </Button>
+          )}
         </div>
 
         {loading ? (
@@ -349,12 +507,46 @@ export default function SharedProfilePage() {
                                                 }
                                               }}
                                             >
-                                              {message.content}
+                                              {addFootnoteMarkers(message.content, message.citations, message.citationSupports)}
                                             </ReactMarkdown>
+                                            <MessageSources citations={message.citations} searchQueries={message.searchQueries} />
                                           </div>
                                         )}
                                       </div>
                                       {/* Removed sender and timestamp labels */}
+                                      
+                                      {/* Comment threads on this message */}
+                                      <div className="w-full max-w-[80%] mt-1 space-y-2">
+                                        <CommentThreads
+                                          comments={comments.filter(comment => comment.chatMessageId === message.id)}
+                                          getAuthorName={getCommentAuthorName}
+                                          isReplyPending={isPostingComment}
+                                          onReply={(thread, content) => postComment({ parentId: thread.id, content })}
+                                        />
+                                        {commentingMessageId === message.id ? (
+                                          <CommentComposer
+                                            placeholder="Leave a comment for the student..."
+                                            isPending={isPostingComment}
+                                            onSubmit={async (content) => {
+                                              await postComment({ chatSessionId: message.sessionId, chatMessageId: message.id, content });
+                                              setCommentingMessageId(null);
+                                            }}
+                                            onCancel={() => setCommentingMessageId(null)}
+                                          />
+                                        ) : canComment && (
+                                          <div className={`flex ${message.sender === 'user' ? 'justify-end' : ''}`}>
+                                            <Button
+                                              variant="ghost"
+                                              size="sm"
+                                              className="h-7 px-2 text-xs text-muted-foreground"
+                                              onClick={() => setCommentingMessageId(message.id)}
+                                            >
+                                              <MessageSquarePlus className="h-3.5 w-3.5 mr-1" />
+                                              Comment
+                                            </Button>
+                                          </div>
+                                        )}
+                                      </div>
                                     </div>
                                   ))}
                                 </div>
@@ -373,6 +565,121 @@ export default function SharedProfilePage() {
                 </Card>
               )}
 
+              {/* Shared Essays Card */}
+              {profile.sharedEssays && profile.sharedEssays.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center">
+                      <FileText className="h-5 w-5 mr-2" />
+                      Shared Essays
+                    </CardTitle>
+                    <CardDescription>
+                      The latest drafts of essays that have been shared with you
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="p-0">
+                    <div className="flex h-[500px] border-t border-border/40">
+                      {/* Essays Sidebar */}
+                      <div className="w-1/3 border-r border-border/40 overflow-y-auto">
+                        {profile.sharedEssays.map((essay, index) => (
+                          <div 
+                            key={essay.id}
+                            className={`
+                              p-4 cursor-pointer transition-colors duration-200
+                              ${viewingEssayId === essay.id 
+                                ? 'bg-primary/10' 
+                                : 'hover:bg-muted/50'
+                              }
+                              ${index !== profile.sharedEssays.length - 1 ? 'border-b border-border/40' : ''}
+                            `}
+                            onClick={() => {
+                              setViewingEssayId(essay.id);
+                              setEssaySelection(null);
+                            }}
+                          >
+                            <h3 className="font-medium truncate">{essay.title}</h3>
+                            <div className="text-sm text-muted-foreground mt-1 truncate">
+                              {getEssayCollegeName(essay)}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                      
+                      {/* Essay Panel */}
+                      <div className="w-2/3 flex flex-col">
+                        {currentViewingEssay ? (
+                          <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                            {currentViewingEssay.prompt && (
+                              <div className="text-sm p-3 rounded-md bg-muted/50 border border-border/40 whitespace-pre-wrap">
+                                {currentViewingEssay.prompt}
+                              </div>
+                            )}
+                            <div className="text-xs text-muted-foreground">
+                              {countWords(currentViewingEssay.content)}
+                              {currentViewingEssay.wordLimit ? ` / ${currentViewingEssay.wordLimit}` : ""} words
+                            </div>
+                            {currentViewingEssay.content ? (
+                              <>
+                                {canComment && (
+                                  <p className="text-xs text-muted-foreground">
+                                    Select a passage to comment on it.
+                                  </p>
+                                )}
+                                <div
+                                  ref={essayContentRef}
+                                  onMouseUp={canComment ? handleEssaySelection : undefined}
+                                  className="whitespace-pre-wrap text-sm leading-relaxed text-foreground"
+                                >
+                                  {renderEssayWithHighlights(currentViewingEssay)}
+                                </div>
+                              </>
+                            ) : (
+                              <div className="text-sm text-muted-foreground">
+                                This essay doesn't have a draft yet.
+                              </div>
+                            )}
+                            
+                            {essaySelection && (
+                              <div className="rounded-md border border-border/60 p-3 space-y-2">
+                                <blockquote className="border-l-4 border-amber-400/60 pl-3 text-xs italic text-muted-foreground line-clamp-3">
+                                  {currentViewingEssay.content.slice(essaySelection.start, essaySelection.end)}
+                                </blockquote>
+                                <CommentComposer
+                                  placeholder="Comment on this passage..."
+                                  isPending={isPostingComment}
+                                  onSubmit={async (content) => {
+                                    await postComment({
+                                      essayId: currentViewingEssay.id,
+                                      rangeStart: essaySelection.start,
+                                      rangeEnd: essaySelection.end,
+                                      content
+                                    });
+                                    setEssaySelection(null);
+                                  }}
+                                  onCancel={() => setEssaySelection(null)}
+                                />
+                              </div>
+                            )}
+                            
+                            <CommentThreads
+                              comments={comments.filter(comment => comment.essayId === currentViewingEssay.id)}
+                              getAuthorName={getCommentAuthorName}
+                              isReplyPending={isPostingComment}
+                              onReply={(thread, content) => postComment({ parentId: thread.id, content })}
+                            />
+                          </div>
+                        ) : (
+                          <div className="flex flex-col justify-center items-center h-full text-muted-foreground p-6">
+                            <FileText className="h-12 w-12 mb-4 text-muted-foreground/50" />
+                            <p>Select an essay to read it</p>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
               <Card>
                 <CardHeader>
                   <CardTitle className="flex items-center">
@@ -395,17 +702,20 @@ export default function SharedProfilePage() {
                             {collegesByStatus["applying"]?.map((college) => (
                               <div 
                                 key={college.id} 
-                                className="p-3 bg-card/80 border border-border/40 rounded-md flex justify-between items-center"
+                                className="p-3 bg-card/80 border border-border/40 rounded-md"
                               >
-                                <div className="font-medium text-foreground">{college.name}</div>
-                                <Button 
-                                  variant="ghost" 
-                                  size="sm"
-                                  onClick={() => window.open(`https://www.google.com/search?q=${encodeURIComponent(college.name)} college`, '_blank')}
-                                >
-                                  <ExternalLink className="h-4 w-4 mr-1" />
-                                  Info
-                                </Button>
+                                <div className="flex justify-between items-center">
+                                  <div className="font-medium text-foreground">{college.name}</div>
+                                  <Button 
+                                    variant="ghost" 
+                                    size="sm"
+                                    onClick={() => window.open(`https://www.google.com/search?q=${encodeURIComponent(college.name)} college`, '_blank')}
+                                  >
+                                    <ExternalLink className="h-4 w-4 mr-1" />
+                                    Info
+                                  </Button>
+                                </div>
+                                <CollegeNotesSummary college={college} />
                               </div>
                             ))}
                             {collegesByStatus["applying"]?.length === 0 && (
@@ -427,17 +737,20 @@ export default function SharedProfilePage() {
                             {collegesByStatus["researching"]?.map((college) => (
                               <div 
                                 key={college.id} 
-                                className="p-3 bg-card/80 border border-border/40 rounded-md flex justify-between items-center"
+                                className="p-3 bg-card/80 border border-border/40 rounded-md"
                               >
-                                <div className="font-medium text-foreground">{college.name}</div>
-                                <Button 
-                                  variant="ghost" 
-                                  size="sm"
-                                  onClick={() => window.open(`https://www.google.com/search?q=${encodeURIComponent(college.name)} college`, '_blank')}
-                                >
-                                  <ExternalLink className="h-4 w-4 mr-1" />
-                                  Info
-                                </Button>
+                                <div className="flex justify-between items-center">
+                                  <div className="font-medium text-foreground">{college.name}</div>
+                                  <Button 
+                                    variant="ghost" 
+                                    size="sm"
+                                    onClick={() => window.open(`https://www.google.com/search?q=${encodeURIComponent(college.name)} college`, '_blank')}
+                                  >
+                                    <ExternalLink className="h-4 w-4 mr-1" />
+                                    Info
+                                  </Button>
+                                </div>
+                                <CollegeNotesSummary college={college} />
                               </div>
                             ))}
                             {collegesByStatus["researching"]?.length === 0 && (
@@ -459,17 +772,20 @@ export default function SharedProfilePage() {
                             {collegesByStatus["not_applying"]?.map((college) => (
                               <div 
                                 key={college.id} 
-                                className="p-3 bg-card/80 border border-border/40 rounded-md flex justify-between items-center"
+                                className="p-3 bg-card/80 border border-border/40 rounded-md"
                               >
-                                <div className="font-medium text-foreground">{college.name}</div>
-                                <Button 
-                                  variant="ghost" 
-                                  size="sm"
-                                  onClick={() => window.open(`https://www.google.com/search?q=${encodeURIComponent(college.name)} college`, '_blank')}
-                                >
-                                  <ExternalLink className="h-4 w-4 mr-1" />
-                                  Info
-                                </Button>
+                                <div className="flex justify-between items-center">
+                                  <div className="font-medium text-foreground">{college.name}</div>
+                                  <Button 
+                                    variant="ghost" 
+                                    size="sm"
+                                    onClick={() => window.open(`https://www.google.com/search?q=${encodeURIComponent(college.name)} college`, '_blank')}
+                                  >
+                                    <ExternalLink className="h-4 w-4 mr-1" />
+                                    Info
+                                  </Button>
+                                </div>
+                                <CollegeNotesSummary college={college} />
                               </div>
                             ))}
                             {collegesByStatus["not_applying"]?.length === 0 && (
@@ -527,6 +843,7 @@ export default function SharedProfilePage() {
                                     Recommended by {recommendation.recommendedBy}
                                   </Badge>
                                 )}
+                                <RecommendationFacts recommendation={recommendation} />
                               </div>
                             </div>
                             
@@ -559,15 +876,17 @@ export default function SharedProfilePage() {
                       )}
                     </div>
                   </CardContent>
-                  <CardFooter className="flex justify-center pt-2 pb-6">
-                    <Button
-                      onClick={() => setAddRecommendationOpen(true)}
-                      className="bg-primary hover:bg-primary/90 text-primary-foreground"
-                    >
-                      <Plus className="h-4 w-4 mr-2" />
-                      Add a Recommendation
-                    </Button>
-                  </CardFooter>
+                  {canRecommend && (
+                    <CardFooter className="flex justify-center pt-2 pb-6">
+                      <Button
+                        onClick={() => setAddRecommendationOpen(true)}
+                        className="bg-primary hover:bg-primary/90 text-primary-foreground"
+                      >
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add a Recommendation
+                      </Button>
+                    </CardFooter>
+                  )}
                 </Card>
               
               {/* Add College Recommendation Dialog */}
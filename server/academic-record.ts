@@ -0,0 +1,293 @@
+import {
+  CourseLevel,
+  AwardLevel,
+  type AcademicRecord,
+  type AwardLevelType,
+  type CourseLevelType,
+  type StudentAdmissionStats,
+  type User
+} from "@shared/schema";
+import { storage as dbStorage } from "./storage";
+
+const SKIPPED_ANSWER = "User skipped this question.";
+
+export function emptyAcademicRecord(): AcademicRecord {
+  return {
+    unweightedGpa: null,
+    weightedGpa: null,
+    sat: null,
+    act: null,
+    classRank: null,
+    courses: [],
+    awards: [],
+    notes: "",
+  };
+}
+
+// GPAs like "3.8 GPA", "3.8/4.0 unweighted", "4.4 weighted GPA" or "GPA: 3.8 (unweighted)"
+function parseGpas(text: string): Pick<AcademicRecord, "unweightedGpa" | "weightedGpa"> {
+  const result: Pick<AcademicRecord, "unweightedGpa" | "weightedGpa"> = { unweightedGpa: null, weightedGpa: null };
+  const gpaPattern = /(\d{1,2}\.\d{1,2})\s*(?:\/\s*(\d{1,2}(?:\.\d+)?))?\s*(?:((?:un)?weighted)\b(?:\s*gpa)?|gpa)|gpa\s*(?:is|of|:)?\s*(\d{1,2}\.\d{1,2})\s*(?:\/\s*(\d{1,2}(?:\.\d+)?))?\s*\(?((?:un)?weighted)?/gi;
+
+  for (const match of Array.from(text.matchAll(gpaPattern))) {
+    const value = parseFloat(match[1] || match[4]);
+    const explicitScale = match[2] || match[5];
+    const qualifier = (match[3] || match[6] || "").toLowerCase();
+
+    // Without a qualifier, anything above 4.0 is taken to be weighted on a 5.0 scale
+    const weighted = qualifier ? qualifier === "weighted" : !explicitScale && value > 4;
+    const scale = explicitScale ? parseFloat(explicitScale) : weighted && value > 4 ? 5 : 4;
+    if (!scale || value > scale) continue;
+
+    const gpa = { value, scale };
+    if (weighted && !result.weightedGpa) result.weightedGpa = gpa;
+    if (!weighted && !result.unweightedGpa) result.unweightedGpa = gpa;
+  }
+  return result;
+}
+
+// First score in range for any of the patterns, which each capture the number in group 1
+function findScore(text: string, patterns: RegExp[], min: number, max: number): number | null {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    const score = parseInt(match[1]);
+    if (score >= min && score <= max) return score;
+  }
+  return null;
+}
+
+// "1450 SAT" or "SAT: 1450", with optional "720 reading/writing" and "730 math" sections
+function parseSat(text: string): AcademicRecord["sat"] {
+  let total = findScore(text, [
+    /\b(\d{3,4})\s*(?:on\s+(?:the\s+|my\s+)?)?SAT\b/i,
+    /\bSAT\b\W*(?:(?:superscore|composite|score|total|of|is|was)\W*){0,3}(\d{3,4})\b/i,
+  ], 400, 1600);
+
+  const readingWriting = findScore(text, [
+    /\b(\d{3})\s*(?:EBRW|ERW|R\/?W|reading(?:\s*(?:and|&|\/)\s*writing)?|verbal)\b/i,
+    /\b(?:EBRW|ERW|R\/?W|reading(?:\s*(?:and|&|\/)\s*writing)?|verbal)\b\W*(\d{3})\b/i,
+  ], 200, 800);
+  const math = findScore(text, [/\b(\d{3})\s*math\b/i, /\bmath\b\W*(\d{3})\b/i], 200, 800);
+
+  if (total === null && readingWriting !== null && math !== null) total = readingWriting + math;
+  if (total === null) return null;
+
+  // Sections that don't add up to the total probably came from something else
+  if (readingWriting !== null && math !== null && readingWriting + math !== total) {
+    return { total, readingWriting: null, math: null };
+  }
+  return { total, readingWriting, math };
+}
+
+// "33 ACT" or "ACT: 33", with section scores like "35 English" or "Science 32".
+// ACT is matched case-sensitively so the word "act" doesn't count.
+function parseAct(text: string): AcademicRecord["act"] {
+  const composite = findScore(text, [
+    /\b(\d{1,2})\s*(?:on\s+(?:the\s+|my\s+)?)?ACT\b/,
+    /\bACT\b\W*(?:(?:superscore|composite|score|of|is|was)\W*){0,3}(\d{1,2})\b/,
+  ], 1, 36);
+  if (composite === null) return null;
+
+  const section = (name: string) => findScore(text, [
+    new RegExp(`\\b(\\d{1,2})\\s*(?:on\\s+)?${name}\\b`, "i"),
+    new RegExp(`\\b${name}\\b\\W*(\\d{1,2})\\b`, "i"),
+  ], 1, 36);
+
+  return {
+    composite,
+    english: section("english"),
+    math: section("math"),
+    reading: section("reading"),
+    science: section("science"),
+  };
+}
+
+// "ranked 5/400", "rank: 12 of 350" or "3rd out of 250 in my class"
+function parseClassRank(text: string): AcademicRecord["classRank"] {
+  const match = text.match(/\brank(?:ed)?\s*(?:is|of|:)?\s*#?\s*(\d+)(?:st|nd|rd|th)?\s*(?:\/|of|out of)\s*(\d+)/i)
+    || text.match(/\b(\d+)(?:st|nd|rd|th)?\s*(?:\/|of|out of)\s*(\d+)\s*(?:students\s*)?(?:in (?:my|the|our) class|class rank)/i);
+  if (!match) return null;
+
+  const rank = parseInt(match[1]);
+  const classSize = parseInt(match[2]);
+  return rank >= 1 && rank <= classSize ? { rank, classSize } : null;
+}
+
+// AP and IB courses written like "AP Calculus BC (5)", "AP Bio: 4" or "IB HL Chemistry"
+function parseCourses(text: string): AcademicRecord["courses"] {
+  const courses: AcademicRecord["courses"] = [];
+  const seen = new Set<string>();
+  const word = `(?!AP\\b|IB\\b)(?:[A-Z][A-Za-z&'-]*|\\d\\b)`;
+  const coursePattern = new RegExp(`\\b(AP|IB)\\s+(${word}(?:\\s+(?:${word}|of|and|&))*)(?:\\s*\\(\\s*(\\d)\\s*\\)|:\\s*(\\d)\\b)?`, "g");
+
+  for (const match of Array.from(text.matchAll(coursePattern))) {
+    const level: CourseLevelType = match[1] === "AP" ? CourseLevel.AP : CourseLevel.IB;
+    const name = match[2].replace(/\s+(?:of|and|&)$/, "").trim();
+    // "AP Scholar" is an award, not a course
+    if (/^Scholar/.test(name) || seen.has(`${level}:${name.toLowerCase()}`)) continue;
+    seen.add(`${level}:${name.toLowerCase()}`);
+
+    const examScore = match[3] || match[4];
+    const maxScore = level === CourseLevel.AP ? 5 : 7;
+    courses.push({
+      name,
+      level,
+      grade: examScore && parseInt(examScore) >= 1 && parseInt(examScore) <= maxScore ? examScore : null,
+      gradeLevel: null,
+    });
+  }
+  return courses;
+}
+
+const awardKeywords = /\b(awards?|awarded|prize|medal(?:ist)?|winner|won|finalist|semifinalist|honorable mention|olympiad|qualifier|scholar|honor roll|honou?r society|champion(?:ship)?)\b/i;
+
+function awardLevelOf(text: string): AwardLevelType | null {
+  if (/\binternational\b/i.test(text)) return AwardLevel.INTERNATIONAL;
+  // USAMO, USABO and the other US olympiads are national
+  if (/\bnational\b/i.test(text) || /\bUS[A-Z]{2,}\b/.test(text)) return AwardLevel.NATIONAL;
+  if (/\bstate\b/i.test(text)) return AwardLevel.STATE;
+  if (/\bregional\b|\bdistrict\b|\bcounty\b/i.test(text)) return AwardLevel.REGIONAL;
+  if (/\bschool\b/i.test(text)) return AwardLevel.SCHOOL;
+  return null;
+}
+
+// Each clause mentioning a prize, medal, honor roll and so on becomes an award
+function parseAwards(text: string): AcademicRecord["awards"] {
+  return text
+    .split(/[,;\n]|\.(?!\d)/)
+    .map(clause => clause.trim().replace(/^(?:and|also|plus|i(?:'m| am| was| have| got)?|a|an)\s+/i, "").trim())
+    .filter(clause => clause.length > 0 && awardKeywords.test(clause))
+    .slice(0, 50)
+    .map(clause => ({
+      name: clause.slice(0, 200),
+      level: awardLevelOf(clause),
+      gradeLevel: null,
+    }));
+}
+
+// Best-effort structured record from a free-text academicStats answer. The original
+// answer is kept in the notes so nothing the parser misses is lost.
+export function parseAcademicRecord(text: string | null | undefined): AcademicRecord {
+  const record = emptyAcademicRecord();
+  const answer = text?.trim();
+  if (!answer || answer === SKIPPED_ANSWER) return record;
+
+  return {
+    ...record,
+    ...parseGpas(answer),
+    sat: parseSat(answer),
+    act: parseAct(answer),
+    classRank: parseClassRank(answer),
+    courses: parseCourses(answer),
+    awards: parseAwards(answer),
+    notes: answer.slice(0, 2000),
+  };
+}
+
+// The student's saved record, or one parsed from their onboarding answer if they don't have one yet
+export function getUserAcademicRecord(user: User): AcademicRecord {
+  return user.academicRecord ?? parseAcademicRecord(user.onboarding?.academicStats);
+}
+
+// GPA (on a 4.0 unweighted scale), SAT and ACT used for college fit
+export function getAdmissionStats(record: AcademicRecord): StudentAdmissionStats {
+  let gpa: number | null = null;
+  if (record.unweightedGpa) {
+    gpa = (record.unweightedGpa.value / record.unweightedGpa.scale) * 4;
+  } else if (record.weightedGpa) {
+    // Weighted GPAs on the usual 5.0 scale are capped at 4.0 rather than rescaled
+    const { value, scale } = record.weightedGpa;
+    gpa = Math.min(4, scale <= 5 ? value : (value / scale) * 4);
+  }
+
+  return {
+    gpa: gpa === null ? null : Math.round(gpa * 100) / 100,
+    sat: record.sat?.total ?? null,
+    act: record.act?.composite ?? null,
+  };
+}
+
+function formatScale(scale: number): string {
+  return scale < 10 ? scale.toFixed(1) : String(scale);
+}
+
+function formatGradeLevel(gradeLevel: number): string {
+  return `${gradeLevel}th grade`;
+}
+
+const courseLevelPrefixes: Record<CourseLevelType, string> = {
+  [CourseLevel.STANDARD]: "",
+  [CourseLevel.HONORS]: "Honors ",
+  [CourseLevel.AP]: "AP ",
+  [CourseLevel.IB]: "IB ",
+  [CourseLevel.DUAL_ENROLLMENT]: "Dual enrollment ",
+};
+
+// Plain-text rendering of an academic record, shared by the profile and chat prompts
+export function formatAcademicRecord(record: AcademicRecord): string {
+  const lines: string[] = [];
+
+  const gpas = [
+    record.unweightedGpa && `${record.unweightedGpa.value}/${formatScale(record.unweightedGpa.scale)} unweighted`,
+    record.weightedGpa && `${record.weightedGpa.value}/${formatScale(record.weightedGpa.scale)} weighted`,
+  ].filter(Boolean);
+  if (gpas.length > 0) lines.push(`GPA: ${gpas.join(", ")}`);
+
+  if (record.sat) {
+    const sections = [
+      record.sat.readingWriting !== null && `${record.sat.readingWriting} Reading and Writing`,
+      record.sat.math !== null && `${record.sat.math} Math`,
+    ].filter(Boolean);
+    lines.push(`SAT: ${record.sat.total}${sections.length > 0 ? ` (${sections.join(", ")})` : ""}`);
+  }
+
+  if (record.act) {
+    const { composite, ...sectionScores } = record.act;
+    const sections = Object.entries(sectionScores)
+      .filter(([, score]) => score !== null)
+      .map(([section, score]) => `${section.charAt(0).toUpperCase()}${section.slice(1)} ${score}`);
+    lines.push(`ACT: ${composite}${sections.length > 0 ? ` (${sections.join(", ")})` : ""}`);
+  }
+
+  if (record.classRank) {
+    lines.push(`Class rank: ${record.classRank.rank} of ${record.classRank.classSize}`);
+  }
+
+  if (record.courses.length > 0) {
+    lines.push("Courses:");
+    record.courses.forEach(course => {
+      const details = [
+        course.gradeLevel !== null && formatGradeLevel(course.gradeLevel),
+        course.grade && `grade/score: ${course.grade}`,
+      ].filter(Boolean);
+      lines.push(`- ${courseLevelPrefixes[course.level]}${course.name}${details.length > 0 ? ` (${details.join(", ")})` : ""}`);
+    });
+  }
+
+  if (record.awards.length > 0) {
+    lines.push("Awards:");
+    record.awards.forEach(award => {
+      const details = [
+        award.level && `${award.level} level`,
+        award.gradeLevel !== null && formatGradeLevel(award.gradeLevel),
+      ].filter(Boolean);
+      lines.push(`- ${award.name}${details.length > 0 ? ` (${details.join(", ")})` : ""}`);
+    });
+  }
+
+  if (record.notes.trim()) lines.push(`Notes: ${record.notes.trim()}`);
+
+  return lines.length > 0 ? lines.join("\n") : "No academic information provided.";
+}
+
+// One-off migration: give every user without a record one parsed from their free-text answer
+export async function migrateAcademicRecords(): Promise<void> {
+  const users = await dbStorage.getUsersWithoutAcademicRecord();
+  for (const user of users) {
+    await dbStorage.updateUserAcademicRecord(user.id, parseAcademicRecord(user.onboarding?.academicStats));
+  }
+  if (users.length > 0) {
+    console.log(`Parsed academic records for ${users.length} users`);
+  }
+}
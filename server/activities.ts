@@ -0,0 +1,39 @@
+import { ActivityTypeLabels, type Activity } from "@shared/schema";
+import { storage as dbStorage } from "./storage";
+
+// "9, 10, 11" or "10-12" when the grades run on without a gap
+function formatGradeLevels(levels: number[]): string {
+  if (levels.length > 2 && levels[levels.length - 1] - levels[0] === levels.length - 1) {
+    return `${levels[0]}-${levels[levels.length - 1]}`;
+  }
+  return levels.join(", ");
+}
+
+// One line per activity, in the student's ranked order, for prompts
+export function formatActivities(activities: Activity[]): string {
+  return activities.map((activity, i) => {
+    const heading = [activity.role, activity.organization].filter(Boolean).join(", ");
+    const details = [
+      ActivityTypeLabels[activity.type],
+      activity.gradeLevels.length > 0 && `grades ${formatGradeLevels(activity.gradeLevels)}`,
+      activity.hoursPerWeek !== null && `${activity.hoursPerWeek} hrs/week`,
+      activity.weeksPerYear !== null && `${activity.weeksPerYear} weeks/year`,
+    ].filter(Boolean).join("; ");
+    return `${i + 1}. ${heading || ActivityTypeLabels[activity.type]} (${details})${activity.description ? `: ${activity.description}` : ""}`;
+  }).join("\n");
+}
+
+// The student's activities list for prompts, or "" if they haven't added any
+export async function describeActivities(userId: number): Promise<string> {
+  return formatActivities(await dbStorage.getActivities(userId));
+}
+
+// Clean up a rewritten description: models like to wrap it in quotes or add a label
+export function parseTightenedDescription(text: string): string {
+  return text
+    .trim()
+    .replace(/^(description|rewritten|revised)[^:]{0,20}:\s*/i, "")
+    .replace(/^["“']([\s\S]*)["”']$/, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+}
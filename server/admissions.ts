@@ -0,0 +1,149 @@
+import {
+  CollegeFit,
+  CollegeStatus,
+  type College,
+  type CollegeFitReport,
+  type CollegeFitResult,
+  type CollegeFitType,
+  type CollegeRecommendation,
+  type Institution,
+  type StudentAdmissionStats,
+  type User
+} from "@shared/schema";
+import { storage as dbStorage } from "./storage";
+import { getAdmissionStats, getUserAcademicRecord } from "./academic-record";
+
+// Colleges admitting fewer than this percentage of applicants are a reach for everyone
+const ALWAYS_REACH_RATE = 15;
+// ...and below this one they are never a likely
+const NEVER_LIKELY_RATE = 25;
+
+// Score cutoffs between the labels, see classifyCollegeFit
+const LIKELY_CUTOFF = 0.35;
+const TARGET_CUTOFF = -0.3;
+
+// ACT composite to SAT total, from the 2018 ACT/SAT concordance tables
+const actToSat: Record<number, number> = {
+  36: 1590, 35: 1540, 34: 1500, 33: 1460, 32: 1430, 31: 1400, 30: 1370, 29: 1340,
+  28: 1310, 27: 1280, 26: 1240, 25: 1210, 24: 1180, 23: 1140, 22: 1110, 21: 1080,
+  20: 1040, 19: 1010, 18: 970, 17: 930, 16: 890, 15: 850, 14: 800, 13: 760,
+  12: 710, 11: 670, 10: 630, 9: 590,
+};
+
+function concordActScore(act: number): number {
+  return actToSat[Math.max(9, Math.min(36, Math.round(act)))];
+}
+
+// Where a score sits in a middle-50% range: -1 below it, 1 above it, -0.5 to 0.5 inside
+function rangePosition(score: number, low: number, high: number): number {
+  if (score < low) return -1;
+  if (score > high) return 1;
+  return high === low ? 0 : (score - low) / (high - low) - 0.5;
+}
+
+// Compare the student's best test score with the college's range, on the SAT scale
+export function testSignal(stats: StudentAdmissionStats, institution: Institution): number | null {
+  const scores = [stats.sat, stats.act === null ? null : concordActScore(stats.act)].filter((s): s is number => s !== null);
+  if (scores.length === 0) return null;
+  const best = Math.max(...scores);
+
+  if (institution.sat25 !== null && institution.sat75 !== null) {
+    return rangePosition(best, institution.sat25, institution.sat75);
+  }
+  if (institution.act25 !== null && institution.act75 !== null) {
+    return rangePosition(best, concordActScore(institution.act25), concordActScore(institution.act75));
+  }
+  return null;
+}
+
+function admitRateSignal(admitRate: number): number {
+  if (admitRate >= 75) return 1;
+  if (admitRate >= 50) return 0.5;
+  if (admitRate >= 30) return 0;
+  if (admitRate >= ALWAYS_REACH_RATE) return -0.5;
+  return -1;
+}
+
+// The catalog has no GPA data, so GPA only counts as a general signal of academic strength
+function gpaSignal(gpa: number): number {
+  if (gpa >= 3.8) return 0.5;
+  if (gpa >= 3.5) return 0;
+  if (gpa >= 3.0) return -0.5;
+  return -1;
+}
+
+// Label one college for a student. Returns null when the catalog has nothing to compare against.
+export function classifyCollegeFit(stats: StudentAdmissionStats, institution: Institution): CollegeFitResult | null {
+  const test = testSignal(stats, institution);
+  if (institution.admitRate === null && test === null) return null;
+
+  // Weighted average of the signals that are available
+  const signals: [number, number][] = [];
+  if (institution.admitRate !== null) signals.push([admitRateSignal(institution.admitRate), 0.4]);
+  if (test !== null) signals.push([test, 0.45]);
+  if (stats.gpa !== null) signals.push([gpaSignal(stats.gpa), 0.15]);
+  const totalWeight = signals.reduce((sum, [, weight]) => sum + weight, 0);
+  const score = signals.reduce((sum, [value, weight]) => sum + value * weight, 0) / totalWeight;
+
+  let fit: CollegeFitType = score >= LIKELY_CUTOFF ? CollegeFit.LIKELY : score >= TARGET_CUTOFF ? CollegeFit.TARGET : CollegeFit.REACH;
+  // Distance from the nearest cutoff, so borderline labels get less confidence
+  let margin = Math.min(Math.abs(score - LIKELY_CUTOFF), Math.abs(score - TARGET_CUTOFF));
+
+  if (institution.admitRate !== null && institution.admitRate < ALWAYS_REACH_RATE) {
+    fit = CollegeFit.REACH;
+    margin = 1;
+  } else if (institution.admitRate !== null && institution.admitRate < NEVER_LIKELY_RATE && fit === CollegeFit.LIKELY) {
+    fit = CollegeFit.TARGET;
+    margin = Math.abs(score - TARGET_CUTOFF);
+  }
+
+  // More data means more confidence; without the student's scores only the admit rate is used
+  const coverage = 0.35 + (test !== null ? 0.35 : 0) + (stats.gpa !== null ? 0.15 : 0);
+  const confidence = coverage * (0.6 + 0.4 * Math.min(1, margin / 0.4));
+
+  return { fit, confidence: Math.round(confidence * 100) / 100 };
+}
+
+// Fit labels for all of a student's colleges and recommendations
+export async function getCollegeFitReport(
+  user: User,
+  colleges: College[],
+  recommendations: CollegeRecommendation[]
+): Promise<CollegeFitReport> {
+  const stats = getAdmissionStats(getUserAcademicRecord(user));
+
+  const institutionIds = Array.from(new Set(
+    [...colleges, ...recommendations]
+      .map(entry => entry.institutionId)
+      .filter((id): id is number => id !== null)
+  ));
+  const institutions = new Map<number, Institution>();
+  for (const id of institutionIds) {
+    const institution = await dbStorage.getInstitution(id);
+    if (institution) institutions.set(id, institution);
+  }
+
+  const classify = (entry: College | CollegeRecommendation) => {
+    const institution = entry.institutionId === null ? undefined : institutions.get(entry.institutionId);
+    return institution ? classifyCollegeFit(stats, institution) : null;
+  };
+
+  return {
+    stats,
+    colleges: Object.fromEntries(colleges.map(college => [college.id, classify(college)])),
+    recommendations: Object.fromEntries(recommendations.map(rec => [rec.id, classify(rec)])),
+  };
+}
+
+// "3 reaches, 1 target, 0 likely" for the colleges the student is still considering
+export function describeFitBalance(colleges: College[], report: CollegeFitReport): string {
+  const counts: Record<CollegeFitType, number> = { reach: 0, target: 0, likely: 0 };
+  colleges
+    .filter(college => college.status !== CollegeStatus.NOT_APPLYING)
+    .forEach(college => {
+      const result = report.colleges[college.id];
+      if (result) counts[result.fit]++;
+    });
+
+  return `${counts.reach} ${counts.reach === 1 ? "reach" : "reaches"}, ${counts.target} ${counts.target === 1 ? "target" : "targets"}, ${counts.likely} likely`;
+}
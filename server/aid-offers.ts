@@ -0,0 +1,94 @@
+import {
+  AidItemType,
+  aidItemSchema,
+  type AidItem,
+  type AidItemTypeValue,
+  type AidOffer,
+  type AidOfferSummary,
+  type AidOfferWithSummary
+} from "@shared/schema";
+
+// The parts of an award letter the model is asked to extract
+export type ParsedAwardLetter = {
+  academicYear: string | null;
+  costOfAttendance: number | null;
+  statedTotalAid: number | null;
+  items: AidItem[];
+};
+
+// Names that give a loan away even when the letter lists it next to grants
+const PARENT_LOAN_PATTERN = /\bparent\b.*\bplus\b|\bplus\b.*\bparent\b|\bparent loan\b/i;
+const LOAN_PATTERN = /\bloans?\b|\bstafford\b|\bperkins\b|\b(un)?subsidized\b|\bplus\b/i;
+const WORK_STUDY_PATTERN = /\bwork[- ]?study\b|\bFWS\b/i;
+
+// Use the item's name to correct its type: letters and models alike tend to file loans under "awards"
+export function classifyAidItem(name: string, type: AidItemTypeValue): AidItemTypeValue {
+  if (PARENT_LOAN_PATTERN.test(name)) return AidItemType.PARENT_LOAN;
+  if (LOAN_PATTERN.test(name)) return type === AidItemType.PARENT_LOAN ? type : AidItemType.LOAN;
+  if (WORK_STUDY_PATTERN.test(name)) return AidItemType.WORK_STUDY;
+  return type;
+}
+
+function parseDollars(value: unknown): number | null {
+  const amount = typeof value === "string" ? Number(value.replace(/[$,\s]/g, "")) : value;
+  return typeof amount === "number" && Number.isFinite(amount) && amount >= 0 ? Math.round(amount) : null;
+}
+
+// Read the model's JSON answer. Returns null when it isn't an award letter or can't be parsed.
+export function parseAwardLetterResponse(text: string): ParsedAwardLetter | null {
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return null;
+
+  let result: any;
+  try {
+    result = JSON.parse(jsonMatch[0]);
+  } catch {
+    return null;
+  }
+  if (!result || result.isAwardLetter === false || !Array.isArray(result.items)) return null;
+
+  const items: AidItem[] = [];
+  for (const item of result.items) {
+    const parsed = aidItemSchema.safeParse({
+      name: typeof item?.name === "string" ? item.name : "",
+      type: Object.values(AidItemType).includes(item?.type) ? item.type : AidItemType.OTHER,
+      amount: parseDollars(item?.amount),
+    });
+    if (!parsed.success || parsed.data.amount === 0) continue;
+    items.push({ ...parsed.data, type: classifyAidItem(parsed.data.name, parsed.data.type) });
+  }
+
+  return {
+    academicYear: typeof result.academicYear === "string" && result.academicYear.trim() ? result.academicYear.trim().slice(0, 20) : null,
+    costOfAttendance: parseDollars(result.costOfAttendance),
+    statedTotalAid: parseDollars(result.statedTotalAid),
+    items,
+  };
+}
+
+function sumItems(items: AidItem[], types: AidItemTypeValue[]): number {
+  return items.filter(item => types.includes(item.type)).reduce((sum, item) => sum + item.amount, 0);
+}
+
+// Split an offer into money that's free, earned and borrowed, and work out what it really costs
+export function summarizeAidOffer(offer: AidOffer): AidOfferSummary {
+  const giftAid = sumItems(offer.items, [AidItemType.GRANT, AidItemType.SCHOLARSHIP]);
+  const workStudy = sumItems(offer.items, [AidItemType.WORK_STUDY]);
+  const loans = sumItems(offer.items, [AidItemType.LOAN]);
+  const parentLoans = sumItems(offer.items, [AidItemType.PARENT_LOAN]);
+  const other = sumItems(offer.items, [AidItemType.OTHER]);
+
+  const netPrice = offer.costOfAttendance === null ? null : Math.max(0, offer.costOfAttendance - giftAid);
+  const outOfPocket = netPrice === null ? null : Math.max(0, netPrice - workStudy - loans - parentLoans - other);
+
+  // A stated total above the money that doesn't have to be repaid means loans were counted as aid
+  const loansCountedAsAid = offer.statedTotalAid !== null &&
+    loans + parentLoans > 0 &&
+    offer.statedTotalAid > giftAid + workStudy + other;
+
+  return { giftAid, workStudy, loans, parentLoans, netPrice, outOfPocket, loansCountedAsAid };
+}
+
+export function withAidSummary(offer: AidOffer): AidOfferWithSummary {
+  return { ...offer, summary: summarizeAidOffer(offer) };
+}
@@ -5,7 +5,17 @@ import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser, onboardingSchema } from "@shared/schema";
+import {
+  User as SelectUser,
+  onboardingSchema,
+  academicRecordSchema,
+  financialProfileSchema,
+  BRAG_SHEET_LIMIT,
+  UserRole,
+  ProfileRevisionSource
+} from "@shared/schema";
+import { parseAcademicRecord } from "./academic-record";
+import { applyProfileRevision } from "./profile-revisions";
 
 declare global {
   namespace Express {
@@ -13,6 +23,13 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Share link views this browser may keep using past the view limit, by advisor id
+    sharedViewGrants?: Record<number, number>;
+  }
+}
+
 const scryptAsync = promisify(scrypt);
 
 async function hashPassword(password: string) {
@@ -81,11 +98,13 @@ export function setupAuth(app: Express) {
       }
 
       // Extract onboarding data from request if provided
-      const { username, password, onboarding } = req.body;
+      const { username, password, onboarding, role } = req.body;
 
       const user = await storage.createUser({
         username,
         password: await hashPassword(password),
+        // Advisor accounts are opt-in; everyone else is a student
+        role: role === UserRole.ADVISOR ? UserRole.ADVISOR : UserRole.STUDENT,
         onboarding: onboarding || {
           programs: "User skipped this question.",
           academicEnv: "User skipped this question.",
@@ -95,9 +114,12 @@ export function setupAuth(app: Express) {
         }
       });
 
-      req.login(user, (err) => {
+      // Start the structured academic record from the free-text onboarding answer
+      const userWithRecord = await storage.updateUserAcademicRecord(user.id, parseAcademicRecord(onboarding?.academicStats)) || user;
+
+      req.login(userWithRecord, (err) => {
         if (err) return next(err);
-        res.status(201).json(user);
+        res.status(201).json(userWithRecord);
       });
     } catch (err) {
       next(err);
@@ -158,8 +180,123 @@ export function setupAuth(app: Express) {
       // Validate the onboarding data
       const onboardingData = onboardingSchema.parse(req.body);
       
+      const previousRecord = req.user.academicRecord;
+      const previousAnswer = req.user.onboarding?.academicStats;
+      
       // Update the user's onboarding responses
-      const updatedUser = await storage.updateUserOnboarding(req.user.id, onboardingData);
+      let updatedUser = await storage.updateUserOnboarding(req.user.id, onboardingData);
+      
+      if (!updatedUser) {
+        return res.status(404).send("User not found");
+      }
+      
+      // Re-parse the academic record from a changed answer, unless the student has edited the record by hand
+      const recordIsParsed = !previousRecord || JSON.stringify(previousRecord) === JSON.stringify(parseAcademicRecord(previousAnswer));
+      if (recordIsParsed && (!previousRecord || onboardingData.academicStats !== previousAnswer)) {
+        updatedUser = await storage.updateUserAcademicRecord(updatedUser.id, parseAcademicRecord(onboardingData.academicStats)) || updatedUser;
+      }
+      
+      // Update the session
+      req.login(updatedUser, (err) => {
+        if (err) return next(err);
+        res.status(200).json(updatedUser);
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Replace the user's structured academic record
+  app.post("/api/user/academic-record", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const parsed = academicRecordSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid academic record" });
+      }
+      
+      const updatedUser = await storage.updateUserAcademicRecord(req.user.id, parsed.data);
+      
+      if (!updatedUser) {
+        return res.status(404).send("User not found");
+      }
+      
+      // Update the session
+      req.login(updatedUser, (err) => {
+        if (err) return next(err);
+        res.status(200).json(updatedUser);
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Update profile settings, like holding AI profile changes for approval
+  app.post("/api/user/profile-settings", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { requireProfileApproval } = req.body;
+      
+      if (typeof requireProfileApproval !== 'boolean') {
+        return res.status(400).send("requireProfileApproval must be a boolean");
+      }
+      
+      const updatedUser = await storage.updateUserRequireProfileApproval(req.user.id, requireProfileApproval);
+      
+      if (!updatedUser) {
+        return res.status(404).send("User not found");
+      }
+      
+      // Update the session
+      req.login(updatedUser, (err) => {
+        if (err) return next(err);
+        res.status(200).json(updatedUser);
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Save the household finances used for net price estimates
+  app.post("/api/user/financial-profile", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const parsed = financialProfileSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid financial profile" });
+      }
+      
+      const updatedUser = await storage.updateUserFinancialProfile(req.user.id, parsed.data);
+      
+      if (!updatedUser) {
+        return res.status(404).send("User not found");
+      }
+      
+      // Update the session
+      req.login(updatedUser, (err) => {
+        if (err) return next(err);
+        res.status(200).json(updatedUser);
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Save the brag sheet shown to recommenders
+  app.post("/api/user/brag-sheet", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { bragSheet } = req.body;
+      
+      if (typeof bragSheet !== "string" || bragSheet.length > BRAG_SHEET_LIMIT) {
+        return res.status(400).json({ error: "Invalid brag sheet" });
+      }
+      
+      const updatedUser = await storage.updateUserBragSheet(req.user.id, bragSheet.trim() || null);
       
       if (!updatedUser) {
         return res.status(404).send("User not found");
@@ -186,8 +323,8 @@ export function setupAuth(app: Express) {
         return res.status(400).send("Profile description is required");
       }
       
-      // Update the user's profile description
-      const updatedUser = await storage.updateUserProfileDescription(req.user.id, profileDescription);
+      // Save the edit as a new revision of the profile description
+      const { user: updatedUser } = await applyProfileRevision(req.user, profileDescription, ProfileRevisionSource.MANUAL);
       
       if (!updatedUser) {
         return res.status(404).send("User not found");
@@ -0,0 +1,97 @@
+import { CollegeTaskTypeLabels, type College, type CollegeTask } from "@shared/schema";
+
+// Minimal RFC 5545 (iCalendar) writer for the application deadline feed
+
+// Escape TEXT values (RFC 5545 section 3.3.11)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Format a date as a UTC DATE-TIME, e.g. 20251101T235900Z
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// Fold lines longer than 75 octets (RFC 5545 section 3.1)
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentLength = 0;
+
+  for (const char of line) {
+    const charLength = Buffer.byteLength(char, "utf8");
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentLength + charLength > limit) {
+      parts.push(current);
+      current = "";
+      currentLength = 0;
+    }
+    current += char;
+    currentLength += charLength;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+// Build a VCALENDAR with one VEVENT per task that has a due date
+export function buildDeadlineCalendar(username: string, colleges: College[], tasks: CollegeTask[]): string {
+  const collegeNames = new Map(colleges.map(college => [college.id, college.name]));
+  const now = formatDateTime(new Date());
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//CollegeWayfarer//Application Deadlines//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(`College deadlines (${username})`)}`,
+  ];
+
+  for (const task of tasks) {
+    if (!task.dueDate) continue;
+
+    const collegeName = collegeNames.get(task.collegeId) || "College";
+    const summary = `${task.isCompleted ? "✓ " : ""}${collegeName}: ${task.title}`;
+    const description = [
+      CollegeTaskTypeLabels[task.type],
+      task.notes || "",
+    ].filter(Boolean).join("\n\n");
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:college-task-${task.id}@collegewayfarer`,
+      `DTSTAMP:${now}`,
+      `LAST-MODIFIED:${formatDateTime(new Date(task.updatedAt))}`,
+      `DTSTART:${formatDateTime(new Date(task.dueDate))}`,
+      `SUMMARY:${escapeText(summary)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      "TRANSP:TRANSPARENT",
+    );
+
+    // Remind a day ahead for anything still open
+    if (!task.isCompleted) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        "TRIGGER:-P1D",
+        `DESCRIPTION:${escapeText(summary)}`,
+        "END:VALARM",
+      );
+    }
+
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,193 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  IncomeBand,
+  InstitutionControl,
+  type IncomeBandType,
+  type Institution,
+  type InstitutionControlType,
+  type InstitutionWithAliases
+} from "@shared/schema";
+import { storage as dbStorage } from "./storage";
+
+// Institution catalog bundled with the app, a subset of the College Scorecard institution file
+export const bundledCatalogPath = path.resolve("server", "data", "institutions.csv");
+
+// Scorecard CONTROL codes
+const controlCodes: Record<string, InstitutionControlType> = {
+  "1": InstitutionControl.PUBLIC,
+  "2": InstitutionControl.PRIVATE_NONPROFIT,
+  "3": InstitutionControl.PRIVATE_FOR_PROFIT,
+};
+
+// Scorecard net price columns for each income band: NPT41 is $0-30,000 up to NPT45 for over $110,000
+const incomeBandColumns: [IncomeBandType, string][] = [
+  [IncomeBand.UNDER_30K, "NPT41"],
+  [IncomeBand.FROM_30K_TO_48K, "NPT42"],
+  [IncomeBand.FROM_48K_TO_75K, "NPT43"],
+  [IncomeBand.FROM_75K_TO_110K, "NPT44"],
+  [IncomeBand.OVER_110K, "NPT45"],
+];
+
+// Minimal RFC 4180 parser: quoted fields, doubled quotes and line breaks inside quotes
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ""));
+}
+
+// Scorecard files use "NULL" and "PrivacySuppressed" for missing values
+function cleanValue(value: string | undefined): string | null {
+  const trimmed = value?.trim();
+  if (!trimmed || trimmed === "NULL" || trimmed === "PrivacySuppressed") return null;
+  return trimmed;
+}
+
+function parseNumber(value: string | undefined): number | null {
+  const cleaned = cleanValue(value);
+  if (cleaned === null) return null;
+  const number = Number(cleaned);
+  return Number.isFinite(number) ? number : null;
+}
+
+// SAT composite from the reading/writing and math section scores
+function sumSections(verbal: string | undefined, math: string | undefined): number | null {
+  const verbalScore = parseNumber(verbal);
+  const mathScore = parseNumber(math);
+  return verbalScore === null || mathScore === null ? null : verbalScore + mathScore;
+}
+
+// Parse a College Scorecard-style CSV. Columns are matched by header, so a full Scorecard
+// export works as well as the bundled file; ALIAS holds extra names separated by "|" or ";".
+export function parseInstitutionCsv(text: string): InstitutionWithAliases[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) return [];
+
+  const columns = new Map(header.map((name, index) => [name.trim().toUpperCase(), index]));
+  if (!columns.has("UNITID") || !columns.has("INSTNM")) {
+    throw new Error("Catalog file needs UNITID and INSTNM columns");
+  }
+  const cell = (row: string[], name: string) => {
+    const index = columns.get(name);
+    return index === undefined ? undefined : row[index];
+  };
+
+  const records: InstitutionWithAliases[] = [];
+  rows.forEach(row => {
+    const id = parseNumber(cell(row, "UNITID"));
+    const name = cleanValue(cell(row, "INSTNM"));
+    if (id === null || !name) return;
+
+    const admitRate = parseNumber(cell(row, "ADM_RATE"));
+    const undergradEnrollment = parseNumber(cell(row, "UGDS"));
+    // Full Scorecard files split net price into public and private columns, and only have SAT section ranges
+    const netPrice = parseNumber(cell(row, "NPT4")) ?? parseNumber(cell(row, "NPT4_PUB")) ?? parseNumber(cell(row, "NPT4_PRIV"));
+    const costOfAttendance = parseNumber(cell(row, "COSTT4_A")) ?? parseNumber(cell(row, "COSTT4_P"));
+    const netPriceByIncome: Partial<Record<IncomeBandType, number>> = {};
+    incomeBandColumns.forEach(([band, column]) => {
+      const price = parseNumber(cell(row, column)) ?? parseNumber(cell(row, `${column}_PUB`)) ?? parseNumber(cell(row, `${column}_PRIV`));
+      if (price !== null) netPriceByIncome[band] = Math.round(price);
+    });
+    const sat25 = parseNumber(cell(row, "SAT25")) ?? sumSections(cell(row, "SATVR25"), cell(row, "SATMT25"));
+    const sat75 = parseNumber(cell(row, "SAT75")) ?? sumSections(cell(row, "SATVR75"), cell(row, "SATMT75"));
+
+    records.push({
+      id,
+      name,
+      city: cleanValue(cell(row, "CITY")),
+      state: cleanValue(cell(row, "STABBR")),
+      website: cleanValue(cell(row, "INSTURL")),
+      control: controlCodes[cleanValue(cell(row, "CONTROL")) || ""] || null,
+      // Scorecard stores the admission rate as a fraction
+      admitRate: admitRate === null ? null : Math.round(admitRate * 1000) / 10,
+      undergradEnrollment: undergradEnrollment === null ? null : Math.round(undergradEnrollment),
+      netPrice: netPrice === null ? null : Math.round(netPrice),
+      netPriceByIncome: Object.keys(netPriceByIncome).length > 0 ? netPriceByIncome : null,
+      costOfAttendance: costOfAttendance === null ? null : Math.round(costOfAttendance),
+      sat25,
+      sat75,
+      act25: parseNumber(cell(row, "ACTCM25")),
+      act75: parseNumber(cell(row, "ACTCM75")),
+      aliases: (cleanValue(cell(row, "ALIAS")) || "")
+        .split(/[|;]/)
+        .map(alias => alias.trim())
+        .filter(Boolean),
+    });
+  });
+
+  return records;
+}
+
+// Import a catalog file, adding new institutions and updating existing ones by unit ID
+export async function importCatalogFile(filePath: string): Promise<number> {
+  const records = parseInstitutionCsv(await fs.promises.readFile(filePath, "utf8"));
+  return await dbStorage.importInstitutions(records);
+}
+
+// Load the bundled catalog on startup when the catalog tables are empty
+export async function loadBundledCatalog(): Promise<void> {
+  try {
+    if (await dbStorage.countInstitutions() > 0) return;
+
+    const count = await importCatalogFile(bundledCatalogPath);
+    console.log(`Loaded ${count} institutions into the college catalog`);
+  } catch (error) {
+    // The app still works without the catalog, colleges just stay unlinked
+    console.error("Error loading college catalog:", error);
+  }
+}
+
+// Recommendation stats taken from a catalog entry, in place of the model's estimates
+export function getVerifiedStats(institution: Institution) {
+  return {
+    institutionId: institution.id,
+    acceptanceRate: institution.admitRate,
+    location: [institution.city, institution.state].filter(Boolean).join(", ") || null,
+    undergradEnrollment: institution.undergradEnrollment,
+    netPrice: institution.netPrice,
+    statsVerified: true
+  };
+}
+
+// Find the catalog entry for a college, by explicit ID when the client picked one, otherwise by name
+export async function resolveInstitution(name: string, institutionId?: number | null): Promise<Institution | undefined> {
+  if (institutionId) {
+    return await dbStorage.getInstitution(institutionId);
+  }
+  return await dbStorage.findInstitutionByName(name);
+}
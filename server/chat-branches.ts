@@ -0,0 +1,55 @@
+import type { ChatMessage, ChatMessageWithSiblings } from "@shared/schema";
+import { storage as dbStorage } from "./storage";
+
+// The conversation leading up to and including a message, oldest first
+export function getChatBranch(messages: ChatMessage[], leafId: number | null): ChatMessage[] {
+  const messagesById = new Map(messages.map(message => [message.id, message]));
+  const branch: ChatMessage[] = [];
+  let message = leafId !== null ? messagesById.get(leafId) : undefined;
+  while (message) {
+    branch.unshift(message);
+    message = message.parentId !== null ? messagesById.get(message.parentId) : undefined;
+  }
+  return branch;
+}
+
+// Where a conversation continuing from a message ends, following the newest reply at each step
+export function getLatestDescendant(messages: ChatMessage[], messageId: number): number {
+  let leafId = messageId;
+  for (;;) {
+    const replies = messages.filter(message => message.parentId === leafId);
+    if (replies.length === 0) return leafId;
+    leafId = Math.max(...replies.map(reply => reply.id));
+  }
+}
+
+// Attach the versions of each message on a branch, i.e. the messages from the same sender with the same parent
+export function withSiblings(branch: ChatMessage[], messages: ChatMessage[]): ChatMessageWithSiblings[] {
+  return branch.map(message => ({
+    ...message,
+    siblingIds: messages
+      .filter(other => other.parentId === message.parentId && other.sender === message.sender)
+      .map(other => other.id)
+      .sort((a, b) => a - b)
+  }));
+}
+
+// The branch of a session the student is looking at
+export async function getActiveChatBranch(sessionId: number): Promise<ChatMessageWithSiblings[]> {
+  const session = await dbStorage.getChatSession(sessionId);
+  if (!session) return [];
+
+  const messages = await dbStorage.getChatMessages(sessionId);
+  return withSiblings(getChatBranch(messages, session.activeMessageId), messages);
+}
+
+// Chain up the messages of sessions from before branching, so each has a conversation to show
+export async function migrateChatBranches(): Promise<void> {
+  const sessionIds = await dbStorage.getUnlinkedChatSessionIds();
+  for (const sessionId of sessionIds) {
+    await dbStorage.linkChatMessages(sessionId);
+  }
+  if (sessionIds.length > 0) {
+    console.log(`Linked the messages of ${sessionIds.length} chat sessions`);
+  }
+}
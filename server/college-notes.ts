@@ -0,0 +1,93 @@
+import { normalizeInstitutionName, type College } from "@shared/schema";
+import { storage as dbStorage } from "./storage";
+import { getActiveChatBranch } from "./chat-branches";
+
+// How many of the latest user messages in a chat count as the current discussion
+const DISCUSSION_MESSAGES = 6;
+
+export function hasCollegeNotes(college: College): boolean {
+  return !!college.notes?.trim() || college.pros.length > 0 || college.cons.length > 0 || college.ratings.length > 0;
+}
+
+// A college without the student's private notes, for advisors who weren't given access to them
+export function withoutCollegeNotes(college: College): College {
+  return { ...college, notes: null, pros: [], cons: [], ratings: [] };
+}
+
+// The student's notes on one college as plain text for prompts
+export function formatCollegeNotes(college: College): string {
+  const lines = [`${college.name}:`];
+  if (college.ratings.length > 0) {
+    lines.push(`- Ratings (1-5): ${college.ratings.map(rating => `${rating.criterion} ${rating.score}`).join(", ")}`);
+  }
+  if (college.pros.length > 0) lines.push(`- Pros: ${college.pros.join("; ")}`);
+  if (college.cons.length > 0) lines.push(`- Cons: ${college.cons.join("; ")}`);
+  if (college.notes?.trim()) lines.push(`- Notes: ${college.notes.trim()}`);
+  return lines.join("\n");
+}
+
+// Students rarely type the full name, so "Vassar College" also matches "vassar"
+const GENERIC_NAME_PARTS = /^university of | (college|university)$/g;
+
+// Short names that are states mean a place, not a college ("Washington University")
+const US_STATES = new Set([
+  "alabama", "alaska", "arizona", "arkansas", "california", "colorado", "connecticut", "delaware",
+  "district of columbia", "florida", "georgia", "hawaii", "idaho", "illinois", "indiana", "iowa", "kansas",
+  "kentucky", "louisiana", "maine", "maryland", "massachusetts", "michigan", "minnesota", "mississippi",
+  "missouri", "montana", "nebraska", "nevada", "new hampshire", "new jersey", "new mexico", "new york",
+  "north carolina", "north dakota", "ohio", "oklahoma", "oregon", "pennsylvania", "rhode island",
+  "south carolina", "south dakota", "tennessee", "texas", "utah", "vermont", "virginia", "washington",
+  "west virginia", "wisconsin", "wyoming"
+]);
+
+function getShortName(name: string): string {
+  return normalizeInstitutionName(name).replace(GENERIC_NAME_PARTS, "");
+}
+
+// Whether a short name still points at one college: not a state, not a city in the catalog
+// ("Boston College"), and not the short name of another of the student's colleges
+async function isDistinctive(shortName: string, otherShortNames: Set<string>): Promise<boolean> {
+  return !US_STATES.has(shortName) && !otherShortNames.has(shortName) && !(await dbStorage.isInstitutionCity(shortName));
+}
+
+// Whether a college appears in some text, by its own or catalog name, a catalog alias, or a distinctive short name
+async function isMentioned(college: College, otherShortNames: Set<string>, normalizedText: string): Promise<boolean> {
+  const names = [college.name];
+  const aliases: string[] = [];
+  if (college.institutionId !== null) {
+    const institution = await dbStorage.getInstitution(college.institutionId);
+    if (institution) names.push(institution.name);
+    aliases.push(...await dbStorage.getInstitutionAliases(college.institutionId));
+  }
+
+  const candidates = [...names, ...aliases].map(normalizeInstitutionName);
+  for (const name of names) {
+    const shortName = getShortName(name);
+    if (await isDistinctive(shortName, otherShortNames)) candidates.push(shortName);
+  }
+  return candidates.some(candidate => candidate.length >= 4 && normalizedText.includes(` ${candidate} `));
+}
+
+// Notes on the colleges the student has been talking about in a chat session, or "" if none
+export async function describeDiscussedCollegeNotes(userId: number, sessionId: number): Promise<string> {
+  const allColleges = await dbStorage.getColleges(userId);
+  const colleges = allColleges.filter(hasCollegeNotes);
+  if (colleges.length === 0) return "";
+
+  const recentText = (await getActiveChatBranch(sessionId))
+    .filter(message => message.sender === "user")
+    .slice(-DISCUSSION_MESSAGES)
+    .map(message => message.content)
+    .join(" ");
+  // Drop possessives first, since normalizing would turn "Oberlin's" into "oberlins"
+  const normalizedText = ` ${normalizeInstitutionName(recentText.replace(/['’]s\b/gi, ""))} `;
+
+  const discussed: College[] = [];
+  for (const college of colleges) {
+    const otherShortNames = new Set(allColleges
+      .filter(other => other.id !== college.id)
+      .map(other => getShortName(other.name)));
+    if (await isMentioned(college, otherShortNames, normalizedText)) discussed.push(college);
+  }
+  return discussed.map(formatCollegeNotes).join("\n\n");
+}
@@ -0,0 +1,71 @@
+import {
+  type College,
+  type CollegeComparisonEntry,
+  type CollegeRecommendation,
+  type User
+} from "@shared/schema";
+import { storage as dbStorage } from "./storage";
+import { getAdmissionStats, getUserAcademicRecord } from "./academic-record";
+import { classifyCollegeFit } from "./admissions";
+import { estimateNetPrice } from "./financial-aid";
+import { summarizeAidOffer } from "./aid-offers";
+
+export const MIN_COMPARED = 2;
+export const MAX_COMPARED = 5;
+
+// Everything we know about a few of the student's colleges and recommendations, side by side
+export async function buildComparison(
+  user: User,
+  colleges: College[],
+  recommendations: CollegeRecommendation[]
+): Promise<CollegeComparisonEntry[]> {
+  const stats = getAdmissionStats(getUserAcademicRecord(user));
+  const aidOffers = await dbStorage.getAidOffers(user.id);
+
+  const describe = async (
+    entry: College | CollegeRecommendation,
+    base: Pick<CollegeComparisonEntry, "kind" | "status" | "deadlines" | "notes" | "pros" | "cons" | "ratings" | "aidOffer">
+  ): Promise<CollegeComparisonEntry> => {
+    const institution = entry.institutionId === null ? undefined : await dbStorage.getInstitution(entry.institutionId);
+    return {
+      ...base,
+      id: entry.id,
+      name: entry.name,
+      institution: institution ?? null,
+      fit: institution ? classifyCollegeFit(stats, institution) : null,
+      netPrice: institution && user.financialProfile ? estimateNetPrice(user.financialProfile, stats, institution) : null,
+    };
+  };
+
+  const entries: CollegeComparisonEntry[] = [];
+  for (const college of colleges) {
+    const tasks = await dbStorage.getCollegeTasksByCollege(college.id);
+    // Offers come back oldest first, so the last one is the latest letter
+    const offer = aidOffers.filter(offer => offer.collegeId === college.id).pop();
+    entries.push(await describe(college, {
+      kind: "college",
+      status: college.status,
+      deadlines: tasks.filter(task => task.dueDate && !task.isCompleted),
+      notes: college.notes || null,
+      pros: college.pros,
+      cons: college.cons,
+      ratings: college.ratings,
+      aidOffer: offer ? summarizeAidOffer(offer) : null,
+    }));
+  }
+  for (const recommendation of recommendations) {
+    entries.push(await describe(recommendation, {
+      kind: "recommendation",
+      status: null,
+      deadlines: [],
+      // The advisor's reasoning isn't the student's own notes
+      notes: null,
+      pros: [],
+      cons: [],
+      ratings: [],
+      aidOffer: null,
+    }));
+  }
+
+  return entries;
+}
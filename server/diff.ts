@@ -0,0 +1,88 @@
+import type { EssayDiffSegment } from "@shared/schema";
+
+// Diffs beyond this many tokens per side fall back to a whole-text replace
+const MAX_DIFF_TOKENS = 6000;
+
+// Split text into words and the whitespace between them, so joining the tokens gives back the text
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+// Append a token to the segment list, merging with the previous segment of the same type
+function pushSegment(segments: EssayDiffSegment[], type: EssayDiffSegment["type"], text: string) {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+// Word-level diff between two versions of a text, using the longest common subsequence
+export function diffWords(before: string, after: string): EssayDiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Trim the common prefix and suffix so the LCS table only covers the changed middle
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const segments: EssayDiffSegment[] = [];
+  if (start > 0) {
+    pushSegment(segments, "equal", a.slice(0, start).join(""));
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+
+  if (middleA.length > MAX_DIFF_TOKENS || middleB.length > MAX_DIFF_TOKENS) {
+    if (middleA.length > 0) pushSegment(segments, "delete", middleA.join(""));
+    if (middleB.length > 0) pushSegment(segments, "insert", middleB.join(""));
+  } else {
+    // lcs[i][j] = length of the LCS of middleA[i..] and middleB[j..]
+    const lcs: Uint16Array[] = [];
+    for (let i = 0; i <= middleA.length; i++) {
+      lcs.push(new Uint16Array(middleB.length + 1));
+    }
+    for (let i = middleA.length - 1; i >= 0; i--) {
+      for (let j = middleB.length - 1; j >= 0; j--) {
+        lcs[i][j] = middleA[i] === middleB[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < middleA.length && j < middleB.length) {
+      if (middleA[i] === middleB[j]) {
+        pushSegment(segments, "equal", middleA[i]);
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        pushSegment(segments, "delete", middleA[i]);
+        i++;
+      } else {
+        pushSegment(segments, "insert", middleB[j]);
+        j++;
+      }
+    }
+    while (i < middleA.length) pushSegment(segments, "delete", middleA[i++]);
+    while (j < middleB.length) pushSegment(segments, "insert", middleB[j++]);
+  }
+
+  if (endA < a.length) {
+    pushSegment(segments, "equal", a.slice(endA).join(""));
+  }
+
+  return segments;
+}
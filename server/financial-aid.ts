@@ -0,0 +1,146 @@
+import {
+  CollegeStatus,
+  IncomeBand,
+  InstitutionControl,
+  incomeBandLabels,
+  type College,
+  type FinancialProfile,
+  type IncomeBandType,
+  type Institution,
+  type NetPriceEstimate,
+  type NetPriceReport,
+  type StudentAdmissionStats,
+  type User
+} from "@shared/schema";
+import { storage as dbStorage } from "./storage";
+import { getAdmissionStats, getUserAcademicRecord } from "./academic-record";
+import { testSignal } from "./admissions";
+
+const incomeBands: IncomeBandType[] = [
+  IncomeBand.UNDER_30K,
+  IncomeBand.FROM_30K_TO_48K,
+  IncomeBand.FROM_48K_TO_75K,
+  IncomeBand.FROM_75K_TO_110K,
+  IncomeBand.OVER_110K,
+];
+
+// Net price in each income band relative to a college's overall average, roughly the national
+// pattern in Scorecard data. Used when the catalog only has the average.
+const averagePriceRatios: Record<IncomeBandType, number> = {
+  [IncomeBand.UNDER_30K]: 0.55,
+  [IncomeBand.FROM_30K_TO_48K]: 0.65,
+  [IncomeBand.FROM_48K_TO_75K]: 0.85,
+  [IncomeBand.FROM_75K_TO_110K]: 1.1,
+  [IncomeBand.OVER_110K]: 1.4,
+};
+
+// Aid formulas expect more of families with substantial savings
+const HIGH_ASSETS = 150_000;
+
+// Colleges this selective rarely offer merit scholarships
+const MIN_MERIT_ADMIT_RATE = 40;
+
+// Share of the net price a merit scholarship typically covers
+const meritShares: Record<string, number> = {
+  [InstitutionControl.PUBLIC]: 0.1,
+  [InstitutionControl.PRIVATE_NONPROFIT]: 0.25,
+};
+
+const YEARLY_PRICE_INCREASE = 0.03;
+
+// The income band whose prices best fit the family. Larger households get more need-based aid at
+// the same income and small ones less, so they're treated as one band lower or higher.
+function effectiveIncomeBand(profile: FinancialProfile): IncomeBandType {
+  let index = incomeBands.indexOf(profile.incomeBand);
+  if (profile.familySize >= 6) index--;
+  if (profile.familySize <= 2) index++;
+  if (profile.assets >= HIGH_ASSETS) index++;
+  return incomeBands[Math.max(0, Math.min(incomeBands.length - 1, index))];
+}
+
+// Merit scholarships go to students well above a college's typical admit, at colleges that aren't highly selective
+function meritAidShare(stats: StudentAdmissionStats, institution: Institution): number {
+  const share = institution.control ? meritShares[institution.control] : undefined;
+  if (!share || institution.admitRate === null || institution.admitRate < MIN_MERIT_ADMIT_RATE) return 0;
+
+  const test = testSignal(stats, institution);
+  const strongGpa = stats.gpa !== null && stats.gpa >= 3.8;
+  if (test === 1) return strongGpa ? share : share * 0.6;
+  if (test === null && strongGpa) return share * 0.5;
+  return 0;
+}
+
+// Estimate what a student would pay at one college each year. Returns null when the catalog has no price data.
+export function estimateNetPrice(
+  profile: FinancialProfile,
+  stats: StudentAdmissionStats,
+  institution: Institution
+): NetPriceEstimate | null {
+  const incomeBand = effectiveIncomeBand(profile);
+  const bandPrice = institution.netPriceByIncome?.[incomeBand];
+
+  let price: number;
+  let basis: NetPriceEstimate["basis"];
+  if (bandPrice !== undefined) {
+    price = bandPrice;
+    basis = "income_band";
+  } else if (institution.netPrice !== null) {
+    price = institution.netPrice * averagePriceRatios[incomeBand];
+    basis = "average";
+  } else {
+    return null;
+  }
+
+  // Nobody pays more than the sticker price
+  if (institution.costOfAttendance !== null) {
+    price = Math.min(price, institution.costOfAttendance);
+  }
+
+  const meritAid = profile.includeMeritAid ? Math.round(price * meritAidShare(stats, institution)) : 0;
+  const netPrice = Math.max(0, Math.round(price) - meritAid);
+
+  let fourYearCost = 0;
+  for (let year = 0; year < 4; year++) {
+    fourYearCost += netPrice * Math.pow(1 + YEARLY_PRICE_INCREASE, year);
+  }
+
+  return { netPrice, meritAid, fourYearCost: Math.round(fourYearCost), basis, incomeBand };
+}
+
+// Net price estimates for all of a student's colleges
+export async function getNetPriceReport(user: User, colleges: College[]): Promise<NetPriceReport> {
+  const profile = user.financialProfile;
+  if (!profile) {
+    return { profile: null, colleges: {} };
+  }
+
+  const stats = getAdmissionStats(getUserAcademicRecord(user));
+  const estimates: NetPriceReport["colleges"] = {};
+  for (const college of colleges) {
+    const institution = college.institutionId === null ? undefined : await dbStorage.getInstitution(college.institutionId);
+    estimates[college.id] = institution ? estimateNetPrice(profile, stats, institution) : null;
+  }
+
+  return { profile, colleges: estimates };
+}
+
+function formatDollars(amount: number): string {
+  return `$${amount.toLocaleString("en-US")}`;
+}
+
+// The family's finances and estimated yearly cost of the colleges the student is still considering, for prompts
+export function describeAffordability(colleges: College[], report: NetPriceReport): string {
+  if (!report.profile) return "";
+  const { incomeBand, familySize, assets } = report.profile;
+
+  const prices = colleges
+    .filter(college => college.status !== CollegeStatus.NOT_APPLYING)
+    .map(college => {
+      const estimate = report.colleges[college.id];
+      return estimate ? `${college.name} (${formatDollars(estimate.netPrice)}/yr)` : null;
+    })
+    .filter((entry): entry is string => entry !== null);
+
+  return `Household income ${incomeBandLabels[incomeBand]}, family of ${familySize}, ${formatDollars(assets)} in savings.` +
+    (prices.length > 0 ? ` Estimated net price after aid: ${prices.join(", ")}.` : "");
+}
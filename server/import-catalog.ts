@@ -0,0 +1,22 @@
+import * as path from "path";
+import { bundledCatalogPath, importCatalogFile } from "./catalog";
+
+// Import a College Scorecard-style CSV into the institution catalog:
+//   npm run catalog:import -- path/to/Most-Recent-Cohorts-Institution.csv
+// Without a path the bundled catalog is (re)imported.
+async function main() {
+  if (!process.env.DATABASE_URL) {
+    console.error("DATABASE_URL is not set. The in-memory store loads the bundled catalog on startup, so there is nothing to import.");
+    process.exit(1);
+  }
+
+  const filePath = process.argv[2] ? path.resolve(process.argv[2]) : bundledCatalogPath;
+  const count = await importCatalogFile(filePath);
+  console.log(`Imported ${count} institutions from ${filePath}`);
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error("Error importing college catalog:", error);
+  process.exit(1);
+});
@@ -0,0 +1,575 @@
+import OpenAI from "openai";
+import * as fs from "fs";
+import type { WebCitation, CitationSupport } from "@shared/schema";
+
+export type { WebCitation, CitationSupport };
+
+// A single piece of message content: plain text or an inline file (base64)
+export type LLMPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+export interface LLMMessage {
+  role: "user" | "model";
+  parts: LLMPart[];
+}
+
+// Which model class to use for a request ("thinking" is the extended reasoning model)
+export type LLMModelTier = "standard" | "thinking";
+
+// What the request is for. Real providers only use this for logging,
+// the fixture provider uses it to pick a canned response of the right shape.
+export type LLMTask = "chat" | "profile" | "profileUpdate" | "recommendations" | "collegeInfo" | "essayFeedback" | "awardLetter" | "activityDescription";
+
+export interface LLMRequest {
+  task: LLMTask;
+  systemPrompt?: string;
+  messages: LLMMessage[];
+  model?: LLMModelTier;
+  // Ask for web-search grounding where the provider supports it
+  webSearch?: boolean;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  // Only populated when the provider supports search grounding
+  citations: WebCitation[];
+  // Which spans of the text each citation supports
+  supports: CitationSupport[];
+  searchQueries: string[] | null;
+}
+
+// Interface every LLM vendor adapter implements
+export interface LLMProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+  // Same as generate, but calls onText with each new piece of text as it arrives
+  generateStream(request: LLMRequest, onText: (text: string) => void): Promise<LLMResponse>;
+}
+
+// Convenience for one-shot prompts (profile generation, recommendations, etc.)
+export function promptRequest(task: LLMTask, prompt: string, options: Partial<LLMRequest> = {}): LLMRequest {
+  return {
+    task,
+    messages: [{ role: "user", parts: [{ text: prompt }] }],
+    ...options
+  };
+}
+
+// Google Gemini implementation using the generativelanguage REST API
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini";
+  private apiKey: string | undefined;
+
+  constructor(apiKey = process.env.GEMINI_API_KEY) {
+    this.apiKey = apiKey;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const { endpoint, body } = this.buildRequest(request);
+
+    const response = await this.post(endpoint, body);
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error("Gemini API error:", data);
+      throw new Error(this.describeError(data));
+    }
+
+    const candidate = data.candidates && data.candidates[0];
+    if (!candidate || !candidate.content || !candidate.content.parts || candidate.content.parts.length === 0) {
+      console.error("Unexpected response structure from Gemini API:", JSON.stringify(data));
+      throw new Error("Unexpected response structure from Gemini API");
+    }
+
+    const text = candidate.content.parts[0].text;
+    if (!text || text.trim().length === 0) {
+      throw new Error("Empty response from Gemini API");
+    }
+
+    return { text, ...this.parseGrounding(request, candidate.groundingMetadata) };
+  }
+
+  async generateStream(request: LLMRequest, onText: (text: string) => void): Promise<LLMResponse> {
+    const { endpoint, body } = this.buildRequest(request);
+    const streamEndpoint = endpoint.replace(":generateContent", ":streamGenerateContent?alt=sse");
+
+    const response = await this.post(streamEndpoint, body);
+
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => null);
+      console.error("Gemini API streaming error:", data);
+      throw new Error(this.describeError(data));
+    }
+
+    let text = "";
+    let groundingMetadata: any = null;
+
+    // Each SSE event carries a partial GenerateContentResponse
+    await readServerSentEvents(response.body, (data) => {
+      const chunk = JSON.parse(data);
+      const candidate = chunk.candidates && chunk.candidates[0];
+      if (!candidate) return;
+
+      const delta = (candidate.content?.parts || [])
+        .map((part: any) => part.text || "")
+        .join("");
+
+      if (delta) {
+        text += delta;
+        onText(delta);
+      }
+
+      // Grounding metadata usually arrives with the final chunk
+      if (candidate.groundingMetadata) {
+        groundingMetadata = candidate.groundingMetadata;
+      }
+    });
+
+    if (text.trim().length === 0) {
+      throw new Error("Empty response from Gemini API");
+    }
+
+    return { text, ...this.parseGrounding(request, groundingMetadata) };
+  }
+
+  private buildRequest(request: LLMRequest): { endpoint: string; body: any } {
+    const contents = [];
+
+    // Gemini v1 has no system role, so the system prompt goes in as the first user turn
+    if (request.systemPrompt) {
+      contents.push(
+        { role: "user", parts: [{ text: request.systemPrompt }] },
+        { role: "model", parts: [{ text: "I understand and will act as CollegeWayfarer according to these guidelines." }] }
+      );
+    }
+
+    for (const message of request.messages) {
+      contents.push({
+        role: message.role,
+        parts: message.parts.map(part => "text" in part
+          ? { text: part.text }
+          : { inline_data: { mime_type: part.inlineData.mimeType, data: part.inlineData.data } })
+      });
+    }
+
+    const body: any = {
+      contents,
+      generationConfig: {
+        temperature: request.temperature ?? 0.9,
+        topP: request.topP ?? 0.8,
+        topK: request.topK ?? 40
+      }
+    };
+
+    if (request.webSearch) {
+      // Configure the Gemini API to use Google Search grounding
+      body.tools = [{
+        googleSearch: {}  // Empty object is sufficient according to the API docs
+      }];
+    }
+
+    // Determine model endpoint based on the model tier and web search flag
+    let endpoint;
+    if (request.model === "thinking") {
+      endpoint = "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-preview-04-17:generateContent";
+    } else if (request.webSearch) {
+      endpoint = "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent";
+    } else {
+      endpoint = "https://generativelanguage.googleapis.com/v1/models/gemini-2.0-flash:generateContent";
+    }
+
+    console.log(`Gemini ${request.task} request using ${endpoint.split("/models/")[1]}${request.webSearch ? " with web search" : ""}`);
+
+    return { endpoint, body };
+  }
+
+  private post(endpoint: string, body: any): Promise<globalThis.Response> {
+    if (!this.apiKey) {
+      throw new Error("API key not configured");
+    }
+
+    return fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-goog-api-key": this.apiKey
+      },
+      body: JSON.stringify(body)
+    });
+  }
+
+  private parseGrounding(request: LLMRequest, metadata: any): Pick<LLMResponse, "citations" | "supports" | "searchQueries"> {
+    const citations: WebCitation[] = [];
+    const supports: CitationSupport[] = [];
+    let searchQueries: string[] | null = null;
+
+    if (!request.webSearch) {
+      return { citations, supports, searchQueries };
+    }
+
+    if (!metadata) {
+      console.log("Web search was requested but no search metadata was returned");
+      return { citations, supports, searchQueries };
+    }
+
+    // Map Gemini's chunk indices onto our list, which skips chunks without a web source
+    const chunkToCitation = new Map<number, number>();
+    (metadata.groundingChunks || []).forEach((chunk: any, chunkIndex: number) => {
+      if (chunk.web && chunk.web.uri) {
+        chunkToCitation.set(chunkIndex, citations.length);
+        citations.push({
+          title: chunk.web.title || 'Source',
+          uri: chunk.web.uri,
+          snippet: chunk.web.snippet || null
+        });
+      }
+    });
+
+    for (const support of metadata.groundingSupports || []) {
+      const segment = support.segment;
+      const citationIndices = (support.groundingChunkIndices || [])
+        .filter((chunkIndex: number) => chunkToCitation.has(chunkIndex))
+        .map((chunkIndex: number) => chunkToCitation.get(chunkIndex)!);
+
+      if (!segment || !segment.text || citationIndices.length === 0) continue;
+
+      supports.push({
+        text: segment.text,
+        startIndex: segment.startIndex || 0,
+        endIndex: segment.endIndex || 0,
+        citationIndices
+      });
+    }
+
+    if (metadata.webSearchQueries) {
+      searchQueries = metadata.webSearchQueries;
+      console.log("Web search queries used:", searchQueries);
+    }
+
+    return { citations, supports, searchQueries };
+  }
+
+  // Create a more user-friendly error message based on the error
+  private describeError(data: any): string {
+    const message: string | undefined = data && data.error && data.error.message;
+
+    if (!message) {
+      return "Gemini API error";
+    }
+
+    if (message.includes("API key")) {
+      return "API key error: Please check the Gemini API key configuration";
+    }
+
+    if (
+      message.includes("permission") ||
+      message.includes("enablement") ||
+      message.includes("search") ||
+      message.includes("API is not enabled") ||
+      message.includes("Search tool") ||
+      message.includes("Google Search") ||
+      message.includes("not available")
+    ) {
+      return "Web Search Permission Error: Your Gemini API key doesn't have the Web Search feature enabled. Please go to Google AI Studio (https://aistudio.google.com/), create an API key with Web Search enabled, and update your GEMINI_API_KEY environment variable.";
+    }
+
+    return `Error: ${message}`;
+  }
+}
+
+// Adapter for any OpenAI-compatible chat completions endpoint (OpenAI, OpenRouter, vLLM, Ollama, ...)
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai";
+  private client: OpenAI | null;
+  private models: Record<LLMModelTier, string>;
+
+  constructor() {
+    const apiKey = process.env.OPENAI_API_KEY;
+    this.client = apiKey
+      ? new OpenAI({ apiKey, baseURL: process.env.OPENAI_BASE_URL || undefined })
+      : null;
+
+    const standardModel = process.env.OPENAI_MODEL || "gpt-4o-mini";
+    this.models = {
+      standard: standardModel,
+      thinking: process.env.OPENAI_THINKING_MODEL || standardModel
+    };
+  }
+
+  isConfigured(): boolean {
+    return this.client !== null;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const { client, params } = this.buildRequest(request);
+
+    const completion = await client.chat.completions.create(params);
+
+    const text = completion.choices[0]?.message?.content;
+    if (!text || text.trim().length === 0) {
+      throw new Error("Empty response from OpenAI-compatible API");
+    }
+
+    return { text, citations: [], supports: [], searchQueries: null };
+  }
+
+  async generateStream(request: LLMRequest, onText: (text: string) => void): Promise<LLMResponse> {
+    const { client, params } = this.buildRequest(request);
+
+    const stream = await client.chat.completions.create({ ...params, stream: true });
+
+    let text = "";
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText(delta);
+      }
+    }
+
+    if (text.trim().length === 0) {
+      throw new Error("Empty response from OpenAI-compatible API");
+    }
+
+    return { text, citations: [], supports: [], searchQueries: null };
+  }
+
+  private buildRequest(request: LLMRequest): {
+    client: OpenAI;
+    params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming;
+  } {
+    if (!this.client) {
+      throw new Error("API key not configured");
+    }
+
+    const model = this.models[request.model || "standard"];
+
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
+
+    if (request.systemPrompt) {
+      messages.push({ role: "system", content: request.systemPrompt });
+    }
+
+    for (const message of request.messages) {
+      if (message.role === "model") {
+        // Assistant turns can only carry text
+        messages.push({
+          role: "assistant",
+          content: message.parts.map(part => "text" in part ? part.text : "").join("\n")
+        });
+        continue;
+      }
+
+      const content: OpenAI.Chat.ChatCompletionContentPart[] = message.parts.map(part => {
+        if ("text" in part) {
+          return { type: "text", text: part.text };
+        }
+
+        const dataUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+        if (part.inlineData.mimeType.startsWith("image/")) {
+          return { type: "image_url", image_url: { url: dataUrl } };
+        }
+
+        return { type: "file", file: { file_data: dataUrl } };
+      });
+
+      messages.push({ role: "user", content });
+    }
+
+    if (request.webSearch) {
+      console.log("Web search grounding is not supported by the OpenAI-compatible provider, answering without it");
+    }
+
+    console.log(`OpenAI-compatible ${request.task} request using model ${model}`);
+
+    return {
+      client: this.client,
+      params: {
+        model,
+        messages,
+        temperature: request.temperature ?? 0.9,
+        top_p: request.topP ?? 0.8
+      }
+    };
+  }
+}
+
+// Pause between streamed words from the fixture provider
+const FIXTURE_STREAM_DELAY_MS = 20;
+
+// A fixture rule matched against the latest user text of a request
+interface FixtureRule {
+  task?: LLMTask;
+  match?: string;
+  response: string;
+}
+
+// Deterministic offline provider for development and CI.
+// Responses come from LLM_FIXTURES_FILE (a JSON array of FixtureRule) when set,
+// otherwise from built-in canned responses that echo the user's message.
+export class FixtureProvider implements LLMProvider {
+  readonly name = "fixture";
+  private rules: FixtureRule[] = [];
+
+  constructor(fixturesFile = process.env.LLM_FIXTURES_FILE) {
+    if (fixturesFile) {
+      try {
+        this.rules = JSON.parse(fs.readFileSync(fixturesFile, "utf8"));
+        console.log(`Loaded ${this.rules.length} LLM fixture rules from ${fixturesFile}`);
+      } catch (error) {
+        console.error(`Error loading LLM fixtures from ${fixturesFile}:`, error);
+      }
+    }
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const lastUserText = [...request.messages]
+      .reverse()
+      .find(message => message.role === "user")?.parts
+      .map(part => "text" in part ? part.text : "")
+      .join("\n") || "";
+
+    const rule = this.rules.find(rule =>
+      (!rule.task || rule.task === request.task) &&
+      (!rule.match || lastUserText.includes(rule.match))
+    );
+
+    const text = rule ? rule.response : this.defaultResponse(request.task, lastUserText);
+
+    return {
+      text,
+      citations: [],
+      supports: [],
+      searchQueries: request.webSearch ? [lastUserText.substring(0, 100)] : null
+    };
+  }
+
+  async generateStream(request: LLMRequest, onText: (text: string) => void): Promise<LLMResponse> {
+    const response = await this.generate(request);
+
+    // Emit word by word with a short pause so the UI exercises the streaming path
+    for (const piece of response.text.split(/(?<=\s)/)) {
+      onText(piece);
+      await new Promise(resolve => setTimeout(resolve, FIXTURE_STREAM_DELAY_MS));
+    }
+
+    return response;
+  }
+
+  private defaultResponse(task: LLMTask, userText: string): string {
+    switch (task) {
+      case "profile":
+        return "This student is preparing for college applications. (Generated by the local fixture provider.)";
+      case "profileUpdate":
+        return "NULL";
+      case "recommendations":
+        return JSON.stringify([
+          {
+            name: "Fixture State University",
+            description: "A large public university used as a placeholder recommendation.",
+            reason: "Generated by the local fixture provider for offline development.",
+            acceptanceRate: 65
+          },
+          {
+            name: "Fixture Liberal Arts College",
+            description: "A small liberal arts college used as a placeholder recommendation.",
+            reason: "Generated by the local fixture provider for offline development.",
+            acceptanceRate: 40
+          },
+          {
+            name: "Fixture Institute of Technology",
+            description: "A technical institute used as a placeholder recommendation.",
+            reason: "Generated by the local fixture provider for offline development.",
+            acceptanceRate: 20
+          }
+        ]);
+      case "collegeInfo":
+        return JSON.stringify({
+          description: "Placeholder college description from the local fixture provider.",
+          reason: "Placeholder fit explanation from the local fixture provider.",
+          acceptanceRate: null
+        });
+      case "essayFeedback":
+        return "## Overall\nPlaceholder essay feedback from the local fixture provider.\n\n## Suggestions\n- Add a specific example.";
+      case "awardLetter":
+        return JSON.stringify({
+          isAwardLetter: true,
+          academicYear: "2026-27",
+          costOfAttendance: 60000,
+          statedTotalAid: 38500,
+          items: [
+            { name: "Fixture University Grant", type: "grant", amount: 25000 },
+            { name: "Federal Work-Study", type: "work_study", amount: 2500 },
+            { name: "Federal Direct Subsidized Loan", type: "grant", amount: 3500 },
+            { name: "Federal Direct Unsubsidized Loan", type: "loan", amount: 2000 },
+            { name: "Parent PLUS Loan", type: "loan", amount: 5500 }
+          ]
+        });
+      case "activityDescription":
+        return "Led weekly practices for 20 members; placeholder description from the local fixture provider.";
+      default:
+        return `Echo: ${userText}`;
+    }
+  }
+}
+
+// Read a text/event-stream body, calling onData with the payload of every "data:" event
+async function readServerSentEvents(body: ReadableStream<Uint8Array>, onData: (data: string) => void): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = events.pop() || "";
+
+    for (const event of events) {
+      const data = event
+        .split(/\r?\n/)
+        .filter(line => line.startsWith("data:"))
+        .map(line => line.slice(5).trimStart())
+        .join("\n");
+
+      if (data) {
+        onData(data);
+      }
+    }
+  }
+}
+
+// Select the provider from LLM_PROVIDER ("gemini", "openai" or "fixture"), defaulting to Gemini
+export function createLLMProvider(providerName = process.env.LLM_PROVIDER): LLMProvider {
+  switch ((providerName || "gemini").toLowerCase()) {
+    case "openai":
+      return new OpenAICompatibleProvider();
+    case "fixture":
+    case "echo":
+      return new FixtureProvider();
+    case "gemini":
+      return new GeminiProvider();
+    default:
+      console.warn(`Unknown LLM_PROVIDER "${providerName}", falling back to Gemini`);
+      return new GeminiProvider();
+  }
+}
+
+export const llm = createLLMProvider();
@@ -0,0 +1,90 @@
+import {
+  ProfileRevisionSource,
+  ProfileRevisionStatus,
+  type ProfileRevision,
+  type ProfileRevisionSourceType,
+  type User
+} from "@shared/schema";
+import { storage as dbStorage } from "./storage";
+
+// A description written before revisions were kept gets a revision of its own, so it can be restored
+async function ensureBaselineRevision(user: User): Promise<ProfileRevision[]> {
+  const revisions = await dbStorage.getProfileRevisions(user.id);
+  if (revisions.length > 0 || !user.profileDescription) return revisions;
+
+  const baseline = await dbStorage.createProfileRevision({
+    userId: user.id,
+    content: user.profileDescription,
+    source: ProfileRevisionSource.EXISTING,
+    status: ProfileRevisionStatus.APPLIED
+  });
+  return [baseline];
+}
+
+// All revisions of a student's profile description, newest first
+export async function getProfileHistory(user: User): Promise<ProfileRevision[]> {
+  return ensureBaselineRevision(user);
+}
+
+// Save a new version of the profile description and make it the current one
+export async function applyProfileRevision(
+  user: User,
+  content: string,
+  source: ProfileRevisionSourceType,
+  links: { chatMessageId?: number; revertedFromId?: number } = {}
+): Promise<{ user: User | undefined; revision: ProfileRevision }> {
+  await ensureBaselineRevision(user);
+
+  const revision = await dbStorage.createProfileRevision({
+    userId: user.id,
+    content,
+    source,
+    status: ProfileRevisionStatus.APPLIED,
+    chatMessageId: links.chatMessageId ?? null,
+    revertedFromId: links.revertedFromId ?? null
+  });
+  const updatedUser = await dbStorage.updateUserProfileDescription(user.id, content);
+  return { user: updatedUser, revision };
+}
+
+// Save a version of the profile description for the student to review before it's used
+export async function createPendingProfileRevision(
+  user: User,
+  content: string,
+  source: ProfileRevisionSourceType,
+  links: { chatMessageId?: number } = {}
+): Promise<ProfileRevision> {
+  await ensureBaselineRevision(user);
+  return dbStorage.createProfileRevision({
+    userId: user.id,
+    content,
+    source,
+    status: ProfileRevisionStatus.PENDING,
+    chatMessageId: links.chatMessageId ?? null
+  });
+}
+
+// A profile change the AI picked up from chat. Students who require approval get it as a
+// pending revision to review; for everyone else it's applied straight away.
+export async function proposeProfileRevision(
+  user: User,
+  content: string,
+  chatMessageId: number
+): Promise<{ user: User | undefined; revision: ProfileRevision }> {
+  if (!user.requireProfileApproval) {
+    return applyProfileRevision(user, content, ProfileRevisionSource.CHAT, { chatMessageId });
+  }
+
+  const revision = await createPendingProfileRevision(user, content, ProfileRevisionSource.CHAT, { chatMessageId });
+  return { user, revision };
+}
+
+// Apply a pending revision the student approved
+export async function approveProfileRevision(
+  user: User,
+  revision: ProfileRevision
+): Promise<{ user: User | undefined; revision: ProfileRevision }> {
+  const approved = await dbStorage.updateProfileRevisionStatus(revision.id, ProfileRevisionStatus.APPLIED);
+  const updatedUser = await dbStorage.updateUserProfileDescription(user.id, revision.content);
+  return { user: updatedUser, revision: approved ?? revision };
+}
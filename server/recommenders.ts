@@ -0,0 +1,80 @@
+import {
+  CollegeTaskType,
+  type CollegeTask,
+  type Recommender,
+  type RecommenderPortal,
+  type RecommenderWithLetters
+} from "@shared/schema";
+import { storage as dbStorage } from "./storage";
+
+// Tasks whose due date a letter has to beat
+const LETTER_DEADLINE_TYPES: string[] = [
+  CollegeTaskType.RECOMMENDATION,
+  CollegeTaskType.EARLY_DECISION,
+  CollegeTaskType.EARLY_ACTION,
+  CollegeTaskType.REGULAR_DECISION
+];
+
+// The soonest open deadline that matters for a letter, if the student has entered one
+export function soonestLetterDeadline(tasks: CollegeTask[]): CollegeTask | null {
+  return tasks
+    .filter(task => LETTER_DEADLINE_TYPES.includes(task.type) && task.dueDate && !task.isCompleted)
+    .sort((a, b) => new Date(a.dueDate!).getTime() - new Date(b.dueDate!).getTime())[0] ?? null;
+}
+
+export async function withLetters(recommender: Recommender): Promise<RecommenderWithLetters> {
+  return { ...recommender, letters: await dbStorage.getRecommendationLettersByRecommender(recommender.id) };
+}
+
+// Ask a recommender for letters to exactly these colleges, keeping the status of letters already requested
+export async function setRequestedColleges(recommender: Recommender, collegeIds: number[]): Promise<void> {
+  const letters = await dbStorage.getRecommendationLettersByRecommender(recommender.id);
+
+  for (const letter of letters) {
+    if (!collegeIds.includes(letter.collegeId)) {
+      await dbStorage.deleteRecommendationLetter(letter.id);
+    }
+  }
+  for (const collegeId of collegeIds) {
+    if (!letters.some(letter => letter.collegeId === collegeId)) {
+      await dbStorage.createRecommendationLetter({ userId: recommender.userId, recommenderId: recommender.id, collegeId });
+    }
+  }
+}
+
+// Everything the recommender page shows: the student's brag sheet and activities, and each letter with its deadline
+export async function buildRecommenderPortal(recommender: Recommender): Promise<RecommenderPortal | null> {
+  const student = await dbStorage.getUser(recommender.userId);
+  if (!student) return null;
+
+  const [letters, activities, colleges, tasks] = await Promise.all([
+    dbStorage.getRecommendationLettersByRecommender(recommender.id),
+    dbStorage.getActivities(student.id),
+    dbStorage.getColleges(student.id),
+    dbStorage.getCollegeTasks(student.id)
+  ]);
+
+  return {
+    recommender: {
+      name: recommender.name,
+      role: recommender.role,
+      subject: recommender.subject,
+      message: recommender.message
+    },
+    student: { username: student.username, bragSheet: student.bragSheet },
+    activities,
+    letters: letters.flatMap(letter => {
+      const college = colleges.find(college => college.id === letter.collegeId);
+      if (!college) return [];
+      const deadline = soonestLetterDeadline(tasks.filter(task => task.collegeId === college.id));
+      return [{
+        id: letter.id,
+        status: letter.status,
+        submittedAt: letter.submittedAt,
+        collegeName: college.name,
+        deadline: deadline?.dueDate ? new Date(deadline.dueDate).toISOString() : null,
+        deadlineTitle: deadline?.title ?? null
+      }];
+    })
+  };
+}
@@ -3,25 +3,70 @@ import { createInsertSchema } from "drizzle-zod";
 import { createServer, Server } from "http";
 import { 
   OnboardingResponses, 
+  AcademicRecord,
+  ProfileRevisionSource,
+  ProfileRevisionStatus,
   onboardingSchema, 
   insertChatMessageSchema, 
+  insertChatFolderSchema,
+  chatSessionOrganizationSchema,
+  insertSharedChatCollectionSchema,
   insertCollegeSchema,
+  insertCollegeTaskSchema,
+  collegeNotesSchema,
+  insertAidOfferSchema,
+  insertActivitySchema,
+  MAX_ACTIVITIES,
+  ACTIVITY_DESCRIPTION_LIMIT,
+  ActivityTypeLabels,
+  insertRecommenderSchema,
+  LetterStatus,
+  type LetterStatusValue,
+  insertEssaySchema,
+  insertAdvisorCommentSchema,
+  countWords,
   insertAdvisorSchema,
+  advisorPermissionsSchema,
+  advisorLinkLimitsSchema,
   insertCollegeRecommendationSchema,
   insertMessageFeedbackSchema,
   CollegeStatus,
   AdvisorType,
+  UserRole,
   type CollegeStatusType,
   type AdvisorTypeValue,
   type ChatSession,
+  type CollegeTask,
+  type Essay,
+  type AdvisorComment,
+  type Advisor,
+  type CaseloadStudent,
+  type InsertCollegeRecommendation,
+  type CollegeFitResult,
   fileAttachmentSchema,
-  type FileAttachment
+  type FileAttachment,
+  type Activity
 } from "@shared/schema";
 import multer from "multer";
 import * as path from "path";
 import * as fs from "fs";
 import { storage as dbStorage } from "./storage";
 import { setupAuth } from "./auth";
+import { buildDeadlineCalendar } from "./calendar";
+import { diffWords } from "./diff";
+import { applyProfileRevision, approveProfileRevision, createPendingProfileRevision, getProfileHistory, proposeProfileRevision } from "./profile-revisions";
+import { loadBundledCatalog, resolveInstitution, getVerifiedStats } from "./catalog";
+import { emptyAcademicRecord, formatAcademicRecord, getUserAcademicRecord, migrateAcademicRecords, parseAcademicRecord } from "./academic-record";
+import { getCollegeFitReport, describeFitBalance } from "./admissions";
+import { getNetPriceReport, describeAffordability } from "./financial-aid";
+import { parseAwardLetterResponse, withAidSummary, type ParsedAwardLetter } from "./aid-offers";
+import { buildComparison, MIN_COMPARED, MAX_COMPARED } from "./compare";
+import { describeDiscussedCollegeNotes, withoutCollegeNotes } from "./college-notes";
+import { describeActivities, parseTightenedDescription } from "./activities";
+import { buildRecommenderPortal, setRequestedColleges, withLetters } from "./recommenders";
+import { getActiveChatBranch, getChatBranch, getLatestDescendant, migrateChatBranches } from "./chat-branches";
+import crypto from "crypto";
+import { llm, promptRequest, type LLMMessage, type LLMPart, type LLMRequest, type WebCitation, type CitationSupport } from "./llm";
 
 // Configure multer for file uploads
 const uploadDir = path.resolve("uploads");
@@ -71,6 +116,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Register the auth routes (login, register, logout)
   setupAuth(app);
   
+  // Make sure the college catalog is available for search and matching
+  await loadBundledCatalog();
+  
+  // Parse structured academic records for students who only have the free-text answer
+  await migrateAcademicRecords();
+  
+  // Chain up chat messages saved before conversations could branch
+  await migrateChatBranches();
+  
   // Serve static files from uploads directory
   app.use('/uploads', (req, res, next) => {
     // Add CORS headers for uploaded files
@@ -152,7 +206,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Generate a profile for a user
   app.post("/api/generate-profile", async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { username, onboarding } = req.body;
+      const { username, onboarding, review } = req.body;
       
       if (!username || !onboarding) {
         console.error("Missing parameters:", { username: !!username, onboarding: !!onboarding });
@@ -161,22 +215,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log("Onboarding data received:", JSON.stringify(onboarding));
       
-      // Get API key
-      const apiKey = process.env.GEMINI_API_KEY;
-      if (!apiKey) {
-        console.error("GEMINI_API_KEY not configured in environment variables");
+      // Make sure an LLM provider is available
+      if (!llm.isConfigured()) {
+        console.error(`LLM provider "${llm.name}" is not configured`);
         return res.status(500).json({ error: "API key not configured" });
       }
       
       // Generate the prompt
-      const prompt = generatePrompt(username, onboarding);
+      const academicRecord = req.user?.academicRecord ?? parseAcademicRecord(onboarding.academicStats);
+      const prompt = generatePrompt(username, onboarding, academicRecord);
       
       console.log(`Generating profile for user ${username}...`);
       console.log("Generated prompt:", prompt);
       
       try {
         // Generate the profile
-        const profileDescription = await generateProfileWithGemini(prompt, apiKey);
+        const profileDescription = await generateProfile(prompt);
         
         // Get the user ID
         const user = req.user || await dbStorage.getUserByUsername(username);
@@ -186,10 +240,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(404).json({ error: "User not found" });
         }
         
+        // Regenerating from edited answers: hold the new description so the student can compare it first
+        if (review && req.user && user.profileDescription) {
+          const revision = await createPendingProfileRevision(user, profileDescription, ProfileRevisionSource.ONBOARDING);
+          return res.json({ 
+            profileDescription,
+            revision,
+            success: true 
+          });
+        }
+        
         console.log(`Updating profile for user ${username} (ID: ${user.id})...`);
         
         // Update the user's profile description
-        const updatedUser = await dbStorage.updateUserProfileDescription(user.id, profileDescription);
+        const { user: updatedUser } = await applyProfileRevision(user, profileDescription, ProfileRevisionSource.ONBOARDING);
         
         if (!updatedUser) {
           console.error(`Failed to update profile for user ${username} (ID: ${user.id})`);
@@ -216,6 +280,218 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Every version of the student's profile description, newest first
+  app.get("/api/profile/revisions", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const revisions = await getProfileHistory(req.user);
+      res.json(revisions);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Word diff between two profile revisions, or between a revision and the current description
+  app.get("/api/profile/diff", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const user = req.user;
+      const revisions = await getProfileHistory(user);
+      
+      // Resolve a revision ID, or "current" for the description in use
+      const resolveVersion = (value: unknown) => {
+        const version = typeof value === "string" ? value : "current";
+        if (version === "current") {
+          return { id: "current", content: user.profileDescription || "" };
+        }
+        const revision = revisions.find(r => r.id === parseInt(version));
+        return revision ? { id: revision.id, content: revision.content } : null;
+      };
+      
+      const from = resolveVersion(req.query.from);
+      const to = resolveVersion(req.query.to);
+      
+      if (!from || !to) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      
+      res.json({
+        from: from.id,
+        to: to.id,
+        segments: diffWords(from.content, to.content)
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Restore an earlier profile description, saved as a new revision
+  app.post("/api/profile/revisions/:revisionId/revert", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const revision = await dbStorage.getProfileRevision(parseInt(req.params.revisionId));
+      
+      if (!revision || revision.userId !== req.user.id) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      
+      if (revision.status !== ProfileRevisionStatus.APPLIED) {
+        return res.status(400).json({ error: "Only applied revisions can be restored" });
+      }
+      
+      const result = await applyProfileRevision(req.user, revision.content, ProfileRevisionSource.REVERT, { revertedFromId: revision.id });
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Apply an AI-proposed profile change that was waiting for approval
+  app.post("/api/profile/revisions/:revisionId/approve", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const revision = await dbStorage.getProfileRevision(parseInt(req.params.revisionId));
+      
+      if (!revision || revision.userId !== req.user.id) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      
+      if (revision.status !== ProfileRevisionStatus.PENDING) {
+        return res.status(400).json({ error: "This change has already been reviewed" });
+      }
+      
+      const result = await approveProfileRevision(req.user, revision);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Dismiss an AI-proposed profile change
+  app.post("/api/profile/revisions/:revisionId/reject", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const revision = await dbStorage.getProfileRevision(parseInt(req.params.revisionId));
+      
+      if (!revision || revision.userId !== req.user.id) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      
+      if (revision.status !== ProfileRevisionStatus.PENDING) {
+        return res.status(400).json({ error: "This change has already been reviewed" });
+      }
+      
+      const rejected = await dbStorage.updateProfileRevisionStatus(revision.id, ProfileRevisionStatus.REJECTED);
+      res.json(rejected);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Search the college catalog, for autocomplete
+  app.get("/api/catalog/search", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (!query) {
+        return res.json([]);
+      }
+      
+      const results = await dbStorage.searchInstitutions(query, 10);
+      res.json(results);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Reach/target/likely labels for the user's colleges and recommendations
+  app.get("/api/college-fit", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const [colleges, recommendations] = await Promise.all([
+        dbStorage.getColleges(req.user.id),
+        dbStorage.getCollegeRecommendations(req.user.id)
+      ]);
+      
+      const report = await getCollegeFitReport(req.user, colleges, recommendations);
+      res.json(report);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Estimated yearly net price of the user's colleges, from their financial profile
+  app.get("/api/net-price", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const colleges = await dbStorage.getColleges(req.user.id);
+      const report = await getNetPriceReport(req.user, colleges);
+      res.json(report);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Side-by-side details for a few colleges and recommendations, e.g. ?colleges=1,2&recommendations=3
+  app.get("/api/compare", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const parseIds = (value: unknown) => typeof value === "string" && value
+        ? Array.from(new Set(value.split(",").map(id => parseInt(id))))
+        : [];
+      const collegeIds = parseIds(req.query.colleges);
+      const recommendationIds = parseIds(req.query.recommendations);
+      
+      const count = collegeIds.length + recommendationIds.length;
+      if (count < MIN_COMPARED || count > MAX_COMPARED) {
+        return res.status(400).json({ error: `Pick ${MIN_COMPARED} to ${MAX_COMPARED} colleges to compare` });
+      }
+      
+      const [colleges, recommendations] = await Promise.all([
+        dbStorage.getColleges(req.user.id),
+        dbStorage.getCollegeRecommendations(req.user.id)
+      ]);
+      const selectedColleges = colleges.filter(college => collegeIds.includes(college.id));
+      const selectedRecommendations = recommendations.filter(rec => recommendationIds.includes(rec.id));
+      
+      if (selectedColleges.length !== collegeIds.length || selectedRecommendations.length !== recommendationIds.length) {
+        return res.status(404).json({ error: "College not found" });
+      }
+      
+      const comparison = await buildComparison(req.user, selectedColleges, selectedRecommendations);
+      res.json(comparison);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
   // Get all colleges for the current user
   app.get("/api/colleges", async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
@@ -263,7 +539,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         userId: req.user.id
       });
       
-      const college = await dbStorage.createCollege(collegeData);
+      // Link the college to its catalog entry, either the one picked in the dialog or a name match
+      const institution = await resolveInstitution(collegeData.name, collegeData.institutionId);
+      if (collegeData.institutionId && !institution) {
+        return res.status(400).json({ error: "Unknown institution" });
+      }
+      
+      if (institution) {
+        const existingColleges = await dbStorage.getColleges(req.user.id);
+        const duplicate = existingColleges.find(c => c.institutionId === institution.id);
+        if (duplicate) {
+          return res.status(409).json({ error: `${institution.name} is already on your list as "${duplicate.name}"` });
+        }
+      }
+      
+      const college = await dbStorage.createCollege({
+        ...collegeData,
+        institutionId: institution?.id ?? null
+      });
       res.status(201).json(college);
     } catch (error) {
       next(error);
@@ -324,6 +617,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Update the student's notes, pros/cons and ratings for a college
+  app.patch("/api/colleges/:collegeId/notes", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const college = await dbStorage.getCollege(parseInt(req.params.collegeId));
+      
+      if (!college || college.userId !== req.user.id) {
+        return res.status(404).json({ error: "College not found" });
+      }
+      
+      const notes = collegeNotesSchema.partial().parse(req.body);
+      const updatedCollege = await dbStorage.updateCollegeNotes(college.id, notes);
+      
+      res.json(updatedCollege);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
   // Delete a college
   app.delete("/api/colleges/:collegeId", async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
@@ -345,406 +660,995 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Get all advisors for the current user
-  app.get("/api/advisors", async (req: Request, res: Response, next: NextFunction) => {
+  // Get all deadlines and checklist items across the user's colleges
+  app.get("/api/college-tasks", async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ error: "Not authenticated" });
     }
     
     try {
-      const advisors = await dbStorage.getAdvisors(req.user.id);
-      res.json(advisors);
+      const tasks = await dbStorage.getCollegeTasks(req.user.id);
+      res.json(tasks);
     } catch (error) {
       next(error);
     }
   });
   
-  // Create a new advisor
-  app.post("/api/advisors", async (req: Request, res: Response, next: NextFunction) => {
+  // Get incomplete tasks that are overdue or due within the next week
+  app.get("/api/college-tasks/upcoming", async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ error: "Not authenticated" });
     }
     
     try {
-      const advisorData = insertAdvisorSchema.parse({
-        ...req.body,
-        userId: req.user.id
-      });
+      const days = req.query.days ? parseInt(req.query.days as string) : 7;
       
-      const advisor = await dbStorage.createAdvisor(advisorData);
-      res.status(201).json(advisor);
+      if (isNaN(days) || days < 0) {
+        return res.status(400).json({ error: "Invalid number of days" });
+      }
+      
+      const tasks = await dbStorage.getCollegeTasks(req.user.id);
+      res.json(getUpcomingTasks(tasks, days));
     } catch (error) {
       next(error);
     }
   });
   
-  // Update an advisor's active status
-  app.patch("/api/advisors/:advisorId/status", async (req: Request, res: Response, next: NextFunction) => {
+  // Get the user's calendar feed token (null when the feed is turned off)
+  app.get("/api/calendar/feed", async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ error: "Not authenticated" });
     }
     
     try {
-      const { advisorId } = req.params;
-      const { isActive } = req.body;
-      
-      // Validate isActive
-      if (typeof isActive !== 'boolean') {
-        return res.status(400).json({ error: "isActive must be a boolean" });
-      }
-      
-      const updatedAdvisor = await dbStorage.updateAdvisorActiveStatus(parseInt(advisorId), isActive);
-      
-      if (!updatedAdvisor) {
-        return res.status(404).json({ error: "Advisor not found" });
-      }
-      
-      res.json(updatedAdvisor);
+      const user = await dbStorage.getUser(req.user.id);
+      res.json({ calendarToken: user?.calendarToken || null });
     } catch (error) {
       next(error);
     }
   });
   
-  // Delete an advisor
-  app.delete("/api/advisors/:advisorId", async (req: Request, res: Response, next: NextFunction) => {
+  // Turn on the calendar feed, or replace its token so the old URL stops working
+  app.post("/api/calendar/feed", async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ error: "Not authenticated" });
     }
     
     try {
-      const { advisorId } = req.params;
-      
-      const success = await dbStorage.deleteAdvisor(parseInt(advisorId));
-      
-      if (success) {
-        res.status(200).json({ success: true });
-      } else {
-        res.status(500).json({ error: "Failed to delete advisor" });
-      }
+      const updatedUser = await dbStorage.updateUserCalendarToken(req.user.id, crypto.randomUUID());
+      res.json({ calendarToken: updatedUser?.calendarToken || null });
     } catch (error) {
       next(error);
     }
   });
   
-  // Share chat sessions with an advisor
-  app.post("/api/advisors/:advisorId/share-chats", async (req: Request, res: Response, next: NextFunction) => {
+  // Turn off the calendar feed
+  app.delete("/api/calendar/feed", async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ error: "Not authenticated" });
     }
     
     try {
-      const { advisorId } = req.params;
-      const { sessionIds } = req.body;
+      await dbStorage.updateUserCalendarToken(req.user.id, null);
+      res.json({ calendarToken: null });
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Public iCalendar feed of application deadlines, protected only by the unguessable token
+  app.get("/api/calendar/:token.ics", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { token } = req.params;
       
-      if (!sessionIds || !Array.isArray(sessionIds) || sessionIds.length === 0) {
-        return res.status(400).json({ error: "Session IDs array is required" });
+      // Validate the token format before hitting the database (uuid column)
+      if (!/^[0-9a-f-]{36}$/i.test(token)) {
+        return res.status(404).json({ error: "Calendar not found" });
       }
       
-      // Verify advisor belongs to the user
-      const advisor = await dbStorage.getAdvisors(req.user.id)
-        .then(advisors => advisors.find(a => a.id === parseInt(advisorId)));
+      const user = await dbStorage.getUserByCalendarToken(token);
       
-      if (!advisor) {
-        return res.status(404).json({ error: "Advisor not found" });
+      if (!user) {
+        return res.status(404).json({ error: "Calendar not found" });
       }
       
-      // Verify all sessions belong to the user
-      const sessions = await Promise.all(
-        sessionIds.map(async (sessionId: number) => {
-          const session = await dbStorage.getChatSession(sessionId);
-          return session && session.userId === req.user!.id ? session : null;
-        })
-      );
-      
-      const invalidSessions = sessions.some(session => session === null);
-      if (invalidSessions) {
-        return res.status(403).json({ error: "One or more sessions are not accessible" });
-      }
+      const colleges = await dbStorage.getColleges(user.id);
+      const tasks = await dbStorage.getCollegeTasks(user.id);
       
-      // Share the chat sessions with the advisor
-      await dbStorage.shareChatsWithAdvisor(parseInt(advisorId), sessionIds);
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", 'inline; filename="college-deadlines.ics"');
+      res.send(buildDeadlineCalendar(user.username, colleges, tasks));
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Get the tasks for one college
+  app.get("/api/colleges/:collegeId/tasks", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const college = await dbStorage.getCollege(parseInt(req.params.collegeId));
       
-      // Get the updated list of shared sessions
-      const sharedSessionIds = await dbStorage.getSharedChatSessions(parseInt(advisorId));
+      if (!college || college.userId !== req.user.id) {
+        return res.status(404).json({ error: "College not found" });
+      }
       
-      res.json({ 
-        success: true, 
-        sharedSessionIds 
-      });
+      const tasks = await dbStorage.getCollegeTasksByCollege(college.id);
+      res.json(tasks);
     } catch (error) {
       next(error);
     }
   });
   
-  // Unshare chat sessions with an advisor
-  app.post("/api/advisors/:advisorId/unshare-chats", async (req: Request, res: Response, next: NextFunction) => {
+  // Add a deadline or checklist item to a college
+  app.post("/api/colleges/:collegeId/tasks", async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ error: "Not authenticated" });
     }
     
     try {
-      const { advisorId } = req.params;
-      const { sessionIds } = req.body;
+      const college = await dbStorage.getCollege(parseInt(req.params.collegeId));
       
-      if (!sessionIds || !Array.isArray(sessionIds) || sessionIds.length === 0) {
-        return res.status(400).json({ error: "Session IDs array is required" });
+      if (!college || college.userId !== req.user.id) {
+        return res.status(404).json({ error: "College not found" });
       }
       
-      // Verify advisor belongs to the user
-      const advisor = await dbStorage.getAdvisors(req.user.id)
-        .then(advisors => advisors.find(a => a.id === parseInt(advisorId)));
-      
-      if (!advisor) {
-        return res.status(404).json({ error: "Advisor not found" });
-      }
-      
-      // Unshare the chat sessions with the advisor
-      await dbStorage.unshareChatsWithAdvisor(parseInt(advisorId), sessionIds);
-      
-      // Get the updated list of shared sessions
-      const sharedSessionIds = await dbStorage.getSharedChatSessions(parseInt(advisorId));
-      
-      res.json({ 
-        success: true, 
-        sharedSessionIds 
+      const taskData = insertCollegeTaskSchema.parse({
+        ...req.body,
+        userId: req.user.id,
+        collegeId: college.id
       });
+      
+      const task = await dbStorage.createCollegeTask(taskData);
+      res.status(201).json(task);
     } catch (error) {
       next(error);
     }
   });
   
-  // Get the shared chat sessions for an advisor
-  app.get("/api/advisors/:advisorId/shared-chats", async (req: Request, res: Response, next: NextFunction) => {
+  // Update a task (title, type, due date, notes or completion)
+  app.patch("/api/college-tasks/:taskId", async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ error: "Not authenticated" });
     }
     
     try {
-      const { advisorId } = req.params;
-      
-      // Verify advisor belongs to the user
-      const advisor = await dbStorage.getAdvisors(req.user.id)
-        .then(advisors => advisors.find(a => a.id === parseInt(advisorId)));
+      const taskId = parseInt(req.params.taskId);
+      const task = await dbStorage.getCollegeTask(taskId);
       
-      if (!advisor) {
-        return res.status(404).json({ error: "Advisor not found" });
+      if (!task || task.userId !== req.user.id) {
+        return res.status(404).json({ error: "Task not found" });
       }
       
-      // Get the shared session IDs
-      const sharedSessionIds = await dbStorage.getSharedChatSessions(parseInt(advisorId));
+      // Tasks can't be moved between users or colleges
+      const updates = insertCollegeTaskSchema
+        .omit({ userId: true, collegeId: true })
+        .partial()
+        .parse(req.body);
       
-      // Return just the session IDs as that's what the client expects
-      res.json(sharedSessionIds);
+      const updatedTask = await dbStorage.updateCollegeTask(taskId, updates);
+      res.json(updatedTask);
     } catch (error) {
       next(error);
     }
   });
   
-  // Get messages for a shared chat session from advisor's perspective
-  app.get("/api/shared/:shareToken/chat/:sessionId/messages", async (req: Request, res: Response, next: NextFunction) => {
+  // Delete a task
+  app.delete("/api/college-tasks/:taskId", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
     try {
-      const { shareToken, sessionId } = req.params;
+      const taskId = parseInt(req.params.taskId);
+      const task = await dbStorage.getCollegeTask(taskId);
       
-      // Get the messages for the shared session
-      const messages = await dbStorage.getSharedChatMessagesForAdvisor(shareToken, parseInt(sessionId));
+      if (!task || task.userId !== req.user.id) {
+        return res.status(404).json({ error: "Task not found" });
+      }
       
-      res.json(messages);
+      const success = await dbStorage.deleteCollegeTask(taskId);
+      
+      if (success) {
+        res.status(200).json({ success: true });
+      } else {
+        res.status(500).json({ error: "Failed to delete task" });
+      }
     } catch (error) {
       next(error);
     }
   });
   
-  // Get college recommendations for the current user
-  app.get("/api/recommendations", async (req: Request, res: Response, next: NextFunction) => {
+  // Get all aid offers for the current user, with what each one really costs
+  app.get("/api/aid-offers", async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ error: "Not authenticated" });
     }
     
     try {
-      const recommendations = await dbStorage.getCollegeRecommendations(req.user.id);
-      res.json(recommendations);
+      const offers = await dbStorage.getAidOffers(req.user.id);
+      res.json(offers.map(withAidSummary));
     } catch (error) {
       next(error);
     }
   });
   
-  // Generate college recommendations using the Gemini API
-  app.post("/api/recommendations/generate", async (req: Request, res: Response, next: NextFunction) => {
+  // Read an uploaded award letter into an aid offer for one of the user's colleges
+  app.post("/api/aid-offers/parse", async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ error: "Not authenticated" });
     }
     
     try {
-      const { preference } = req.body;
-      
-      // Get API key
-      const apiKey = process.env.GEMINI_API_KEY;
-      if (!apiKey) {
-        return res.status(500).json({ error: "API key not configured" });
+      const collegeId = Number(req.body.collegeId);
+      const college = await dbStorage.getCollege(collegeId);
+      if (!college || college.userId !== req.user.id) {
+        return res.status(400).json({ error: "Invalid college" });
       }
       
-      // Get the user's profile description
-      const user = await dbStorage.getUser(req.user.id);
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
+      const attachment = fileAttachmentSchema.parse(req.body.attachment);
+      const readable = attachment.contentType.startsWith("image/") ||
+        attachment.contentType === "application/pdf" ||
+        attachment.contentType === "text/plain";
+      if (!readable) {
+        return res.status(400).json({ error: "Upload the award letter as a PDF, image or text file" });
       }
       
-      // Get the user's current college lists
-      const applyingColleges = await dbStorage.getCollegesByStatus(req.user.id, CollegeStatus.APPLYING);
-      const researchingColleges = await dbStorage.getCollegesByStatus(req.user.id, CollegeStatus.RESEARCHING);
-      const notApplyingColleges = await dbStorage.getCollegesByStatus(req.user.id, CollegeStatus.NOT_APPLYING);
-      
-      // Get current recommendations
-      const currentRecommendations = await dbStorage.getCollegeRecommendations(req.user.id);
+      // Make sure an LLM provider is available
+      if (!llm.isConfigured()) {
+        return res.status(500).json({ error: "API key not configured" });
+      }
       
-      // Extract college names for the prompt
-      const applyingCollegeNames = applyingColleges.map(c => c.name);
-      const researchingCollegeNames = researchingColleges.map(c => c.name);
-      const notApplyingCollegeNames = notApplyingColleges.map(c => c.name);
-      const currentRecommendationNames = currentRecommendations.map(r => r.name);
+      const letter = await parseAwardLetter(college.name, attachment);
+      if (!letter) {
+        return res.status(422).json({ error: "Couldn't find an award letter in this file" });
+      }
       
-      // Generate the prompt
-      const prompt = generateRecommendationPrompt(
-        user.profileDescription || "",
-        preference || "",
-        applyingCollegeNames,
-        researchingCollegeNames,
-        notApplyingCollegeNames,
-        currentRecommendationNames
-      );
+      const offer = await dbStorage.createAidOffer({
+        ...letter,
+        userId: req.user.id,
+        collegeId,
+        attachment
+      });
+      res.status(201).json(withAidSummary(offer));
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Enter an aid offer by hand
+  app.post("/api/aid-offers", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const offerData = insertAidOfferSchema.parse({
+        ...req.body,
+        userId: req.user.id,
+        attachment: null
+      });
       
-      console.log("Generating recommendations with prompt:", prompt.substring(0, 200) + "...");
+      const college = await dbStorage.getCollege(offerData.collegeId);
+      if (!college || college.userId !== req.user.id) {
+        return res.status(400).json({ error: "Invalid college" });
+      }
       
-      // Generate recommendations
-      const recommendations = await generateCollegeRecommendationsWithGemini(prompt, apiKey);
+      const offer = await dbStorage.createAidOffer(offerData);
+      res.status(201).json(withAidSummary(offer));
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Correct an aid offer, e.g. a line item read with the wrong type
+  app.patch("/api/aid-offers/:offerId", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const offerId = parseInt(req.params.offerId);
+      const offer = await dbStorage.getAidOffer(offerId);
       
-      // Save recommendations to database
-      const savedRecommendations = [];
-      for (const rec of recommendations) {
-        const recommendationData = insertCollegeRecommendationSchema.parse({
-          userId: req.user.id,
-          name: rec.name,
-          description: rec.description,
-          reason: rec.reason,
-          acceptanceRate: rec.acceptanceRate
-        });
-        
-        const savedRec = await dbStorage.createCollegeRecommendation(recommendationData);
-        savedRecommendations.push(savedRec);
+      if (!offer || offer.userId !== req.user.id) {
+        return res.status(404).json({ error: "Aid offer not found" });
       }
       
-      res.json(savedRecommendations);
+      // Offers stay with their college and letter
+      const updates = insertAidOfferSchema
+        .omit({ userId: true, collegeId: true, attachment: true })
+        .partial()
+        .parse(req.body);
+      
+      const updatedOffer = await dbStorage.updateAidOffer(offerId, updates);
+      res.json(updatedOffer && withAidSummary(updatedOffer));
     } catch (error) {
-      console.error("Error generating recommendations:", error);
       next(error);
     }
   });
   
-  // Delete a college recommendation
-  app.delete("/api/recommendations/:recommendationId", async (req: Request, res: Response, next: NextFunction) => {
+  // Delete an aid offer
+  app.delete("/api/aid-offers/:offerId", async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ error: "Not authenticated" });
     }
     
     try {
-      const { recommendationId } = req.params;
+      const offerId = parseInt(req.params.offerId);
+      const offer = await dbStorage.getAidOffer(offerId);
       
-      const success = await dbStorage.deleteCollegeRecommendation(parseInt(recommendationId));
+      if (!offer || offer.userId !== req.user.id) {
+        return res.status(404).json({ error: "Aid offer not found" });
+      }
+      
+      const success = await dbStorage.deleteAidOffer(offerId);
       
       if (success) {
         res.status(200).json({ success: true });
       } else {
-        res.status(500).json({ error: "Failed to delete recommendation" });
+        res.status(500).json({ error: "Failed to delete aid offer" });
       }
     } catch (error) {
       next(error);
     }
   });
   
-  // Convert a recommendation to a regular college
-  app.post("/api/recommendations/:recommendationId/convert", async (req: Request, res: Response, next: NextFunction) => {
+  // Get all advisors for the current user
+  app.get("/api/advisors", async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ error: "Not authenticated" });
     }
     
     try {
-      const { recommendationId } = req.params;
-      const { status } = req.body;
+      const advisors = await dbStorage.getAdvisors(req.user.id);
+      res.json(advisors);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Create a new advisor
+  app.post("/api/advisors", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const advisorData = insertAdvisorSchema.parse({
+        ...req.body,
+        userId: req.user.id
+      });
       
-      // Validate status
-      if (!Object.values(CollegeStatus).includes(status as CollegeStatusType)) {
-        return res.status(400).json({ error: "Invalid status" });
+      const advisor = await dbStorage.createAdvisor(advisorData);
+      res.status(201).json(advisor);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Update an advisor's active status
+  app.patch("/api/advisors/:advisorId/status", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const { advisorId } = req.params;
+      const { isActive } = req.body;
+      
+      // Validate isActive
+      if (typeof isActive !== 'boolean') {
+        return res.status(400).json({ error: "isActive must be a boolean" });
       }
       
-      // Get the recommendation
-      const recommendations = await dbStorage.getCollegeRecommendations(req.user.id);
-      const recommendation = recommendations.find(r => r.id === parseInt(recommendationId));
+      const updatedAdvisor = await dbStorage.updateAdvisorActiveStatus(parseInt(advisorId), isActive);
       
-      if (!recommendation) {
-        return res.status(404).json({ error: "Recommendation not found" });
+      if (!updatedAdvisor) {
+        return res.status(404).json({ error: "Advisor not found" });
       }
       
-      // Create a new college from the recommendation
-      const collegeData = insertCollegeSchema.parse({
-        userId: req.user.id,
-        name: recommendation.name,
-        status: status as CollegeStatusType
-      });
+      res.json(updatedAdvisor);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Update what an advisor can see and do through their share link
+  app.patch("/api/advisors/:advisorId/permissions", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const { advisorId } = req.params;
       
-      const college = await dbStorage.createCollege(collegeData);
+      const parsed = advisorPermissionsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid permissions" });
+      }
       
-      // Delete the recommendation
-      await dbStorage.deleteCollegeRecommendation(parseInt(recommendationId));
+      // Verify advisor belongs to the user
+      const advisor = await dbStorage.getAdvisors(req.user.id)
+        .then(advisors => advisors.find(a => a.id === parseInt(advisorId)));
       
-      res.json(college);
+      if (!advisor) {
+        return res.status(404).json({ error: "Advisor not found" });
+      }
+      
+      const updatedAdvisor = await dbStorage.updateAdvisorPermissions(advisor.id, {
+        ...parsed.data,
+        // Keep the statuses in column order and drop duplicates
+        collegeStatuses: Object.values(CollegeStatus).filter(status => parsed.data.collegeStatuses.includes(status))
+      });
+      
+      res.json(updatedAdvisor);
     } catch (error) {
       next(error);
     }
   });
   
-  // Add advisor recommendation
-  app.post("/api/shared/:shareToken/recommendations", async (req: Request, res: Response, next: NextFunction) => {
+  // Set or clear the expiry date and view limit on an advisor's share link
+  app.patch("/api/advisors/:advisorId/limits", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
     try {
-      const { shareToken } = req.params;
-      const { name, advisorNotes } = req.body;
+      const { advisorId } = req.params;
       
-      if (!name || !name.trim()) {
-        return res.status(400).json({ error: "College name is required" });
+      const parsed = advisorLinkLimitsSchema.safeParse(req.body);
+      if (!parsed.success || (parsed.data.expiresAt && isNaN(parsed.data.expiresAt.getTime()))) {
+        return res.status(400).json({ error: "Invalid link limits" });
       }
       
-      // Get the advisor by share token
-      const advisor = await dbStorage.getAdvisorByShareToken(shareToken);
+      // Verify advisor belongs to the user
+      const advisor = await dbStorage.getAdvisors(req.user.id)
+        .then(advisors => advisors.find(a => a.id === parseInt(advisorId)));
       
       if (!advisor) {
-        return res.status(404).json({ error: "Advisor not found or link inactive" });
+        return res.status(404).json({ error: "Advisor not found" });
       }
       
-      // Get the user info to generate better recommendations
-      const user = await dbStorage.getUser(advisor.userId);
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
+      const updatedAdvisor = await dbStorage.updateAdvisorLinkLimits(advisor.id, parsed.data);
+      res.json(updatedAdvisor);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Get every time an advisor's share link was opened, newest first
+  app.get("/api/advisors/:advisorId/access-log", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const { advisorId } = req.params;
+      
+      // Verify advisor belongs to the user
+      const advisor = await dbStorage.getAdvisors(req.user.id)
+        .then(advisors => advisors.find(a => a.id === parseInt(advisorId)));
+      
+      if (!advisor) {
+        return res.status(404).json({ error: "Advisor not found" });
       }
       
-      try {
-        // Generate college info using Gemini API
-        const prompt = `
-        Please provide the following information about ${name.trim()}, a college/university:
-        1. A brief description of the college (2-3 sentences)
-        2. Why this might be a good fit for a student (2-3 sentences)
-        3. The acceptance rate as a number between 0 and 100 (just the number, no symbols or text)
-
-        Format your response as a JSON object with these fields:
-        {
-          "description": "Brief description of the college",
-          "reason": "Why it might be a good fit",
-          "acceptanceRate": number
-        }
-        `;
-        
-        // Check if API key exists
-        const apiKey = process.env.GEMINI_API_KEY;
-        if (!apiKey) {
-          // Use fallback data if no API key is available
+      const accessLog = await dbStorage.getAdvisorAccessLogs(advisor.id);
+      res.json(accessLog);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Delete an advisor
+  app.delete("/api/advisors/:advisorId", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const { advisorId } = req.params;
+      
+      const success = await dbStorage.deleteAdvisor(parseInt(advisorId));
+      
+      if (success) {
+        res.status(200).json({ success: true });
+      } else {
+        res.status(500).json({ error: "Failed to delete advisor" });
+      }
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Share chat sessions with an advisor
+  app.post("/api/advisors/:advisorId/share-chats", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const { advisorId } = req.params;
+      const { sessionIds } = req.body;
+      
+      if (!sessionIds || !Array.isArray(sessionIds) || sessionIds.length === 0) {
+        return res.status(400).json({ error: "Session IDs array is required" });
+      }
+      
+      // Verify advisor belongs to the user
+      const advisor = await dbStorage.getAdvisors(req.user.id)
+        .then(advisors => advisors.find(a => a.id === parseInt(advisorId)));
+      
+      if (!advisor) {
+        return res.status(404).json({ error: "Advisor not found" });
+      }
+      
+      // Verify all sessions belong to the user
+      const sessions = await Promise.all(
+        sessionIds.map(async (sessionId: number) => {
+          const session = await dbStorage.getChatSession(sessionId);
+          return session && session.userId === req.user!.id ? session : null;
+        })
+      );
+      
+      const invalidSessions = sessions.some(session => session === null);
+      if (invalidSessions) {
+        return res.status(403).json({ error: "One or more sessions are not accessible" });
+      }
+      
+      // Share the chat sessions with the advisor
+      await dbStorage.shareChatsWithAdvisor(parseInt(advisorId), sessionIds);
+      
+      // Get the updated list of shared sessions
+      const sharedSessionIds = await dbStorage.getSharedChatSessions(parseInt(advisorId));
+      
+      res.json({ 
+        success: true, 
+        sharedSessionIds 
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Unshare chat sessions with an advisor
+  app.post("/api/advisors/:advisorId/unshare-chats", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const { advisorId } = req.params;
+      const { sessionIds } = req.body;
+      
+      if (!sessionIds || !Array.isArray(sessionIds) || sessionIds.length === 0) {
+        return res.status(400).json({ error: "Session IDs array is required" });
+      }
+      
+      // Verify advisor belongs to the user
+      const advisor = await dbStorage.getAdvisors(req.user.id)
+        .then(advisors => advisors.find(a => a.id === parseInt(advisorId)));
+      
+      if (!advisor) {
+        return res.status(404).json({ error: "Advisor not found" });
+      }
+      
+      // Unshare the chat sessions with the advisor
+      await dbStorage.unshareChatsWithAdvisor(parseInt(advisorId), sessionIds);
+      
+      // Get the updated list of shared sessions
+      const sharedSessionIds = await dbStorage.getSharedChatSessions(parseInt(advisorId));
+      
+      res.json({ 
+        success: true, 
+        sharedSessionIds 
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Get the shared chat sessions for an advisor
+  app.get("/api/advisors/:advisorId/shared-chats", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const { advisorId } = req.params;
+      
+      // Verify advisor belongs to the user
+      const advisor = await dbStorage.getAdvisors(req.user.id)
+        .then(advisors => advisors.find(a => a.id === parseInt(advisorId)));
+      
+      if (!advisor) {
+        return res.status(404).json({ error: "Advisor not found" });
+      }
+      
+      // Get the shared session IDs
+      const sharedSessionIds = await dbStorage.getSharedChatSessions(parseInt(advisorId));
+      
+      // Return just the session IDs as that's what the client expects
+      res.json(sharedSessionIds);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Get the tags and folders shared with an advisor
+  app.get("/api/advisors/:advisorId/shared-chat-collections", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const advisor = await dbStorage.getAdvisors(req.user.id)
+        .then(advisors => advisors.find(a => a.id === parseInt(req.params.advisorId)));
+      
+      if (!advisor) {
+        return res.status(404).json({ error: "Advisor not found" });
+      }
+      
+      const collections = await dbStorage.getSharedChatCollections(advisor.id);
+      res.json(collections);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Share a whole tag or folder with an advisor, including sessions added to it later
+  app.post("/api/advisors/:advisorId/shared-chat-collections", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const advisor = await dbStorage.getAdvisors(req.user.id)
+        .then(advisors => advisors.find(a => a.id === parseInt(req.params.advisorId)));
+      
+      if (!advisor) {
+        return res.status(404).json({ error: "Advisor not found" });
+      }
+      
+      const collectionData = insertSharedChatCollectionSchema.parse({ ...req.body, advisorId: advisor.id });
+      if (collectionData.folderId != null) {
+        const folder = await dbStorage.getChatFolder(collectionData.folderId);
+        if (!folder || folder.userId !== req.user.id) {
+          return res.status(400).json({ error: "Folder not found" });
+        }
+      }
+      
+      // Sharing the same tag or folder twice keeps the first share
+      const existing = (await dbStorage.getSharedChatCollections(advisor.id)).find(collection =>
+        collectionData.tag
+          ? collection.tag?.toLowerCase() === collectionData.tag.toLowerCase()
+          : collection.folderId === collectionData.folderId
+      );
+      if (existing) {
+        return res.json(existing);
+      }
+      
+      const collection = await dbStorage.shareChatCollectionWithAdvisor(collectionData);
+      res.status(201).json(collection);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Stop sharing a tag or folder with an advisor
+  app.delete("/api/advisors/:advisorId/shared-chat-collections/:collectionId", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const advisor = await dbStorage.getAdvisors(req.user.id)
+        .then(advisors => advisors.find(a => a.id === parseInt(req.params.advisorId)));
+      
+      if (!advisor) {
+        return res.status(404).json({ error: "Advisor not found" });
+      }
+      
+      const collections = await dbStorage.getSharedChatCollections(advisor.id);
+      const collection = collections.find(c => c.id === parseInt(req.params.collectionId));
+      
+      if (!collection) {
+        return res.status(404).json({ error: "Shared tag or folder not found" });
+      }
+      
+      await dbStorage.unshareChatCollectionWithAdvisor(collection.id);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Get messages for a shared chat session from advisor's perspective
+  app.get("/api/shared/:shareToken/chat/:sessionId/messages", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { shareToken, sessionId } = req.params;
+      
+      const advisor = await authorizeSharedRequest(req, res);
+      if (!advisor) {
+        return;
+      }
+      
+      // Get the messages for the shared session, on the branch the student is looking at
+      const messages = await dbStorage.getSharedChatMessagesForAdvisor(shareToken, parseInt(sessionId));
+      
+      res.json(messages.length > 0 ? await getActiveChatBranch(parseInt(sessionId)) : messages);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Get college recommendations for the current user
+  app.get("/api/recommendations", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const recommendations = await dbStorage.getCollegeRecommendations(req.user.id);
+      res.json(recommendations);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Generate college recommendations using the configured LLM provider
+  app.post("/api/recommendations/generate", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const { preference } = req.body;
+      
+      // Make sure an LLM provider is available
+      if (!llm.isConfigured()) {
+        return res.status(500).json({ error: "API key not configured" });
+      }
+      
+      // Get the user's profile description
+      const user = await dbStorage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      
+      // Get the user's current college lists
+      const applyingColleges = await dbStorage.getCollegesByStatus(req.user.id, CollegeStatus.APPLYING);
+      const researchingColleges = await dbStorage.getCollegesByStatus(req.user.id, CollegeStatus.RESEARCHING);
+      const notApplyingColleges = await dbStorage.getCollegesByStatus(req.user.id, CollegeStatus.NOT_APPLYING);
+      
+      // Get current recommendations
+      const currentRecommendations = await dbStorage.getCollegeRecommendations(req.user.id);
+      
+      // Label each college as a reach, target or likely so the model can fill gaps in the list
+      const allColleges = [...applyingColleges, ...researchingColleges, ...notApplyingColleges];
+      const fitReport = await getCollegeFitReport(user, allColleges, currentRecommendations);
+      const withFit = (name: string, fit: CollegeFitResult | null | undefined) => fit ? `${name} (${fit.fit})` : name;
+      
+      // Extract college names for the prompt
+      const applyingCollegeNames = applyingColleges.map(c => withFit(c.name, fitReport.colleges[c.id]));
+      const researchingCollegeNames = researchingColleges.map(c => withFit(c.name, fitReport.colleges[c.id]));
+      const notApplyingCollegeNames = notApplyingColleges.map(c => c.name);
+      const currentRecommendationNames = currentRecommendations.map(r => withFit(r.name, fitReport.recommendations[r.id]));
+      const fitBalance = describeFitBalance(allColleges, fitReport);
+      
+      // Cost only comes into it once the student has filled in their finances
+      const affordability = describeAffordability(allColleges, await getNetPriceReport(user, allColleges));
+      const activities = await describeActivities(user.id);
+      
+      // Catalog entries the student already has, so a school suggested under another name isn't added twice
+      const knownInstitutionIds = new Set(
+        [...applyingColleges, ...researchingColleges, ...notApplyingColleges, ...currentRecommendations]
+          .map(c => c.institutionId)
+          .filter((id): id is number => id !== null)
+      );
+      
+      // Check every suggestion against the catalog. Schools the catalog doesn't know are asked for again;
+      // if there still aren't enough verified ones, the leftovers are kept with the model's own estimates.
+      const verified: InsertCollegeRecommendation[] = [];
+      const unverified: InsertCollegeRecommendation[] = [];
+      const unknownNames: string[] = [];
+      
+      for (let round = 0; round < RECOMMENDATION_ROUNDS && verified.length < RECOMMENDATION_COUNT; round++) {
+        const prompt = generateRecommendationPrompt(
+          user.profileDescription || "",
+          preference || "",
+          applyingCollegeNames,
+          researchingCollegeNames,
+          notApplyingCollegeNames,
+          [...currentRecommendationNames, ...verified.map(r => r.name)],
+          unknownNames,
+          fitBalance,
+          affordability,
+          activities
+        );
+        
+        console.log("Generating recommendations with prompt:", prompt.substring(0, 200) + "...");
+        
+        const recommendations = await generateCollegeRecommendations(prompt);
+        
+        for (const rec of recommendations) {
+          if (verified.length >= RECOMMENDATION_COUNT) break;
+          if (!rec || typeof rec.name !== "string" || !rec.name.trim()) continue;
+          
+          const institution = await resolveInstitution(rec.name);
+          if (!institution) {
+            if (!unknownNames.includes(rec.name)) {
+              console.log(`Recommendation "${rec.name}" not found in the college catalog`);
+              unknownNames.push(rec.name);
+              unverified.push(insertCollegeRecommendationSchema.parse({
+                userId: req.user.id,
+                name: rec.name,
+                description: rec.description,
+                reason: rec.reason,
+                acceptanceRate: typeof rec.acceptanceRate === "number" ? rec.acceptanceRate : null
+              }));
+            }
+            continue;
+          }
+          
+          if (knownInstitutionIds.has(institution.id)) continue;
+          knownInstitutionIds.add(institution.id);
+          
+          verified.push(insertCollegeRecommendationSchema.parse({
+            userId: req.user.id,
+            name: rec.name,
+            description: rec.description,
+            reason: rec.reason,
+            ...getVerifiedStats(institution)
+          }));
+        }
+      }
+      
+      // Save recommendations to database
+      const savedRecommendations = [];
+      for (const recommendationData of [...verified, ...unverified.slice(0, RECOMMENDATION_COUNT - verified.length)]) {
+        const savedRec = await dbStorage.createCollegeRecommendation(recommendationData);
+        savedRecommendations.push(savedRec);
+      }
+      
+      res.json(savedRecommendations);
+    } catch (error) {
+      console.error("Error generating recommendations:", error);
+      next(error);
+    }
+  });
+  
+  // Delete a college recommendation
+  app.delete("/api/recommendations/:recommendationId", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const { recommendationId } = req.params;
+      
+      const success = await dbStorage.deleteCollegeRecommendation(parseInt(recommendationId));
+      
+      if (success) {
+        res.status(200).json({ success: true });
+      } else {
+        res.status(500).json({ error: "Failed to delete recommendation" });
+      }
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Convert a recommendation to a regular college
+  app.post("/api/recommendations/:recommendationId/convert", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const { recommendationId } = req.params;
+      const { status } = req.body;
+      
+      // Validate status
+      if (!Object.values(CollegeStatus).includes(status as CollegeStatusType)) {
+        return res.status(400).json({ error: "Invalid status" });
+      }
+      
+      // Get the recommendation
+      const recommendations = await dbStorage.getCollegeRecommendations(req.user.id);
+      const recommendation = recommendations.find(r => r.id === parseInt(recommendationId));
+      
+      if (!recommendation) {
+        return res.status(404).json({ error: "Recommendation not found" });
+      }
+      
+      if (recommendation.institutionId !== null) {
+        const existingColleges = await dbStorage.getColleges(req.user.id);
+        if (existingColleges.some(c => c.institutionId === recommendation.institutionId)) {
+          return res.status(409).json({ error: `${recommendation.name} is already on your list` });
+        }
+      }
+      
+      // Create a new college from the recommendation
+      const collegeData = insertCollegeSchema.parse({
+        userId: req.user.id,
+        name: recommendation.name,
+        institutionId: recommendation.institutionId,
+        status: status as CollegeStatusType
+      });
+      
+      const college = await dbStorage.createCollege(collegeData);
+      
+      // Delete the recommendation
+      await dbStorage.deleteCollegeRecommendation(parseInt(recommendationId));
+      
+      res.json(college);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Add advisor recommendation
+  app.post("/api/shared/:shareToken/recommendations", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { name, advisorNotes } = req.body;
+      
+      if (!name || !name.trim()) {
+        return res.status(400).json({ error: "College name is required" });
+      }
+      
+      // Get the advisor by share token
+      const advisor = await authorizeSharedRequest(req, res);
+      if (!advisor) {
+        return;
+      }
+      
+      if (!advisor.permissions.allowRecommendations) {
+        return res.status(403).json({ error: "Recommendations are turned off for this link" });
+      }
+      
+      // Get the user info to generate better recommendations
+      const user = await dbStorage.getUser(advisor.userId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      
+      const institution = await resolveInstitution(name.trim());
+      if (institution) {
+        const [existingColleges, existingRecommendations] = await Promise.all([
+          dbStorage.getColleges(advisor.userId),
+          dbStorage.getCollegeRecommendations(advisor.userId)
+        ]);
+        if ([...existingColleges, ...existingRecommendations].some(c => c.institutionId === institution.id)) {
+          return res.status(409).json({ error: `${institution.name} is already on the student's list` });
+        }
+      }
+      // Catalog stats replace the model's estimates when the college is in the catalog
+      const catalogStats = institution ? getVerifiedStats(institution) : {};
+      
+      try {
+        // Generate college info using the LLM provider
+        const prompt = `
+        Please provide the following information about ${name.trim()}, a college/university:
+        1. A brief description of the college (2-3 sentences)
+        2. Why this might be a good fit for a student (2-3 sentences)
+        3. The acceptance rate as a number between 0 and 100 (just the number, no symbols or text)
+
+        Format your response as a JSON object with these fields:
+        {
+          "description": "Brief description of the college",
+          "reason": "Why it might be a good fit",
+          "acceptanceRate": number
+        }
+        `;
+        
+        // Check if an LLM provider is available
+        if (!llm.isConfigured()) {
+          // Use fallback data if no provider is configured
           const recommendationData = insertCollegeRecommendationSchema.parse({
             userId: advisor.userId,
             name: name.trim(),
@@ -752,171 +1656,1152 @@ export async function registerRoutes(app: Express): Promise<Server> {
             reason: "Your advisor thinks this college would be a good fit for you.",
             recommendedBy: advisor.name,
             advisorNotes: advisorNotes || null,
-            acceptanceRate: null
+            acceptanceRate: null,
+            ...catalogStats
           });
           
           const recommendation = await dbStorage.createCollegeRecommendation(recommendationData);
           return res.status(201).json(recommendation);
         }
         
-        // Generate recommendation with Gemini
-        const collegeInfo = await generateCollegeInfoWithGemini(prompt, apiKey);
-        
-        // Create the recommendation with Gemini-generated data
-        const recommendationData = insertCollegeRecommendationSchema.parse({
-          userId: advisor.userId,
-          name: name.trim(),
-          description: collegeInfo.description || "Recommended by your advisor.",
-          reason: collegeInfo.reason || "Your advisor thinks this college would be a good fit for you.",
-          recommendedBy: advisor.name,
-          advisorNotes: advisorNotes || null,
-          acceptanceRate: collegeInfo.acceptanceRate || null
-        });
+        // Generate recommendation with the LLM
+        const collegeInfo = await generateCollegeInfo(prompt);
+        
+        // Create the recommendation with AI-generated data
+        const recommendationData = insertCollegeRecommendationSchema.parse({
+          userId: advisor.userId,
+          name: name.trim(),
+          description: collegeInfo.description || "Recommended by your advisor.",
+          reason: collegeInfo.reason || "Your advisor thinks this college would be a good fit for you.",
+          recommendedBy: advisor.name,
+          advisorNotes: advisorNotes || null,
+          acceptanceRate: collegeInfo.acceptanceRate || null,
+          ...catalogStats
+        });
+        
+        const recommendation = await dbStorage.createCollegeRecommendation(recommendationData);
+        res.status(201).json(recommendation);
+      } catch (aiError) {
+        console.error("Error generating college info with AI:", aiError);
+        
+        // Fallback to basic recommendation if AI fails
+        const recommendationData = insertCollegeRecommendationSchema.parse({
+          userId: advisor.userId,
+          name: name.trim(),
+          description: "Recommended by your advisor.",
+          reason: "Your advisor thinks this college would be a good fit for you.",
+          recommendedBy: advisor.name,
+          advisorNotes: advisorNotes || null,
+          acceptanceRate: null,
+          ...catalogStats
+        });
+        
+        const recommendation = await dbStorage.createCollegeRecommendation(recommendationData);
+        res.status(201).json(recommendation);
+      }
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+// Helper function to generate college info with the LLM provider
+async function generateCollegeInfo(prompt: string): Promise<{
+  description: string;
+  reason: string;
+  acceptanceRate: number | null;
+}> {
+  try {
+    const response = await llm.generate(promptRequest("collegeInfo", prompt, {
+      temperature: 0.9,
+      topK: 40,
+      topP: 0.95
+    }));
+    
+    const text = response.text;
+    try {
+      // Extract JSON from the response
+      const jsonMatch = text.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) {
+        throw new Error("No JSON found in response");
+      }
+      
+      const jsonStr = jsonMatch[0];
+      const result = JSON.parse(jsonStr);
+      
+      return {
+        description: result.description || "Information not available.",
+        reason: result.reason || "Information not available.",
+        acceptanceRate: result.acceptanceRate ? Number(result.acceptanceRate) : null
+      };
+    } catch (parseError) {
+      console.error("Error parsing AI response:", parseError);
+      throw new Error("Failed to parse AI response");
+    }
+  } catch (error) {
+    console.error("Error in AI request:", error);
+    throw error;
+  }
+}
+  
+  // Get shared advisor data
+  app.get("/api/shared/:shareToken", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { shareToken } = req.params;
+      
+      // Get the advisor by share token
+      const advisor = await dbStorage.getAdvisorByShareToken(shareToken);
+      
+      if (!advisor) {
+        return res.status(404).json({ error: "Advisor not found" });
+      }
+      
+      // Log every visit, including ones turned away, so the student can see when the link was used
+      const problem = getShareLinkProblem(advisor);
+      await dbStorage.createAdvisorAccessLog({
+        advisorId: advisor.id,
+        userAgent: req.get("user-agent") || null,
+        allowed: problem === null
+      });
+      
+      if (problem) {
+        return res.status(advisor.isActive ? 410 : 404).json({ error: problem });
+      }
+      
+      await dbStorage.recordAdvisorView(advisor.id);
+      grantSharedView(req, advisor);
+      
+      // Get the user's profile description
+      const user = await dbStorage.getUser(advisor.userId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      
+      const { permissions } = advisor;
+      
+      // Get the user's current college lists, limited to the statuses the student shares with this advisor
+      const collegeLists = await Promise.all(
+        permissions.collegeStatuses.map(status => dbStorage.getCollegesByStatus(advisor.userId, status))
+      );
+      
+      // Get the user's recommendations
+      const recommendations = await dbStorage.getCollegeRecommendations(advisor.userId);
+      
+      // Get shared chat sessions and essays
+      const sharedChatSessions = await dbStorage.getSharedChatSessionsForAdvisor(shareToken);
+      const sharedEssays = await dbStorage.getSharedEssaysForAdvisor(shareToken);
+      
+      // Get the user's info
+      const userData = {
+        username: user.username,
+        profileDescription: permissions.showProfile ? user.profileDescription : null
+      };
+      
+      // Combine college lists into a single array, keeping the student's notes private unless shared
+      const colleges = collegeLists.flat()
+        .map(college => permissions.showCollegeNotes ? college : withoutCollegeNotes(college));
+      
+      res.json({
+        advisor: {
+          name: advisor.name,
+          type: advisor.type,
+          // Lets a logged-in advisor add this student to their caseload
+          isClaimed: advisor.accountUserId !== null,
+          isClaimedByCurrentUser: !!req.user && advisor.accountUserId === req.user.id,
+          permissions
+        },
+        user: userData,
+        colleges: colleges,
+        recommendations: recommendations,
+        sharedChatSessions: sharedChatSessions,
+        sharedEssays: sharedEssays
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Get the caseload of an advisor account: every student whose share link it has claimed
+  app.get("/api/advisor/students", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    if (req.user.role !== UserRole.ADVISOR) {
+      return res.status(403).json({ error: "Advisor account required" });
+    }
+    
+    try {
+      const links = await dbStorage.getAdvisorsByAccount(req.user.id);
+      const students = await Promise.all(links.map(describeCaseloadStudent));
+      
+      res.json(students
+        .filter((student): student is CaseloadStudent => student !== null)
+        // Most recently active students first
+        .sort((a, b) => (b.lastActivityAt || "").localeCompare(a.lastActivityAt || "")));
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Claim a student's share link into the current advisor account
+  app.post("/api/advisor/claims", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    if (req.user.role !== UserRole.ADVISOR) {
+      return res.status(403).json({ error: "Advisor account required" });
+    }
+    
+    try {
+      const { shareToken } = req.body;
+      
+      if (!shareToken || typeof shareToken !== "string" || !/^[0-9a-f-]{36}$/i.test(shareToken)) {
+        return res.status(400).json({ error: "A valid share link is required" });
+      }
+      
+      const advisor = await dbStorage.getAdvisorByShareToken(shareToken);
+      
+      if (!advisor || !advisor.isActive) {
+        return res.status(404).json({ error: "Share link not found" });
+      }
+      
+      if (isShareLinkExpired(advisor)) {
+        return res.status(410).json({ error: "This share link has expired" });
+      }
+      
+      // A link can only belong to one account
+      if (advisor.accountUserId !== null && advisor.accountUserId !== req.user.id) {
+        return res.status(409).json({ error: "This share link has already been claimed by another account" });
+      }
+      
+      const claimedAdvisor = advisor.accountUserId === req.user.id
+        ? advisor
+        : await dbStorage.updateAdvisorAccount(advisor.id, req.user.id);
+      
+      const student = claimedAdvisor ? await describeCaseloadStudent(claimedAdvisor) : null;
+      res.status(201).json(student);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Remove a student from the current advisor account's caseload. The share link keeps working.
+  app.delete("/api/advisor/claims/:advisorId", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const links = await dbStorage.getAdvisorsByAccount(req.user.id);
+      const link = links.find(l => l.id === parseInt(req.params.advisorId));
+      
+      if (!link) {
+        return res.status(404).json({ error: "Student not found" });
+      }
+      
+      await dbStorage.updateAdvisorAccount(link.id, null);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Get the user's activities in ranked order
+  app.get("/api/activities", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const activities = await dbStorage.getActivities(req.user.id);
+      res.json(activities);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Add an activity at the bottom of the list
+  app.post("/api/activities", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const existing = await dbStorage.getActivities(req.user.id);
+      if (existing.length >= MAX_ACTIVITIES) {
+        return res.status(400).json({ error: `The Common App has room for ${MAX_ACTIVITIES} activities` });
+      }
+      
+      const activityData = insertActivitySchema.parse({
+        ...req.body,
+        userId: req.user.id
+      });
+      
+      const activity = await dbStorage.createActivity(activityData);
+      res.status(201).json(activity);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Reorder the activities list. Takes every activity id, most important first.
+  app.put("/api/activities/order", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const { activityIds } = req.body;
+      const existing = await dbStorage.getActivities(req.user.id);
+      
+      const isSameSet = Array.isArray(activityIds) &&
+        activityIds.length === existing.length &&
+        new Set(activityIds).size === activityIds.length &&
+        existing.every(activity => activityIds.includes(activity.id));
+      if (!isSameSet) {
+        return res.status(400).json({ error: "Activity IDs must list each of your activities once" });
+      }
+      
+      const activities = await dbStorage.reorderActivities(req.user.id, activityIds);
+      res.json(activities);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Update an activity
+  app.patch("/api/activities/:activityId", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const activityId = parseInt(req.params.activityId);
+      const activity = await dbStorage.getActivity(activityId);
+      
+      if (!activity || activity.userId !== req.user.id) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+      
+      const updates = insertActivitySchema.omit({ userId: true }).partial().parse(req.body);
+      const updatedActivity = await dbStorage.updateActivity(activityId, updates);
+      res.json(updatedActivity);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Delete an activity
+  app.delete("/api/activities/:activityId", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const activityId = parseInt(req.params.activityId);
+      const activity = await dbStorage.getActivity(activityId);
+      
+      if (!activity || activity.userId !== req.user.id) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+      
+      const success = await dbStorage.deleteActivity(activityId);
+      
+      if (success) {
+        res.status(200).json({ success: true });
+      } else {
+        res.status(500).json({ error: "Failed to delete activity" });
+      }
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Suggest a tighter version of an activity description. Nothing is saved until the student accepts it.
+  app.post("/api/activities/:activityId/tighten", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const activity = await dbStorage.getActivity(parseInt(req.params.activityId));
+      
+      if (!activity || activity.userId !== req.user.id) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+      
+      // The draft being edited may not be saved yet
+      const description = typeof req.body.description === "string" ? req.body.description.trim() : activity.description;
+      if (!description) {
+        return res.status(400).json({ error: "Write a description before tightening it" });
+      }
+      
+      // Make sure an LLM provider is available
+      if (!llm.isConfigured()) {
+        return res.status(500).json({ error: "API key not configured" });
+      }
+      
+      const suggestion = await tightenActivityDescription({ ...activity, description });
+      res.json({ description: suggestion });
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Get the user's recommenders with the letters each has been asked for
+  app.get("/api/recommenders", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const recommenders = await dbStorage.getRecommenders(req.user.id);
+      res.json(await Promise.all(recommenders.map(withLetters)));
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Invite a recommender, optionally asking for letters to some colleges right away
+  app.post("/api/recommenders", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const { collegeIds = [], ...details } = req.body;
+      const validCollegeIds = await validateCollegeIds(req.user.id, collegeIds);
+      if (!validCollegeIds) {
+        return res.status(400).json({ error: "Invalid colleges" });
+      }
+      
+      const recommenderData = insertRecommenderSchema.parse({
+        ...details,
+        userId: req.user.id
+      });
+      
+      const recommender = await dbStorage.createRecommender(recommenderData);
+      await setRequestedColleges(recommender, validCollegeIds);
+      res.status(201).json(await withLetters(recommender));
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Update a recommender's details, or turn their link off
+  app.patch("/api/recommenders/:recommenderId", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const recommenderId = parseInt(req.params.recommenderId);
+      const recommender = await dbStorage.getRecommender(recommenderId);
+      
+      if (!recommender || recommender.userId !== req.user.id) {
+        return res.status(404).json({ error: "Recommender not found" });
+      }
+      
+      const updates = insertRecommenderSchema.omit({ userId: true }).partial().parse(req.body);
+      const updatedRecommender = await dbStorage.updateRecommender(recommenderId, updates);
+      res.json(await withLetters(updatedRecommender!));
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Set which colleges a recommender is writing for
+  app.put("/api/recommenders/:recommenderId/colleges", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const recommender = await dbStorage.getRecommender(parseInt(req.params.recommenderId));
+      
+      if (!recommender || recommender.userId !== req.user.id) {
+        return res.status(404).json({ error: "Recommender not found" });
+      }
+      
+      const collegeIds = await validateCollegeIds(req.user.id, req.body.collegeIds);
+      if (!collegeIds) {
+        return res.status(400).json({ error: "Invalid colleges" });
+      }
+      
+      await setRequestedColleges(recommender, collegeIds);
+      res.json(await withLetters(recommender));
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Delete a recommender and their letter requests
+  app.delete("/api/recommenders/:recommenderId", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const recommenderId = parseInt(req.params.recommenderId);
+      const recommender = await dbStorage.getRecommender(recommenderId);
+      
+      if (!recommender || recommender.userId !== req.user.id) {
+        return res.status(404).json({ error: "Recommender not found" });
+      }
+      
+      const success = await dbStorage.deleteRecommender(recommenderId);
+      
+      if (success) {
+        res.status(200).json({ success: true });
+      } else {
+        res.status(500).json({ error: "Failed to delete recommender" });
+      }
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Get every letter request across the user's recommenders, for letter status on college cards
+  app.get("/api/recommendation-letters", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const letters = await dbStorage.getRecommendationLetters(req.user.id);
+      res.json(letters);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // The recommender page: the student's brag sheet and the letters this recommender has been asked for
+  app.get("/api/recommender/:shareToken", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const recommender = await dbStorage.getRecommenderByShareToken(req.params.shareToken);
+      
+      if (!recommender || !recommender.isActive) {
+        return res.status(404).json({ error: "Recommender not found" });
+      }
+      
+      const portal = await buildRecommenderPortal(recommender);
+      if (!portal) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      
+      await dbStorage.recordRecommenderView(recommender.id);
+      res.json(portal);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Let a recommender mark one of their letters as submitted, or undo that
+  app.patch("/api/recommender/:shareToken/letters/:letterId", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const recommender = await dbStorage.getRecommenderByShareToken(req.params.shareToken);
+      
+      if (!recommender || !recommender.isActive) {
+        return res.status(404).json({ error: "Recommender not found" });
+      }
+      
+      const letters = await dbStorage.getRecommendationLettersByRecommender(recommender.id);
+      const letter = letters.find(letter => letter.id === parseInt(req.params.letterId));
+      if (!letter) {
+        return res.status(404).json({ error: "Letter not found" });
+      }
+      
+      const { status } = req.body;
+      if (!Object.values(LetterStatus).includes(status as LetterStatusValue)) {
+        return res.status(400).json({ error: "Invalid status" });
+      }
+      
+      const updatedLetter = await dbStorage.updateRecommendationLetterStatus(letter.id, status as LetterStatusValue);
+      res.json(updatedLetter);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Get all essays for the current user
+  app.get("/api/essays", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const essays = await dbStorage.getEssays(req.user.id);
+      res.json(essays);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Create a new essay
+  app.post("/api/essays", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const essayData = insertEssaySchema.parse({
+        ...req.body,
+        userId: req.user.id
+      });
+      
+      // A college-specific essay must be for one of the user's colleges
+      if (essayData.collegeId) {
+        const college = await dbStorage.getCollege(essayData.collegeId);
+        if (!college || college.userId !== req.user.id) {
+          return res.status(400).json({ error: "Invalid college" });
+        }
+      }
+      
+      const essay = await dbStorage.createEssay(essayData);
+      res.status(201).json(essay);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Get a single essay with its saved revisions
+  app.get("/api/essays/:essayId", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const essay = await dbStorage.getEssay(parseInt(req.params.essayId));
+      
+      if (!essay || essay.userId !== req.user.id) {
+        return res.status(404).json({ error: "Essay not found" });
+      }
+      
+      const revisions = await dbStorage.getEssayRevisions(essay.id);
+      res.json({ ...essay, revisions });
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Update an essay's draft or details
+  app.patch("/api/essays/:essayId", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const essayId = parseInt(req.params.essayId);
+      const essay = await dbStorage.getEssay(essayId);
+      
+      if (!essay || essay.userId !== req.user.id) {
+        return res.status(404).json({ error: "Essay not found" });
+      }
+      
+      const updates = insertEssaySchema.omit({ userId: true }).partial().parse(req.body);
+      
+      if (updates.collegeId) {
+        const college = await dbStorage.getCollege(updates.collegeId);
+        if (!college || college.userId !== req.user.id) {
+          return res.status(400).json({ error: "Invalid college" });
+        }
+      }
+      
+      const updatedEssay = await dbStorage.updateEssay(essayId, updates);
+      res.json(updatedEssay);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Delete an essay and its revisions
+  app.delete("/api/essays/:essayId", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const essayId = parseInt(req.params.essayId);
+      const essay = await dbStorage.getEssay(essayId);
+      
+      if (!essay || essay.userId !== req.user.id) {
+        return res.status(404).json({ error: "Essay not found" });
+      }
+      
+      const success = await dbStorage.deleteEssay(essayId);
+      
+      if (success) {
+        res.status(200).json({ success: true });
+      } else {
+        res.status(500).json({ error: "Failed to delete essay" });
+      }
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Save the current draft as a revision
+  app.post("/api/essays/:essayId/revisions", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const essay = await dbStorage.getEssay(parseInt(req.params.essayId));
+      
+      if (!essay || essay.userId !== req.user.id) {
+        return res.status(404).json({ error: "Essay not found" });
+      }
+      
+      const revision = await saveEssayRevision(essay);
+      res.status(201).json(revision);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Word diff between two revisions, or between a revision and the current draft.
+  // Defaults to comparing the latest revision with the current draft.
+  app.get("/api/essays/:essayId/diff", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const essay = await dbStorage.getEssay(parseInt(req.params.essayId));
+      
+      if (!essay || essay.userId !== req.user.id) {
+        return res.status(404).json({ error: "Essay not found" });
+      }
+      
+      const revisions = await dbStorage.getEssayRevisions(essay.id);
+      
+      // Resolve a revision ID, or "current" for the working draft
+      const resolveVersion = (value: unknown, fallback: string | null) => {
+        const version = typeof value === "string" ? value : fallback;
+        if (!version) return null;
+        if (version === "current") {
+          return { id: "current", content: essay.content };
+        }
+        const revision = revisions.find(r => r.id === parseInt(version));
+        return revision ? { id: revision.id, content: revision.content } : null;
+      };
+      
+      const from = resolveVersion(req.query.from, revisions[0] ? String(revisions[0].id) : null);
+      const to = resolveVersion(req.query.to, "current");
+      
+      if (!to || (req.query.from && !from)) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      
+      res.json({
+        from: from ? from.id : null,
+        to: to.id,
+        segments: diffWords(from ? from.content : "", to.content)
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Get rubric-style AI feedback on the current draft (saved with a revision of it)
+  app.post("/api/essays/:essayId/feedback", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const essay = await dbStorage.getEssay(parseInt(req.params.essayId));
+      
+      if (!essay || essay.userId !== req.user.id) {
+        return res.status(404).json({ error: "Essay not found" });
+      }
+      
+      if (!essay.content.trim()) {
+        return res.status(400).json({ error: "Write a draft before requesting feedback" });
+      }
+      
+      // Make sure an LLM provider is available
+      if (!llm.isConfigured()) {
+        return res.status(500).json({ error: "API key not configured" });
+      }
+      
+      const user = await dbStorage.getUser(req.user.id);
+      const college = essay.collegeId ? await dbStorage.getCollege(essay.collegeId) : undefined;
+      
+      // Feedback is attached to a revision so it stays next to the text it was about
+      const revision = await saveEssayRevision(essay);
+      
+      const prompt = generateEssayFeedbackPrompt(essay, user?.profileDescription || "", college?.name || null);
+      const feedback = await generateEssayFeedback(prompt);
+      
+      const updatedRevision = await dbStorage.updateEssayRevisionFeedback(revision.id, feedback);
+      res.json(updatedRevision);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Share essays with an advisor
+  app.post("/api/advisors/:advisorId/share-essays", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const { advisorId } = req.params;
+      const { essayIds } = req.body;
+      
+      if (!essayIds || !Array.isArray(essayIds) || essayIds.length === 0) {
+        return res.status(400).json({ error: "Essay IDs array is required" });
+      }
+      
+      // Verify advisor belongs to the user
+      const advisor = await dbStorage.getAdvisors(req.user.id)
+        .then(advisors => advisors.find(a => a.id === parseInt(advisorId)));
+      
+      if (!advisor) {
+        return res.status(404).json({ error: "Advisor not found" });
+      }
+      
+      // Verify all essays belong to the user
+      const essays = await Promise.all(essayIds.map((essayId: number) => dbStorage.getEssay(essayId)));
+      if (essays.some(essay => !essay || essay.userId !== req.user!.id)) {
+        return res.status(403).json({ error: "One or more essays are not accessible" });
+      }
+      
+      await dbStorage.shareEssaysWithAdvisor(advisor.id, essayIds);
+      
+      const sharedEssayIds = await dbStorage.getSharedEssays(advisor.id);
+      res.json({ 
+        success: true, 
+        sharedEssayIds 
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Unshare essays with an advisor
+  app.post("/api/advisors/:advisorId/unshare-essays", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const { advisorId } = req.params;
+      const { essayIds } = req.body;
+      
+      if (!essayIds || !Array.isArray(essayIds) || essayIds.length === 0) {
+        return res.status(400).json({ error: "Essay IDs array is required" });
+      }
+      
+      // Verify advisor belongs to the user
+      const advisor = await dbStorage.getAdvisors(req.user.id)
+        .then(advisors => advisors.find(a => a.id === parseInt(advisorId)));
+      
+      if (!advisor) {
+        return res.status(404).json({ error: "Advisor not found" });
+      }
+      
+      await dbStorage.unshareEssaysWithAdvisor(advisor.id, essayIds);
+      
+      const sharedEssayIds = await dbStorage.getSharedEssays(advisor.id);
+      res.json({ 
+        success: true, 
+        sharedEssayIds 
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Get the IDs of essays shared with an advisor
+  app.get("/api/advisors/:advisorId/shared-essays", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const { advisorId } = req.params;
+      
+      // Verify advisor belongs to the user
+      const advisor = await dbStorage.getAdvisors(req.user.id)
+        .then(advisors => advisors.find(a => a.id === parseInt(advisorId)));
+      
+      if (!advisor) {
+        return res.status(404).json({ error: "Advisor not found" });
+      }
+      
+      const sharedEssayIds = await dbStorage.getSharedEssays(advisor.id);
+      res.json(sharedEssayIds);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Get a shared essay from the advisor's perspective
+  app.get("/api/shared/:shareToken/essays/:essayId", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { shareToken, essayId } = req.params;
+      
+      const advisor = await authorizeSharedRequest(req, res);
+      if (!advisor) {
+        return;
+      }
+      
+      const sharedEssays = await dbStorage.getSharedEssaysForAdvisor(shareToken);
+      const essay = sharedEssays.find(e => e.id === parseInt(essayId));
+      
+      if (!essay) {
+        return res.status(404).json({ error: "Essay not found" });
+      }
+      
+      // Only name the college if its list is shared with this advisor
+      const college = essay.collegeId ? await dbStorage.getCollege(essay.collegeId) : undefined;
+      const isCollegeShared = !!college && advisor.permissions.collegeStatuses.includes(college.status);
+      
+      res.json({
+        ...essay,
+        collegeName: isCollegeShared ? college.name : null,
+        wordCount: countWords(essay.content)
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Get the comment threads an advisor has started on shared chats and essays
+  app.get("/api/shared/:shareToken/comments", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { shareToken } = req.params;
+      
+      const advisor = await authorizeSharedRequest(req, res);
+      if (!advisor) {
+        return;
+      }
+      
+      if (!advisor.permissions.allowComments) {
+        return res.status(403).json({ error: "Comments are turned off for this link" });
+      }
+      
+      // Only include threads on chats and essays that are still shared
+      const sharedSessionIds = (await dbStorage.getSharedChatSessionsForAdvisor(shareToken)).map(session => session.id);
+      const sharedEssayIds = (await dbStorage.getSharedEssaysForAdvisor(shareToken)).map(essay => essay.id);
+      
+      const comments = await dbStorage.getAdvisorCommentsByAdvisor(advisor.id);
+      res.json(comments.filter(comment =>
+        (comment.chatSessionId !== null && sharedSessionIds.includes(comment.chatSessionId)) ||
+        (comment.essayId !== null && sharedEssayIds.includes(comment.essayId))
+      ));
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Comment on a shared chat message or essay passage, or reply to an existing thread
+  app.post("/api/shared/:shareToken/comments", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { shareToken } = req.params;
+      const { parentId, chatSessionId, chatMessageId, essayId, rangeStart, rangeEnd } = req.body;
+      
+      const advisor = await authorizeSharedRequest(req, res);
+      if (!advisor) {
+        return;
+      }
+      
+      if (!advisor.permissions.allowComments) {
+        return res.status(403).json({ error: "Comments are turned off for this link" });
+      }
+      
+      let anchor: Pick<AdvisorComment, "parentId" | "chatSessionId" | "chatMessageId" | "essayId" | "rangeStart" | "rangeEnd" | "quotedText">;
+      
+      if (parentId) {
+        // Replies join the parent's thread and point at the same message or essay
+        const parent = await dbStorage.getAdvisorComment(parseInt(parentId));
+        if (!parent || parent.advisorId !== advisor.id || !(await isCommentTargetShared(shareToken, parent))) {
+          return res.status(404).json({ error: "Comment not found" });
+        }
+        
+        anchor = {
+          parentId: parent.parentId ?? parent.id,
+          chatSessionId: parent.chatSessionId,
+          chatMessageId: parent.chatMessageId,
+          essayId: parent.essayId,
+          rangeStart: null,
+          rangeEnd: null,
+          quotedText: null
+        };
+      } else if (chatSessionId && chatMessageId) {
+        const messages = await dbStorage.getSharedChatMessagesForAdvisor(shareToken, parseInt(chatSessionId));
+        if (!messages.some(message => message.id === parseInt(chatMessageId))) {
+          return res.status(404).json({ error: "Message not found" });
+        }
         
-        const recommendation = await dbStorage.createCollegeRecommendation(recommendationData);
-        res.status(201).json(recommendation);
-      } catch (aiError) {
-        console.error("Error generating college info with AI:", aiError);
+        anchor = {
+          parentId: null,
+          chatSessionId: parseInt(chatSessionId),
+          chatMessageId: parseInt(chatMessageId),
+          essayId: null,
+          rangeStart: null,
+          rangeEnd: null,
+          quotedText: null
+        };
+      } else if (essayId) {
+        const sharedEssays = await dbStorage.getSharedEssaysForAdvisor(shareToken);
+        const essay = sharedEssays.find(e => e.id === parseInt(essayId));
+        if (!essay) {
+          return res.status(404).json({ error: "Essay not found" });
+        }
         
-        // Fallback to basic recommendation if AI fails
-        const recommendationData = insertCollegeRecommendationSchema.parse({
-          userId: advisor.userId,
-          name: name.trim(),
-          description: "Recommended by your advisor.",
-          reason: "Your advisor thinks this college would be a good fit for you.",
-          recommendedBy: advisor.name,
-          advisorNotes: advisorNotes || null,
-          acceptanceRate: null
-        });
+        // Essay comments are anchored to a passage of the current draft
+        const start = Number(rangeStart);
+        const end = Number(rangeEnd);
+        if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end <= start || end > essay.content.length) {
+          return res.status(400).json({ error: "Invalid essay passage" });
+        }
         
-        const recommendation = await dbStorage.createCollegeRecommendation(recommendationData);
-        res.status(201).json(recommendation);
+        anchor = {
+          parentId: null,
+          chatSessionId: null,
+          chatMessageId: null,
+          essayId: essay.id,
+          rangeStart: start,
+          rangeEnd: end,
+          quotedText: essay.content.slice(start, end)
+        };
+      } else {
+        return res.status(400).json({ error: "A chat message or essay passage is required" });
       }
+      
+      const commentData = insertAdvisorCommentSchema.parse({
+        ...anchor,
+        userId: advisor.userId,
+        advisorId: advisor.id,
+        authorType: "advisor",
+        content: req.body.content,
+        isRead: false
+      });
+      
+      const comment = await dbStorage.createAdvisorComment(commentData);
+      res.status(201).json(comment);
     } catch (error) {
       next(error);
     }
   });
   
-// Helper function to generate college info with Gemini
-async function generateCollegeInfoWithGemini(prompt: string, apiKey: string): Promise<{
-  description: string;
-  reason: string;
-  acceptanceRate: number | null;
-}> {
-  try {
-    const response = await fetch("https://generativelanguage.googleapis.com/v1/models/gemini-2.0-flash:generateContent", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-goog-api-key": apiKey
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              {
-                text: prompt
-              }
-            ]
-          }
-        ],
-        generationConfig: {
-          temperature: 0.9,
-          topK: 40,
-          topP: 0.95
-        }
-      })
-    });
-    
-    const data = await response.json();
-    
-    if (!data.candidates || data.candidates.length === 0) {
-      throw new Error("No response from AI");
+  // Get all advisor comments on the current user's chats and essays
+  app.get("/api/comments", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
     }
     
-    const content = data.candidates[0].content;
-    if (!content || !content.parts || content.parts.length === 0) {
-      throw new Error("Invalid response structure from AI");
+    try {
+      const comments = await dbStorage.getAdvisorComments(req.user.id);
+      const advisors = await dbStorage.getAdvisors(req.user.id);
+      const advisorNames = new Map(advisors.map(advisor => [advisor.id, advisor.name]));
+      
+      res.json(comments.map(comment => ({
+        ...comment,
+        advisorName: advisorNames.get(comment.advisorId) || "Advisor"
+      })));
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Reply to an advisor's comment thread
+  app.post("/api/comments/:commentId/replies", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
     }
     
-    const text = content.parts[0].text;
     try {
-      // Extract JSON from the response
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error("No JSON found in response");
+      const parent = await dbStorage.getAdvisorComment(parseInt(req.params.commentId));
+      
+      if (!parent || parent.userId !== req.user.id) {
+        return res.status(404).json({ error: "Comment not found" });
       }
       
-      const jsonStr = jsonMatch[0];
-      const result = JSON.parse(jsonStr);
+      const commentData = insertAdvisorCommentSchema.parse({
+        userId: req.user.id,
+        advisorId: parent.advisorId,
+        parentId: parent.parentId ?? parent.id,
+        authorType: "student",
+        content: req.body.content,
+        chatSessionId: parent.chatSessionId,
+        chatMessageId: parent.chatMessageId,
+        essayId: parent.essayId,
+        isRead: true
+      });
       
-      return {
-        description: result.description || "Information not available.",
-        reason: result.reason || "Information not available.",
-        acceptanceRate: result.acceptanceRate ? Number(result.acceptanceRate) : null
-      };
-    } catch (parseError) {
-      console.error("Error parsing AI response:", parseError);
-      throw new Error("Failed to parse AI response");
+      const comment = await dbStorage.createAdvisorComment(commentData);
+      res.status(201).json(comment);
+    } catch (error) {
+      next(error);
     }
-  } catch (error) {
-    console.error("Error in AI request:", error);
-    throw error;
-  }
-}
+  });
   
-  // Get shared advisor data
-  app.get("/api/shared/:shareToken", async (req: Request, res: Response, next: NextFunction) => {
+  // Mark advisor comments as read
+  app.post("/api/comments/read", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
     try {
-      const { shareToken } = req.params;
+      const { commentIds } = req.body;
       
-      // Get the advisor by share token
-      const advisor = await dbStorage.getAdvisorByShareToken(shareToken);
-      
-      if (!advisor) {
-        return res.status(404).json({ error: "Advisor not found" });
-      }
-      
-      // Get the user's profile description
-      const user = await dbStorage.getUser(advisor.userId);
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
+      if (!Array.isArray(commentIds)) {
+        return res.status(400).json({ error: "Comment IDs array is required" });
       }
       
-      // Get the user's current college lists
-      const applyingColleges = await dbStorage.getCollegesByStatus(advisor.userId, CollegeStatus.APPLYING);
-      const researchingColleges = await dbStorage.getCollegesByStatus(advisor.userId, CollegeStatus.RESEARCHING);
-      const notApplyingColleges = await dbStorage.getCollegesByStatus(advisor.userId, CollegeStatus.NOT_APPLYING);
-      
-      // Get the user's recommendations
-      const recommendations = await dbStorage.getCollegeRecommendations(advisor.userId);
+      await dbStorage.markAdvisorCommentsRead(req.user.id, commentIds.map((id: unknown) => Number(id)));
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Delete a comment (and its replies, if it starts a thread)
+  app.delete("/api/comments/:commentId", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const comment = await dbStorage.getAdvisorComment(parseInt(req.params.commentId));
       
-      // Get shared chat sessions
-      const sharedChatSessions = await dbStorage.getSharedChatSessionsForAdvisor(shareToken);
+      if (!comment || comment.userId !== req.user.id) {
+        return res.status(404).json({ error: "Comment not found" });
+      }
       
-      // Get the user's info
-      const userData = {
-        username: user.username,
-        profileDescription: user.profileDescription
-      };
+      const success = await dbStorage.deleteAdvisorComment(comment.id);
       
-      // Combine college lists into a single array
-      const colleges = [
-        ...applyingColleges,
-        ...researchingColleges,
-        ...notApplyingColleges
-      ];
+      if (success) {
+        res.status(200).json({ success: true });
+      } else {
+        res.status(500).json({ error: "Failed to delete comment" });
+      }
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Search the user's chat history, best matches first
+  app.get("/api/chat/search", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (!query) {
+        return res.json([]);
+      }
       
-      res.json({
-        advisor: {
-          name: advisor.name,
-          type: advisor.type
-        },
-        user: userData,
-        colleges: colleges,
-        recommendations: recommendations,
-        sharedChatSessions: sharedChatSessions
-      });
+      const results = await dbStorage.searchChatMessages(req.user.id, query.slice(0, 200), 30);
+      res.json(results);
     } catch (error) {
       next(error);
     }
@@ -1012,9 +2897,8 @@ async function generateCollegeInfoWithGemini(prompt: string, apiKey: string): Pr
       // Update the session title
       await dbStorage.updateChatSessionTitle(session.id, truncatedMessage);
       
-      // Get API key
-      const apiKey = process.env.GEMINI_API_KEY;
-      if (!apiKey) {
+      // Make sure an LLM provider is available
+      if (!llm.isConfigured()) {
         return res.status(500).json({ error: "API key not configured" });
       }
       
@@ -1031,7 +2915,7 @@ async function generateCollegeInfoWithGemini(prompt: string, apiKey: string): Pr
         }
         
         if (shouldExtendThinking) {
-          console.log(`Using extended thinking (gemini-2.5) for new chat message`);
+          console.log(`Using extended thinking for new chat message`);
         }
         
         // Generate AI response with optional web search and extended thinking
@@ -1039,32 +2923,31 @@ async function generateCollegeInfoWithGemini(prompt: string, apiKey: string): Pr
           systemPrompt,
           [savedMessage], // Just the first message as context
           cleanedContent,
-          apiKey,
           validatedAttachments,
           shouldUseWebSearch,
           shouldExtendThinking
         );
         
         // Extract the AI response text and citation data
-        const aiResponseText = typeof aiResponse === 'string' 
-          ? aiResponse 
-          : aiResponse.text;
+        const aiResponseText = aiResponse.text;
           
         // Save the AI response
         const aiMessageData = insertChatMessageSchema.parse({
           sessionId: session.id,
           content: aiResponseText,
-          sender: "ai"
+          sender: "ai",
+          citations: aiResponse.citations,
+          citationSupports: aiResponse.citationSupports,
+          searchQueries: aiResponse.searchQueries
         });
         
-        // Store citation metadata if available
-        // Citations are now embedded in the content
-        const searchQueries = typeof aiResponse === 'string' ? null : aiResponse.searchQueries;
+        const searchQueries = aiResponse.searchQueries;
         
         const savedAiMessage = await dbStorage.createChatMessage(aiMessageData);
         
         // Check for profile updates
         let profileUpdated = false;
+        let profileUpdateProposed = false;
         let updatedUser = null;
         
         try {
@@ -1079,17 +2962,18 @@ async function generateCollegeInfoWithGemini(prompt: string, apiKey: string): Pr
             const updatedProfile = await checkForProfileUpdate(
               currentUser.profileDescription,
               cleanedContent,
-              [savedMessage], // Just the first message as context since this is a new session
-              apiKey
+              [savedMessage] // Just the first message as context since this is a new session
             );
             
             console.log("Profile update check result (new session):", updatedProfile ? "Profile updated" : "No updates needed");
             
-            // If we have an updated profile, save it
+            // If we have an updated profile, save it (or hold it for review)
             if (updatedProfile) {
-              updatedUser = await dbStorage.updateUserProfileDescription(req.user.id, updatedProfile);
-              profileUpdated = true;
-              console.log("Profile updated with new information from chat (new session):", updatedProfile.substring(0, 100) + "...");
+              const proposal = await proposeProfileRevision(currentUser, updatedProfile, savedMessage.id);
+              updatedUser = proposal.user;
+              profileUpdated = proposal.revision.status === ProfileRevisionStatus.APPLIED;
+              profileUpdateProposed = proposal.revision.status === ProfileRevisionStatus.PENDING;
+              console.log("Profile update from chat (new session):", proposal.revision.status, updatedProfile.substring(0, 100) + "...");
             }
           } else {
             console.log("User has no profile description yet (new session), skipping update check");
@@ -1100,12 +2984,12 @@ async function generateCollegeInfoWithGemini(prompt: string, apiKey: string): Pr
         }
         
         // Return the user message, AI response, session ID, and profile update status
-        // Citations are now embedded directly in the AI response content
         res.json({
           userMessage: savedMessage,
           aiMessage: savedAiMessage,
           sessionId: session.id,
           profileUpdated: profileUpdated,
+          profileUpdateProposed: profileUpdateProposed,
           searchQueries: searchQueries
         });
       } catch (error) {
@@ -1157,6 +3041,109 @@ async function generateCollegeInfoWithGemini(prompt: string, apiKey: string): Pr
     }
   });
   
+  // Pin a chat session, change its tags, or move it to another folder
+  app.patch("/api/chat/sessions/:sessionId/organization", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const session = await dbStorage.getChatSession(parseInt(req.params.sessionId));
+      
+      if (!session || session.userId !== req.user.id) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      
+      const updates = chatSessionOrganizationSchema.parse(req.body);
+      if (updates.folderId != null) {
+        const folder = await dbStorage.getChatFolder(updates.folderId);
+        if (!folder || folder.userId !== req.user.id) {
+          return res.status(400).json({ error: "Folder not found" });
+        }
+      }
+      
+      const updatedSession = await dbStorage.updateChatSessionOrganization(session.id, updates);
+      res.json(updatedSession);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Get the user's chat folders
+  app.get("/api/chat/folders", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const folders = await dbStorage.getChatFolders(req.user.id);
+      res.json(folders);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Create a chat folder
+  app.post("/api/chat/folders", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const folderData = insertChatFolderSchema.parse({ ...req.body, userId: req.user.id });
+      const folder = await dbStorage.createChatFolder(folderData);
+      res.status(201).json(folder);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Rename a chat folder
+  app.patch("/api/chat/folders/:folderId", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const folder = await dbStorage.getChatFolder(parseInt(req.params.folderId));
+      
+      if (!folder || folder.userId !== req.user.id) {
+        return res.status(404).json({ error: "Folder not found" });
+      }
+      
+      const { name } = insertChatFolderSchema.pick({ name: true }).parse(req.body);
+      const updatedFolder = await dbStorage.renameChatFolder(folder.id, name);
+      res.json(updatedFolder);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Delete a chat folder; its sessions are kept, outside any folder
+  app.delete("/api/chat/folders/:folderId", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const folder = await dbStorage.getChatFolder(parseInt(req.params.folderId));
+      
+      if (!folder || folder.userId !== req.user.id) {
+        return res.status(404).json({ error: "Folder not found" });
+      }
+      
+      const success = await dbStorage.deleteChatFolder(folder.id);
+      
+      if (success) {
+        res.json({ success: true });
+      } else {
+        res.status(500).json({ error: "Failed to delete folder" });
+      }
+    } catch (error) {
+      next(error);
+    }
+  });
+  
   // Delete a chat session and its messages
   app.delete("/api/chat/sessions/:sessionId", async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
@@ -1210,8 +3197,8 @@ async function generateCollegeInfoWithGemini(prompt: string, apiKey: string): Pr
         return res.status(403).json({ error: "Unauthorized" });
       }
       
-      // Get the messages for the session
-      const messages = await dbStorage.getChatMessages(parseInt(sessionId));
+      // Get the messages on the branch being shown, with the versions of each
+      const messages = await getActiveChatBranch(parseInt(sessionId));
       
       res.json(messages);
     } catch (error) {
@@ -1281,18 +3268,17 @@ async function generateCollegeInfoWithGemini(prompt: string, apiKey: string): Pr
         await dbStorage.updateChatSessionTitle(parseInt(sessionId), truncatedMessage);
       }
       
-      // Get API key
-      const apiKey = process.env.GEMINI_API_KEY;
-      if (!apiKey) {
-        console.error("Missing Gemini API key for chat functionality" + (useWebSearch ? " with web search" : ""));
+      // Make sure an LLM provider is available
+      if (!llm.isConfigured()) {
+        console.error(`LLM provider "${llm.name}" is not configured for chat functionality` + (useWebSearch ? " with web search" : ""));
         return res.status(500).json({ 
           error: "API key not configured",
-          message: "Gemini API key is required. Please configure the GEMINI_API_KEY environment variable." 
+          message: `The "${llm.name}" LLM provider is not configured. Please set its API key environment variable or choose another LLM_PROVIDER.` 
         });
       }
       
-      // Get previous messages for context
-      const previousMessages = await dbStorage.getChatMessages(parseInt(sessionId));
+      // Get previous messages on this branch for context
+      const previousMessages = getChatBranch(messages, savedMessage.parentId);
       
       // Generate system prompt (now async)
       const systemPrompt = await generateChatPrompt(req.user, session);
@@ -1307,7 +3293,7 @@ async function generateCollegeInfoWithGemini(prompt: string, apiKey: string): Pr
         }
         
         if (shouldExtendThinking) {
-          console.log(`Using extended thinking (gemini-2.5) for chat message in session ${sessionId}`);
+          console.log(`Using extended thinking for chat message in session ${sessionId}`);
         }
         
         // Generate AI response with optional web search and extended thinking
@@ -1315,32 +3301,32 @@ async function generateCollegeInfoWithGemini(prompt: string, apiKey: string): Pr
           systemPrompt,
           previousMessages,
           cleanedContent,
-          apiKey,
           validatedAttachments,
           shouldUseWebSearch,
           shouldExtendThinking
         );
         
         // Extract the AI response text and citation data
-        const aiResponseText = typeof aiResponse === 'string' 
-          ? aiResponse 
-          : aiResponse.text;
+        const aiResponseText = aiResponse.text;
           
         // Save the AI response text in the database
         const aiMessageData = insertChatMessageSchema.parse({
           sessionId: parseInt(sessionId),
           content: aiResponseText,
-          sender: "ai"
+          sender: "ai",
+          parentId: savedMessage.id,
+          citations: aiResponse.citations,
+          citationSupports: aiResponse.citationSupports,
+          searchQueries: aiResponse.searchQueries
         });
         
-        // Store citation metadata if available
-        // Citations are now embedded in the content
-        const searchQueries = typeof aiResponse === 'string' ? null : aiResponse.searchQueries;
+        const searchQueries = aiResponse.searchQueries;
         
         const savedAiMessage = await dbStorage.createChatMessage(aiMessageData);
         
         // Check for profile updates
         let profileUpdated = false;
+        let profileUpdateProposed = false;
         let updatedUser = null;
         
         try {
@@ -1355,17 +3341,18 @@ async function generateCollegeInfoWithGemini(prompt: string, apiKey: string): Pr
             const updatedProfile = await checkForProfileUpdate(
               currentUser.profileDescription,
               cleanedContent,
-              previousMessages,
-              apiKey
+              previousMessages
             );
             
             console.log("Profile update check result:", updatedProfile ? "Profile updated" : "No updates needed");
             
-            // If we have an updated profile, save it
+            // If we have an updated profile, save it (or hold it for review)
             if (updatedProfile) {
-              updatedUser = await dbStorage.updateUserProfileDescription(req.user.id, updatedProfile);
-              profileUpdated = true;
-              console.log("Profile updated with new information from chat:", updatedProfile.substring(0, 100) + "...");
+              const proposal = await proposeProfileRevision(currentUser, updatedProfile, savedMessage.id);
+              updatedUser = proposal.user;
+              profileUpdated = proposal.revision.status === ProfileRevisionStatus.APPLIED;
+              profileUpdateProposed = proposal.revision.status === ProfileRevisionStatus.PENDING;
+              console.log("Profile update from chat:", proposal.revision.status, updatedProfile.substring(0, 100) + "...");
             }
           } else {
             console.log("User has no profile description yet, skipping update check");
@@ -1376,22 +3363,326 @@ async function generateCollegeInfoWithGemini(prompt: string, apiKey: string): Pr
         }
         
         // Return the user message, AI response, and profile update status
-        // Citations are now embedded directly in the AI response content
         res.json({
           userMessage: savedMessage,
           aiMessage: savedAiMessage,
           profileUpdated: profileUpdated,
+          profileUpdateProposed: profileUpdateProposed,
           searchQueries: searchQueries
         });
-      } catch (error) {
-        console.error("Error generating AI response:", error);
-        
-        // Return just the user message on error
-        res.json({
-          userMessage: savedMessage,
-          error: "Failed to generate AI response. Please try again."
+      } catch (error) {
+        console.error("Error generating AI response:", error);
+        
+        // Return just the user message on error
+        res.json({
+          userMessage: savedMessage,
+          error: "Failed to generate AI response. Please try again."
+        });
+      }
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Create a new session and stream the AI reply to its first message
+  app.post("/api/chat/messages/stream", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const { content, attachments, useWebSearch, extendThinking } = req.body;
+      
+      if (!content) {
+        return res.status(400).json({ error: "Message content is required" });
+      }
+      
+      // Make sure an LLM provider is available before creating anything
+      if (!llm.isConfigured()) {
+        return res.status(500).json({ error: "API key not configured" });
+      }
+      
+      // Process attachments if any
+      let validatedAttachments = undefined;
+      if (attachments && Array.isArray(attachments) && attachments.length > 0) {
+        try {
+          validatedAttachments = attachments.map(attachment => fileAttachmentSchema.parse(attachment));
+        } catch (error) {
+          console.error("Invalid attachment:", error);
+          return res.status(400).json({ error: "Invalid attachment format" });
+        }
+      }
+      
+      // Clean any "..." markers that might have been added by the client
+      const cleanedContent = content.endsWith("...") ? content.slice(0, -3) : content;
+      
+      // Create the session titled after the first message
+      const session = await dbStorage.createChatSession({
+        userId: req.user.id,
+        title: cleanedContent.length > 30 ? cleanedContent.substring(0, 27) + "..." : cleanedContent
+      });
+      
+      const savedMessage = await dbStorage.createChatMessage(insertChatMessageSchema.parse({
+        sessionId: session.id,
+        content: cleanedContent,
+        sender: "user",
+        attachments: validatedAttachments
+      }));
+      
+      const systemPrompt = await generateChatPrompt(req.user, session);
+      
+      await streamChatReply(
+        res,
+        req.user.id,
+        systemPrompt,
+        savedMessage,
+        [], // Nothing before the first message
+        cleanedContent,
+        validatedAttachments,
+        !!useWebSearch,
+        !!extendThinking,
+        session.id,
+        true
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Send a message in a chat session and stream the AI reply token by token
+  app.post("/api/chat/sessions/:sessionId/messages/stream", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const sessionId = parseInt(req.params.sessionId);
+      const { content, attachments, useWebSearch, extendThinking } = req.body;
+      
+      if (!content) {
+        return res.status(400).json({ error: "Message content is required" });
+      }
+      
+      // Get the session to check ownership
+      const session = await dbStorage.getChatSession(sessionId);
+      
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      
+      if (session.userId !== req.user.id) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+      
+      // Make sure an LLM provider is available
+      if (!llm.isConfigured()) {
+        return res.status(500).json({ 
+          error: "API key not configured",
+          message: `The "${llm.name}" LLM provider is not configured. Please set its API key environment variable or choose another LLM_PROVIDER.` 
+        });
+      }
+      
+      // Process attachments if any
+      let validatedAttachments = undefined;
+      if (attachments && Array.isArray(attachments) && attachments.length > 0) {
+        try {
+          validatedAttachments = attachments.map(attachment => fileAttachmentSchema.parse(attachment));
+        } catch (error) {
+          console.error("Invalid attachment:", error);
+          return res.status(400).json({ error: "Invalid attachment format" });
+        }
+      }
+      
+      // Clean any "..." markers that might have been added by the client
+      const cleanedContent = content.endsWith("...") ? content.slice(0, -3) : content;
+      
+      const savedMessage = await dbStorage.createChatMessage(insertChatMessageSchema.parse({
+        sessionId,
+        content: cleanedContent,
+        sender: "user",
+        attachments: validatedAttachments
+      }));
+      
+      // Title the session after its first message and get previous messages on this branch for context
+      const messages = await dbStorage.getChatMessages(sessionId);
+      if (messages.length === 1 && messages[0].id === savedMessage.id) {
+        const truncatedMessage = cleanedContent.length > 30 
+          ? cleanedContent.substring(0, 27) + "..." 
+          : cleanedContent;
+        await dbStorage.updateChatSessionTitle(sessionId, truncatedMessage);
+      }
+      const previousMessages = getChatBranch(messages, savedMessage.parentId);
+      
+      const systemPrompt = await generateChatPrompt(req.user, session);
+      
+      await streamChatReply(
+        res,
+        req.user.id,
+        systemPrompt,
+        savedMessage,
+        previousMessages,
+        cleanedContent,
+        validatedAttachments,
+        !!useWebSearch,
+        !!extendThinking,
+        sessionId,
+        false
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Edit a sent message: the new text becomes another version of it, and the reply is streamed as above
+  app.post("/api/chat/sessions/:sessionId/messages/:messageId/edit/stream", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const sessionId = parseInt(req.params.sessionId);
+      const { content, useWebSearch, extendThinking } = req.body;
+      
+      if (!content || !content.trim()) {
+        return res.status(400).json({ error: "Message content is required" });
+      }
+      
+      const session = await dbStorage.getChatSession(sessionId);
+      
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      
+      if (session.userId !== req.user.id) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+      
+      const messages = await dbStorage.getChatMessages(sessionId);
+      const original = messages.find(message => message.id === parseInt(req.params.messageId));
+      if (!original || original.sender !== "user") {
+        return res.status(404).json({ error: "Message not found" });
+      }
+      
+      if (!llm.isConfigured()) {
+        return res.status(500).json({ 
+          error: "API key not configured",
+          message: `The "${llm.name}" LLM provider is not configured. Please set its API key environment variable or choose another LLM_PROVIDER.` 
+        });
+      }
+      
+      // The edit keeps the original's attachments
+      const attachments = original.attachments?.length ? original.attachments : undefined;
+      const savedMessage = await dbStorage.createChatMessage(insertChatMessageSchema.parse({
+        sessionId,
+        content: content.trim(),
+        sender: "user",
+        parentId: original.parentId,
+        attachments
+      }));
+      
+      const systemPrompt = await generateChatPrompt(req.user, session);
+      
+      await streamChatReply(
+        res,
+        req.user.id,
+        systemPrompt,
+        savedMessage,
+        getChatBranch(messages, original.parentId),
+        savedMessage.content,
+        attachments,
+        !!useWebSearch,
+        !!extendThinking,
+        sessionId,
+        false
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Generate another version of an AI reply to the same user message, streamed as above
+  app.post("/api/chat/sessions/:sessionId/messages/:messageId/regenerate/stream", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const sessionId = parseInt(req.params.sessionId);
+      const { useWebSearch, extendThinking } = req.body;
+      
+      const session = await dbStorage.getChatSession(sessionId);
+      
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      
+      if (session.userId !== req.user.id) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+      
+      const messages = await dbStorage.getChatMessages(sessionId);
+      const reply = messages.find(message => message.id === parseInt(req.params.messageId));
+      const userMessage = reply?.parentId != null ? messages.find(message => message.id === reply.parentId) : undefined;
+      if (!reply || reply.sender !== "ai" || !userMessage) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+      
+      if (!llm.isConfigured()) {
+        return res.status(500).json({ 
+          error: "API key not configured",
+          message: `The "${llm.name}" LLM provider is not configured. Please set its API key environment variable or choose another LLM_PROVIDER.` 
         });
       }
+      
+      const systemPrompt = await generateChatPrompt(req.user, session);
+      
+      await streamChatReply(
+        res,
+        req.user.id,
+        systemPrompt,
+        userMessage,
+        getChatBranch(messages, userMessage.parentId),
+        userMessage.content,
+        userMessage.attachments?.length ? userMessage.attachments : undefined,
+        !!useWebSearch,
+        !!extendThinking,
+        sessionId,
+        false,
+        false // The profile already saw this message the first time
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Show another version of a message, along with the latest conversation that continued from it
+  app.patch("/api/chat/sessions/:sessionId/active-message", async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    try {
+      const sessionId = parseInt(req.params.sessionId);
+      const messageId = parseInt(req.body.messageId);
+      
+      const session = await dbStorage.getChatSession(sessionId);
+      
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      
+      if (session.userId !== req.user.id) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+      
+      const messages = await dbStorage.getChatMessages(sessionId);
+      if (!messages.some(message => message.id === messageId)) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+      
+      await dbStorage.setActiveChatMessage(sessionId, getLatestDescendant(messages, messageId));
+      
+      res.json(await getActiveChatBranch(sessionId));
     } catch (error) {
       next(error);
     }
@@ -1404,7 +3695,7 @@ async function generateCollegeInfoWithGemini(prompt: string, apiKey: string): Pr
 }
 
 // Generate a prompt for a student profile
-function generatePrompt(username: string, onboarding: OnboardingResponses): string {
+function generatePrompt(username: string, onboarding: OnboardingResponses, academicRecord: AcademicRecord): string {
   return `
 You are CollegeWayfarer, an AI assistant specializing in helping high school students with college applications.
 
@@ -1413,10 +3704,12 @@ Student's academic interests: ${onboarding.programs}
 Academic environment preferences: ${onboarding.academicEnv}
 Location preferences: ${onboarding.location}
 Campus culture preferences: ${onboarding.culture}
-Academic achievements: ${onboarding.academicStats}
 Financial aid needs: ${onboarding.financialAid}
 Other considerations: ${onboarding.other}
 
+ACADEMIC RECORD:
+${formatAcademicRecord(academicRecord)}
+
 INSTRUCTIONS:
 Write a concise, professionally written initial student profile/summary based on the information the student provided. 
 The profile should be written in the third person and should highlight the student's academic strengths, 
@@ -1436,8 +3729,7 @@ Write ONLY the profile text with no additional commentary. Start the description
 async function checkForProfileUpdate(
   currentProfile: string,
   userMessage: string,
-  previousMessages: any[],
-  apiKey: string
+  previousMessages: any[]
 ): Promise<string | null> {
   try {
     // Process all messages for potential profile updates
@@ -1466,176 +3758,485 @@ async function checkForProfileUpdate(
       - Test scores, GPA, or academic performance
       - Personal preferences about college environment, culture, etc.
 
-      --
+      --
+
+      IF: there is new information to add or remove:
+      Return an UPDATED version of the entire profile description that incorporates these changes naturally. JUST PRINT THE UPDATED PROFILE TEXT. DO NOT add any extra formatting text or notes that you have updated it.
+
+      If there is NO new information:
+      Just return NULL (the literal word) - nothing else
+
+      DO NOT invent information or make assumptions. Only include information explicitly stated by the user.
+      Remember, return ONLY the updated text of the profile or NULL. NOTHING EXTRA.
+      `;
+    
+    // Call the LLM provider
+    const response = await llm.generate(promptRequest("profileUpdate", prompt, {
+      topP: 0.9
+    }));
+    
+    const responseText = response.text;
+    
+    // If the response indicates no updates needed, return null
+    if (responseText.includes("NULL")) {
+      return null;
+    }
+    
+    // Otherwise, return the updated profile
+    return responseText;
+  } catch (error) {
+    console.error("Error checking for profile updates:", error);
+    return null;
+  }
+}
+
+// Generate a profile using the LLM provider
+async function generateProfile(prompt: string): Promise<string> {
+  try {
+    console.log(`Calling ${llm.name} provider to generate profile...`);
+    
+    const response = await llm.generate(promptRequest("profile", prompt, {
+      temperature: 0.9,
+      topP: 0.8,
+      topK: 40
+    }));
+    
+    const profileText = response.text;
+    
+    if (!profileText || profileText.trim().length === 0) {
+      console.error("Empty profile text generated");
+      throw new Error("Empty profile text generated");
+    }
+    
+    console.log("Profile generated successfully. Length:", profileText.length);
+    console.log("First 100 characters:", profileText.substring(0, 100) + "...");
+    return profileText;
+  } catch (error: any) {
+    console.error("Error generating profile:", error);
+    console.error("Error stack:", error.stack || "No stack trace available");
+    throw new Error("Failed to generate profile: " + (error.message || "Unknown error"));
+  }
+}
+
+// Incomplete tasks that are overdue or due within the given number of days, soonest first
+function getUpcomingTasks(tasks: CollegeTask[], days: number): CollegeTask[] {
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() + days);
+  
+  return tasks
+    .filter(task => !task.isCompleted && task.dueDate && new Date(task.dueDate) <= cutoff)
+    .sort((a, b) => new Date(a.dueDate!).getTime() - new Date(b.dueDate!).getTime());
+}
+
+// Summarize overdue and upcoming application tasks for the chat system prompt
+async function describeApplicationDeadlines(userId: number): Promise<string> {
+  const tasks = getUpcomingTasks(await dbStorage.getCollegeTasks(userId), 14);
+  
+  if (tasks.length === 0) {
+    return "No overdue or upcoming application tasks.";
+  }
+  
+  const collegeNames = new Map((await dbStorage.getColleges(userId)).map(college => [college.id, college.name]));
+  const now = new Date();
+  
+  return tasks.map(task => {
+    const dueDate = new Date(task.dueDate!);
+    const label = dueDate < now ? "OVERDUE" : "Due";
+    return `- ${label} ${dueDate.toDateString()}: ${task.title} (${collegeNames.get(task.collegeId) || "Unknown college"})`;
+  }).join("\n");
+}
+
+// Generate a prompt for chat
+async function generateChatPrompt(user: any, session: any): Promise<string> {
+  try {
+    // Get the user's profile description if it exists
+    const userData = await dbStorage.getUser(user.id);
+    const profileDescription = userData?.profileDescription || "No profile information available";
+    const academicRecord = formatAcademicRecord(userData ? getUserAcademicRecord(userData) : emptyAcademicRecord());
+    const deadlines = await describeApplicationDeadlines(user.id);
+    const collegeNotes = await describeDiscussedCollegeNotes(user.id, session.id);
+    const activities = await describeActivities(user.id);
+    
+    return `
+You are CollegeWayfarer, an AI assistant designed to help high school students with college planning and application processes.
+
+STUDENT PROFILE:
+"""
+${profileDescription}
+"""
+
+ACADEMIC RECORD:
+${academicRecord}
+
+ACTIVITIES (in the student's order of importance):
+${activities || "None added yet."}
+
+APPLICATION DEADLINES (overdue and next two weeks):
+${deadlines}
+${collegeNotes ? `
+STUDENT'S OWN NOTES ON COLLEGES IN THIS CONVERSATION:
+${collegeNotes}
+` : ""}
+GUIDELINES:
+1. Be friendly, supportive, and encouraging in your responses.
+2. Give accurate, well-informed advice about colleges, majors, application processes, and college life.
+3. Base your recommendations on the student's profile information when possible.
+4. When the student mentions specific colleges, provide helpful information about them.
+5. Never make up false information about colleges. If you're unsure, acknowledge your limitations.
+6. Encourage students to research and verify critical information independently.
+7. Maintain a positive, growth-oriented mindset when discussing grades and test scores.
+8. Respect the student's preferences and goals, even if they differ from conventional wisdom.
+9. Provide balanced perspectives that consider multiple factors (academics, campus life, location, cost, etc.).
+10. If any application tasks are overdue or due soon, gently remind the student when it's relevant to the conversation.
+11. When the student has notes on a college you're discussing, build on what they liked and disliked instead of repeating generic facts.
+
+Current conversation: ${session.title}
+
+Respond to the user's questions and messages as CollegeWayfarer following the guidelines above.
+`;
+  } catch (error) {
+    console.error("Error generating chat prompt:", error);
+    // Fallback to a basic prompt if there's an error
+    return `
+You are CollegeWayfarer, an AI assistant designed to help high school students with college planning and application processes.
+
+GUIDELINES:
+1. Be friendly, supportive, and encouraging in your responses.
+2. Give accurate, well-informed advice about colleges, majors, application processes, and college life.
+3. Never make up false information about colleges. If you're unsure, acknowledge your limitations.
+4. Maintain a positive, growth-oriented mindset when discussing grades and test scores.
+
+Respond to the user's questions and messages as CollegeWayfarer following the guidelines above.
+`;
+  }
+}
+
+// How far back college list changes show up on an advisor's caseload
+const CASELOAD_RECENT_DAYS = 14;
+
+// Summarize one student on an advisor account's caseload: last activity and recent college list changes
+async function describeCaseloadStudent(link: Advisor): Promise<CaseloadStudent | null> {
+  const student = await dbStorage.getUser(link.userId);
+  if (!student) {
+    return null;
+  }
+  
+  const summary: CaseloadStudent = {
+    advisorId: link.id,
+    shareToken: link.shareToken,
+    relationship: link.type,
+    // Expired and used-up links can't be opened, so they count as inactive
+    isActive: getShareLinkProblem(link) === null,
+    username: student.username,
+    lastActivityAt: null,
+    collegeCounts: {},
+    recentCollegeChanges: []
+  };
+  
+  // The link no longer works, so don't show anything beyond who the student is
+  if (!summary.isActive) {
+    return summary;
+  }
+  
+  const { collegeStatuses } = link.permissions;
+  collegeStatuses.forEach(status => {
+    summary.collegeCounts[status] = 0;
+  });
+  
+  // Only the chats and essays shared with this advisor count towards last activity
+  const [allColleges, sessions, essays, allTasks] = await Promise.all([
+    dbStorage.getColleges(student.id),
+    dbStorage.getSharedChatSessionsForAdvisor(link.shareToken),
+    dbStorage.getSharedEssaysForAdvisor(link.shareToken),
+    dbStorage.getCollegeTasks(student.id)
+  ]);
+  
+  // Only the college lists the student shares with this advisor, and those colleges' tasks
+  const colleges = allColleges.filter(college => collegeStatuses.includes(college.status));
+  const tasks = allTasks.filter(task => colleges.some(college => college.id === task.collegeId));
+  
+  const activityTimes = [...colleges, ...sessions, ...essays, ...tasks]
+    .map(item => new Date(item.updatedAt).getTime());
+  if (activityTimes.length > 0) {
+    summary.lastActivityAt = new Date(Math.max(...activityTimes)).toISOString();
+  }
+  
+  colleges.forEach(college => {
+    summary.collegeCounts[college.status] = (summary.collegeCounts[college.status] || 0) + 1;
+  });
+  
+  const since = Date.now() - CASELOAD_RECENT_DAYS * 24 * 60 * 60 * 1000;
+  summary.recentCollegeChanges = colleges
+    .filter(college => new Date(college.updatedAt).getTime() >= since)
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+    .slice(0, 5)
+    .map(college => ({
+      id: college.id,
+      name: college.name,
+      status: college.status,
+      isNew: new Date(college.createdAt).getTime() >= since,
+      updatedAt: new Date(college.updatedAt).toISOString()
+    }));
+  
+  return summary;
+}
+
+// Check a list of college ids from a request: each must be one of the user's colleges. Returns null if not.
+async function validateCollegeIds(userId: number, collegeIds: unknown): Promise<number[] | null> {
+  if (!Array.isArray(collegeIds) || !collegeIds.every(id => Number.isInteger(id))) {
+    return null;
+  }
+  
+  const colleges = await dbStorage.getColleges(userId);
+  if (!collegeIds.every(id => colleges.some(college => college.id === id))) {
+    return null;
+  }
+  
+  return Array.from(new Set(collegeIds as number[]));
+}
+
+// How long opening a shared profile lets that browser keep using the page past the view limit
+const SHARED_VIEW_GRANT_MS = 2 * 60 * 60 * 1000;
+
+// Whether a share link's expiry date has passed
+function isShareLinkExpired(advisor: Advisor): boolean {
+  return advisor.expiresAt !== null && new Date(advisor.expiresAt).getTime() <= Date.now();
+}
+
+// Why a share link can't be opened right now, or null if it can. A browser holding a view
+// grant from opening the profile is let past the view limit, but not past deactivation or expiry.
+function getShareLinkProblem(advisor: Advisor, hasViewGrant = false): string | null {
+  if (!advisor.isActive) {
+    return "This share link has been deactivated";
+  }
+  if (isShareLinkExpired(advisor)) {
+    return "This share link has expired";
+  }
+  if (!hasViewGrant && advisor.maxViews !== null && advisor.viewCount >= advisor.maxViews) {
+    return "This share link has reached its view limit";
+  }
+  return null;
+}
+
+// Remember in the visitor's session that they opened this link's profile, so the page they
+// have open can keep loading chats and essays for a while after the view limit is reached
+function grantSharedView(req: Request, advisor: Advisor) {
+  req.session.sharedViewGrants = {
+    ...req.session.sharedViewGrants,
+    [advisor.id]: Date.now() + SHARED_VIEW_GRANT_MS
+  };
+}
+
+function hasSharedViewGrant(req: Request, advisor: Advisor): boolean {
+  const expiresAt = req.session.sharedViewGrants?.[advisor.id];
+  return expiresAt !== undefined && expiresAt > Date.now();
+}
+
+// Look up the share link behind a request from the shared page, logging the hit whether or not
+// it's allowed. Sends the error response and returns null if the link can't be used.
+async function authorizeSharedRequest(req: Request, res: Response): Promise<Advisor | null> {
+  const advisor = await dbStorage.getAdvisorByShareToken(req.params.shareToken);
+  if (!advisor) {
+    res.status(404).json({ error: "Advisor not found" });
+    return null;
+  }
+  
+  const problem = getShareLinkProblem(advisor, hasSharedViewGrant(req, advisor));
+  await dbStorage.createAdvisorAccessLog({
+    advisorId: advisor.id,
+    userAgent: req.get("user-agent") || null,
+    allowed: problem === null
+  });
+  
+  if (problem) {
+    res.status(advisor.isActive ? 410 : 404).json({ error: problem });
+    return null;
+  }
+  
+  return advisor;
+}
+
+// Whether the chat session or essay a comment is on is still shared with the advisor
+async function isCommentTargetShared(shareToken: string, comment: AdvisorComment): Promise<boolean> {
+  if (comment.chatSessionId !== null) {
+    const sessions = await dbStorage.getSharedChatSessionsForAdvisor(shareToken);
+    return sessions.some(session => session.id === comment.chatSessionId);
+  }
+  
+  if (comment.essayId !== null) {
+    const essays = await dbStorage.getSharedEssaysForAdvisor(shareToken);
+    return essays.some(essay => essay.id === comment.essayId);
+  }
+  
+  return false;
+}
+
+// Save the essay's current draft as a revision, reusing the latest one if nothing changed
+async function saveEssayRevision(essay: Essay) {
+  const revisions = await dbStorage.getEssayRevisions(essay.id);
+  const latest = revisions[0];
+  
+  if (latest && latest.content === essay.content) {
+    return latest;
+  }
+  
+  return dbStorage.createEssayRevision({
+    essayId: essay.id,
+    content: essay.content,
+    wordCount: countWords(essay.content)
+  });
+}
+
+// Generate a prompt for rubric-style essay feedback
+function generateEssayFeedbackPrompt(essay: Essay, profileDescription: string, collegeName: string | null): string {
+  const wordCount = countWords(essay.content);
+  
+  return `
+You are an experienced college admissions essay coach reviewing a student's draft.
+
+STUDENT PROFILE:
+"""
+${profileDescription || "No profile information available."}
+"""
+
+ESSAY DETAILS:
+- For: ${collegeName || "Common App"}
+- Prompt: ${essay.prompt || "No prompt provided."}
+- Word limit: ${essay.wordLimit ? essay.wordLimit : "None given"}
+- Current word count: ${wordCount}${essay.wordLimit && wordCount > essay.wordLimit ? " (OVER THE LIMIT)" : ""}
 
-      IF: there is new information to add or remove:
-      Return an UPDATED version of the entire profile description that incorporates these changes naturally. JUST PRINT THE UPDATED PROFILE TEXT. DO NOT add any extra formatting text or notes that you have updated it.
+DRAFT:
+"""
+${essay.content}
+"""
 
-      If there is NO new information:
-      Just return NULL (the literal word) - nothing else
+INSTRUCTIONS:
+Give feedback in markdown using exactly these sections, scoring each rubric item from 1 to 5:
+## Rubric
+- **Answers the prompt** (score/5): one or two sentences.
+- **Personal voice and authenticity** (score/5): one or two sentences.
+- **Specific detail and storytelling** (score/5): one or two sentences.
+- **Structure and flow** (score/5): one or two sentences.
+- **Grammar and style** (score/5): one or two sentences.
+## Strengths
+2-3 bullet points, quoting the draft where helpful.
+## Top revisions
+3-5 concrete, prioritized suggestions. Mention the word limit if the draft is over it.
 
-      DO NOT invent information or make assumptions. Only include information explicitly stated by the user.
-      Remember, return ONLY the updated text of the profile or NULL. NOTHING EXTRA.
-      `;
-    
-    // Call the Gemini API
-    const response = await generateAIResponse(prompt, [], "", apiKey);
-    
-    // Get the text from the response (whether it's a string or AIResponseWithCitations)
-    const responseText = typeof response === 'string' 
-      ? response 
-      : response.text;
-    
-    // If the response indicates no updates needed, return null
-    if (responseText.includes("NULL")) {
-      return null;
-    }
-    
-    // Otherwise, return the updated profile
-    return responseText;
-  } catch (error) {
-    console.error("Error checking for profile updates:", error);
-    return null;
-  }
+Use the student profile to point out experiences or qualities the essay could draw on, but never invent facts about the student and never rewrite the essay for them.
+`;
 }
 
-// Generate a profile using Gemini API
-async function generateProfileWithGemini(prompt: string, apiKey: string): Promise<string> {
+// Ask the LLM provider for essay feedback
+async function generateEssayFeedback(prompt: string): Promise<string> {
   try {
-    console.log("Calling Gemini API to generate profile...");
-    
-    const requestBody = {
-      contents: [
-        {
-          parts: [
-            {
-              text: prompt
-            }
-          ]
-        }
-      ],
-      generationConfig: {
-        temperature: 0.9,
-        topP: 0.8,
-        topK: 40
-      }
-    };
-    
-    console.log("Request config:", JSON.stringify({
-      url: "https://generativelanguage.googleapis.com/v1/models/gemini-2.0-flash:generateContent",
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-goog-api-key": "API_KEY_HIDDEN"
-      },
-      body: {
-        ...requestBody,
-        contents: [
-          {
-            parts: [
-              {
-                text: prompt.substring(0, 100) + "..." // Just show a sample of the prompt
-              }
-            ]
-          }
-        ]
-      }
+    const response = await llm.generate(promptRequest("essayFeedback", prompt, {
+      temperature: 0.7,
+      topP: 0.8,
+      topK: 40
     }));
     
-    const response = await fetch("https://generativelanguage.googleapis.com/v1/models/gemini-2.0-flash:generateContent", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-goog-api-key": apiKey
-      },
-      body: JSON.stringify(requestBody)
-    });
-    
-    // Check response status first
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("Gemini API error status:", response.status, errorText);
-      throw new Error(`Gemini API error (${response.status}): ${errorText}`);
-    }
-    
-    const data = await response.json();
-    console.log("Gemini API response received:", JSON.stringify(data).substring(0, 200) + "...");
-    
-    // Validate the response structure
-    if (!data.candidates || !data.candidates.length) {
-      console.error("No candidates in Gemini response:", JSON.stringify(data));
-      throw new Error("No generation candidates returned from Gemini API");
-    }
-    
-    if (!data.candidates[0].content || !data.candidates[0].content.parts || !data.candidates[0].content.parts.length) {
-      console.error("Invalid response structure from Gemini API:", JSON.stringify(data));
-      throw new Error("Invalid response structure from Gemini API");
-    }
-    
-    const profileText = data.candidates[0].content.parts[0].text;
-    
-    if (!profileText || profileText.trim().length === 0) {
-      console.error("Empty profile text generated from response:", JSON.stringify(data));
-      throw new Error("Empty profile text generated");
-    }
-    
-    console.log("Profile generated successfully. Length:", profileText.length);
-    console.log("First 100 characters:", profileText.substring(0, 100) + "...");
-    return profileText;
+    console.log("Essay feedback generated. Length:", response.text.length);
+    return response.text.trim();
   } catch (error: any) {
-    console.error("Error generating profile with Gemini API:", error);
-    console.error("Error stack:", error.stack || "No stack trace available");
-    throw new Error("Failed to generate profile: " + (error.message || "Unknown error"));
+    console.error("Error generating essay feedback:", error);
+    throw new Error("Failed to generate essay feedback: " + (error.message || "Unknown error"));
   }
 }
 
-// Generate a prompt for chat
-async function generateChatPrompt(user: any, session: any): Promise<string> {
+// Generate a prompt for reading a financial aid award letter
+function generateAwardLetterPrompt(collegeName: string): string {
+  return `
+You are a financial aid expert reading a student's financial aid award letter from ${collegeName}.
+
+INSTRUCTIONS:
+Extract the yearly figures from the attached letter and return ONLY a JSON object with this structure:
+{
+  "isAwardLetter": true,
+  "academicYear": "2026-27",
+  "costOfAttendance": 58000,
+  "statedTotalAid": 41000,
+  "items": [
+    { "name": "Name as written on the letter", "type": "grant", "amount": 20000 }
+  ]
+}
+
+- "costOfAttendance" is the total yearly cost including tuition, fees, housing, food and books, or null if the letter doesn't give one.
+- "statedTotalAid" is the letter's own total of its aid package, or null if it doesn't give one.
+- "type" is one of: "grant", "scholarship", "work_study", "loan" (any loan the student borrows), "parent_loan" (Parent PLUS or other loans to parents), "other".
+- Classify by what the money is, not by how the letter presents it: a loan is a loan even when it's listed as an "award".
+- Use yearly amounts in whole dollars. If the letter gives amounts per term, add them up for the year.
+- Leave out aid the letter says was declined.
+- If the file isn't a financial aid award letter, return {"isAwardLetter": false, "items": []}.
+`;
+}
+
+// Ask the LLM provider to read an award letter. Returns null when the file isn't one.
+async function parseAwardLetter(collegeName: string, attachment: FileAttachment): Promise<ParsedAwardLetter | null> {
   try {
-    // Get the user's profile description if it exists
-    const userData = await dbStorage.getUser(user.id);
-    const profileDescription = userData?.profileDescription || "No profile information available";
+    const response = await llm.generate({
+      task: "awardLetter",
+      messages: [{ role: "user", parts: buildMessageParts(generateAwardLetterPrompt(collegeName), [attachment]) }],
+      temperature: 0.1
+    });
     
-    return `
-You are CollegeWayfarer, an AI assistant designed to help high school students with college planning and application processes.
+    console.log("Award letter response:", response.text.substring(0, 100) + "...");
+    return parseAwardLetterResponse(response.text);
+  } catch (error: any) {
+    console.error("Error reading award letter:", error);
+    throw new Error("Failed to read award letter: " + (error.message || "Unknown error"));
+  }
+}
 
-STUDENT PROFILE:
+// Generate a prompt for tightening an activity description to the Common App's limit
+function generateActivityDescriptionPrompt(activity: Activity): string {
+  return `
+You are a college admissions counselor helping a student polish one entry in the Common App activities section.
+
+ACTIVITY:
+- Type: ${ActivityTypeLabels[activity.type]}
+- Position/leadership: ${activity.role || "Not given"}
+- Organization: ${activity.organization || "Not given"}
+
+CURRENT DESCRIPTION (${activity.description.length} characters):
 """
-${profileDescription}
+${activity.description}
 """
 
-GUIDELINES:
-1. Be friendly, supportive, and encouraging in your responses.
-2. Give accurate, well-informed advice about colleges, majors, application processes, and college life.
-3. Base your recommendations on the student's profile information when possible.
-4. When the student mentions specific colleges, provide helpful information about them.
-5. Never make up false information about colleges. If you're unsure, acknowledge your limitations.
-6. Encourage students to research and verify critical information independently.
-7. Maintain a positive, growth-oriented mindset when discussing grades and test scores.
-8. Respect the student's preferences and goals, even if they differ from conventional wisdom.
-9. Provide balanced perspectives that consider multiple factors (academics, campus life, location, cost, etc.).
-
-Current conversation: ${session.title}
+INSTRUCTIONS:
+Rewrite the description in at most ${ACTIVITY_DESCRIPTION_LIMIT} characters, counting spaces.
+- Lead with strong verbs and concrete results, using numbers where the original gives them.
+- Drop filler words, "I", and anything already said by the position or organization.
+- Sentence fragments and semicolons are fine; this is how strong activity descriptions read.
+- Keep every fact true to the original. Never invent results, numbers or honors.
 
-Respond to the user's questions and messages as CollegeWayfarer following the guidelines above.
+Return ONLY the rewritten description, with no quotes or commentary.
 `;
-  } catch (error) {
-    console.error("Error generating chat prompt:", error);
-    // Fallback to a basic prompt if there's an error
-    return `
-You are CollegeWayfarer, an AI assistant designed to help high school students with college planning and application processes.
-
-GUIDELINES:
-1. Be friendly, supportive, and encouraging in your responses.
-2. Give accurate, well-informed advice about colleges, majors, application processes, and college life.
-3. Never make up false information about colleges. If you're unsure, acknowledge your limitations.
-4. Maintain a positive, growth-oriented mindset when discussing grades and test scores.
+}
 
-Respond to the user's questions and messages as CollegeWayfarer following the guidelines above.
-`;
+// Ask the LLM provider for a tighter activity description, asking once more if it runs over the limit
+async function tightenActivityDescription(activity: Activity): Promise<string> {
+  try {
+    let suggestion = "";
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const draft = attempt === 0 ? activity : { ...activity, description: suggestion };
+      const response = await llm.generate(promptRequest("activityDescription", generateActivityDescriptionPrompt(draft), {
+        temperature: 0.4
+      }));
+      suggestion = parseTightenedDescription(response.text);
+      if (suggestion.length <= ACTIVITY_DESCRIPTION_LIMIT) break;
+    }
+    return suggestion;
+  } catch (error: any) {
+    console.error("Error tightening activity description:", error);
+    throw new Error("Failed to tighten activity description: " + (error.message || "Unknown error"));
   }
 }
 
+// How many recommendations to save per request, and how many times to ask the model for them
+const RECOMMENDATION_COUNT = 3;
+const RECOMMENDATION_ROUNDS = 3;
+
 // Generate a prompt for college recommendations
 function generateRecommendationPrompt(
   profileDescription: string,
@@ -1643,7 +4244,11 @@ function generateRecommendationPrompt(
   applyingColleges: string[],
   researchingColleges: string[],
   notApplyingColleges: string[],
-  currentRecommendations: string[] = []
+  currentRecommendations: string[] = [],
+  unknownColleges: string[] = [],
+  fitBalance: string = "",
+  affordability: string = "",
+  activities: string = ""
 ): string {
   return `
 You are a college counselor tasked with generating personalized college recommendations.
@@ -1653,6 +4258,10 @@ STUDENT PROFILE:
 ${profileDescription || "No profile information available."}
 """
 
+${activities ? `
+ACTIVITIES (in the student's order of importance):
+${activities}
+` : ""}
 STUDENT'S SPECIFIC REQUEST:
 """
 ${preference || "The student didn't specify any particular preference."}
@@ -1663,11 +4272,20 @@ CURRENT COLLEGE LISTS:
 - Currently researching: ${researchingColleges.length > 0 ? researchingColleges.join(", ") : "None"}
 - Decided not to apply to: ${notApplyingColleges.length > 0 ? notApplyingColleges.join(", ") : "None"}
 - Current recommendations: ${currentRecommendations.length > 0 ? currentRecommendations.join(", ") : "None"}
-
+${fitBalance ? `
+LIST BALANCE:
+Colleges in parentheses are labeled reach, target or likely for this student. Their applying and researching lists have ${fitBalance}.
+` : ""}${affordability ? `
+AFFORDABILITY:
+${affordability}
+` : ""}${unknownColleges.length > 0 ? `
+NOT FOUND IN OUR COLLEGE DATABASE (do not suggest these again):
+${unknownColleges.join(", ")}
+` : ""}
 INSTRUCTIONS:
 1. Generate exactly 3 college recommendations that would be a good fit for this student.
 2. For each college, provide:
-   - The name of the college
+   - The full official name of the college (no abbreviations)
    - A brief description (2-3 sentences) of what the college is known for
    - 2-3 specific reasons why this might be a good match for the student, referring to details from their profile
    - An estimated acceptance rate (as a percentage between 0-100)
@@ -1687,546 +4305,190 @@ INSTRUCTIONS:
 4. Make thoughtful recommendations that:
    - Are not already in the student's current college lists
    - Are not already in the student's current recommendations list
-   - Match the student's academic profile and interests
+   - Match the student's academic profile and interests, including programs and communities that fit their activities
    - Consider the student's preference if they specified one
+   - Fill gaps in the list balance: a balanced list has a few reaches, several targets and at least two likely schools
+   - Are likely to be affordable for the student's family if affordability information is given, favoring colleges with generous need-based or merit aid
+   - Are real, accredited colleges that currently enroll undergraduates
    - Unless the student specifically requests otherwise, should prioritize schools that the student might like that are not highly selective. In general, be skeptical to recommend highly selective schools.
 
 Return ONLY the JSON array, with no other text or commentary.
 `;
 }
 
-// Generate college recommendations using Gemini API
-async function generateCollegeRecommendationsWithGemini(prompt: string, apiKey: string): Promise<any[]> {
+// Generate college recommendations using the LLM provider
+async function generateCollegeRecommendations(prompt: string): Promise<any[]> {
   try {
-    const response = await fetch("https://generativelanguage.googleapis.com/v1/models/gemini-2.0-flash:generateContent", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-goog-api-key": apiKey
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              {
-                text: prompt
-              }
-            ]
-          }
-        ],
-        generationConfig: {
-          temperature: 0.9,
-          topP: 0.8,
-          topK: 40
-        }
-      })
-    });
-    
-    const data = await response.json();
+    const response = await llm.generate(promptRequest("recommendations", prompt, {
+      temperature: 0.9,
+      topP: 0.8,
+      topK: 40
+    }));
     
-    if (!response.ok) {
-      console.error("Gemini API error:", data);
-      throw new Error(`Gemini API error: ${JSON.stringify(data)}`);
-    }
+    const responseText = response.text;
+    console.log("Raw recommendations response:", responseText.substring(0, 100) + "...");
     
-    if (data.candidates && data.candidates[0] && data.candidates[0].content && data.candidates[0].content.parts) {
-      const responseText = data.candidates[0].content.parts[0].text;
-      console.log("Raw Gemini response:", responseText.substring(0, 100) + "...");
-      
-      try {
-        // Clean up the response text to handle markdown formatting
-        let cleanedText = responseText;
-        
-        // Check if response is wrapped in markdown code blocks
-        if (responseText.includes("```json") || responseText.includes("```")) {
-          // Extract just the JSON content from code blocks
-          const jsonMatch = responseText.match(/```(?:json)?\s*([\s\S]*?)```/);
-          if (jsonMatch && jsonMatch[1]) {
-            cleanedText = jsonMatch[1].trim();
-            console.log("Extracted JSON from code blocks:", cleanedText.substring(0, 100) + "...");
-          }
+    try {
+      // Clean up the response text to handle markdown formatting
+      let cleanedText = responseText;
+      
+      // Check if response is wrapped in markdown code blocks
+      if (responseText.includes("```json") || responseText.includes("```")) {
+        // Extract just the JSON content from code blocks
+        const jsonMatch = responseText.match(/```(?:json)?\s*([\s\S]*?)```/);
+        if (jsonMatch && jsonMatch[1]) {
+          cleanedText = jsonMatch[1].trim();
+          console.log("Extracted JSON from code blocks:", cleanedText.substring(0, 100) + "...");
         }
-        
-        // Try to parse the cleaned JSON response
-        const recommendations = JSON.parse(cleanedText);
-        return recommendations;
-      } catch (parseError) {
-        console.error("Error parsing Gemini response as JSON:", parseError);
-        throw new Error("Failed to parse recommendations. The AI didn't return valid JSON.");
       }
-    } else {
-      throw new Error("Unexpected response format from Gemini API");
+      
+      // Try to parse the cleaned JSON response
+      const recommendations = JSON.parse(cleanedText);
+      return recommendations;
+    } catch (parseError) {
+      console.error("Error parsing recommendations response as JSON:", parseError);
+      throw new Error("Failed to parse recommendations. The AI didn't return valid JSON.");
     }
   } catch (error) {
-    console.error("Error calling Gemini API for recommendations:", error);
+    console.error("Error generating recommendations:", error);
     throw new Error("Failed to generate college recommendations");
   }
 }
 
-// Define Gemini API message part type
-interface GeminiMessagePart {
-  text?: string;
-  inline_data?: {
-    mime_type: string;
-    data: string;
-  };
-}
-
-// Define interfaces for Gemini API responses
-interface WebCitation {
-  title: string;
-  uri: string;
-  snippet?: string;
-}
-
+// Shape returned to the chat routes
 interface AIResponseWithCitations {
   text: string;
-  // Citations are now embedded directly in the text
+  // Stored on the AI message so clients can render footnotes and a sources list
+  citations: WebCitation[];
+  citationSupports: CitationSupport[];
   searchQueries: string[] | null;
 }
 
-// Generate a response from Gemini using chat history
+// Turn a message and its attachments into provider-neutral content parts
+function buildMessageParts(
+  text: string,
+  attachments?: { filename: string; url: string; contentType: string; size: number }[] | null
+): LLMPart[] {
+  const parts: LLMPart[] = [{ text }];
+  
+  if (!attachments || attachments.length === 0) {
+    return parts;
+  }
+  
+  for (const attachment of attachments) {
+    try {
+      // Handle both formats: '/uploads/file-xyz.jpg' and just 'file-xyz.jpg'
+      const filename = path.basename(attachment.url);
+      const filepath = path.join(uploadDir, filename);
+      
+      const isImage = attachment.contentType.startsWith('image/');
+      const isPdf = attachment.contentType === 'application/pdf';
+      const isText = attachment.contentType === 'text/plain';
+      const label = isImage ? "Image attachment" : isPdf ? "PDF attachment" : "Text file attachment";
+      
+      if (!isImage && !isPdf && !isText) {
+        // For other file types, just mention them in the text
+        parts.push({ text: `[Attached file: ${attachment.filename}]` });
+        continue;
+      }
+      
+      console.log(`Processing attachment: ${filename} from URL: ${attachment.url}`);
+      
+      if (!fs.existsSync(filepath)) {
+        console.error(`File not found: ${filepath}`);
+        parts.push({ text: `[${label}: ${attachment.filename} (file not found)]` });
+        continue;
+      }
+      
+      try {
+        if (isText) {
+          const textContent = fs.readFileSync(filepath, 'utf8');
+          console.log(`Successfully read text file, size: ${textContent.length} characters`);
+          parts.push({ text: textContent });
+        } else {
+          const fileData = fs.readFileSync(filepath);
+          console.log(`Successfully read file data, size: ${fileData.length} bytes`);
+          parts.push({
+            inlineData: {
+              mimeType: attachment.contentType,
+              data: Buffer.from(fileData).toString('base64')
+            }
+          });
+        }
+      } catch (readError) {
+        console.error(`Error reading file ${filepath}:`, readError);
+        parts.push({ text: `[${label}: ${attachment.filename} (error reading file)]` });
+      }
+    } catch (error) {
+      console.error(`Error processing attachment: ${error}`);
+      parts.push({ text: `[Attachment error: ${attachment.filename}]` });
+    }
+  }
+  
+  return parts;
+}
+
+// Generate a chat response from the LLM provider using chat history
 async function generateAIResponse(
   systemPrompt: string | Promise<string>, 
   previousMessages: any[], 
   userMessage: string, 
-  apiKey: string,
   attachments?: { filename: string; url: string; contentType: string; size: number }[],
   useWebSearch?: boolean,
-  extendThinking?: boolean
-): Promise<string | AIResponseWithCitations> {
+  extendThinking?: boolean,
+  onText?: (text: string) => void
+): Promise<AIResponseWithCitations> {
   // Resolve the system prompt if it's a promise
   const resolvedSystemPrompt = typeof systemPrompt === 'string' ? systemPrompt : await systemPrompt;
   try {
-
     // Construct the chat context from previous messages
-    const messageHistory = previousMessages.map(msg => {
-      // If message has attachments
-      if (msg.attachments && msg.attachments.length > 0) {
-        // Extract the filename from the URL for files in the uploads directory
-        const parts: GeminiMessagePart[] = [{ text: msg.content }];
-        
-        for (const attachment of msg.attachments) {
-          try {
-            // Extract the filename from the URL, ensuring we handle paths correctly
-            const fileUrl = attachment.url;
-            let filename;
-            
-            // Handle both formats: '/uploads/file-xyz.jpg' and just 'file-xyz.jpg'
-            if (fileUrl.startsWith('/uploads/')) {
-              filename = path.basename(fileUrl);
-            } else {
-              filename = path.basename(fileUrl);
-            }
-            
-            // Construct the full filepath
-            const filepath = path.join(uploadDir, filename);
-            
-            if (attachment.contentType.startsWith('image/')) {
-              // Handle image files
-              console.log(`Processing previous message image attachment: ${filename} from URL: ${fileUrl}`);
-              console.log(`Looking for file at: ${filepath}`);
-              
-              if (fs.existsSync(filepath)) {
-                try {
-                  const fileData = fs.readFileSync(filepath);
-                  const base64Data = Buffer.from(fileData).toString('base64');
-                  
-                  console.log(`Successfully read file data, size: ${fileData.length} bytes`);
-                  
-                  parts.push({
-                    inline_data: {
-                      mime_type: attachment.contentType,
-                      data: base64Data
-                    }
-                  });
-                  console.log(`Successfully processed image attachment: ${filename}`);
-                } catch (readError) {
-                  console.error(`Error reading file ${filepath}:`, readError);
-                  parts.push({ text: `[Image attachment: ${attachment.filename} (error reading file)]` });
-                }
-              } else {
-                console.error(`File not found: ${filepath}`);
-                parts.push({ text: `[Image attachment: ${attachment.filename} (file not found)]` });
-              }
-            } else if (attachment.contentType === 'application/pdf') {
-              // Handle PDF files
-              console.log(`Processing previous message PDF attachment: ${filename} from URL: ${fileUrl}`);
-              console.log(`Looking for file at: ${filepath}`);
-              
-              if (fs.existsSync(filepath)) {
-                try {
-                  const fileData = fs.readFileSync(filepath);
-                  const base64Data = Buffer.from(fileData).toString('base64');
-                  
-                  console.log(`Successfully read PDF file data, size: ${fileData.length} bytes`);
-                  
-                  parts.push({
-                    inline_data: {
-                      mime_type: attachment.contentType,
-                      data: base64Data
-                    }
-                  });
-                  console.log(`Successfully processed PDF attachment: ${filename}`);
-                } catch (readError) {
-                  console.error(`Error reading PDF file ${filepath}:`, readError);
-                  parts.push({ text: `[PDF attachment: ${attachment.filename} (error reading file)]` });
-                }
-              } else {
-                console.error(`File not found: ${filepath}`);
-                parts.push({ text: `[PDF attachment: ${attachment.filename} (file not found)]` });
-              }
-            } else if (attachment.contentType === 'text/plain') {
-              // Handle text files
-              console.log(`Processing previous message text file attachment: ${filename} from URL: ${fileUrl}`);
-              console.log(`Looking for file at: ${filepath}`);
-              
-              if (fs.existsSync(filepath)) {
-                try {
-                  const textContent = fs.readFileSync(filepath, 'utf8');
-                  
-                  console.log(`Successfully read text file, size: ${textContent.length} characters`);
-                  
-                  parts.push({
-                    text: textContent
-                  });
-                  console.log(`Successfully processed text file attachment: ${filename}`);
-                } catch (readError) {
-                  console.error(`Error reading text file ${filepath}:`, readError);
-                  parts.push({ text: `[Text file attachment: ${attachment.filename} (error reading file)]` });
-                }
-              } else {
-                console.error(`File not found: ${filepath}`);
-                parts.push({ text: `[Text file attachment: ${attachment.filename} (file not found)]` });
-              }
-            } else {
-              // For other file types, just mention them in the text
-              parts.push({ text: `[Attached file: ${attachment.filename}]` });
-            }
-          } catch (error) {
-            console.error(`Error processing attachment: ${error}`);
-            parts.push({ text: `[Attachment error: ${attachment.filename}]` });
-          }
-        }
-        
-        return {
-          role: msg.sender === "user" ? "user" : "model",
-          parts: parts
-        };
-      } else {
-        // Regular text message
-        return {
-          role: msg.sender === "user" ? "user" : "model",
-          parts: [{ text: msg.content }]
-        };
-      }
-    });
+    const messageHistory: LLMMessage[] = previousMessages.map(msg => ({
+      role: msg.sender === "user" ? "user" : "model",
+      parts: buildMessageParts(msg.content, msg.attachments)
+    }));
     
     // Prepare the final user message with attachments if any
-    const finalUserMessage: {
-      role: string;
-      parts: GeminiMessagePart[]
-    } = {
+    const finalUserMessage: LLMMessage = {
       role: "user",
-      parts: [{ text: userMessage }]
+      parts: buildMessageParts(userMessage, attachments)
     };
     
-    // If attachments are provided for the current message
-    if (attachments && attachments.length > 0) {
-      const messageParts: GeminiMessagePart[] = [{ text: userMessage }];
-      
-      for (const attachment of attachments) {
-        try {
-          // Extract the filename from the URL, ensuring we handle paths correctly
-          const fileUrl = attachment.url;
-          let filename;
-          
-          // Handle both formats: '/uploads/file-xyz.jpg' and just 'file-xyz.jpg'
-          if (fileUrl.startsWith('/uploads/')) {
-            filename = path.basename(fileUrl);
-          } else {
-            filename = path.basename(fileUrl);
-          }
-          
-          // Construct the full filepath
-          const filepath = path.join(uploadDir, filename);
-          
-          if (attachment.contentType.startsWith('image/')) {
-            // Handle image files
-            console.log(`Processing image attachment: ${filename} from URL: ${fileUrl}`);
-            console.log(`Looking for file at: ${filepath}`);
-            
-            if (fs.existsSync(filepath)) {
-              try {
-                const fileData = fs.readFileSync(filepath);
-                const base64Data = Buffer.from(fileData).toString('base64');
-                
-                console.log(`Successfully read file data, size: ${fileData.length} bytes`);
-                
-                messageParts.push({
-                  inline_data: {
-                    mime_type: attachment.contentType,
-                    data: base64Data
-                  }
-                });
-                console.log(`Successfully processed image attachment: ${filename}`);
-              } catch (readError) {
-                console.error(`Error reading file ${filepath}:`, readError);
-                messageParts.push({ text: `[Image attachment: ${attachment.filename} (error reading file)]` });
-              }
-            } else {
-              console.error(`File not found: ${filepath}`);
-              messageParts.push({ text: `[Image attachment: ${attachment.filename} (file not found)]` });
-            }
-          } else if (attachment.contentType === 'application/pdf') {
-            // Handle PDF files
-            console.log(`Processing PDF attachment: ${filename} from URL: ${fileUrl}`);
-            console.log(`Looking for file at: ${filepath}`);
-            
-            if (fs.existsSync(filepath)) {
-              try {
-                const fileData = fs.readFileSync(filepath);
-                const base64Data = Buffer.from(fileData).toString('base64');
-                
-                console.log(`Successfully read PDF file data, size: ${fileData.length} bytes`);
-                
-                messageParts.push({
-                  inline_data: {
-                    mime_type: attachment.contentType,
-                    data: base64Data
-                  }
-                });
-                console.log(`Successfully processed PDF attachment: ${filename}`);
-              } catch (readError) {
-                console.error(`Error reading PDF file ${filepath}:`, readError);
-                messageParts.push({ text: `[PDF attachment: ${attachment.filename} (error reading file)]` });
-              }
-            } else {
-              console.error(`File not found: ${filepath}`);
-              messageParts.push({ text: `[PDF attachment: ${attachment.filename} (file not found)]` });
-            }
-          } else if (attachment.contentType === 'text/plain') {
-            // Handle text files
-            console.log(`Processing text file attachment: ${filename} from URL: ${fileUrl}`);
-            console.log(`Looking for file at: ${filepath}`);
-            
-            if (fs.existsSync(filepath)) {
-              try {
-                const textContent = fs.readFileSync(filepath, 'utf8');
-                
-                console.log(`Successfully read text file, size: ${textContent.length} characters`);
-                
-                messageParts.push({
-                  text: textContent
-                });
-                console.log(`Successfully processed text file attachment: ${filename}`);
-              } catch (readError) {
-                console.error(`Error reading text file ${filepath}:`, readError);
-                messageParts.push({ text: `[Text file attachment: ${attachment.filename} (error reading file)]` });
-              }
-            } else {
-              console.error(`File not found: ${filepath}`);
-              messageParts.push({ text: `[Text file attachment: ${attachment.filename} (file not found)]` });
-            }
-          } else {
-            // For other file types, just mention them in the text
-            messageParts.push({ text: `[Attached file: ${attachment.filename}]` });
-          }
-        } catch (error) {
-          console.error(`Error processing attachment: ${error}`);
-          messageParts.push({ text: `[Attachment error: ${attachment.filename}]` });
-        }
-      }
-      
-      finalUserMessage.parts = messageParts;
-    }
-    
-    // Add system prompt as context
-    const contents = [
-      {
-        role: "user",
-        parts: [{ text: resolvedSystemPrompt }]
-      },
-      {
-        role: "model",
-        parts: [{ text: "I understand and will act as CollegeWayfarer according to these guidelines." }]
-      },
-      ...messageHistory,
-      finalUserMessage
-    ];
-    
-    console.log("Sending request to Gemini API with:", {
+    console.log(`Sending chat request to ${llm.name} provider with:`, {
       systemPrompt: resolvedSystemPrompt.substring(0, 100) + "...",
       messageCount: messageHistory.length,
       userMessage: userMessage.substring(0, 100) + (userMessage.length > 100 ? "..." : "")
     });
     
-    // Build request body, conditionally adding search tool if requested
-    const requestBody: any = {
-      contents,
-      generationConfig: {
-        temperature: 0.9,
-        topP: 0.9,
-        topK: 40
-      }
+    const request: LLMRequest = {
+      task: "chat",
+      systemPrompt: resolvedSystemPrompt,
+      messages: [...messageHistory, finalUserMessage],
+      model: extendThinking ? "thinking" : "standard",
+      webSearch: !!useWebSearch,
+      temperature: 0.9,
+      topP: 0.9,
+      topK: 40
     };
     
-    // Add search tool if enabled
-    if (useWebSearch) {
-      // Configure the Gemini API to use Google Search grounding
-      requestBody.tools = [{
-        googleSearch: {}  // Empty object is sufficient according to the API docs
-      }];
-      
-      console.log("Adding Google Search grounding tool to the Gemini request");
-    }
-    
-    // Determine model endpoint based on extendThinking and useWebSearch flags
-    let modelEndpoint;
-    let modelDescription;
-    
-    if (extendThinking) {
-      // Use gemini-2.5-flash-preview for extended thinking mode
-      // Always use v1beta endpoint with the gemini-2.5-flash-preview-04-17 model
-      modelEndpoint = "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-preview-04-17:generateContent";
-      modelDescription = 'gemini-2.5-flash-preview-04-17 with v1beta API (Extended Thinking)';
-    } else if (useWebSearch) {
-      // For web search, use gemini-2.0-flash with v1beta endpoint
-      modelEndpoint = "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent";
-      modelDescription = 'gemini-2.0-flash with v1beta API (Web Search)';
-    } else {
-      // Standard mode
-      modelEndpoint = "https://generativelanguage.googleapis.com/v1/models/gemini-2.0-flash:generateContent";
-      modelDescription = 'gemini-2.0-flash with v1 API (Standard)';
-    }
-    
-    console.log(`Using model endpoint: ${modelDescription}`);
+    // Stream partial text to the caller when it asked for it
+    const response = onText
+      ? await llm.generateStream(request, onText)
+      : await llm.generate(request);
     
-    const response = await fetch(modelEndpoint, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-goog-api-key": apiKey
-      },
-      body: JSON.stringify(requestBody)
-    });
+    console.log("Received AI response (first 100 chars):", response.text.substring(0, 100) + "...");
     
-    console.log("Gemini API response status:", response.status);
-    
-    const data = await response.json();
-    
-    if (!response.ok) {
-      console.error("Gemini API error:", data);
-      
-      // Create a more user-friendly error message based on the error
-      let errorMessage = "Gemini API error";
-      
-      if (data.error) {
-        // Check for specific error types
-        if (data.error.message && data.error.message.includes("API key")) {
-          errorMessage = "API key error: Please check the Gemini API key configuration";
-        } else if (data.error.message && (
-          data.error.message.includes("permission") || 
-          data.error.message.includes("enablement") ||
-          data.error.message.includes("search") ||
-          data.error.message.includes("API is not enabled") ||
-          data.error.message.includes("Search tool") ||
-          data.error.message.includes("Google Search") ||
-          data.error.message.includes("not available")
-        )) {
-          // More comprehensive check for web search permission errors
-          errorMessage = "Web Search Permission Error: Your Gemini API key doesn't have the Web Search feature enabled. Please go to Google AI Studio (https://aistudio.google.com/), create an API key with Web Search enabled, and update your GEMINI_API_KEY environment variable.";
-          
-          console.error("Web Search permission error details:", data.error);
-        } else if (data.error.message) {
-          errorMessage = `Error: ${data.error.message}`;
-        }
-      }
-      
-      throw new Error(errorMessage);
+    if (response.citations.length > 0) {
+      console.log(`Found ${response.citations.length} citation sources and ${response.supports.length} supported segments`);
     }
     
-    if (data.candidates && data.candidates[0]) {
-      // Check if we have content and parts as expected
-      if (data.candidates[0].content && data.candidates[0].content.parts && data.candidates[0].content.parts.length > 0) {
-        const responseText = data.candidates[0].content.parts[0].text;
-        console.log("Received AI response (first 100 chars):", responseText.substring(0, 100) + "...");
-        
-        // Start with the base response text
-        let modifiedResponseText = responseText;
-        let searchQueries = null;
-        
-        // Enhanced handling of search grounding metadata
-        if (useWebSearch) {
-          if (data.candidates[0].groundingMetadata) {
-            console.log("Web search was used in the response");
-            
-            // Extract citation data if available
-            if (data.candidates[0].groundingMetadata.groundingChunks &&
-                data.candidates[0].groundingMetadata.groundingChunks.length > 0) {
-              
-              // Extract citation sources from groundingChunks
-              const citations = data.candidates[0].groundingMetadata.groundingChunks
-                .filter((chunk: any) => chunk.web && chunk.web.uri)
-                .map((chunk: any) => ({
-                  title: chunk.web.title || 'Source',
-                  uri: chunk.web.uri,
-                  snippet: chunk.web.snippet || null
-                }));
-              
-              if (citations.length > 0) {
-                console.log(`Found ${citations.length} citation sources`);
-                
-                // Append citations directly to the response text
-                modifiedResponseText += "\n\n## Sources\n";
-                
-                // Add each citation as a numbered reference with markdown links
-                citations.forEach((citation: WebCitation, index: number) => {
-                  modifiedResponseText += `\n${index + 1}. [${citation.title}](${citation.uri})`;
-                  if (citation.snippet) {
-                    modifiedResponseText += ` - ${citation.snippet}`;
-                  }
-                });
-              }
-            }
-            
-            // Extract search queries if available (keep this for debugging)
-            if (data.candidates[0].groundingMetadata.webSearchQueries) {
-              searchQueries = data.candidates[0].groundingMetadata.webSearchQueries;
-              console.log("Web search queries used:", searchQueries);
-            }
-            
-            if (data.candidates[0].groundingMetadata.searchEntryPoint && 
-                data.candidates[0].groundingMetadata.searchEntryPoint.renderedContent) {
-              console.log("Search grounding metadata available with rendered content");
-            } else {
-              console.log("Search metadata present but no rendered content found");
-            }
-          } else {
-            // This is important - if we requested search but didn't get search metadata
-            console.log("Web search was requested but no search metadata was returned");
-          }
-        }
-        
-        // Create a response object that includes the text with embedded citations
-        // We'll keep the existing structure but citations will be null since they're in the text
-        const responseData: AIResponseWithCitations = {
-          text: modifiedResponseText,
-          searchQueries: searchQueries
-        };
-        
-        return responseData;
-      } else {
-        // Handle case where content/parts structure is unexpected
-        console.error("Unexpected response structure from Gemini API:", data);
-        throw new Error("Unexpected response structure from Gemini API");
-      }
-    } else {
-      console.error("Unexpected response format from Gemini API:", data);
-      throw new Error("Unexpected response format from Gemini API");
-    }
+    return {
+      text: response.text,
+      citations: response.citations,
+      citationSupports: response.supports,
+      searchQueries: response.searchQueries
+    };
   } catch (error) {
-    console.error("Error calling Gemini API:", error);
+    console.error("Error generating AI response:", error);
     
     // Preserve the original error message if available
     if (error instanceof Error) {
@@ -2235,4 +4497,124 @@ async function generateAIResponse(
       throw new Error("Failed to generate AI response");
     }
   }
-}
\ No newline at end of file
+}
+
+// Write a single Server-Sent Event to the response
+function sendEvent(res: Response, event: string, data: any) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Generate the AI reply for an already saved user message and stream it to the client as Server-Sent Events.
+// Emits "user-message", then "delta" events with partial text, "citations" when web search grounded the
+// answer, and finally "done" with the persisted AI message (or "error" if generation failed).
+// The reply is saved as a child of savedMessage; checkProfile is false when regenerating a reply.
+async function streamChatReply(
+  res: Response,
+  userId: number,
+  systemPrompt: string,
+  savedMessage: any,
+  previousMessages: any[],
+  cleanedContent: string,
+  attachments: FileAttachment[] | undefined,
+  useWebSearch: boolean,
+  extendThinking: boolean,
+  sessionId: number,
+  isNewSession: boolean,
+  checkProfile = true
+) {
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  // Stop proxies like nginx from buffering the stream
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+  
+  sendEvent(res, "user-message", { userMessage: savedMessage, sessionId });
+  
+  // Keep generating even if the client goes away so the reply is still saved
+  let clientClosed = false;
+  res.on("close", () => {
+    clientClosed = true;
+  });
+  
+  try {
+    const aiResponse = await generateAIResponse(
+      systemPrompt,
+      previousMessages,
+      cleanedContent,
+      attachments,
+      useWebSearch,
+      extendThinking,
+      (text) => {
+        if (!clientClosed) {
+          sendEvent(res, "delta", { text });
+        }
+      }
+    );
+    
+    if (aiResponse.citations.length > 0 || aiResponse.searchQueries) {
+      sendEvent(res, "citations", {
+        citations: aiResponse.citations,
+        citationSupports: aiResponse.citationSupports,
+        searchQueries: aiResponse.searchQueries
+      });
+    }
+    
+    // If the client went away, only show the reply if the chat is still on the message it answers,
+    // so an abandoned regenerate can't take over from a newer one
+    const session = clientClosed ? await dbStorage.getChatSession(sessionId) : undefined;
+    const showReply = !clientClosed || session?.activeMessageId === savedMessage.id;
+    
+    // Save the complete AI response
+    const savedAiMessage = await dbStorage.createChatMessage(insertChatMessageSchema.parse({
+      sessionId,
+      content: aiResponse.text,
+      sender: "ai",
+      parentId: savedMessage.id,
+      citations: aiResponse.citations,
+      citationSupports: aiResponse.citationSupports,
+      searchQueries: aiResponse.searchQueries
+    }), showReply);
+    
+    // Check for profile updates
+    let profileUpdated = false;
+    let profileUpdateProposed = false;
+    
+    try {
+      const currentUser = checkProfile ? await dbStorage.getUser(userId) : undefined;
+      
+      if (currentUser && currentUser.profileDescription) {
+        const updatedProfile = await checkForProfileUpdate(
+          currentUser.profileDescription,
+          cleanedContent,
+          previousMessages
+        );
+        
+        if (updatedProfile) {
+          const proposal = await proposeProfileRevision(currentUser, updatedProfile, savedMessage.id);
+          profileUpdated = proposal.revision.status === ProfileRevisionStatus.APPLIED;
+          profileUpdateProposed = proposal.revision.status === ProfileRevisionStatus.PENDING;
+          console.log("Profile update from streamed chat:", proposal.revision.status, updatedProfile.substring(0, 100) + "...");
+        }
+      }
+    } catch (error) {
+      console.error("Error checking for profile updates (streaming):", error);
+      // Continue without profile updates if there's an error
+    }
+    
+    sendEvent(res, "done", {
+      aiMessage: savedAiMessage,
+      sessionId: isNewSession ? sessionId : undefined,
+      profileUpdated,
+      profileUpdateProposed,
+      searchQueries: aiResponse.searchQueries
+    });
+  } catch (error) {
+    console.error("Error streaming AI response:", error);
+    sendEvent(res, "error", {
+      error: error instanceof Error ? error.message : "Failed to generate AI response. Please try again."
+    });
+  }
+  
+  res.end();
+}
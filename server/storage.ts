@@ -1,36 +1,94 @@
 import { 
   users, 
   colleges,
+  collegeTasks,
   chatSessions, 
   chatMessages,
+  chatFolders,
   advisors,
   collegeRecommendations,
   sharedChatSessions,
+  sharedChatCollections,
   messageFeedback,
+  essays,
+  essayRevisions,
+  sharedEssays,
+  advisorComments,
+  advisorAccessLogs,
+  institutions,
+  institutionAliases,
+  profileRevisions,
+  aidOffers,
+  activities,
+  recommenders,
+  recommendationLetters,
+  LetterStatus,
+  normalizeInstitutionName,
+  isChatSessionShared,
+  UserRole,
+  ProfileRevisionStatus,
   type User, 
   type InsertUser, 
   type OnboardingResponses,
+  type AcademicRecord,
+  type FinancialProfile,
+  type ProfileRevision,
+  type InsertProfileRevision,
+  type ProfileRevisionStatusType,
   type College,
   type InsertCollege,
   type CollegeStatusType,
+  type CollegeNotes,
+  type CollegeTask,
+  type InsertCollegeTask,
   type InsertChatSession,
   type ChatSession,
   type InsertSharedChatSession,
   type InsertChatMessage,
   type ChatMessage,
+  type ChatSearchResult,
+  type ChatSessionOrganization,
+  type InsertChatFolder,
+  type ChatFolder,
+  type InsertSharedChatCollection,
+  type SharedChatCollection,
   type Advisor,
   type InsertAdvisor,
+  type AdvisorPermissions,
+  type AdvisorLinkLimits,
+  type AdvisorAccessLog,
+  type InsertAdvisorAccessLog,
+  DEFAULT_ADVISOR_PERMISSIONS,
   type CollegeRecommendation,
   type InsertCollegeRecommendation,
   type InsertMessageFeedback,
-  type MessageFeedback
+  type MessageFeedback,
+  type Essay,
+  type InsertEssay,
+  type EssayRevision,
+  type InsertEssayRevision,
+  type AdvisorComment,
+  type InsertAdvisorComment,
+  type Institution,
+  type InstitutionAlias,
+  type InstitutionWithAliases,
+  type CatalogSearchResult,
+  type AidOffer,
+  type InsertAidOffer,
+  type Activity,
+  type InsertActivity,
+  type Recommender,
+  type InsertRecommender,
+  type RecommendationLetter,
+  type InsertRecommendationLetter,
+  type LetterStatusValue
 } from "@shared/schema";
 import crypto from "crypto";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
-import { eq, desc, and, sql, asc, inArray } from "drizzle-orm";
+import { eq, desc, and, sql, asc, inArray, isNull } from "drizzle-orm";
 import ConnectPgSimple from "connect-pg-simple";
 
 const MemoryStore = createMemoryStore(session);
@@ -44,24 +102,104 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   updateUserOnboarding(userId: number, onboarding: OnboardingResponses): Promise<User | undefined>;
   updateUserProfileDescription(userId: number, profileDescription: string): Promise<User | undefined>;
+  updateUserAcademicRecord(userId: number, academicRecord: AcademicRecord): Promise<User | undefined>;
+  getUsersWithoutAcademicRecord(): Promise<User[]>;
+  updateUserRequireProfileApproval(userId: number, requireProfileApproval: boolean): Promise<User | undefined>;
+  updateUserFinancialProfile(userId: number, financialProfile: FinancialProfile): Promise<User | undefined>;
+  updateUserBragSheet(userId: number, bragSheet: string | null): Promise<User | undefined>;
+  
+  // Profile revision operations
+  getProfileRevisions(userId: number): Promise<ProfileRevision[]>;
+  getProfileRevision(revisionId: number): Promise<ProfileRevision | undefined>;
+  createProfileRevision(revision: InsertProfileRevision): Promise<ProfileRevision>;
+  updateProfileRevisionStatus(revisionId: number, status: ProfileRevisionStatusType): Promise<ProfileRevision | undefined>;
+  getUserByCalendarToken(calendarToken: string): Promise<User | undefined>;
+  updateUserCalendarToken(userId: number, calendarToken: string | null): Promise<User | undefined>;
   
   // College operations
   getColleges(userId: number): Promise<College[]>;
+  getCollege(collegeId: number): Promise<College | undefined>;
   getCollegesByStatus(userId: number, status: CollegeStatusType): Promise<College[]>;
   createCollege(college: InsertCollege): Promise<College>;
   updateCollegeStatus(collegeId: number, status: CollegeStatusType): Promise<College | undefined>;
   updateCollegePosition(collegeId: number, position: number): Promise<College | undefined>;
+  updateCollegeNotes(collegeId: number, notes: Partial<CollegeNotes>): Promise<College | undefined>;
   deleteCollege(collegeId: number): Promise<boolean>;
   
+  // Institution catalog operations
+  getInstitution(institutionId: number): Promise<Institution | undefined>;
+  searchInstitutions(query: string, limit: number): Promise<CatalogSearchResult[]>;
+  findInstitutionByName(name: string): Promise<Institution | undefined>;
+  getInstitutionAliases(institutionId: number): Promise<string[]>;
+  // Whether any catalog institution is in a city with this normalized name (see normalizeInstitutionName)
+  isInstitutionCity(normalizedName: string): Promise<boolean>;
+  countInstitutions(): Promise<number>;
+  importInstitutions(records: InstitutionWithAliases[]): Promise<number>;
+  
+  // College task operations
+  getCollegeTasks(userId: number): Promise<CollegeTask[]>;
+  getCollegeTasksByCollege(collegeId: number): Promise<CollegeTask[]>;
+  getCollegeTask(taskId: number): Promise<CollegeTask | undefined>;
+  createCollegeTask(task: InsertCollegeTask): Promise<CollegeTask>;
+  updateCollegeTask(taskId: number, updates: Partial<InsertCollegeTask>): Promise<CollegeTask | undefined>;
+  deleteCollegeTask(taskId: number): Promise<boolean>;
+  
+  // Aid offer operations
+  getAidOffers(userId: number): Promise<AidOffer[]>;
+  getAidOffer(offerId: number): Promise<AidOffer | undefined>;
+  createAidOffer(offer: InsertAidOffer): Promise<AidOffer>;
+  updateAidOffer(offerId: number, updates: Partial<InsertAidOffer>): Promise<AidOffer | undefined>;
+  deleteAidOffer(offerId: number): Promise<boolean>;
+  
+  // Activity operations
+  getActivities(userId: number): Promise<Activity[]>;
+  getActivity(activityId: number): Promise<Activity | undefined>;
+  createActivity(activity: InsertActivity): Promise<Activity>;
+  updateActivity(activityId: number, updates: Partial<InsertActivity>): Promise<Activity | undefined>;
+  reorderActivities(userId: number, activityIds: number[]): Promise<Activity[]>;
+  deleteActivity(activityId: number): Promise<boolean>;
+  
+  // Recommender operations
+  getRecommenders(userId: number): Promise<Recommender[]>;
+  getRecommender(recommenderId: number): Promise<Recommender | undefined>;
+  getRecommenderByShareToken(shareToken: string): Promise<Recommender | undefined>;
+  createRecommender(recommender: InsertRecommender): Promise<Recommender>;
+  updateRecommender(recommenderId: number, updates: Partial<InsertRecommender>): Promise<Recommender | undefined>;
+  recordRecommenderView(recommenderId: number): Promise<Recommender | undefined>;
+  deleteRecommender(recommenderId: number): Promise<boolean>;
+  
+  // Recommendation letter operations
+  getRecommendationLetters(userId: number): Promise<RecommendationLetter[]>;
+  getRecommendationLettersByRecommender(recommenderId: number): Promise<RecommendationLetter[]>;
+  createRecommendationLetter(letter: InsertRecommendationLetter): Promise<RecommendationLetter>;
+  updateRecommendationLetterStatus(letterId: number, status: LetterStatusValue): Promise<RecommendationLetter | undefined>;
+  deleteRecommendationLetter(letterId: number): Promise<boolean>;
+  
   // Chat operations
   createChatSession(session: InsertChatSession): Promise<ChatSession>;
   getChatSessions(userId: number): Promise<ChatSession[]>;
   getChatSession(sessionId: number): Promise<ChatSession | undefined>;
   updateChatSessionTitle(sessionId: number, title: string): Promise<ChatSession | undefined>;
+  updateChatSessionOrganization(sessionId: number, updates: ChatSessionOrganization): Promise<ChatSession | undefined>;
   deleteChatSession(sessionId: number): Promise<boolean>;
   
-  createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
+  // Follows the session's active message unless given a parentId, then becomes the active message
+  // unless showBranch is false
+  createChatMessage(message: InsertChatMessage, showBranch?: boolean): Promise<ChatMessage>;
   getChatMessages(sessionId: number): Promise<ChatMessage[]>;
+  // Sessions with messages from before branching, which have no active message yet
+  getUnlinkedChatSessionIds(): Promise<number[]>;
+  // Chains the messages of a session from before branching in order and makes the last one active
+  linkChatMessages(sessionId: number): Promise<ChatSession | undefined>;
+  setActiveChatMessage(sessionId: number, messageId: number): Promise<ChatSession | undefined>;
+  searchChatMessages(userId: number, query: string, limit: number): Promise<ChatSearchResult[]>;
+  
+  // Chat folder operations
+  getChatFolders(userId: number): Promise<ChatFolder[]>;
+  getChatFolder(folderId: number): Promise<ChatFolder | undefined>;
+  createChatFolder(folder: InsertChatFolder): Promise<ChatFolder>;
+  renameChatFolder(folderId: number, name: string): Promise<ChatFolder | undefined>;
+  deleteChatFolder(folderId: number): Promise<boolean>;
   
   // Advisor operations
   getAdvisors(userId: number): Promise<Advisor[]>;
@@ -69,6 +207,15 @@ export interface IStorage {
   getAdvisorByShareToken(shareToken: string): Promise<Advisor | undefined>;
   updateAdvisorActiveStatus(advisorId: number, isActive: boolean): Promise<Advisor | undefined>;
   deleteAdvisor(advisorId: number): Promise<boolean>;
+  getAdvisorsByAccount(accountUserId: number): Promise<Advisor[]>;
+  updateAdvisorAccount(advisorId: number, accountUserId: number | null): Promise<Advisor | undefined>;
+  updateAdvisorPermissions(advisorId: number, permissions: AdvisorPermissions): Promise<Advisor | undefined>;
+  updateAdvisorLinkLimits(advisorId: number, limits: AdvisorLinkLimits): Promise<Advisor | undefined>;
+  recordAdvisorView(advisorId: number): Promise<Advisor | undefined>;
+  
+  // Advisor access log operations
+  getAdvisorAccessLogs(advisorId: number): Promise<AdvisorAccessLog[]>;
+  createAdvisorAccessLog(log: InsertAdvisorAccessLog): Promise<AdvisorAccessLog>;
   
   // Shared Chat operations
   shareChatsWithAdvisor(advisorId: number, sessionIds: number[]): Promise<void>;
@@ -76,6 +223,9 @@ export interface IStorage {
   getSharedChatSessionsForAdvisor(shareToken: string): Promise<ChatSession[]>;
   getSharedChatMessagesForAdvisor(shareToken: string, sessionId: number): Promise<ChatMessage[]>;
   unshareChatsWithAdvisor(advisorId: number, sessionIds: number[]): Promise<void>;
+  shareChatCollectionWithAdvisor(collection: InsertSharedChatCollection): Promise<SharedChatCollection>;
+  getSharedChatCollections(advisorId: number): Promise<SharedChatCollection[]>;
+  unshareChatCollectionWithAdvisor(collectionId: number): Promise<boolean>;
   
   // College recommendation operations
   getCollegeRecommendations(userId: number): Promise<CollegeRecommendation[]>;
@@ -86,6 +236,31 @@ export interface IStorage {
   createMessageFeedback(feedback: InsertMessageFeedback): Promise<MessageFeedback>;
   getMessageFeedbackByMessageId(messageId: number): Promise<MessageFeedback[]>;
   
+  // Essay operations
+  getEssays(userId: number): Promise<Essay[]>;
+  getEssay(essayId: number): Promise<Essay | undefined>;
+  createEssay(essay: InsertEssay): Promise<Essay>;
+  updateEssay(essayId: number, updates: Partial<InsertEssay>): Promise<Essay | undefined>;
+  deleteEssay(essayId: number): Promise<boolean>;
+  getEssayRevisions(essayId: number): Promise<EssayRevision[]>;
+  getEssayRevision(revisionId: number): Promise<EssayRevision | undefined>;
+  createEssayRevision(revision: InsertEssayRevision): Promise<EssayRevision>;
+  updateEssayRevisionFeedback(revisionId: number, feedback: string): Promise<EssayRevision | undefined>;
+  
+  // Shared Essay operations
+  shareEssaysWithAdvisor(advisorId: number, essayIds: number[]): Promise<void>;
+  getSharedEssays(advisorId: number): Promise<number[]>;
+  getSharedEssaysForAdvisor(shareToken: string): Promise<Essay[]>;
+  unshareEssaysWithAdvisor(advisorId: number, essayIds: number[]): Promise<void>;
+  
+  // Advisor comment operations
+  getAdvisorComments(userId: number): Promise<AdvisorComment[]>;
+  getAdvisorCommentsByAdvisor(advisorId: number): Promise<AdvisorComment[]>;
+  getAdvisorComment(commentId: number): Promise<AdvisorComment | undefined>;
+  createAdvisorComment(comment: InsertAdvisorComment): Promise<AdvisorComment>;
+  markAdvisorCommentsRead(userId: number, commentIds: number[]): Promise<void>;
+  deleteAdvisorComment(commentId: number): Promise<boolean>;
+  
   // Express session store
   sessionStore: session.Store;
 }
@@ -145,6 +320,7 @@ export class PostgresStorage implements IStorage {
     // Ensure onboarding data is included
     const userData = {
       ...insertUser,
+      role: insertUser.role || UserRole.STUDENT,
       profileDescription: null,
       onboarding: insertUser.onboarding || defaultOnboarding
     };
@@ -170,6 +346,94 @@ export class PostgresStorage implements IStorage {
       .returning();
     return result[0];
   }
+
+  async updateUserAcademicRecord(userId: number, academicRecord: AcademicRecord): Promise<User | undefined> {
+    const result = await this.db
+      .update(users)
+      .set({ academicRecord })
+      .where(eq(users.id, userId))
+      .returning();
+    return result[0];
+  }
+
+  async getUsersWithoutAcademicRecord(): Promise<User[]> {
+    return await this.db.select().from(users).where(isNull(users.academicRecord));
+  }
+
+  async updateUserRequireProfileApproval(userId: number, requireProfileApproval: boolean): Promise<User | undefined> {
+    const result = await this.db
+      .update(users)
+      .set({ requireProfileApproval })
+      .where(eq(users.id, userId))
+      .returning();
+    return result[0];
+  }
+
+  async updateUserFinancialProfile(userId: number, financialProfile: FinancialProfile): Promise<User | undefined> {
+    const result = await this.db
+      .update(users)
+      .set({ financialProfile })
+      .where(eq(users.id, userId))
+      .returning();
+    return result[0];
+  }
+
+  async updateUserBragSheet(userId: number, bragSheet: string | null): Promise<User | undefined> {
+    const result = await this.db
+      .update(users)
+      .set({ bragSheet })
+      .where(eq(users.id, userId))
+      .returning();
+    return result[0];
+  }
+
+  // Profile revision operations
+  async getProfileRevisions(userId: number): Promise<ProfileRevision[]> {
+    return this.db
+      .select()
+      .from(profileRevisions)
+      .where(eq(profileRevisions.userId, userId))
+      .orderBy(desc(profileRevisions.createdAt), desc(profileRevisions.id));
+  }
+
+  async getProfileRevision(revisionId: number): Promise<ProfileRevision | undefined> {
+    const result = await this.db
+      .select()
+      .from(profileRevisions)
+      .where(eq(profileRevisions.id, revisionId));
+    return result[0];
+  }
+
+  async createProfileRevision(revision: InsertProfileRevision): Promise<ProfileRevision> {
+    const result = await this.db
+      .insert(profileRevisions)
+      .values(revision)
+      .returning();
+    return result[0];
+  }
+
+  async updateProfileRevisionStatus(revisionId: number, status: ProfileRevisionStatusType): Promise<ProfileRevision | undefined> {
+    const result = await this.db
+      .update(profileRevisions)
+      .set({ status, reviewedAt: new Date() })
+      .where(eq(profileRevisions.id, revisionId))
+      .returning();
+    return result[0];
+  }
+
+  async getUserByCalendarToken(calendarToken: string): Promise<User | undefined> {
+    const result = await this.db.select().from(users).where(eq(users.calendarToken, calendarToken));
+    return result[0];
+  }
+
+  async updateUserCalendarToken(userId: number, calendarToken: string | null): Promise<User | undefined> {
+    const result = await this.db
+      .update(users)
+      .set({ calendarToken })
+      .where(eq(users.id, userId))
+      .returning();
+    return result[0];
+  }
   
   // Chat operations
   async createChatSession(session: InsertChatSession): Promise<ChatSession> {
@@ -213,13 +477,27 @@ export class PostgresStorage implements IStorage {
     return result[0];
   }
   
+  // Organizing a session doesn't count as activity, so updatedAt is left alone
+  async updateChatSessionOrganization(sessionId: number, updates: ChatSessionOrganization): Promise<ChatSession | undefined> {
+    const result = await this.db
+      .update(chatSessions)
+      .set(updates)
+      .where(eq(chatSessions.id, sessionId))
+      .returning();
+    return result[0];
+  }
+  
   async deleteChatSession(sessionId: number): Promise<boolean> {
     try {
-      // First delete all messages for this session
+      // First delete all messages for this session and the advisor comments on them
       await this.db
         .delete(chatMessages)
         .where(eq(chatMessages.sessionId, sessionId));
       
+      await this.db
+        .delete(advisorComments)
+        .where(eq(advisorComments.chatSessionId, sessionId));
+      
       // Then delete the session itself
       const result = await this.db
         .delete(chatSessions)
@@ -233,21 +511,25 @@ export class PostgresStorage implements IStorage {
     }
   }
   
-  async createChatMessage(message: InsertChatMessage): Promise<ChatMessage> {
-    // Update the session's updatedAt timestamp
-    await this.db
-      .update(chatSessions)
-      .set({ updatedAt: new Date() })
-      .where(eq(chatSessions.id, message.sessionId));
+  async createChatMessage(message: InsertChatMessage, showBranch = true): Promise<ChatMessage> {
+    const session = await this.getChatSession(message.sessionId);
     
     // Insert the message
     const result = await this.db
       .insert(chatMessages)
       .values({
         ...message,
+        parentId: message.parentId !== undefined ? message.parentId : session?.activeMessageId ?? null,
         createdAt: new Date()
       })
       .returning();
+    
+    // Update the session's updatedAt timestamp and show the new message's branch
+    await this.db
+      .update(chatSessions)
+      .set(showBranch ? { activeMessageId: result[0].id, updatedAt: new Date() } : { updatedAt: new Date() })
+      .where(eq(chatSessions.id, message.sessionId));
+    
     return result[0];
   }
   
@@ -258,6 +540,127 @@ export class PostgresStorage implements IStorage {
       .where(eq(chatMessages.sessionId, sessionId))
       .orderBy(chatMessages.createdAt);
   }
+  
+  async getUnlinkedChatSessionIds(): Promise<number[]> {
+    const rows = await this.db
+      .selectDistinct({ sessionId: chatMessages.sessionId })
+      .from(chatMessages)
+      .innerJoin(chatSessions, eq(chatSessions.id, chatMessages.sessionId))
+      .where(isNull(chatSessions.activeMessageId));
+    return rows.map(row => row.sessionId);
+  }
+  
+  async linkChatMessages(sessionId: number): Promise<ChatSession | undefined> {
+    const session = await this.getChatSession(sessionId);
+    if (!session || session.activeMessageId !== null) return session;
+    
+    const messages = await this.db
+      .select()
+      .from(chatMessages)
+      .where(eq(chatMessages.sessionId, sessionId))
+      .orderBy(chatMessages.id);
+    if (messages.length === 0) return session;
+    
+    return await this.db.transaction(async (tx) => {
+      for (let i = 1; i < messages.length; i++) {
+        await tx
+          .update(chatMessages)
+          .set({ parentId: messages[i - 1].id })
+          .where(eq(chatMessages.id, messages[i].id));
+      }
+      
+      const result = await tx
+        .update(chatSessions)
+        .set({ activeMessageId: messages[messages.length - 1].id })
+        .where(eq(chatSessions.id, sessionId))
+        .returning();
+      return result[0];
+    });
+  }
+  
+  async setActiveChatMessage(sessionId: number, messageId: number): Promise<ChatSession | undefined> {
+    const result = await this.db
+      .update(chatSessions)
+      .set({ activeMessageId: messageId })
+      .where(eq(chatSessions.id, sessionId))
+      .returning();
+    return result[0];
+  }
+  
+  async searchChatMessages(userId: number, query: string, limit: number): Promise<ChatSearchResult[]> {
+    const terms = toSearchTerms(query);
+    if (terms.length === 0) return [];
+    
+    // Same expression as the GIN index on chat_messages, so Postgres can use it
+    const document = sql`to_tsvector('english', ${chatMessages.content})`;
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    const rank = sql<number>`ts_rank(${document}, ${tsQuery})`;
+    
+    const rows = await this.db
+      .select({ message: chatMessages, sessionTitle: chatSessions.title })
+      .from(chatMessages)
+      .innerJoin(chatSessions, eq(chatMessages.sessionId, chatSessions.id))
+      .where(and(eq(chatSessions.userId, userId), sql`${document} @@ ${tsQuery}`))
+      .orderBy(desc(rank), desc(chatMessages.createdAt))
+      .limit(limit);
+    
+    return rows.map(({ message, sessionTitle }) => toChatSearchResult(message, sessionTitle, terms));
+  }
+  
+  // Chat folder operations
+  async getChatFolders(userId: number): Promise<ChatFolder[]> {
+    return await this.db
+      .select()
+      .from(chatFolders)
+      .where(eq(chatFolders.userId, userId))
+      .orderBy(asc(chatFolders.name));
+  }
+  
+  async getChatFolder(folderId: number): Promise<ChatFolder | undefined> {
+    const result = await this.db
+      .select()
+      .from(chatFolders)
+      .where(eq(chatFolders.id, folderId));
+    return result[0];
+  }
+  
+  async createChatFolder(folder: InsertChatFolder): Promise<ChatFolder> {
+    const result = await this.db
+      .insert(chatFolders)
+      .values(folder)
+      .returning();
+    return result[0];
+  }
+  
+  async renameChatFolder(folderId: number, name: string): Promise<ChatFolder | undefined> {
+    const result = await this.db
+      .update(chatFolders)
+      .set({ name, updatedAt: new Date() })
+      .where(eq(chatFolders.id, folderId))
+      .returning();
+    return result[0];
+  }
+  
+  // Sessions in the folder stay, unfiled; shares of the folder go with it
+  async deleteChatFolder(folderId: number): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      await tx
+        .update(chatSessions)
+        .set({ folderId: null })
+        .where(eq(chatSessions.folderId, folderId));
+      
+      await tx
+        .delete(sharedChatCollections)
+        .where(eq(sharedChatCollections.folderId, folderId));
+      
+      const result = await tx
+        .delete(chatFolders)
+        .where(eq(chatFolders.id, folderId))
+        .returning();
+      
+      return result.length > 0;
+    });
+  }
 
   // College operations
   async getColleges(userId: number): Promise<College[]> {
@@ -275,6 +678,14 @@ export class PostgresStorage implements IStorage {
     });
   }
 
+  async getCollege(collegeId: number): Promise<College | undefined> {
+    const result = await this.db
+      .select()
+      .from(colleges)
+      .where(eq(colleges.id, collegeId));
+    return result[0];
+  }
+
   async getCollegesByStatus(userId: number, status: CollegeStatusType): Promise<College[]> {
     const result = await this.db
       .select()
@@ -323,6 +734,7 @@ export class PostgresStorage implements IStorage {
       .values({
         name: college.name,
         userId: college.userId,
+        institutionId: college.institutionId ?? null,
         status: college.status,
         position: position,
         createdAt: new Date(),
@@ -388,8 +800,29 @@ export class PostgresStorage implements IStorage {
     return result[0];
   }
 
+  async updateCollegeNotes(collegeId: number, notes: Partial<CollegeNotes>): Promise<College | undefined> {
+    const result = await this.db
+      .update(colleges)
+      .set({ ...notes, updatedAt: new Date() })
+      .where(eq(colleges.id, collegeId))
+      .returning();
+    
+    return result[0];
+  }
+
   async deleteCollege(collegeId: number): Promise<boolean> {
     try {
+      // First delete the college's tasks, aid offers and letter requests
+      await this.db
+        .delete(collegeTasks)
+        .where(eq(collegeTasks.collegeId, collegeId));
+      await this.db
+        .delete(aidOffers)
+        .where(eq(aidOffers.collegeId, collegeId));
+      await this.db
+        .delete(recommendationLetters)
+        .where(eq(recommendationLetters.collegeId, collegeId));
+      
       const result = await this.db
         .delete(colleges)
         .where(eq(colleges.id, collegeId))
@@ -402,85 +835,596 @@ export class PostgresStorage implements IStorage {
     }
   }
 
-  // Advisor operations
-  async getAdvisors(userId: number): Promise<Advisor[]> {
-    return this.db
+  // Institution catalog operations
+  async getInstitution(institutionId: number): Promise<Institution | undefined> {
+    const result = await this.db
       .select()
-      .from(advisors)
-      .where(eq(advisors.userId, userId))
-      .orderBy(desc(advisors.createdAt));
+      .from(institutions)
+      .where(eq(institutions.id, institutionId));
+      
+    return result[0];
   }
 
-  async createAdvisor(advisor: InsertAdvisor): Promise<Advisor> {
-    const shareToken = crypto.randomUUID();
+  async searchInstitutions(query: string, limit: number): Promise<CatalogSearchResult[]> {
+    const tokens = normalizeInstitutionName(query).split(" ").filter(Boolean);
+    if (tokens.length === 0) return [];
     
+    // Narrow down with LIKE, then rank in code. Normalized names only contain [a-z0-9 ], so the tokens need no escaping.
+    const rows = await this.db
+      .select({ institution: institutions, alias: institutionAliases })
+      .from(institutionAliases)
+      .innerJoin(institutions, eq(institutions.id, institutionAliases.institutionId))
+      .where(and(...tokens.map(token => sql`${institutionAliases.normalizedAlias} LIKE ${'%' + token + '%'}`)))
+      .limit(500);
+      
+    return rankInstitutionMatches(tokens, rows, limit);
+  }
+
+  async findInstitutionByName(name: string): Promise<Institution | undefined> {
+    const rows = await this.db
+      .select({ institution: institutions })
+      .from(institutionAliases)
+      .innerJoin(institutions, eq(institutions.id, institutionAliases.institutionId))
+      .where(eq(institutionAliases.normalizedAlias, normalizeInstitutionName(name)));
+      
+    // Only trust names that point at a single institution
+    const ids = new Set(rows.map(row => row.institution.id));
+    return ids.size === 1 ? rows[0].institution : undefined;
+  }
+
+  async getInstitutionAliases(institutionId: number): Promise<string[]> {
+    const rows = await this.db
+      .select({ alias: institutionAliases.alias })
+      .from(institutionAliases)
+      .where(eq(institutionAliases.institutionId, institutionId));
+      
+    return rows.map(row => row.alias);
+  }
+
+  async isInstitutionCity(normalizedName: string): Promise<boolean> {
+    // Same steps as normalizeInstitutionName, as far as cities need them
+    const rows = await this.db
+      .select({ id: institutions.id })
+      .from(institutions)
+      .where(sql`trim(regexp_replace(regexp_replace(lower(${institutions.city}), '[''’.]', '', 'g'), '[^a-z0-9]+', ' ', 'g')) = ${normalizedName}`)
+      .limit(1);
+      
+    return rows.length > 0;
+  }
+
+  async countInstitutions(): Promise<number> {
     const result = await this.db
-      .insert(advisors)
-      .values({
-        ...advisor,
-        shareToken,
-        isActive: true,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      })
-      .returning();
+      .select({ count: sql<number>`count(*)::int` })
+      .from(institutions);
       
-    return result[0];
+    return result[0]?.count || 0;
   }
 
-  async getAdvisorByShareToken(shareToken: string): Promise<Advisor | undefined> {
+  async importInstitutions(records: InstitutionWithAliases[]): Promise<number> {
+    // Insert in batches so a full Scorecard file doesn't become one giant statement
+    for (let i = 0; i < records.length; i += 500) {
+      const batch = records.slice(i, i + 500);
+      const ids = batch.map(record => record.id);
+      
+      await this.db.transaction(async (tx) => {
+        await tx
+          .insert(institutions)
+          .values(batch.map(({ aliases, ...institution }) => institution))
+          .onConflictDoUpdate({
+            target: institutions.id,
+            set: {
+              name: sql`excluded.name`,
+              city: sql`excluded.city`,
+              state: sql`excluded.state`,
+              website: sql`excluded.website`,
+              control: sql`excluded.control`,
+              admitRate: sql`excluded.admit_rate`,
+              undergradEnrollment: sql`excluded.undergrad_enrollment`,
+              netPrice: sql`excluded.net_price`,
+              netPriceByIncome: sql`excluded.net_price_by_income`,
+              costOfAttendance: sql`excluded.cost_of_attendance`,
+              sat25: sql`excluded.sat_25`,
+              sat75: sql`excluded.sat_75`,
+              act25: sql`excluded.act_25`,
+              act75: sql`excluded.act_75`
+            }
+          });
+        
+        // Replace the aliases of every institution in the batch
+        await tx
+          .delete(institutionAliases)
+          .where(inArray(institutionAliases.institutionId, ids));
+        
+        const aliasRows = batch.flatMap(record => toAliasRows(record));
+        if (aliasRows.length > 0) {
+          await tx.insert(institutionAliases).values(aliasRows);
+        }
+      });
+    }
+    
+    return records.length;
+  }
+
+  // College task operations
+  async getCollegeTasks(userId: number): Promise<CollegeTask[]> {
+    // Postgres sorts NULL due dates last in ascending order
+    return this.db
+      .select()
+      .from(collegeTasks)
+      .where(eq(collegeTasks.userId, userId))
+      .orderBy(asc(collegeTasks.dueDate), asc(collegeTasks.createdAt));
+  }
+
+  async getCollegeTasksByCollege(collegeId: number): Promise<CollegeTask[]> {
+    return this.db
+      .select()
+      .from(collegeTasks)
+      .where(eq(collegeTasks.collegeId, collegeId))
+      .orderBy(asc(collegeTasks.dueDate), asc(collegeTasks.createdAt));
+  }
+
+  async getCollegeTask(taskId: number): Promise<CollegeTask | undefined> {
     const result = await this.db
       .select()
-      .from(advisors)
-      .where(eq(advisors.shareToken, shareToken));
-      
+      .from(collegeTasks)
+      .where(eq(collegeTasks.id, taskId));
     return result[0];
   }
 
-  async updateAdvisorActiveStatus(advisorId: number, isActive: boolean): Promise<Advisor | undefined> {
+  async createCollegeTask(task: InsertCollegeTask): Promise<CollegeTask> {
+    const now = new Date();
     const result = await this.db
-      .update(advisors)
-      .set({ 
-        isActive,
-        updatedAt: new Date() 
+      .insert(collegeTasks)
+      .values({
+        ...task,
+        completedAt: task.isCompleted ? now : null,
+        createdAt: now,
+        updatedAt: now
       })
-      .where(eq(advisors.id, advisorId))
       .returning();
-      
     return result[0];
   }
 
-  async deleteAdvisor(advisorId: number): Promise<boolean> {
+  async updateCollegeTask(taskId: number, updates: Partial<InsertCollegeTask>): Promise<CollegeTask | undefined> {
+    const changes: Partial<CollegeTask> = { ...updates, updatedAt: new Date() };
+    
+    // Record when the task was checked off
+    if (updates.isCompleted !== undefined) {
+      changes.completedAt = updates.isCompleted ? new Date() : null;
+    }
+    
+    const result = await this.db
+      .update(collegeTasks)
+      .set(changes)
+      .where(eq(collegeTasks.id, taskId))
+      .returning();
+    return result[0];
+  }
+
+  async deleteCollegeTask(taskId: number): Promise<boolean> {
     try {
       const result = await this.db
-        .delete(advisors)
-        .where(eq(advisors.id, advisorId))
+        .delete(collegeTasks)
+        .where(eq(collegeTasks.id, taskId))
         .returning();
-        
+      
       return result.length > 0;
     } catch (error) {
-      console.error("Error deleting advisor:", error);
+      console.error("Error deleting college task:", error);
       return false;
     }
   }
-  
-  // College recommendation operations
-  async getCollegeRecommendations(userId: number): Promise<CollegeRecommendation[]> {
+
+  // Aid offer operations
+  async getAidOffers(userId: number): Promise<AidOffer[]> {
     return this.db
       .select()
-      .from(collegeRecommendations)
-      .where(eq(collegeRecommendations.userId, userId))
-      .orderBy(desc(collegeRecommendations.createdAt));
+      .from(aidOffers)
+      .where(eq(aidOffers.userId, userId))
+      .orderBy(asc(aidOffers.createdAt));
   }
-  
-  async createCollegeRecommendation(recommendation: InsertCollegeRecommendation): Promise<CollegeRecommendation> {
+
+  async getAidOffer(offerId: number): Promise<AidOffer | undefined> {
     const result = await this.db
-      .insert(collegeRecommendations)
-      .values({
-        ...recommendation,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      })
+      .select()
+      .from(aidOffers)
+      .where(eq(aidOffers.id, offerId));
+    return result[0];
+  }
+
+  async createAidOffer(offer: InsertAidOffer): Promise<AidOffer> {
+    const now = new Date();
+    const result = await this.db
+      .insert(aidOffers)
+      .values({ ...offer, createdAt: now, updatedAt: now })
+      .returning();
+    return result[0];
+  }
+
+  async updateAidOffer(offerId: number, updates: Partial<InsertAidOffer>): Promise<AidOffer | undefined> {
+    const result = await this.db
+      .update(aidOffers)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(aidOffers.id, offerId))
+      .returning();
+    return result[0];
+  }
+
+  async deleteAidOffer(offerId: number): Promise<boolean> {
+    try {
+      const result = await this.db
+        .delete(aidOffers)
+        .where(eq(aidOffers.id, offerId))
+        .returning();
+      
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error deleting aid offer:", error);
+      return false;
+    }
+  }
+
+  // Activity operations
+  async getActivities(userId: number): Promise<Activity[]> {
+    return this.db
+      .select()
+      .from(activities)
+      .where(eq(activities.userId, userId))
+      .orderBy(asc(activities.position));
+  }
+
+  async getActivity(activityId: number): Promise<Activity | undefined> {
+    const result = await this.db
+      .select()
+      .from(activities)
+      .where(eq(activities.id, activityId));
+    return result[0];
+  }
+
+  async createActivity(activity: InsertActivity): Promise<Activity> {
+    // New activities go to the bottom of the list
+    const existing = await this.getActivities(activity.userId);
+    const position = existing.reduce((max, a) => Math.max(max, a.position), 0) + 1;
+    
+    const now = new Date();
+    const result = await this.db
+      .insert(activities)
+      .values({ ...activity, position, createdAt: now, updatedAt: now })
+      .returning();
+    return result[0];
+  }
+
+  async updateActivity(activityId: number, updates: Partial<InsertActivity>): Promise<Activity | undefined> {
+    const result = await this.db
+      .update(activities)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(activities.id, activityId))
+      .returning();
+    return result[0];
+  }
+
+  async reorderActivities(userId: number, activityIds: number[]): Promise<Activity[]> {
+    await this.db.transaction(async (tx) => {
+      for (let i = 0; i < activityIds.length; i++) {
+        await tx
+          .update(activities)
+          .set({ position: i + 1 })
+          .where(and(eq(activities.id, activityIds[i]), eq(activities.userId, userId)));
+      }
+    });
+    return this.getActivities(userId);
+  }
+
+  async deleteActivity(activityId: number): Promise<boolean> {
+    try {
+      const result = await this.db
+        .delete(activities)
+        .where(eq(activities.id, activityId))
+        .returning();
+      
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error deleting activity:", error);
+      return false;
+    }
+  }
+
+  // Recommender operations
+  async getRecommenders(userId: number): Promise<Recommender[]> {
+    return this.db
+      .select()
+      .from(recommenders)
+      .where(eq(recommenders.userId, userId))
+      .orderBy(asc(recommenders.createdAt));
+  }
+
+  async getRecommender(recommenderId: number): Promise<Recommender | undefined> {
+    const result = await this.db
+      .select()
+      .from(recommenders)
+      .where(eq(recommenders.id, recommenderId));
+    return result[0];
+  }
+
+  async getRecommenderByShareToken(shareToken: string): Promise<Recommender | undefined> {
+    const result = await this.db
+      .select()
+      .from(recommenders)
+      .where(eq(recommenders.shareToken, shareToken));
+    return result[0];
+  }
+
+  async createRecommender(recommender: InsertRecommender): Promise<Recommender> {
+    const now = new Date();
+    const result = await this.db
+      .insert(recommenders)
+      .values({ ...recommender, shareToken: crypto.randomUUID(), createdAt: now, updatedAt: now })
+      .returning();
+    return result[0];
+  }
+
+  async updateRecommender(recommenderId: number, updates: Partial<InsertRecommender>): Promise<Recommender | undefined> {
+    const result = await this.db
+      .update(recommenders)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(recommenders.id, recommenderId))
+      .returning();
+    return result[0];
+  }
+
+  async recordRecommenderView(recommenderId: number): Promise<Recommender | undefined> {
+    const result = await this.db
+      .update(recommenders)
+      .set({ lastViewedAt: new Date() })
+      .where(eq(recommenders.id, recommenderId))
+      .returning();
+    return result[0];
+  }
+
+  async deleteRecommender(recommenderId: number): Promise<boolean> {
+    try {
+      // Their letter requests go with them
+      await this.db
+        .delete(recommendationLetters)
+        .where(eq(recommendationLetters.recommenderId, recommenderId));
+      
+      const result = await this.db
+        .delete(recommenders)
+        .where(eq(recommenders.id, recommenderId))
+        .returning();
+      
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error deleting recommender:", error);
+      return false;
+    }
+  }
+
+  // Recommendation letter operations
+  async getRecommendationLetters(userId: number): Promise<RecommendationLetter[]> {
+    return this.db
+      .select()
+      .from(recommendationLetters)
+      .where(eq(recommendationLetters.userId, userId))
+      .orderBy(asc(recommendationLetters.createdAt));
+  }
+
+  async getRecommendationLettersByRecommender(recommenderId: number): Promise<RecommendationLetter[]> {
+    return this.db
+      .select()
+      .from(recommendationLetters)
+      .where(eq(recommendationLetters.recommenderId, recommenderId))
+      .orderBy(asc(recommendationLetters.createdAt));
+  }
+
+  async createRecommendationLetter(letter: InsertRecommendationLetter): Promise<RecommendationLetter> {
+    const now = new Date();
+    const result = await this.db
+      .insert(recommendationLetters)
+      .values({ ...letter, createdAt: now, updatedAt: now })
+      .returning();
+    return result[0];
+  }
+
+  async updateRecommendationLetterStatus(letterId: number, status: LetterStatusValue): Promise<RecommendationLetter | undefined> {
+    const now = new Date();
+    const result = await this.db
+      .update(recommendationLetters)
+      .set({ status, submittedAt: status === LetterStatus.SUBMITTED ? now : null, updatedAt: now })
+      .where(eq(recommendationLetters.id, letterId))
+      .returning();
+    return result[0];
+  }
+
+  async deleteRecommendationLetter(letterId: number): Promise<boolean> {
+    try {
+      const result = await this.db
+        .delete(recommendationLetters)
+        .where(eq(recommendationLetters.id, letterId))
+        .returning();
+      
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error deleting recommendation letter:", error);
+      return false;
+    }
+  }
+
+  // Advisor operations
+  async getAdvisors(userId: number): Promise<Advisor[]> {
+    return this.db
+      .select()
+      .from(advisors)
+      .where(eq(advisors.userId, userId))
+      .orderBy(desc(advisors.createdAt));
+  }
+
+  async createAdvisor(advisor: InsertAdvisor): Promise<Advisor> {
+    const shareToken = crypto.randomUUID();
+    
+    const result = await this.db
+      .insert(advisors)
+      .values({
+        ...advisor,
+        shareToken,
+        isActive: true,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      })
+      .returning();
+      
+    return result[0];
+  }
+
+  async getAdvisorByShareToken(shareToken: string): Promise<Advisor | undefined> {
+    const result = await this.db
+      .select()
+      .from(advisors)
+      .where(eq(advisors.shareToken, shareToken));
+      
+    return result[0];
+  }
+
+  async updateAdvisorActiveStatus(advisorId: number, isActive: boolean): Promise<Advisor | undefined> {
+    const result = await this.db
+      .update(advisors)
+      .set({ 
+        isActive,
+        updatedAt: new Date() 
+      })
+      .where(eq(advisors.id, advisorId))
+      .returning();
+      
+    return result[0];
+  }
+
+  async deleteAdvisor(advisorId: number): Promise<boolean> {
+    try {
+      // Comment threads and the access log belong to the advisor, so they go too
+      await this.db
+        .delete(advisorComments)
+        .where(eq(advisorComments.advisorId, advisorId));
+      
+      await this.db
+        .delete(advisorAccessLogs)
+        .where(eq(advisorAccessLogs.advisorId, advisorId));
+      
+      await this.db
+        .delete(sharedChatCollections)
+        .where(eq(sharedChatCollections.advisorId, advisorId));
+      
+      const result = await this.db
+        .delete(advisors)
+        .where(eq(advisors.id, advisorId))
+        .returning();
+        
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error deleting advisor:", error);
+      return false;
+    }
+  }
+  
+  async getAdvisorsByAccount(accountUserId: number): Promise<Advisor[]> {
+    return this.db
+      .select()
+      .from(advisors)
+      .where(eq(advisors.accountUserId, accountUserId))
+      .orderBy(desc(advisors.claimedAt));
+  }
+
+  async updateAdvisorAccount(advisorId: number, accountUserId: number | null): Promise<Advisor | undefined> {
+    const result = await this.db
+      .update(advisors)
+      .set({ 
+        accountUserId,
+        claimedAt: accountUserId ? new Date() : null,
+        updatedAt: new Date() 
+      })
+      .where(eq(advisors.id, advisorId))
+      .returning();
+      
+    return result[0];
+  }
+
+  async updateAdvisorPermissions(advisorId: number, permissions: AdvisorPermissions): Promise<Advisor | undefined> {
+    const result = await this.db
+      .update(advisors)
+      .set({ 
+        permissions,
+        updatedAt: new Date() 
+      })
+      .where(eq(advisors.id, advisorId))
+      .returning();
+      
+    return result[0];
+  }
+
+  async updateAdvisorLinkLimits(advisorId: number, limits: AdvisorLinkLimits): Promise<Advisor | undefined> {
+    const result = await this.db
+      .update(advisors)
+      .set({ 
+        expiresAt: limits.expiresAt,
+        maxViews: limits.maxViews,
+        updatedAt: new Date() 
+      })
+      .where(eq(advisors.id, advisorId))
+      .returning();
+      
+    return result[0];
+  }
+
+  async recordAdvisorView(advisorId: number): Promise<Advisor | undefined> {
+    const result = await this.db
+      .update(advisors)
+      .set({ 
+        viewCount: sql`${advisors.viewCount} + 1`,
+        lastViewedAt: new Date()
+      })
+      .where(eq(advisors.id, advisorId))
+      .returning();
+      
+    return result[0];
+  }
+  
+  // Advisor access log operations
+  async getAdvisorAccessLogs(advisorId: number): Promise<AdvisorAccessLog[]> {
+    return this.db
+      .select()
+      .from(advisorAccessLogs)
+      .where(eq(advisorAccessLogs.advisorId, advisorId))
+      .orderBy(desc(advisorAccessLogs.accessedAt));
+  }
+
+  async createAdvisorAccessLog(log: InsertAdvisorAccessLog): Promise<AdvisorAccessLog> {
+    const result = await this.db
+      .insert(advisorAccessLogs)
+      .values({
+        ...log,
+        accessedAt: new Date()
+      })
+      .returning();
+      
+    return result[0];
+  }
+  
+  // College recommendation operations
+  async getCollegeRecommendations(userId: number): Promise<CollegeRecommendation[]> {
+    return this.db
+      .select()
+      .from(collegeRecommendations)
+      .where(eq(collegeRecommendations.userId, userId))
+      .orderBy(desc(collegeRecommendations.createdAt));
+  }
+  
+  async createCollegeRecommendation(recommendation: InsertCollegeRecommendation): Promise<CollegeRecommendation> {
+    const result = await this.db
+      .insert(collegeRecommendations)
+      .values({
+        ...recommendation,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      })
       .returning();
       
     return result[0];
@@ -543,21 +1487,18 @@ export class PostgresStorage implements IStorage {
     try {
       // Find the advisor by share token
       const advisor = await this.getAdvisorByShareToken(shareToken);
-      if (!advisor) {
+      if (!advisor || !advisor.isActive) {
         return [];
       }
       
-      // Get shared chat sessions
-      const sharedSessions = await this.db
-        .select({ session: chatSessions })
-        .from(chatSessions)
-        .innerJoin(
-          sharedChatSessions,
-          eq(chatSessions.id, sharedChatSessions.sessionId)
-        )
-        .where(eq(sharedChatSessions.advisorId, advisor.id));
+      // Sessions shared one by one, plus those in shared tags and folders
+      const [sessions, sharedSessionIds, collections] = await Promise.all([
+        this.getChatSessions(advisor.userId),
+        this.getSharedChatSessions(advisor.id),
+        this.getSharedChatCollections(advisor.id)
+      ]);
       
-      return sharedSessions.map(row => row.session);
+      return sessions.filter(session => isChatSessionShared(session, sharedSessionIds, collections));
     } catch (error) {
       console.error("Error getting shared chat sessions for advisor:", error);
       return [];
@@ -568,22 +1509,13 @@ export class PostgresStorage implements IStorage {
     try {
       // Find the advisor by share token
       const advisor = await this.getAdvisorByShareToken(shareToken);
-      if (!advisor) {
+      if (!advisor || !advisor.isActive) {
         return [];
       }
       
-      // Check if this advisor has access to this session
-      const sharedSession = await this.db
-        .select()
-        .from(sharedChatSessions)
-        .where(
-          and(
-            eq(sharedChatSessions.advisorId, advisor.id),
-            eq(sharedChatSessions.sessionId, sessionId)
-          )
-        );
-      
-      if (sharedSession.length === 0) {
+      // Check if this advisor has access to this session, directly or through a tag or folder
+      const sharedSessions = await this.getSharedChatSessionsForAdvisor(shareToken);
+      if (!sharedSessions.some(session => session.id === sessionId)) {
         return [];
       }
       
@@ -611,6 +1543,278 @@ export class PostgresStorage implements IStorage {
     }
   }
   
+  async shareChatCollectionWithAdvisor(collection: InsertSharedChatCollection): Promise<SharedChatCollection> {
+    const result = await this.db
+      .insert(sharedChatCollections)
+      .values(collection)
+      .returning();
+    return result[0];
+  }
+  
+  async getSharedChatCollections(advisorId: number): Promise<SharedChatCollection[]> {
+    return await this.db
+      .select()
+      .from(sharedChatCollections)
+      .where(eq(sharedChatCollections.advisorId, advisorId))
+      .orderBy(asc(sharedChatCollections.createdAt));
+  }
+  
+  async unshareChatCollectionWithAdvisor(collectionId: number): Promise<boolean> {
+    const result = await this.db
+      .delete(sharedChatCollections)
+      .where(eq(sharedChatCollections.id, collectionId))
+      .returning();
+    return result.length > 0;
+  }
+  
+  // Essay operations
+  async getEssays(userId: number): Promise<Essay[]> {
+    return this.db
+      .select()
+      .from(essays)
+      .where(eq(essays.userId, userId))
+      .orderBy(desc(essays.updatedAt));
+  }
+
+  async getEssay(essayId: number): Promise<Essay | undefined> {
+    const result = await this.db
+      .select()
+      .from(essays)
+      .where(eq(essays.id, essayId));
+    return result[0];
+  }
+
+  async createEssay(essay: InsertEssay): Promise<Essay> {
+    const result = await this.db
+      .insert(essays)
+      .values({
+        ...essay,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      })
+      .returning();
+    return result[0];
+  }
+
+  async updateEssay(essayId: number, updates: Partial<InsertEssay>): Promise<Essay | undefined> {
+    const result = await this.db
+      .update(essays)
+      .set({ 
+        ...updates,
+        updatedAt: new Date() 
+      })
+      .where(eq(essays.id, essayId))
+      .returning();
+    return result[0];
+  }
+
+  async deleteEssay(essayId: number): Promise<boolean> {
+    try {
+      // First delete the revisions, advisor shares and comments for this essay
+      await this.db
+        .delete(essayRevisions)
+        .where(eq(essayRevisions.essayId, essayId));
+      
+      await this.db
+        .delete(sharedEssays)
+        .where(eq(sharedEssays.essayId, essayId));
+      
+      await this.db
+        .delete(advisorComments)
+        .where(eq(advisorComments.essayId, essayId));
+      
+      const result = await this.db
+        .delete(essays)
+        .where(eq(essays.id, essayId))
+        .returning();
+      
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error deleting essay:", error);
+      return false;
+    }
+  }
+
+  async getEssayRevisions(essayId: number): Promise<EssayRevision[]> {
+    return this.db
+      .select()
+      .from(essayRevisions)
+      .where(eq(essayRevisions.essayId, essayId))
+      .orderBy(desc(essayRevisions.createdAt));
+  }
+
+  async getEssayRevision(revisionId: number): Promise<EssayRevision | undefined> {
+    const result = await this.db
+      .select()
+      .from(essayRevisions)
+      .where(eq(essayRevisions.id, revisionId));
+    return result[0];
+  }
+
+  async createEssayRevision(revision: InsertEssayRevision): Promise<EssayRevision> {
+    const result = await this.db
+      .insert(essayRevisions)
+      .values({
+        ...revision,
+        createdAt: new Date()
+      })
+      .returning();
+    return result[0];
+  }
+
+  async updateEssayRevisionFeedback(revisionId: number, feedback: string): Promise<EssayRevision | undefined> {
+    const result = await this.db
+      .update(essayRevisions)
+      .set({ feedback })
+      .where(eq(essayRevisions.id, revisionId))
+      .returning();
+    return result[0];
+  }
+
+  // Shared Essay operations
+  async shareEssaysWithAdvisor(advisorId: number, essayIds: number[]): Promise<void> {
+    try {
+      // Get existing shared essays to avoid duplicates
+      const existingSharedEssays = await this.getSharedEssays(advisorId);
+      const newEssayIds = essayIds.filter(id => !existingSharedEssays.includes(id));
+      
+      if (newEssayIds.length > 0) {
+        const values = newEssayIds.map(essayId => ({
+          advisorId,
+          essayId,
+          createdAt: new Date()
+        }));
+        
+        await this.db.insert(sharedEssays).values(values);
+      }
+    } catch (error) {
+      console.error("Error sharing essays with advisor:", error);
+      throw error;
+    }
+  }
+
+  async getSharedEssays(advisorId: number): Promise<number[]> {
+    try {
+      const result = await this.db
+        .select({ essayId: sharedEssays.essayId })
+        .from(sharedEssays)
+        .where(eq(sharedEssays.advisorId, advisorId));
+      
+      return result.map(row => row.essayId);
+    } catch (error) {
+      console.error("Error getting shared essays:", error);
+      return [];
+    }
+  }
+
+  async getSharedEssaysForAdvisor(shareToken: string): Promise<Essay[]> {
+    try {
+      const advisor = await this.getAdvisorByShareToken(shareToken);
+      if (!advisor || !advisor.isActive) {
+        return [];
+      }
+      
+      const result = await this.db
+        .select({ essay: essays })
+        .from(essays)
+        .innerJoin(
+          sharedEssays,
+          eq(essays.id, sharedEssays.essayId)
+        )
+        .where(eq(sharedEssays.advisorId, advisor.id));
+      
+      return result.map(row => row.essay);
+    } catch (error) {
+      console.error("Error getting shared essays for advisor:", error);
+      return [];
+    }
+  }
+
+  async unshareEssaysWithAdvisor(advisorId: number, essayIds: number[]): Promise<void> {
+    try {
+      await this.db
+        .delete(sharedEssays)
+        .where(
+          and(
+            eq(sharedEssays.advisorId, advisorId),
+            inArray(sharedEssays.essayId, essayIds)
+          )
+        );
+    } catch (error) {
+      console.error("Error unsharing essays with advisor:", error);
+      throw error;
+    }
+  }
+  
+  // Advisor comment operations
+  async getAdvisorComments(userId: number): Promise<AdvisorComment[]> {
+    return this.db
+      .select()
+      .from(advisorComments)
+      .where(eq(advisorComments.userId, userId))
+      .orderBy(asc(advisorComments.createdAt));
+  }
+
+  async getAdvisorCommentsByAdvisor(advisorId: number): Promise<AdvisorComment[]> {
+    return this.db
+      .select()
+      .from(advisorComments)
+      .where(eq(advisorComments.advisorId, advisorId))
+      .orderBy(asc(advisorComments.createdAt));
+  }
+
+  async getAdvisorComment(commentId: number): Promise<AdvisorComment | undefined> {
+    const result = await this.db
+      .select()
+      .from(advisorComments)
+      .where(eq(advisorComments.id, commentId));
+    return result[0];
+  }
+
+  async createAdvisorComment(comment: InsertAdvisorComment): Promise<AdvisorComment> {
+    const result = await this.db
+      .insert(advisorComments)
+      .values({
+        ...comment,
+        createdAt: new Date()
+      })
+      .returning();
+    return result[0];
+  }
+
+  async markAdvisorCommentsRead(userId: number, commentIds: number[]): Promise<void> {
+    if (commentIds.length === 0) return;
+    
+    await this.db
+      .update(advisorComments)
+      .set({ isRead: true })
+      .where(
+        and(
+          eq(advisorComments.userId, userId),
+          inArray(advisorComments.id, commentIds)
+        )
+      );
+  }
+
+  async deleteAdvisorComment(commentId: number): Promise<boolean> {
+    try {
+      // Deleting the first comment of a thread removes its replies too
+      await this.db
+        .delete(advisorComments)
+        .where(eq(advisorComments.parentId, commentId));
+      
+      const result = await this.db
+        .delete(advisorComments)
+        .where(eq(advisorComments.id, commentId))
+        .returning();
+      
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error deleting advisor comment:", error);
+      return false;
+    }
+  }
+  
   // Message feedback operations
   async createMessageFeedback(feedback: InsertMessageFeedback): Promise<MessageFeedback> {
     try {
@@ -647,6 +1851,7 @@ export class MemStorage implements IStorage {
   private sharedChatSessions: Map<number, number[]> = new Map(); // Map advisorId to array of sessionIds
   private chatSessionId: number = 1;
   private chatMessageId: number = 1;
+  private chatSearchIndex: Map<string, Map<number, number>> = new Map(); // Search term -> message id -> occurrences
   private collegeId: number = 1;
   currentId: number;
   sessionStore: session.Store;
@@ -691,8 +1896,14 @@ export class MemStorage implements IStorage {
     const user: User = { 
       ...insertUser, 
       id,
+      role: insertUser.role || UserRole.STUDENT,
       profileDescription: null,
-      onboarding: insertUser.onboarding || defaultOnboarding 
+      calendarToken: null,
+      onboarding: insertUser.onboarding || defaultOnboarding,
+      academicRecord: null,
+      requireProfileApproval: false,
+      financialProfile: null,
+      bragSheet: null
     };
     
     this.users.set(id, user);
@@ -716,6 +1927,103 @@ export class MemStorage implements IStorage {
     this.users.set(userId, updatedUser);
     return updatedUser;
   }
+
+  async updateUserAcademicRecord(userId: number, academicRecord: AcademicRecord): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+
+    const updatedUser = { ...user, academicRecord };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
+  async getUsersWithoutAcademicRecord(): Promise<User[]> {
+    return Array.from(this.users.values()).filter(user => !user.academicRecord);
+  }
+
+  async updateUserRequireProfileApproval(userId: number, requireProfileApproval: boolean): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+
+    const updatedUser = { ...user, requireProfileApproval };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
+  async updateUserFinancialProfile(userId: number, financialProfile: FinancialProfile): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+
+    const updatedUser = { ...user, financialProfile };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
+  async updateUserBragSheet(userId: number, bragSheet: string | null): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+
+    const updatedUser = { ...user, bragSheet };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
+  // Profile revision operations
+  private profileRevisions: Map<number, ProfileRevision> = new Map();
+  private profileRevisionId: number = 1;
+
+  async getProfileRevisions(userId: number): Promise<ProfileRevision[]> {
+    return Array.from(this.profileRevisions.values())
+      .filter(revision => revision.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async getProfileRevision(revisionId: number): Promise<ProfileRevision | undefined> {
+    return this.profileRevisions.get(revisionId);
+  }
+
+  async createProfileRevision(revision: InsertProfileRevision): Promise<ProfileRevision> {
+    const id = this.profileRevisionId++;
+
+    const newRevision: ProfileRevision = {
+      id,
+      userId: revision.userId,
+      content: revision.content,
+      source: revision.source,
+      status: revision.status ?? ProfileRevisionStatus.APPLIED,
+      chatMessageId: revision.chatMessageId ?? null,
+      revertedFromId: revision.revertedFromId ?? null,
+      createdAt: new Date(),
+      reviewedAt: null
+    };
+
+    this.profileRevisions.set(id, newRevision);
+    return newRevision;
+  }
+
+  async updateProfileRevisionStatus(revisionId: number, status: ProfileRevisionStatusType): Promise<ProfileRevision | undefined> {
+    const revision = this.profileRevisions.get(revisionId);
+    if (!revision) return undefined;
+
+    const updatedRevision = { ...revision, status, reviewedAt: new Date() };
+    this.profileRevisions.set(revisionId, updatedRevision);
+    return updatedRevision;
+  }
+
+  async getUserByCalendarToken(calendarToken: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.calendarToken === calendarToken,
+    );
+  }
+
+  async updateUserCalendarToken(userId: number, calendarToken: string | null): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+    
+    const updatedUser = { ...user, calendarToken };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
   
   // Chat operations with in-memory implementation
   
@@ -726,6 +2034,10 @@ export class MemStorage implements IStorage {
     const newSession: ChatSession = {
       ...session,
       id,
+      isPinned: false,
+      tags: [],
+      folderId: null,
+      activeMessageId: null,
       createdAt: now,
       updatedAt: now
     };
@@ -760,6 +2072,16 @@ export class MemStorage implements IStorage {
     return updatedSession;
   }
   
+  // Organizing a session doesn't count as activity, so updatedAt is left alone
+  async updateChatSessionOrganization(sessionId: number, updates: ChatSessionOrganization): Promise<ChatSession | undefined> {
+    const session = this.chatSessions.get(sessionId);
+    if (!session) return undefined;
+    
+    const updatedSession: ChatSession = { ...session, ...updates };
+    this.chatSessions.set(sessionId, updatedSession);
+    return updatedSession;
+  }
+  
   async deleteChatSession(sessionId: number): Promise<boolean> {
     try {
       // Check if the session exists
@@ -767,8 +2089,10 @@ export class MemStorage implements IStorage {
         return false;
       }
       
-      // Delete the session messages
+      // Delete the session messages and the advisor comments on them
+      (this.chatMessages.get(sessionId) || []).forEach(message => this.unindexChatMessage(message));
       this.chatMessages.delete(sessionId);
+      this.deleteAdvisorCommentsWhere(comment => comment.chatSessionId === sessionId);
       
       // Delete the session
       return this.chatSessions.delete(sessionId);
@@ -778,15 +2102,16 @@ export class MemStorage implements IStorage {
     }
   }
   
-  async createChatMessage(message: InsertChatMessage): Promise<ChatMessage> {
+  async createChatMessage(message: InsertChatMessage, showBranch = true): Promise<ChatMessage> {
     const id = this.chatMessageId++;
     const now = new Date();
-    
-    // Update session's updatedAt
     const session = this.chatSessions.get(message.sessionId);
+    
+    // Update session's updatedAt and show the new message's branch
     if (session) {
       this.chatSessions.set(message.sessionId, {
         ...session,
+        activeMessageId: showBranch ? id : session.activeMessageId,
         updatedAt: now
       });
     }
@@ -794,6 +2119,10 @@ export class MemStorage implements IStorage {
     // Create new message
     const newMessage: ChatMessage = {
       ...message,
+      parentId: message.parentId !== undefined ? message.parentId : session?.activeMessageId ?? null,
+      citations: message.citations ?? [],
+      citationSupports: message.citationSupports ?? [],
+      searchQueries: message.searchQueries ?? null,
       id,
       createdAt: now
     };
@@ -801,6 +2130,7 @@ export class MemStorage implements IStorage {
     // Add to message collection for this session
     const sessionMessages = this.chatMessages.get(message.sessionId) || [];
     this.chatMessages.set(message.sessionId, [...sessionMessages, newMessage]);
+    this.indexChatMessage(newMessage);
     
     return newMessage;
   }
@@ -809,6 +2139,125 @@ export class MemStorage implements IStorage {
     return this.chatMessages.get(sessionId) || [];
   }
   
+  async getUnlinkedChatSessionIds(): Promise<number[]> {
+    return Array.from(this.chatSessions.values())
+      .filter(session => session.activeMessageId === null && (this.chatMessages.get(session.id) || []).length > 0)
+      .map(session => session.id);
+  }
+  
+  async linkChatMessages(sessionId: number): Promise<ChatSession | undefined> {
+    const session = this.chatSessions.get(sessionId);
+    const messages = this.chatMessages.get(sessionId) || [];
+    if (!session || session.activeMessageId !== null || messages.length === 0) return session;
+    
+    this.chatMessages.set(sessionId, messages.map((message, i) =>
+      i === 0 ? message : { ...message, parentId: messages[i - 1].id }));
+    const linkedSession: ChatSession = { ...session, activeMessageId: messages[messages.length - 1].id };
+    this.chatSessions.set(sessionId, linkedSession);
+    return linkedSession;
+  }
+  
+  async setActiveChatMessage(sessionId: number, messageId: number): Promise<ChatSession | undefined> {
+    const session = this.chatSessions.get(sessionId);
+    if (!session) return undefined;
+    
+    const updatedSession: ChatSession = { ...session, activeMessageId: messageId };
+    this.chatSessions.set(sessionId, updatedSession);
+    return updatedSession;
+  }
+  
+  private indexChatMessage(message: ChatMessage) {
+    toSearchTerms(message.content).forEach(term => {
+      const postings = this.chatSearchIndex.get(term) || new Map<number, number>();
+      postings.set(message.id, (postings.get(message.id) || 0) + 1);
+      this.chatSearchIndex.set(term, postings);
+    });
+  }
+  
+  private unindexChatMessage(message: ChatMessage) {
+    toSearchTerms(message.content).forEach(term => {
+      const postings = this.chatSearchIndex.get(term);
+      postings?.delete(message.id);
+      if (postings?.size === 0) this.chatSearchIndex.delete(term);
+    });
+  }
+  
+  async searchChatMessages(userId: number, query: string, limit: number): Promise<ChatSearchResult[]> {
+    const terms = Array.from(new Set(toSearchTerms(query)));
+    if (terms.length === 0) return [];
+    
+    const sessions = await this.getChatSessions(userId);
+    const messages = new Map<number, { message: ChatMessage; sessionTitle: string }>();
+    sessions.forEach(session => {
+      (this.chatMessages.get(session.id) || []).forEach(message => messages.set(message.id, { message, sessionTitle: session.title }));
+    });
+    
+    // Every term has to appear, as with websearch_to_tsquery; rarer terms count for more
+    const postings = terms.map(term => this.chatSearchIndex.get(term) || new Map<number, number>());
+    const weights = postings.map(termPostings => {
+      const matches = Array.from(termPostings.keys()).filter(id => messages.has(id)).length;
+      return Math.log(1 + messages.size / Math.max(matches, 1));
+    });
+    
+    return Array.from(postings[0].keys())
+      .filter(id => messages.has(id) && postings.every(termPostings => termPostings.has(id)))
+      .map(id => {
+        const { message, sessionTitle } = messages.get(id)!;
+        const score = postings.reduce((sum, termPostings, i) => sum + termPostings.get(id)! * weights[i], 0)
+          / Math.sqrt(toSearchTerms(message.content).length);
+        return { message, sessionTitle, score };
+      })
+      .sort((a, b) => b.score - a.score || b.message.createdAt.getTime() - a.message.createdAt.getTime())
+      .slice(0, limit)
+      .map(({ message, sessionTitle }) => toChatSearchResult(message, sessionTitle, terms));
+  }
+  
+  // Chat folder operations
+  private chatFolders: Map<number, ChatFolder> = new Map();
+  private chatFolderId: number = 1;
+  
+  async getChatFolders(userId: number): Promise<ChatFolder[]> {
+    return Array.from(this.chatFolders.values())
+      .filter(folder => folder.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async getChatFolder(folderId: number): Promise<ChatFolder | undefined> {
+    return this.chatFolders.get(folderId);
+  }
+  
+  async createChatFolder(folder: InsertChatFolder): Promise<ChatFolder> {
+    const now = new Date();
+    const newFolder: ChatFolder = {
+      ...folder,
+      id: this.chatFolderId++,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.chatFolders.set(newFolder.id, newFolder);
+    return newFolder;
+  }
+  
+  async renameChatFolder(folderId: number, name: string): Promise<ChatFolder | undefined> {
+    const folder = this.chatFolders.get(folderId);
+    if (!folder) return undefined;
+    
+    const updatedFolder: ChatFolder = { ...folder, name, updatedAt: new Date() };
+    this.chatFolders.set(folderId, updatedFolder);
+    return updatedFolder;
+  }
+  
+  // Sessions in the folder stay, unfiled; shares of the folder go with it
+  async deleteChatFolder(folderId: number): Promise<boolean> {
+    Array.from(this.chatSessions.values())
+      .filter(session => session.folderId === folderId)
+      .forEach(session => this.chatSessions.set(session.id, { ...session, folderId: null }));
+    Array.from(this.sharedChatCollections.values())
+      .filter(collection => collection.folderId === folderId)
+      .forEach(collection => this.sharedChatCollections.delete(collection.id));
+    return this.chatFolders.delete(folderId);
+  }
+  
   // College operations
   async getColleges(userId: number): Promise<College[]> {
     // Filter colleges by userId and sort by status and position
@@ -821,85 +2270,542 @@ export class MemStorage implements IStorage {
         return a.position - b.position;
       });
   }
-  
-  async getCollegesByStatus(userId: number, status: CollegeStatusType): Promise<College[]> {
-    // Filter colleges by userId and status, then sort by position
-    return Array.from(this.colleges.values())
-      .filter(college => college.userId === userId && college.status === status)
-      .sort((a, b) => a.position - b.position);
+  
+  async getCollege(collegeId: number): Promise<College | undefined> {
+    return this.colleges.get(collegeId);
+  }
+  
+  async getCollegesByStatus(userId: number, status: CollegeStatusType): Promise<College[]> {
+    // Filter colleges by userId and status, then sort by position
+    return Array.from(this.colleges.values())
+      .filter(college => college.userId === userId && college.status === status)
+      .sort((a, b) => a.position - b.position);
+  }
+  
+  async createCollege(college: InsertCollege): Promise<College> {
+    const id = this.collegeId++;
+    const now = new Date();
+    
+    // Use provided position or calculate a new one
+    let position = college.position;
+    
+    // If position isn't provided, calculate it
+    if (position === undefined) {
+      // Find max position for this status
+      const collegesInStatus = Array.from(this.colleges.values())
+        .filter((c: College) => c.userId === college.userId && c.status === college.status);
+      
+      const maxPosition = collegesInStatus.reduce((max: number, c: College) => Math.max(max, c.position), 0);
+      position = maxPosition + 1;
+    }
+    
+    // Create the college
+    const newCollege: College = {
+      id,
+      name: college.name,
+      userId: college.userId,
+      institutionId: college.institutionId ?? null,
+      status: college.status as CollegeStatusType, // Explicit casting to ensure type safety
+      position: position,
+      notes: null,
+      pros: [],
+      cons: [],
+      ratings: [],
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    this.colleges.set(id, newCollege);
+    return newCollege;
+  }
+  
+  async updateCollegeStatus(collegeId: number, status: CollegeStatusType): Promise<College | undefined> {
+    const college = this.colleges.get(collegeId);
+    if (!college) return undefined;
+    
+    // Find max position for the target status
+    const collegesInTargetStatus = Array.from(this.colleges.values())
+      .filter((c: College) => c.userId === college.userId && c.status === status);
+    
+    const maxPosition = collegesInTargetStatus.reduce((max: number, c: College) => Math.max(max, c.position), 0);
+    const nextPosition = maxPosition + 1;
+    
+    // Update the college
+    const updatedCollege: College = {
+      ...college,
+      status,
+      position: nextPosition,
+      updatedAt: new Date()
+    };
+    
+    this.colleges.set(collegeId, updatedCollege);
+    return updatedCollege;
+  }
+  
+  async updateCollegePosition(collegeId: number, position: number): Promise<College | undefined> {
+    const college = this.colleges.get(collegeId);
+    if (!college) return undefined;
+    
+    const updatedCollege: College = {
+      ...college,
+      position,
+      updatedAt: new Date()
+    };
+    
+    this.colleges.set(collegeId, updatedCollege);
+    return updatedCollege;
+  }
+  
+  async updateCollegeNotes(collegeId: number, notes: Partial<CollegeNotes>): Promise<College | undefined> {
+    const college = this.colleges.get(collegeId);
+    if (!college) return undefined;
+    
+    const updatedCollege: College = {
+      ...college,
+      ...notes,
+      updatedAt: new Date()
+    };
+    
+    this.colleges.set(collegeId, updatedCollege);
+    return updatedCollege;
+  }
+  
+  async deleteCollege(collegeId: number): Promise<boolean> {
+    // Remove the college's tasks, aid offers and letter requests along with it
+    Array.from(this.collegeTasks.values())
+      .filter(task => task.collegeId === collegeId)
+      .forEach(task => this.collegeTasks.delete(task.id));
+    Array.from(this.aidOffers.values())
+      .filter(offer => offer.collegeId === collegeId)
+      .forEach(offer => this.aidOffers.delete(offer.id));
+    Array.from(this.recommendationLetters.values())
+      .filter(letter => letter.collegeId === collegeId)
+      .forEach(letter => this.recommendationLetters.delete(letter.id));
+    
+    return this.colleges.delete(collegeId);
+  }
+
+  // Institution catalog operations
+  private institutions: Map<number, Institution> = new Map();
+  private institutionAliases: InstitutionAlias[] = [];
+  private institutionAliasId: number = 1;
+
+  async getInstitution(institutionId: number): Promise<Institution | undefined> {
+    return this.institutions.get(institutionId);
+  }
+
+  async searchInstitutions(query: string, limit: number): Promise<CatalogSearchResult[]> {
+    const tokens = normalizeInstitutionName(query).split(" ").filter(Boolean);
+    if (tokens.length === 0) return [];
+    
+    const rows = this.institutionAliases
+      .filter(alias => tokens.every(token => alias.normalizedAlias.includes(token)))
+      .map(alias => ({ institution: this.institutions.get(alias.institutionId)!, alias }))
+      .filter(row => row.institution);
+      
+    return rankInstitutionMatches(tokens, rows, limit);
+  }
+
+  async findInstitutionByName(name: string): Promise<Institution | undefined> {
+    const normalized = normalizeInstitutionName(name);
+    const ids = new Set(this.institutionAliases
+      .filter(alias => alias.normalizedAlias === normalized)
+      .map(alias => alias.institutionId));
+      
+    // Only trust names that point at a single institution
+    return ids.size === 1 ? this.institutions.get(Array.from(ids)[0]) : undefined;
+  }
+
+  async getInstitutionAliases(institutionId: number): Promise<string[]> {
+    return this.institutionAliases
+      .filter(alias => alias.institutionId === institutionId)
+      .map(alias => alias.alias);
+  }
+
+  async isInstitutionCity(normalizedName: string): Promise<boolean> {
+    return Array.from(this.institutions.values())
+      .some(institution => institution.city !== null && normalizeInstitutionName(institution.city) === normalizedName);
+  }
+
+  async countInstitutions(): Promise<number> {
+    return this.institutions.size;
+  }
+
+  async importInstitutions(records: InstitutionWithAliases[]): Promise<number> {
+    const ids = new Set(records.map(record => record.id));
+    this.institutionAliases = this.institutionAliases.filter(alias => !ids.has(alias.institutionId));
+    
+    records.forEach(record => {
+      const { aliases, ...institution } = record;
+      this.institutions.set(record.id, {
+        ...institution,
+        city: institution.city ?? null,
+        state: institution.state ?? null,
+        website: institution.website ?? null,
+        control: institution.control ?? null,
+        admitRate: institution.admitRate ?? null,
+        undergradEnrollment: institution.undergradEnrollment ?? null,
+        netPrice: institution.netPrice ?? null,
+        netPriceByIncome: institution.netPriceByIncome ?? null,
+        costOfAttendance: institution.costOfAttendance ?? null,
+        sat25: institution.sat25 ?? null,
+        sat75: institution.sat75 ?? null,
+        act25: institution.act25 ?? null,
+        act75: institution.act75 ?? null
+      });
+      
+      toAliasRows(record).forEach(alias => {
+        this.institutionAliases.push({ ...alias, id: this.institutionAliasId++ });
+      });
+    });
+    
+    return records.length;
+  }
+
+  // College task operations
+  private collegeTasks: Map<number, CollegeTask> = new Map();
+  private collegeTaskId: number = 1;
+
+  // Sort by due date (tasks without one last), then by creation time
+  private sortCollegeTasks(tasks: CollegeTask[]): CollegeTask[] {
+    return tasks.sort((a, b) => {
+      if (a.dueDate && b.dueDate) {
+        return a.dueDate.getTime() - b.dueDate.getTime() || a.createdAt.getTime() - b.createdAt.getTime();
+      }
+      if (a.dueDate) return -1;
+      if (b.dueDate) return 1;
+      return a.createdAt.getTime() - b.createdAt.getTime();
+    });
+  }
+
+  async getCollegeTasks(userId: number): Promise<CollegeTask[]> {
+    return this.sortCollegeTasks(
+      Array.from(this.collegeTasks.values()).filter(task => task.userId === userId)
+    );
+  }
+
+  async getCollegeTasksByCollege(collegeId: number): Promise<CollegeTask[]> {
+    return this.sortCollegeTasks(
+      Array.from(this.collegeTasks.values()).filter(task => task.collegeId === collegeId)
+    );
+  }
+
+  async getCollegeTask(taskId: number): Promise<CollegeTask | undefined> {
+    return this.collegeTasks.get(taskId);
+  }
+
+  async createCollegeTask(task: InsertCollegeTask): Promise<CollegeTask> {
+    const id = this.collegeTaskId++;
+    const now = new Date();
+    
+    const newTask: CollegeTask = {
+      id,
+      userId: task.userId,
+      collegeId: task.collegeId,
+      type: task.type || "other",
+      title: task.title,
+      notes: task.notes ?? null,
+      dueDate: task.dueDate ?? null,
+      isCompleted: task.isCompleted ?? false,
+      completedAt: task.isCompleted ? now : null,
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    this.collegeTasks.set(id, newTask);
+    return newTask;
+  }
+
+  async updateCollegeTask(taskId: number, updates: Partial<InsertCollegeTask>): Promise<CollegeTask | undefined> {
+    const task = this.collegeTasks.get(taskId);
+    if (!task) return undefined;
+    
+    const updatedTask: CollegeTask = {
+      ...task,
+      ...updates,
+      type: updates.type || task.type,
+      notes: updates.notes !== undefined ? updates.notes : task.notes,
+      dueDate: updates.dueDate !== undefined ? updates.dueDate : task.dueDate,
+      isCompleted: updates.isCompleted ?? task.isCompleted,
+      updatedAt: new Date()
+    };
+    
+    // Record when the task was checked off
+    if (updates.isCompleted !== undefined && updates.isCompleted !== task.isCompleted) {
+      updatedTask.completedAt = updates.isCompleted ? new Date() : null;
+    }
+    
+    this.collegeTasks.set(taskId, updatedTask);
+    return updatedTask;
+  }
+
+  async deleteCollegeTask(taskId: number): Promise<boolean> {
+    return this.collegeTasks.delete(taskId);
+  }
+
+  // Aid offer operations
+  private aidOffers: Map<number, AidOffer> = new Map();
+  private aidOfferId: number = 1;
+
+  async getAidOffers(userId: number): Promise<AidOffer[]> {
+    return Array.from(this.aidOffers.values())
+      .filter(offer => offer.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getAidOffer(offerId: number): Promise<AidOffer | undefined> {
+    return this.aidOffers.get(offerId);
+  }
+
+  async createAidOffer(offer: InsertAidOffer): Promise<AidOffer> {
+    const id = this.aidOfferId++;
+    const now = new Date();
+    
+    const newOffer: AidOffer = {
+      id,
+      userId: offer.userId,
+      collegeId: offer.collegeId,
+      attachment: offer.attachment ?? null,
+      academicYear: offer.academicYear ?? null,
+      costOfAttendance: offer.costOfAttendance ?? null,
+      statedTotalAid: offer.statedTotalAid ?? null,
+      items: offer.items,
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    this.aidOffers.set(id, newOffer);
+    return newOffer;
+  }
+
+  async updateAidOffer(offerId: number, updates: Partial<InsertAidOffer>): Promise<AidOffer | undefined> {
+    const offer = this.aidOffers.get(offerId);
+    if (!offer) return undefined;
+    
+    const updatedOffer: AidOffer = {
+      ...offer,
+      ...updates,
+      attachment: updates.attachment !== undefined ? updates.attachment : offer.attachment,
+      academicYear: updates.academicYear !== undefined ? updates.academicYear : offer.academicYear,
+      costOfAttendance: updates.costOfAttendance !== undefined ? updates.costOfAttendance : offer.costOfAttendance,
+      statedTotalAid: updates.statedTotalAid !== undefined ? updates.statedTotalAid : offer.statedTotalAid,
+      updatedAt: new Date()
+    };
+    
+    this.aidOffers.set(offerId, updatedOffer);
+    return updatedOffer;
+  }
+
+  async deleteAidOffer(offerId: number): Promise<boolean> {
+    return this.aidOffers.delete(offerId);
+  }
+
+  // Activity operations
+  private activities: Map<number, Activity> = new Map();
+  private activityId: number = 1;
+
+  async getActivities(userId: number): Promise<Activity[]> {
+    return Array.from(this.activities.values())
+      .filter(activity => activity.userId === userId)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  async getActivity(activityId: number): Promise<Activity | undefined> {
+    return this.activities.get(activityId);
+  }
+
+  async createActivity(activity: InsertActivity): Promise<Activity> {
+    const id = this.activityId++;
+    const now = new Date();
+    
+    // New activities go to the bottom of the list
+    const existing = await this.getActivities(activity.userId);
+    const position = existing.reduce((max, a) => Math.max(max, a.position), 0) + 1;
+    
+    const newActivity: Activity = {
+      id,
+      userId: activity.userId,
+      position,
+      type: activity.type ?? "other",
+      role: activity.role ?? "",
+      organization: activity.organization ?? "",
+      description: activity.description ?? "",
+      gradeLevels: activity.gradeLevels ?? [],
+      hoursPerWeek: activity.hoursPerWeek ?? null,
+      weeksPerYear: activity.weeksPerYear ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    this.activities.set(id, newActivity);
+    return newActivity;
+  }
+
+  async updateActivity(activityId: number, updates: Partial<InsertActivity>): Promise<Activity | undefined> {
+    const activity = this.activities.get(activityId);
+    if (!activity) return undefined;
+    
+    const updatedActivity: Activity = {
+      ...activity,
+      ...updates,
+      type: updates.type ?? activity.type,
+      role: updates.role ?? activity.role,
+      organization: updates.organization ?? activity.organization,
+      description: updates.description ?? activity.description,
+      gradeLevels: updates.gradeLevels ?? activity.gradeLevels,
+      hoursPerWeek: updates.hoursPerWeek !== undefined ? updates.hoursPerWeek : activity.hoursPerWeek,
+      weeksPerYear: updates.weeksPerYear !== undefined ? updates.weeksPerYear : activity.weeksPerYear,
+      updatedAt: new Date()
+    };
+    
+    this.activities.set(activityId, updatedActivity);
+    return updatedActivity;
+  }
+
+  async reorderActivities(userId: number, activityIds: number[]): Promise<Activity[]> {
+    activityIds.forEach((activityId, i) => {
+      const activity = this.activities.get(activityId);
+      if (activity && activity.userId === userId) {
+        this.activities.set(activityId, { ...activity, position: i + 1 });
+      }
+    });
+    return this.getActivities(userId);
+  }
+
+  async deleteActivity(activityId: number): Promise<boolean> {
+    return this.activities.delete(activityId);
+  }
+
+  // Recommender operations
+  private recommenders: Map<number, Recommender> = new Map();
+  private recommenderId: number = 1;
+
+  async getRecommenders(userId: number): Promise<Recommender[]> {
+    return Array.from(this.recommenders.values())
+      .filter(recommender => recommender.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getRecommender(recommenderId: number): Promise<Recommender | undefined> {
+    return this.recommenders.get(recommenderId);
+  }
+
+  async getRecommenderByShareToken(shareToken: string): Promise<Recommender | undefined> {
+    return Array.from(this.recommenders.values()).find(recommender => recommender.shareToken === shareToken);
   }
-  
-  async createCollege(college: InsertCollege): Promise<College> {
-    const id = this.collegeId++;
+
+  async createRecommender(recommender: InsertRecommender): Promise<Recommender> {
+    const id = this.recommenderId++;
     const now = new Date();
     
-    // Use provided position or calculate a new one
-    let position = college.position;
-    
-    // If position isn't provided, calculate it
-    if (position === undefined) {
-      // Find max position for this status
-      const collegesInStatus = Array.from(this.colleges.values())
-        .filter((c: College) => c.userId === college.userId && c.status === college.status);
-      
-      const maxPosition = collegesInStatus.reduce((max: number, c: College) => Math.max(max, c.position), 0);
-      position = maxPosition + 1;
-    }
-    
-    // Create the college
-    const newCollege: College = {
+    const newRecommender: Recommender = {
       id,
-      name: college.name,
-      userId: college.userId,
-      status: college.status as CollegeStatusType, // Explicit casting to ensure type safety
-      position: position,
+      userId: recommender.userId,
+      name: recommender.name,
+      role: recommender.role || "teacher",
+      subject: recommender.subject ?? null,
+      email: recommender.email ?? null,
+      message: recommender.message ?? null,
+      shareToken: crypto.randomUUID(),
+      isActive: recommender.isActive ?? true,
+      lastViewedAt: null,
       createdAt: now,
       updatedAt: now
     };
     
-    this.colleges.set(id, newCollege);
-    return newCollege;
+    this.recommenders.set(id, newRecommender);
+    return newRecommender;
   }
-  
-  async updateCollegeStatus(collegeId: number, status: CollegeStatusType): Promise<College | undefined> {
-    const college = this.colleges.get(collegeId);
-    if (!college) return undefined;
+
+  async updateRecommender(recommenderId: number, updates: Partial<InsertRecommender>): Promise<Recommender | undefined> {
+    const recommender = this.recommenders.get(recommenderId);
+    if (!recommender) return undefined;
     
-    // Find max position for the target status
-    const collegesInTargetStatus = Array.from(this.colleges.values())
-      .filter((c: College) => c.userId === college.userId && c.status === status);
+    const updatedRecommender: Recommender = {
+      ...recommender,
+      ...updates,
+      role: updates.role || recommender.role,
+      subject: updates.subject !== undefined ? updates.subject : recommender.subject,
+      email: updates.email !== undefined ? updates.email : recommender.email,
+      message: updates.message !== undefined ? updates.message : recommender.message,
+      isActive: updates.isActive ?? recommender.isActive,
+      updatedAt: new Date()
+    };
     
-    const maxPosition = collegesInTargetStatus.reduce((max: number, c: College) => Math.max(max, c.position), 0);
-    const nextPosition = maxPosition + 1;
+    this.recommenders.set(recommenderId, updatedRecommender);
+    return updatedRecommender;
+  }
+
+  async recordRecommenderView(recommenderId: number): Promise<Recommender | undefined> {
+    const recommender = this.recommenders.get(recommenderId);
+    if (!recommender) return undefined;
     
-    // Update the college
-    const updatedCollege: College = {
-      ...college,
-      status,
-      position: nextPosition,
-      updatedAt: new Date()
+    const updatedRecommender: Recommender = { ...recommender, lastViewedAt: new Date() };
+    this.recommenders.set(recommenderId, updatedRecommender);
+    return updatedRecommender;
+  }
+
+  async deleteRecommender(recommenderId: number): Promise<boolean> {
+    // Their letter requests go with them
+    Array.from(this.recommendationLetters.values())
+      .filter(letter => letter.recommenderId === recommenderId)
+      .forEach(letter => this.recommendationLetters.delete(letter.id));
+    return this.recommenders.delete(recommenderId);
+  }
+
+  // Recommendation letter operations
+  private recommendationLetters: Map<number, RecommendationLetter> = new Map();
+  private recommendationLetterId: number = 1;
+
+  async getRecommendationLetters(userId: number): Promise<RecommendationLetter[]> {
+    return Array.from(this.recommendationLetters.values())
+      .filter(letter => letter.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getRecommendationLettersByRecommender(recommenderId: number): Promise<RecommendationLetter[]> {
+    return Array.from(this.recommendationLetters.values())
+      .filter(letter => letter.recommenderId === recommenderId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createRecommendationLetter(letter: InsertRecommendationLetter): Promise<RecommendationLetter> {
+    const id = this.recommendationLetterId++;
+    const now = new Date();
+    
+    const newLetter: RecommendationLetter = {
+      id,
+      userId: letter.userId,
+      recommenderId: letter.recommenderId,
+      collegeId: letter.collegeId,
+      status: letter.status || "requested",
+      submittedAt: null,
+      createdAt: now,
+      updatedAt: now
     };
     
-    this.colleges.set(collegeId, updatedCollege);
-    return updatedCollege;
+    this.recommendationLetters.set(id, newLetter);
+    return newLetter;
   }
-  
-  async updateCollegePosition(collegeId: number, position: number): Promise<College | undefined> {
-    const college = this.colleges.get(collegeId);
-    if (!college) return undefined;
+
+  async updateRecommendationLetterStatus(letterId: number, status: LetterStatusValue): Promise<RecommendationLetter | undefined> {
+    const letter = this.recommendationLetters.get(letterId);
+    if (!letter) return undefined;
     
-    const updatedCollege: College = {
-      ...college,
-      position,
-      updatedAt: new Date()
+    const now = new Date();
+    const updatedLetter: RecommendationLetter = {
+      ...letter,
+      status,
+      submittedAt: status === LetterStatus.SUBMITTED ? now : null,
+      updatedAt: now
     };
     
-    this.colleges.set(collegeId, updatedCollege);
-    return updatedCollege;
+    this.recommendationLetters.set(letterId, updatedLetter);
+    return updatedLetter;
   }
-  
-  async deleteCollege(collegeId: number): Promise<boolean> {
-    return this.colleges.delete(collegeId);
+
+  async deleteRecommendationLetter(letterId: number): Promise<boolean> {
+    return this.recommendationLetters.delete(letterId);
   }
 
   // Advisor operations
@@ -922,6 +2828,13 @@ export class MemStorage implements IStorage {
       id,
       shareToken,
       isActive: true,
+      accountUserId: null,
+      claimedAt: null,
+      permissions: advisor.permissions || DEFAULT_ADVISOR_PERMISSIONS,
+      expiresAt: null,
+      maxViews: null,
+      viewCount: 0,
+      lastViewedAt: null,
       createdAt: now,
       updatedAt: now
     };
@@ -951,8 +2864,104 @@ export class MemStorage implements IStorage {
   }
 
   async deleteAdvisor(advisorId: number): Promise<boolean> {
+    // Comment threads and the access log belong to the advisor, so they go too
+    this.deleteAdvisorCommentsWhere(comment => comment.advisorId === advisorId);
+    Array.from(this.advisorAccessLogs.values())
+      .filter(log => log.advisorId === advisorId)
+      .forEach(log => this.advisorAccessLogs.delete(log.id));
+    Array.from(this.sharedChatCollections.values())
+      .filter(collection => collection.advisorId === advisorId)
+      .forEach(collection => this.sharedChatCollections.delete(collection.id));
     return this.advisors.delete(advisorId);
   }
+
+  async getAdvisorsByAccount(accountUserId: number): Promise<Advisor[]> {
+    return Array.from(this.advisors.values())
+      .filter(advisor => advisor.accountUserId === accountUserId)
+      .sort((a, b) => (b.claimedAt?.getTime() || 0) - (a.claimedAt?.getTime() || 0));
+  }
+
+  async updateAdvisorAccount(advisorId: number, accountUserId: number | null): Promise<Advisor | undefined> {
+    const advisor = this.advisors.get(advisorId);
+    if (!advisor) return undefined;
+    
+    const updatedAdvisor: Advisor = {
+      ...advisor,
+      accountUserId,
+      claimedAt: accountUserId ? new Date() : null,
+      updatedAt: new Date()
+    };
+    
+    this.advisors.set(advisorId, updatedAdvisor);
+    return updatedAdvisor;
+  }
+
+  async updateAdvisorPermissions(advisorId: number, permissions: AdvisorPermissions): Promise<Advisor | undefined> {
+    const advisor = this.advisors.get(advisorId);
+    if (!advisor) return undefined;
+    
+    const updatedAdvisor: Advisor = {
+      ...advisor,
+      permissions,
+      updatedAt: new Date()
+    };
+    
+    this.advisors.set(advisorId, updatedAdvisor);
+    return updatedAdvisor;
+  }
+
+  async updateAdvisorLinkLimits(advisorId: number, limits: AdvisorLinkLimits): Promise<Advisor | undefined> {
+    const advisor = this.advisors.get(advisorId);
+    if (!advisor) return undefined;
+    
+    const updatedAdvisor: Advisor = {
+      ...advisor,
+      expiresAt: limits.expiresAt,
+      maxViews: limits.maxViews,
+      updatedAt: new Date()
+    };
+    
+    this.advisors.set(advisorId, updatedAdvisor);
+    return updatedAdvisor;
+  }
+
+  async recordAdvisorView(advisorId: number): Promise<Advisor | undefined> {
+    const advisor = this.advisors.get(advisorId);
+    if (!advisor) return undefined;
+    
+    const updatedAdvisor: Advisor = {
+      ...advisor,
+      viewCount: advisor.viewCount + 1,
+      lastViewedAt: new Date()
+    };
+    
+    this.advisors.set(advisorId, updatedAdvisor);
+    return updatedAdvisor;
+  }
+  
+  // Advisor access log operations
+  private advisorAccessLogs: Map<number, AdvisorAccessLog> = new Map();
+  private advisorAccessLogId: number = 1;
+
+  async getAdvisorAccessLogs(advisorId: number): Promise<AdvisorAccessLog[]> {
+    return Array.from(this.advisorAccessLogs.values())
+      .filter(log => log.advisorId === advisorId)
+      .sort((a, b) => b.accessedAt.getTime() - a.accessedAt.getTime() || b.id - a.id);
+  }
+
+  async createAdvisorAccessLog(log: InsertAdvisorAccessLog): Promise<AdvisorAccessLog> {
+    const id = this.advisorAccessLogId++;
+    
+    const newLog: AdvisorAccessLog = {
+      ...log,
+      id,
+      userAgent: log.userAgent ?? null,
+      accessedAt: new Date()
+    };
+    
+    this.advisorAccessLogs.set(id, newLog);
+    return newLog;
+  }
   
   // College recommendation operations
   private collegeRecommendations: Map<number, CollegeRecommendation> = new Map();
@@ -972,6 +2981,11 @@ export class MemStorage implements IStorage {
     
     const newRecommendation: CollegeRecommendation = {
       ...recommendation,
+      institutionId: recommendation.institutionId ?? null,
+      location: recommendation.location ?? null,
+      undergradEnrollment: recommendation.undergradEnrollment ?? null,
+      netPrice: recommendation.netPrice ?? null,
+      statsVerified: recommendation.statsVerified ?? false,
       id,
       createdAt: now,
       updatedAt: now
@@ -1031,15 +3045,12 @@ export class MemStorage implements IStorage {
       return [];
     }
     
-    // Get the list of session IDs shared with this advisor
+    // Sessions shared one by one, plus those in shared tags and folders
     const sharedSessionIds = this.sharedChatSessions.get(advisor.id) || [];
+    const collections = await this.getSharedChatCollections(advisor.id);
     
-    // Get the actual chat sessions from the shared session IDs
-    const sharedSessions = sharedSessionIds
-      .map(id => this.chatSessions.get(id))
-      .filter(session => session !== undefined) as ChatSession[];
-    
-    return sharedSessions;
+    return (await this.getChatSessions(advisor.userId))
+      .filter(session => isChatSessionShared(session, sharedSessionIds, collections));
   }
   
   async getSharedChatMessagesForAdvisor(shareToken: string, sessionId: number): Promise<ChatMessage[]> {
@@ -1052,9 +3063,9 @@ export class MemStorage implements IStorage {
       return [];
     }
     
-    // Check if this session is shared with this advisor
-    const sharedSessionIds = this.sharedChatSessions.get(advisor.id) || [];
-    if (!sharedSessionIds.includes(sessionId)) {
+    // Check if this session is shared with this advisor, directly or through a tag or folder
+    const sharedSessions = await this.getSharedChatSessionsForAdvisor(shareToken);
+    if (!sharedSessions.some(session => session.id === sessionId)) {
       return [];
     }
     
@@ -1073,6 +3084,227 @@ export class MemStorage implements IStorage {
     this.sharedChatSessions.set(advisorId, updatedSharedSessions);
   }
   
+  private sharedChatCollections: Map<number, SharedChatCollection> = new Map();
+  private sharedChatCollectionId: number = 1;
+  
+  async shareChatCollectionWithAdvisor(collection: InsertSharedChatCollection): Promise<SharedChatCollection> {
+    const newCollection: SharedChatCollection = {
+      advisorId: collection.advisorId,
+      tag: collection.tag ?? null,
+      folderId: collection.folderId ?? null,
+      id: this.sharedChatCollectionId++,
+      createdAt: new Date()
+    };
+    this.sharedChatCollections.set(newCollection.id, newCollection);
+    return newCollection;
+  }
+  
+  async getSharedChatCollections(advisorId: number): Promise<SharedChatCollection[]> {
+    return Array.from(this.sharedChatCollections.values())
+      .filter(collection => collection.advisorId === advisorId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+  
+  async unshareChatCollectionWithAdvisor(collectionId: number): Promise<boolean> {
+    return this.sharedChatCollections.delete(collectionId);
+  }
+  
+  // Essay operations
+  private essays: Map<number, Essay> = new Map();
+  private essayRevisions: Map<number, EssayRevision> = new Map();
+  private sharedEssays: Map<number, number[]> = new Map(); // Map advisorId to array of essayIds
+  private essayId: number = 1;
+  private essayRevisionId: number = 1;
+
+  async getEssays(userId: number): Promise<Essay[]> {
+    return Array.from(this.essays.values())
+      .filter(essay => essay.userId === userId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async getEssay(essayId: number): Promise<Essay | undefined> {
+    return this.essays.get(essayId);
+  }
+
+  async createEssay(essay: InsertEssay): Promise<Essay> {
+    const id = this.essayId++;
+    const now = new Date();
+    
+    const newEssay: Essay = {
+      id,
+      userId: essay.userId,
+      collegeId: essay.collegeId ?? null,
+      title: essay.title,
+      prompt: essay.prompt ?? null,
+      wordLimit: essay.wordLimit ?? null,
+      content: essay.content ?? "",
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    this.essays.set(id, newEssay);
+    return newEssay;
+  }
+
+  async updateEssay(essayId: number, updates: Partial<InsertEssay>): Promise<Essay | undefined> {
+    const essay = this.essays.get(essayId);
+    if (!essay) return undefined;
+    
+    const updatedEssay: Essay = {
+      ...essay,
+      ...updates,
+      updatedAt: new Date()
+    } as Essay;
+    
+    this.essays.set(essayId, updatedEssay);
+    return updatedEssay;
+  }
+
+  async deleteEssay(essayId: number): Promise<boolean> {
+    // Remove revisions, advisor shares and comments along with the essay
+    Array.from(this.essayRevisions.values())
+      .filter(revision => revision.essayId === essayId)
+      .forEach(revision => this.essayRevisions.delete(revision.id));
+    
+    this.sharedEssays.forEach((essayIds, advisorId) => {
+      this.sharedEssays.set(advisorId, essayIds.filter(id => id !== essayId));
+    });
+    
+    this.deleteAdvisorCommentsWhere(comment => comment.essayId === essayId);
+    
+    return this.essays.delete(essayId);
+  }
+
+  async getEssayRevisions(essayId: number): Promise<EssayRevision[]> {
+    return Array.from(this.essayRevisions.values())
+      .filter(revision => revision.essayId === essayId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async getEssayRevision(revisionId: number): Promise<EssayRevision | undefined> {
+    return this.essayRevisions.get(revisionId);
+  }
+
+  async createEssayRevision(revision: InsertEssayRevision): Promise<EssayRevision> {
+    const id = this.essayRevisionId++;
+    
+    const newRevision: EssayRevision = {
+      id,
+      essayId: revision.essayId,
+      content: revision.content,
+      wordCount: revision.wordCount,
+      feedback: revision.feedback ?? null,
+      createdAt: new Date()
+    };
+    
+    this.essayRevisions.set(id, newRevision);
+    return newRevision;
+  }
+
+  async updateEssayRevisionFeedback(revisionId: number, feedback: string): Promise<EssayRevision | undefined> {
+    const revision = this.essayRevisions.get(revisionId);
+    if (!revision) return undefined;
+    
+    const updatedRevision = { ...revision, feedback };
+    this.essayRevisions.set(revisionId, updatedRevision);
+    return updatedRevision;
+  }
+
+  // Shared Essay operations
+  async shareEssaysWithAdvisor(advisorId: number, essayIds: number[]): Promise<void> {
+    const currentSharedEssays = this.sharedEssays.get(advisorId) || [];
+    const newEssayIds = essayIds.filter(id => !currentSharedEssays.includes(id));
+    this.sharedEssays.set(advisorId, [...currentSharedEssays, ...newEssayIds]);
+  }
+
+  async getSharedEssays(advisorId: number): Promise<number[]> {
+    return this.sharedEssays.get(advisorId) || [];
+  }
+
+  async getSharedEssaysForAdvisor(shareToken: string): Promise<Essay[]> {
+    const advisor = Array.from(this.advisors.values()).find(
+      advisor => advisor.shareToken === shareToken && advisor.isActive === true
+    );
+    
+    if (!advisor) {
+      return [];
+    }
+    
+    return (this.sharedEssays.get(advisor.id) || [])
+      .map(id => this.essays.get(id))
+      .filter(essay => essay !== undefined) as Essay[];
+  }
+
+  async unshareEssaysWithAdvisor(advisorId: number, essayIds: number[]): Promise<void> {
+    const currentSharedEssays = this.sharedEssays.get(advisorId) || [];
+    this.sharedEssays.set(advisorId, currentSharedEssays.filter(id => !essayIds.includes(id)));
+  }
+  
+  // Advisor comment operations
+  private advisorComments: Map<number, AdvisorComment> = new Map();
+  private advisorCommentId: number = 1;
+
+  private deleteAdvisorCommentsWhere(predicate: (comment: AdvisorComment) => boolean) {
+    Array.from(this.advisorComments.values())
+      .filter(predicate)
+      .forEach(comment => this.advisorComments.delete(comment.id));
+  }
+
+  async getAdvisorComments(userId: number): Promise<AdvisorComment[]> {
+    return Array.from(this.advisorComments.values())
+      .filter(comment => comment.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  }
+
+  async getAdvisorCommentsByAdvisor(advisorId: number): Promise<AdvisorComment[]> {
+    return Array.from(this.advisorComments.values())
+      .filter(comment => comment.advisorId === advisorId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  }
+
+  async getAdvisorComment(commentId: number): Promise<AdvisorComment | undefined> {
+    return this.advisorComments.get(commentId);
+  }
+
+  async createAdvisorComment(comment: InsertAdvisorComment): Promise<AdvisorComment> {
+    const id = this.advisorCommentId++;
+    
+    const newComment: AdvisorComment = {
+      id,
+      userId: comment.userId,
+      advisorId: comment.advisorId,
+      parentId: comment.parentId ?? null,
+      authorType: comment.authorType,
+      content: comment.content,
+      chatSessionId: comment.chatSessionId ?? null,
+      chatMessageId: comment.chatMessageId ?? null,
+      essayId: comment.essayId ?? null,
+      rangeStart: comment.rangeStart ?? null,
+      rangeEnd: comment.rangeEnd ?? null,
+      quotedText: comment.quotedText ?? null,
+      isRead: comment.isRead ?? false,
+      createdAt: new Date()
+    };
+    
+    this.advisorComments.set(id, newComment);
+    return newComment;
+  }
+
+  async markAdvisorCommentsRead(userId: number, commentIds: number[]): Promise<void> {
+    commentIds.forEach(commentId => {
+      const comment = this.advisorComments.get(commentId);
+      if (comment && comment.userId === userId) {
+        this.advisorComments.set(commentId, { ...comment, isRead: true });
+      }
+    });
+  }
+
+  async deleteAdvisorComment(commentId: number): Promise<boolean> {
+    // Deleting the first comment of a thread removes its replies too
+    this.deleteAdvisorCommentsWhere(comment => comment.parentId === commentId);
+    return this.advisorComments.delete(commentId);
+  }
+  
   // Message feedback operations
   async createMessageFeedback(feedback: InsertMessageFeedback): Promise<MessageFeedback> {
     const newFeedback: MessageFeedback = {
@@ -1094,6 +3326,108 @@ export class MemStorage implements IStorage {
   }
 }
 
+// The official name plus every alias of a catalog record, de-duplicated by normalized form
+function toAliasRows(record: InstitutionWithAliases): Omit<InstitutionAlias, "id">[] {
+  const seen = new Set<string>();
+  return [record.name, ...record.aliases]
+    .map(alias => ({ institutionId: record.id, alias: alias.trim(), normalizedAlias: normalizeInstitutionName(alias) }))
+    .filter(row => {
+      if (!row.normalizedAlias || seen.has(row.normalizedAlias)) return false;
+      seen.add(row.normalizedAlias);
+      return true;
+    });
+}
+
+// Rank catalog search candidates: exact names first, then names that start with the query,
+// then names where every query word starts a word. Larger schools win ties.
+function rankInstitutionMatches(
+  tokens: string[],
+  rows: { institution: Institution; alias: InstitutionAlias }[],
+  limit: number
+): CatalogSearchResult[] {
+  const query = tokens.join(" ");
+  const best = new Map<number, { institution: Institution; alias: InstitutionAlias; score: number }>();
+  
+  rows.forEach(({ institution, alias }) => {
+    const words = alias.normalizedAlias.split(" ");
+    let score: number;
+    if (alias.normalizedAlias === query) {
+      score = 0;
+    } else if (alias.normalizedAlias.startsWith(query)) {
+      score = 1;
+    } else if (tokens.every(token => words.some(word => word.startsWith(token)))) {
+      score = 2;
+    } else {
+      return;
+    }
+    
+    const current = best.get(institution.id);
+    // Prefer the official name when it matches as well as an alias
+    if (!current || score < current.score || (score === current.score && alias.alias === institution.name)) {
+      best.set(institution.id, { institution, alias, score });
+    }
+  });
+  
+  return Array.from(best.values())
+    .sort((a, b) => a.score - b.score || (b.institution.undergradEnrollment || 0) - (a.institution.undergradEnrollment || 0))
+    .slice(0, limit)
+    .map(({ institution, alias }) => ({
+      ...institution,
+      matchedAlias: alias.alias === institution.name ? null : alias.alias
+    }));
+}
+
+// Words too common to search on; Postgres drops these from its english queries too
+const SEARCH_STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "can", "do", "for", "from", "how", "i", "if", "in",
+  "is", "it", "me", "my", "of", "on", "or", "so", "that", "the", "this", "to", "was", "what", "with", "you"
+]);
+
+const SEARCH_WORD = /[a-z0-9]+/gi;
+
+// Lowercased words with plural endings dropped, so "colleges" finds "college"
+function toSearchTerm(word: string): string {
+  const lower = word.toLowerCase();
+  if (lower.length > 4 && lower.endsWith("ies")) return lower.slice(0, -3) + "y";
+  if (lower.length > 3 && lower.endsWith("s") && !lower.endsWith("ss")) return lower.slice(0, -1);
+  return lower;
+}
+
+function toSearchTerms(text: string): string[] {
+  return (text.match(SEARCH_WORD) || [])
+    .filter(word => !SEARCH_STOP_WORDS.has(word.toLowerCase()))
+    .map(toSearchTerm);
+}
+
+const SNIPPET_LENGTH = 200;
+
+// About SNIPPET_LENGTH characters of the message around its first match, with the matched words marked
+function toChatSearchResult(message: ChatMessage, sessionTitle: string, terms: string[]): ChatSearchResult {
+  const content = message.content.replace(/\s/g, " ");
+  const matches = Array.from(content.matchAll(SEARCH_WORD))
+    .filter(match => terms.some(term => toSearchTerm(match[0]).startsWith(term)))
+    .map(match => ({ start: match.index!, end: match.index! + match[0].length }));
+  
+  let start = matches.length > 0 ? Math.max(0, Math.min(matches[0].start - 60, content.length - SNIPPET_LENGTH)) : 0;
+  if (start > 0) start = content.indexOf(" ", start) + 1 || start;
+  while (content[start] === " ") start++;
+  let end = Math.min(content.length, start + SNIPPET_LENGTH);
+  if (end < content.length) end = content.lastIndexOf(" ", end) > start ? content.lastIndexOf(" ", end) : end;
+  
+  const prefix = start > 0 ? "…" : "";
+  return {
+    messageId: message.id,
+    sessionId: message.sessionId,
+    sessionTitle,
+    sender: message.sender,
+    createdAt: message.createdAt,
+    snippet: prefix + content.slice(start, end).trimEnd() + (end < content.length ? "…" : ""),
+    highlights: matches
+      .filter(match => match.start >= start && match.end <= end)
+      .map(match => ({ start: match.start - start + prefix.length, end: match.end - start + prefix.length }))
+  };
+}
+
 // Use PostgreSQL storage if DATABASE_URL is available, otherwise fallback to in-memory
 export const storage = process.env.DATABASE_URL 
   ? new PostgresStorage() 
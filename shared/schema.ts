@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, json, timestamp, varchar, uuid, real } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, json, timestamp, varchar, uuid, real, index } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -15,6 +16,106 @@ export const onboardingSchema = z.object({
 
 export type OnboardingResponses = z.infer<typeof onboardingSchema>;
 
+// Course rigor levels for the academic record
+export const CourseLevel = {
+  STANDARD: "standard",
+  HONORS: "honors",
+  AP: "ap",
+  IB: "ib",
+  DUAL_ENROLLMENT: "dual_enrollment"
+} as const;
+
+export type CourseLevelType = typeof CourseLevel[keyof typeof CourseLevel];
+
+// How far an award reached
+export const AwardLevel = {
+  SCHOOL: "school",
+  REGIONAL: "regional",
+  STATE: "state",
+  NATIONAL: "national",
+  INTERNATIONAL: "international"
+} as const;
+
+export type AwardLevelType = typeof AwardLevel[keyof typeof AwardLevel];
+
+const gradeLevelSchema = z.number().int().min(9).max(12).nullable();
+
+const gpaSchema = z.object({
+  value: z.number().min(0).max(20),
+  scale: z.number().positive().max(20),
+}).refine(gpa => gpa.value <= gpa.scale, { message: "GPA can't be above its scale" });
+
+// Structured academic profile, replacing the free-text academicStats onboarding answer
+export const academicRecordSchema = z.object({
+  unweightedGpa: gpaSchema.nullable().default(null),
+  weightedGpa: gpaSchema.nullable().default(null),
+  sat: z.object({
+    total: z.number().int().min(400).max(1600),
+    readingWriting: z.number().int().min(200).max(800).nullable().default(null),
+    math: z.number().int().min(200).max(800).nullable().default(null),
+  }).nullable().default(null),
+  act: z.object({
+    composite: z.number().int().min(1).max(36),
+    english: z.number().int().min(1).max(36).nullable().default(null),
+    math: z.number().int().min(1).max(36).nullable().default(null),
+    reading: z.number().int().min(1).max(36).nullable().default(null),
+    science: z.number().int().min(1).max(36).nullable().default(null),
+  }).nullable().default(null),
+  classRank: z.object({
+    rank: z.number().int().positive(),
+    classSize: z.number().int().positive(),
+  }).refine(rank => rank.rank <= rank.classSize, { message: "Rank can't be above the class size" }).nullable().default(null),
+  courses: z.array(z.object({
+    name: z.string().trim().min(1).max(200),
+    level: z.enum([CourseLevel.STANDARD, CourseLevel.HONORS, CourseLevel.AP, CourseLevel.IB, CourseLevel.DUAL_ENROLLMENT]),
+    grade: z.string().trim().max(20).nullable().default(null), // Letter grade, or an exam score like "5" for AP/IB
+    gradeLevel: gradeLevelSchema.default(null),
+  })).max(100).default([]),
+  awards: z.array(z.object({
+    name: z.string().trim().min(1).max(200),
+    level: z.enum([AwardLevel.SCHOOL, AwardLevel.REGIONAL, AwardLevel.STATE, AwardLevel.NATIONAL, AwardLevel.INTERNATIONAL]).nullable().default(null),
+    gradeLevel: gradeLevelSchema.default(null),
+  })).max(50).default([]),
+  notes: z.string().max(2000).default(""), // Anything that didn't fit the fields above
+});
+
+export type AcademicRecord = z.infer<typeof academicRecordSchema>;
+
+// Household income bands, matching the College Scorecard net-price-by-income columns
+export const IncomeBand = {
+  UNDER_30K: "0_30k",
+  FROM_30K_TO_48K: "30k_48k",
+  FROM_48K_TO_75K: "48k_75k",
+  FROM_75K_TO_110K: "75k_110k",
+  OVER_110K: "110k_plus"
+} as const;
+
+export type IncomeBandType = typeof IncomeBand[keyof typeof IncomeBand];
+
+export const incomeBandLabels: Record<IncomeBandType, string> = {
+  [IncomeBand.UNDER_30K]: "Under $30,000",
+  [IncomeBand.FROM_30K_TO_48K]: "$30,000-$48,000",
+  [IncomeBand.FROM_48K_TO_75K]: "$48,000-$75,000",
+  [IncomeBand.FROM_75K_TO_110K]: "$75,000-$110,000",
+  [IncomeBand.OVER_110K]: "Over $110,000"
+};
+
+// What the student tells us about their family's finances, for net price estimates
+export const financialProfileSchema = z.object({
+  incomeBand: z.enum([
+    IncomeBand.UNDER_30K,
+    IncomeBand.FROM_30K_TO_48K,
+    IncomeBand.FROM_48K_TO_75K,
+    IncomeBand.FROM_75K_TO_110K,
+    IncomeBand.OVER_110K
+  ]),
+  assets: z.number().int().min(0).max(100_000_000), // Savings and investments outside retirement accounts and the home
+  familySize: z.number().int().min(1).max(20),
+  includeMeritAid: z.boolean().default(true),
+});
+
+export type FinancialProfile = z.infer<typeof financialProfileSchema>;
+
 // Advisor types
 export const AdvisorType = {
   SCHOOL_COUNSELOR: "School counselor",
@@ -26,11 +127,21 @@ export const AdvisorType = {
 
 export type AdvisorTypeValue = typeof AdvisorType[keyof typeof AdvisorType];
 
+// Account roles. Advisors can still use share links without an account.
+export const UserRole = {
+  STUDENT: "student",
+  ADVISOR: "advisor"
+} as const;
+
+export type UserRoleValue = typeof UserRole[keyof typeof UserRole];
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").notNull().$type<UserRoleValue>().default(UserRole.STUDENT),
   profileDescription: text("profile_description"),
+  calendarToken: uuid("calendar_token").unique(), // Secret token for the .ics deadline feed, null when disabled
   onboarding: json("onboarding").$type<OnboardingResponses>().default({
     programs: "User skipped this question.",
     academicEnv: "User skipped this question.",
@@ -40,17 +151,78 @@ export const users = pgTable("users", {
     financialAid: "User skipped this question.",
     other: "User skipped this question."
   }),
+  academicRecord: json("academic_record").$type<AcademicRecord>(), // Null until parsed from onboarding or entered
+  requireProfileApproval: boolean("require_profile_approval").notNull().default(false), // Hold AI profile changes for review
+  financialProfile: json("financial_profile").$type<FinancialProfile>(), // Null until the student fills in the cost estimator
+  bragSheet: text("brag_sheet"), // What the student wants their recommenders to know, shown on the recommender page
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
-  username: true,
-  password: true,
-  onboarding: true,
-});
+export const insertUserSchema = createInsertSchema(users)
+  .pick({
+    username: true,
+    password: true,
+    onboarding: true,
+  })
+  .extend({
+    role: z.enum([UserRole.STUDENT, UserRole.ADVISOR]).optional()
+  });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Where a version of the profile description came from
+export const ProfileRevisionSource = {
+  EXISTING: "existing", // The description from before revisions were kept
+  ONBOARDING: "onboarding",
+  CHAT: "chat",
+  MANUAL: "manual",
+  REVERT: "revert"
+} as const;
+
+export type ProfileRevisionSourceType = typeof ProfileRevisionSource[keyof typeof ProfileRevisionSource];
+
+// AI-proposed revisions wait as pending when the student requires approval
+export const ProfileRevisionStatus = {
+  APPLIED: "applied",
+  PENDING: "pending",
+  REJECTED: "rejected"
+} as const;
+
+export type ProfileRevisionStatusType = typeof ProfileRevisionStatus[keyof typeof ProfileRevisionStatus];
+
+// Every version of a student's profile description
+export const profileRevisions = pgTable("profile_revisions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  content: text("content").notNull(),
+  source: text("source").notNull().$type<ProfileRevisionSourceType>(),
+  status: text("status").notNull().$type<ProfileRevisionStatusType>().default(ProfileRevisionStatus.APPLIED),
+  chatMessageId: integer("chat_message_id"), // The student's message that prompted a chat revision
+  revertedFromId: integer("reverted_from_id"), // The revision a revert restored
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  reviewedAt: timestamp("reviewed_at"), // When a pending revision was approved or rejected
+});
+
+export const insertProfileRevisionSchema = createInsertSchema(profileRevisions)
+  .omit({
+    id: true,
+    createdAt: true,
+    reviewedAt: true,
+  })
+  .extend({
+    source: z.enum([
+      ProfileRevisionSource.EXISTING,
+      ProfileRevisionSource.ONBOARDING,
+      ProfileRevisionSource.CHAT,
+      ProfileRevisionSource.MANUAL,
+      ProfileRevisionSource.REVERT
+    ]),
+    status: z.enum([ProfileRevisionStatus.APPLIED, ProfileRevisionStatus.PENDING, ProfileRevisionStatus.REJECTED]).optional()
+  });
+
+export type InsertProfileRevision = z.infer<typeof insertProfileRevisionSchema>;
+export type ProfileRevision = typeof profileRevisions.$inferSelect;
+
 // College status types
 export const CollegeStatus = {
   APPLYING: "applying",
@@ -60,13 +232,144 @@ export const CollegeStatus = {
 
 export type CollegeStatusType = typeof CollegeStatus[keyof typeof CollegeStatus];
 
+// Institution control, as coded in the College Scorecard CONTROL column
+export const InstitutionControl = {
+  PUBLIC: "public",
+  PRIVATE_NONPROFIT: "private_nonprofit",
+  PRIVATE_FOR_PROFIT: "private_for_profit"
+} as const;
+
+export type InstitutionControlType = typeof InstitutionControl[keyof typeof InstitutionControl];
+
+// Institutions schema - the reference catalog of colleges, keyed by IPEDS unit ID
+export const institutions = pgTable("institutions", {
+  id: integer("id").primaryKey(), // IPEDS UNITID
+  name: text("name").notNull(), // Official IPEDS name, e.g. "University of California-Los Angeles"
+  city: text("city"),
+  state: varchar("state", { length: 2 }),
+  website: text("website"),
+  control: text("control").$type<InstitutionControlType>(),
+  admitRate: real("admit_rate"), // As percentage (0-100)
+  undergradEnrollment: integer("undergrad_enrollment"),
+  netPrice: integer("net_price"), // Average annual net price after aid, in dollars
+  netPriceByIncome: json("net_price_by_income").$type<Partial<Record<IncomeBandType, number>>>(), // Average net price for each income band
+  costOfAttendance: integer("cost_of_attendance"), // Annual sticker price: tuition, fees, housing and books
+  sat25: integer("sat_25"), // Middle-50% SAT composite (EBRW + math) of enrolled students
+  sat75: integer("sat_75"),
+  act25: integer("act_25"), // Middle-50% ACT composite
+  act75: integer("act_75"),
+});
+
+// Every name an institution goes by, including its official name, for search and de-duplication
+export const institutionAliases = pgTable("institution_aliases", {
+  id: serial("id").primaryKey(),
+  institutionId: integer("institution_id").notNull(),
+  alias: text("alias").notNull(),
+  normalizedAlias: text("normalized_alias").notNull(), // See normalizeInstitutionName
+});
+
+export type Institution = typeof institutions.$inferSelect;
+export type InsertInstitution = typeof institutions.$inferInsert;
+export type InstitutionAlias = typeof institutionAliases.$inferSelect;
+
+// One row of an imported catalog file
+export type InstitutionWithAliases = InsertInstitution & { aliases: string[] };
+
+// A catalog search hit, with the alias that matched when it isn't the official name
+export type CatalogSearchResult = Institution & { matchedAlias: string | null };
+
+// Normalize a college name for matching, so "UC Berkeley", "U.C. Berkeley" and "uc  berkeley" compare equal
+export function normalizeInstitutionName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/['’.]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .replace(/^the /, "");
+}
+
+// Where a college falls for a student, comparing their stats with its admissions profile
+export const CollegeFit = {
+  REACH: "reach",
+  TARGET: "target",
+  LIKELY: "likely"
+} as const;
+
+export type CollegeFitType = typeof CollegeFit[keyof typeof CollegeFit];
+
+export type CollegeFitResult = {
+  fit: CollegeFitType;
+  confidence: number; // 0-1, lower when data is missing or the student sits near a boundary
+};
+
+// Test scores and GPA used for fit, on a 4.0 unweighted GPA scale
+export type StudentAdmissionStats = {
+  gpa: number | null;
+  sat: number | null;
+  act: number | null;
+};
+
+// Fit for every college and recommendation of a student, keyed by their IDs; null when there isn't enough data
+export type CollegeFitReport = {
+  stats: StudentAdmissionStats;
+  colleges: Record<number, CollegeFitResult | null>;
+  recommendations: Record<number, CollegeFitResult | null>;
+};
+
+// How a net price estimate was made: from the college's price for the student's income band,
+// or scaled from its overall average when the catalog doesn't have the breakdown
+export type NetPriceBasis = "income_band" | "average";
+
+export type NetPriceEstimate = {
+  netPrice: number; // Estimated yearly net price, after any merit aid
+  meritAid: number; // Yearly merit aid included in the estimate, 0 if none
+  fourYearCost: number; // Total for four years, with yearly price increases
+  basis: NetPriceBasis;
+  incomeBand: IncomeBandType; // The band used, after adjusting for family size and assets
+};
+
+// Net price estimates for a student's colleges, keyed by college ID; null when the catalog has no price data
+export type NetPriceReport = {
+  profile: FinancialProfile | null;
+  colleges: Record<number, NetPriceEstimate | null>;
+};
+
+// Criteria students often rate colleges on; they can add their own
+export const SUGGESTED_RATING_CRITERIA = ["Academics", "Vibe", "Cost", "Location"];
+
+export const collegeRatingSchema = z.object({
+  criterion: z.string().trim().min(1).max(50),
+  score: z.number().int().min(1).max(5),
+});
+
+export type CollegeRating = z.infer<typeof collegeRatingSchema>;
+
+// The student's private thoughts on a college on their list
+export const collegeNotesSchema = z.object({
+  notes: z.string().max(20000).nullable(),
+  pros: z.array(z.string().trim().min(1).max(300)).max(30),
+  cons: z.array(z.string().trim().min(1).max(300)).max(30),
+  ratings: z.array(collegeRatingSchema).max(12)
+    .refine(ratings => new Set(ratings.map(r => r.criterion.toLowerCase())).size === ratings.length, {
+      message: "Each criterion can only be rated once"
+    }),
+});
+
+export type CollegeNotes = z.infer<typeof collegeNotesSchema>;
+
 // Colleges schema
 export const colleges = pgTable("colleges", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
   name: text("name").notNull(),
+  institutionId: integer("institution_id"), // Catalog entry this college was matched to, if any
   status: text("status").notNull().$type<CollegeStatusType>().default(CollegeStatus.RESEARCHING),
   position: integer("position").notNull(), // For ordering within a status column
+  notes: text("notes"), // The student's own markdown notes, e.g. from a campus visit
+  pros: json("pros").$type<string[]>().notNull().default([]),
+  cons: json("cons").$type<string[]>().notNull().default([]),
+  ratings: json("ratings").$type<CollegeRating[]>().notNull().default([]),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -74,6 +377,10 @@ export const colleges = pgTable("colleges", {
 export const insertCollegeSchema = createInsertSchema(colleges)
   .omit({
     id: true,
+    notes: true, // Edited separately, see collegeNotesSchema
+    pros: true,
+    cons: true,
+    ratings: true,
     createdAt: true, 
     updatedAt: true
   })
@@ -84,15 +391,113 @@ export const insertCollegeSchema = createInsertSchema(colleges)
 export type InsertCollege = z.infer<typeof insertCollegeSchema>;
 export type College = typeof colleges.$inferSelect;
 
+// College application task types
+export const CollegeTaskType = {
+  EARLY_DECISION: "early_decision",
+  EARLY_ACTION: "early_action",
+  REGULAR_DECISION: "regular_decision",
+  ESSAY: "essay",
+  RECOMMENDATION: "recommendation",
+  TEST_SCORES: "test_scores",
+  FEE_WAIVER: "fee_waiver",
+  OTHER: "other"
+} as const;
+
+export type CollegeTaskTypeValue = typeof CollegeTaskType[keyof typeof CollegeTaskType];
+
+// Display labels, also used as the default title for a new task of that type
+export const CollegeTaskTypeLabels: Record<CollegeTaskTypeValue, string> = {
+  early_decision: "Early Decision deadline",
+  early_action: "Early Action deadline",
+  regular_decision: "Regular Decision deadline",
+  essay: "Essay",
+  recommendation: "Recommendation letter",
+  test_scores: "Send test scores",
+  fee_waiver: "Fee waiver",
+  other: "Other"
+};
+
+// Deadlines and checklist items for a college on the student's list
+export const collegeTasks = pgTable("college_tasks", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  collegeId: integer("college_id").notNull(),
+  type: text("type").notNull().$type<CollegeTaskTypeValue>().default(CollegeTaskType.OTHER),
+  title: text("title").notNull(),
+  notes: text("notes"),
+  dueDate: timestamp("due_date"), // Optional, some checklist items have no deadline
+  isCompleted: boolean("is_completed").notNull().default(false),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertCollegeTaskSchema = createInsertSchema(collegeTasks)
+  .omit({
+    id: true,
+    completedAt: true, // Set server-side when the task is checked off
+    createdAt: true,
+    updatedAt: true
+  })
+  .extend({
+    type: z.enum(Object.values(CollegeTaskType) as [CollegeTaskTypeValue, ...CollegeTaskTypeValue[]]).optional(),
+    dueDate: z.coerce.date().nullable().optional()
+  });
+
+export type InsertCollegeTask = z.infer<typeof insertCollegeTaskSchema>;
+export type CollegeTask = typeof collegeTasks.$inferSelect;
+
 // Chat schemas
 export const chatSessions = pgTable("chat_sessions", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
   title: varchar("title", { length: 255 }).notNull(),
+  isPinned: boolean("is_pinned").notNull().default(false),
+  tags: json("tags").$type<string[]>().notNull().default([]), // e.g. "financial aid", "essays", or a college name
+  folderId: integer("folder_id"), // Null when the session isn't filed in a folder
+  // Last message of the branch being shown; null for sessions from before branching, until they're linked
+  activeMessageId: integer("active_message_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// A student's folder for grouping chat sessions
+export const chatFolders = pgTable("chat_folders", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+export const insertChatFolderSchema = createInsertSchema(chatFolders)
+  .omit({
+    id: true,
+    createdAt: true,
+    updatedAt: true
+  })
+  .extend({
+    name: z.string().trim().min(1).max(60)
+  });
+
+export type InsertChatFolder = z.infer<typeof insertChatFolderSchema>;
+export type ChatFolder = typeof chatFolders.$inferSelect;
+
+export const MAX_CHAT_TAGS = 10;
+
+export const chatTagSchema = z.string().trim().min(1).max(40);
+
+// Pinning, tags and folder for a chat session. Tags that differ only in case are kept once.
+export const chatSessionOrganizationSchema = z.object({
+  isPinned: z.boolean(),
+  tags: z.array(chatTagSchema).max(MAX_CHAT_TAGS).transform(tags =>
+    tags.filter((tag, i) => tags.findIndex(other => other.toLowerCase() === tag.toLowerCase()) === i)
+  ),
+  folderId: z.number().int().nullable()
+}).partial();
+
+export type ChatSessionOrganization = z.infer<typeof chatSessionOrganizationSchema>;
+
 // File attachment schema for chat messages
 export const fileAttachmentSchema = z.object({
   filename: z.string(),
@@ -103,17 +508,48 @@ export const fileAttachmentSchema = z.object({
 
 export type FileAttachment = z.infer<typeof fileAttachmentSchema>;
 
+// Web source used to ground an AI chat response
+export const webCitationSchema = z.object({
+  title: z.string(),
+  uri: z.string(),
+  snippet: z.string().nullable().optional(),
+});
+
+export type WebCitation = z.infer<typeof webCitationSchema>;
+
+// A span of the response text and the citations (by index) that support it
+export const citationSupportSchema = z.object({
+  text: z.string(),
+  startIndex: z.number(),
+  endIndex: z.number(),
+  citationIndices: z.array(z.number()),
+});
+
+export type CitationSupport = z.infer<typeof citationSupportSchema>;
+
 export const chatMessages = pgTable("chat_messages", {
   id: serial("id").primaryKey(),
   sessionId: integer("session_id").notNull(),
   content: text("content").notNull(),
   sender: varchar("sender", { length: 10 }).notNull(), // "user" or "ai"
+  // The message this one follows; edits and regenerated replies share a parent with the original
+  parentId: integer("parent_id"),
   attachments: json("attachments").$type<FileAttachment[]>().default([]),
+  citations: json("citations").$type<WebCitation[]>().default([]),
+  citationSupports: json("citation_supports").$type<CitationSupport[]>().default([]),
+  searchQueries: json("search_queries").$type<string[] | null>(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  // Full-text search over chat history; searchChatMessages queries this same expression
+  index("chat_messages_content_search_idx").using("gin", sql`to_tsvector('english', ${table.content})`),
+]);
 
 export const insertChatSessionSchema = createInsertSchema(chatSessions).omit({
   id: true,
+  isPinned: true, // Set through chatSessionOrganizationSchema
+  tags: true,
+  folderId: true,
+  activeMessageId: true, // Moved by each new message and by switching branches
   createdAt: true,
   updatedAt: true,
 });
@@ -123,6 +559,9 @@ export const insertChatMessageSchema = createInsertSchema(chatMessages).omit({
   createdAt: true,
 }).extend({
   useWebSearch: z.boolean().optional().default(false),
+  citations: z.array(webCitationSchema).optional(),
+  citationSupports: z.array(citationSupportSchema).optional(),
+  searchQueries: z.array(z.string()).nullable().optional(),
 });
 
 export type InsertChatSession = z.infer<typeof insertChatSessionSchema>;
@@ -130,7 +569,43 @@ export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
 export type ChatSession = typeof chatSessions.$inferSelect;
 export type ChatMessage = typeof chatMessages.$inferSelect;
 
+// A message on the branch being shown, with the ids of every version of it (edits or regenerations), oldest first
+export type ChatMessageWithSiblings = ChatMessage & {
+  siblingIds: number[];
+};
+
+// A chat message matching a search, with the text around the match
+export type ChatSearchResult = {
+  messageId: number;
+  sessionId: number;
+  sessionTitle: string;
+  sender: string;
+  createdAt: Date;
+  snippet: string;
+  highlights: { start: number; end: number }[]; // Matched words, as offsets into the snippet
+};
+
 // Advisors schema
+// What an advisor can see and do through their share link
+export const advisorPermissionsSchema = z.object({
+  showProfile: z.boolean(),
+  collegeStatuses: z.array(z.enum([CollegeStatus.APPLYING, CollegeStatus.RESEARCHING, CollegeStatus.NOT_APPLYING])),
+  allowRecommendations: z.boolean(),
+  allowComments: z.boolean(),
+  showCollegeNotes: z.boolean().default(false), // The student's own notes, pros/cons and ratings on each college
+});
+
+export type AdvisorPermissions = z.infer<typeof advisorPermissionsSchema>;
+
+// Links created before permissions existed showed everything, so that stays the default
+export const DEFAULT_ADVISOR_PERMISSIONS: AdvisorPermissions = {
+  showProfile: true,
+  collegeStatuses: [CollegeStatus.APPLYING, CollegeStatus.RESEARCHING, CollegeStatus.NOT_APPLYING],
+  allowRecommendations: true,
+  allowComments: true,
+  showCollegeNotes: false, // Notes are private unless the student opts in
+};
+
 export const advisors = pgTable("advisors", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
@@ -138,6 +613,13 @@ export const advisors = pgTable("advisors", {
   type: text("type").notNull().$type<AdvisorTypeValue>(),
   shareToken: uuid("share_token").notNull().unique(),
   isActive: boolean("is_active").notNull().default(true),
+  accountUserId: integer("account_user_id"), // The advisor account that claimed this link, if any
+  claimedAt: timestamp("claimed_at"),
+  permissions: json("permissions").$type<AdvisorPermissions>().notNull().default(DEFAULT_ADVISOR_PERMISSIONS),
+  expiresAt: timestamp("expires_at"), // The link stops working after this, null for never
+  maxViews: integer("max_views"), // The link stops opening after this many views, null for unlimited
+  viewCount: integer("view_count").notNull().default(0),
+  lastViewedAt: timestamp("last_viewed_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -146,21 +628,61 @@ export const insertAdvisorSchema = createInsertSchema(advisors)
   .omit({
     id: true,
     shareToken: true, // This will be generated server-side
+    accountUserId: true, // Set when an advisor account claims the link
+    claimedAt: true,
+    expiresAt: true, // Limits are set separately once the link exists
+    maxViews: true,
+    viewCount: true,
+    lastViewedAt: true,
     createdAt: true,
     updatedAt: true,
+  })
+  .extend({
+    permissions: advisorPermissionsSchema.optional()
   });
 
 export type InsertAdvisor = z.infer<typeof insertAdvisorSchema>;
 export type Advisor = typeof advisors.$inferSelect;
 
+// Optional expiry and view limit on an advisor's share link
+export const advisorLinkLimitsSchema = z.object({
+  expiresAt: z.coerce.date().nullable(),
+  maxViews: z.number().int().positive().nullable(),
+});
+
+export type AdvisorLinkLimits = z.infer<typeof advisorLinkLimitsSchema>;
+
+// Advisor access log schema - one row for every time a share link is opened
+export const advisorAccessLogs = pgTable("advisor_access_logs", {
+  id: serial("id").primaryKey(),
+  advisorId: integer("advisor_id").notNull(),
+  userAgent: text("user_agent"),
+  allowed: boolean("allowed").notNull(), // False when the link had expired or run out of views
+  accessedAt: timestamp("accessed_at").defaultNow().notNull(),
+});
+
+export const insertAdvisorAccessLogSchema = createInsertSchema(advisorAccessLogs)
+  .omit({
+    id: true,
+    accessedAt: true,
+  });
+
+export type InsertAdvisorAccessLog = z.infer<typeof insertAdvisorAccessLogSchema>;
+export type AdvisorAccessLog = typeof advisorAccessLogs.$inferSelect;
+
 // College recommendations schema
 export const collegeRecommendations = pgTable("college_recommendations", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
   name: text("name").notNull(),
+  institutionId: integer("institution_id"), // Catalog entry this recommendation was matched to, if any
   description: text("description").notNull(), // "What it is" section
   reason: text("reason").notNull(), // "Why you might like it" section
   acceptanceRate: real("acceptance_rate"), // As percentage (0-100)
+  location: text("location"), // "City, ST"
+  undergradEnrollment: integer("undergrad_enrollment"),
+  netPrice: integer("net_price"), // Average annual net price after aid, in dollars
+  statsVerified: boolean("stats_verified").notNull().default(false), // Stats come from the catalog rather than the model
   recommendedBy: text("recommended_by"), // Name of the advisor who recommended it
   advisorNotes: text("advisor_notes"), // Optional notes from the advisor
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -193,6 +715,45 @@ export const insertSharedChatSessionSchema = createInsertSchema(sharedChatSessio
 export type InsertSharedChatSession = z.infer<typeof insertSharedChatSessionSchema>;
 export type SharedChatSession = typeof sharedChatSessions.$inferSelect;
 
+// A whole tag or folder shared with an advisor, including sessions tagged or filed there later.
+// Exactly one of tag and folderId is set.
+export const sharedChatCollections = pgTable("shared_chat_collections", {
+  id: serial("id").primaryKey(),
+  advisorId: integer("advisor_id").notNull(),
+  tag: text("tag"),
+  folderId: integer("folder_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertSharedChatCollectionSchema = createInsertSchema(sharedChatCollections)
+  .omit({
+    id: true,
+    createdAt: true
+  })
+  .extend({
+    tag: chatTagSchema.nullable().optional(),
+    folderId: z.number().int().nullable().optional()
+  })
+  .refine(collection => !!collection.tag !== (collection.folderId != null), {
+    message: "Share either a tag or a folder"
+  });
+
+export type InsertSharedChatCollection = z.infer<typeof insertSharedChatCollectionSchema>;
+export type SharedChatCollection = typeof sharedChatCollections.$inferSelect;
+
+// Whether a session is shared with an advisor, directly or through one of its tags or its folder
+export function isChatSessionShared(
+  session: ChatSession,
+  sharedSessionIds: number[],
+  collections: SharedChatCollection[]
+): boolean {
+  return sharedSessionIds.includes(session.id) || collections.some(collection =>
+    collection.tag
+      ? session.tags.some(tag => tag.toLowerCase() === collection.tag!.toLowerCase())
+      : collection.folderId !== null && collection.folderId === session.folderId
+  );
+}
+
 // Message feedback schema
 export const messageFeedback = pgTable("message_feedback", {
   id: serial("id").primaryKey(),
@@ -210,3 +771,421 @@ export const insertMessageFeedbackSchema = createInsertSchema(messageFeedback).o
 
 export type InsertMessageFeedback = z.infer<typeof insertMessageFeedbackSchema>;
 export type MessageFeedback = typeof messageFeedback.$inferSelect;
+
+// Essays schema - application essay drafts, optionally tied to a college (null means the Common App)
+export const essays = pgTable("essays", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  collegeId: integer("college_id"),
+  title: text("title").notNull(),
+  prompt: text("prompt"),
+  wordLimit: integer("word_limit"),
+  content: text("content").notNull().default(""), // The working draft
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertEssaySchema = createInsertSchema(essays)
+  .omit({
+    id: true,
+    createdAt: true,
+    updatedAt: true
+  });
+
+export type InsertEssay = z.infer<typeof insertEssaySchema>;
+export type Essay = typeof essays.$inferSelect;
+
+// Saved snapshots of an essay draft, with the AI feedback given on that version
+export const essayRevisions = pgTable("essay_revisions", {
+  id: serial("id").primaryKey(),
+  essayId: integer("essay_id").notNull(),
+  content: text("content").notNull(),
+  wordCount: integer("word_count").notNull(),
+  feedback: text("feedback"), // AI feedback on this revision, if requested
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertEssayRevisionSchema = createInsertSchema(essayRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertEssayRevision = z.infer<typeof insertEssayRevisionSchema>;
+export type EssayRevision = typeof essayRevisions.$inferSelect;
+
+// Shared Essays schema - junction table between advisors and essays
+export const sharedEssays = pgTable("shared_essays", {
+  id: serial("id").primaryKey(),
+  advisorId: integer("advisor_id").notNull(),
+  essayId: integer("essay_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type SharedEssay = typeof sharedEssays.$inferSelect;
+
+// One piece of a word-level diff between two essay revisions
+export type EssayDiffSegment = {
+  type: "equal" | "insert" | "delete";
+  text: string;
+};
+
+// Count words the way application portals do (whitespace separated)
+export function countWords(text: string): number {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+// Advisor comments schema - threaded comments anchored to a shared chat message or an essay passage.
+// Every thread is between the student and one advisor; replies point at the thread's first comment.
+export const advisorComments = pgTable("advisor_comments", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(), // The student
+  advisorId: integer("advisor_id").notNull(),
+  parentId: integer("parent_id"), // Null for the comment that starts a thread
+  authorType: varchar("author_type", { length: 10 }).notNull(), // "advisor" or "student"
+  content: text("content").notNull(),
+  chatSessionId: integer("chat_session_id"),
+  chatMessageId: integer("chat_message_id"),
+  essayId: integer("essay_id"),
+  rangeStart: integer("range_start"), // Character offsets into the essay draft
+  rangeEnd: integer("range_end"),
+  quotedText: text("quoted_text"), // The essay passage as it read when the comment was made
+  isRead: boolean("is_read").notNull().default(false), // Whether the student has seen it
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertAdvisorCommentSchema = createInsertSchema(advisorComments)
+  .omit({
+    id: true,
+    createdAt: true
+  })
+  .extend({
+    content: z.string().trim().min(1).max(5000)
+  });
+
+export type InsertAdvisorComment = z.infer<typeof insertAdvisorCommentSchema>;
+export type AdvisorComment = typeof advisorComments.$inferSelect;
+
+// A comment with the name of the advisor whose thread it belongs to, as returned by the API
+export type AdvisorCommentWithAdvisor = AdvisorComment & { advisorName: string };
+
+// One student on an advisor account's caseload, as returned by the API
+export type CaseloadStudent = {
+  advisorId: number; // The share link the student created for this advisor
+  shareToken: string;
+  relationship: AdvisorTypeValue;
+  isActive: boolean;
+  username: string;
+  lastActivityAt: string | null;
+  collegeCounts: Partial<Record<CollegeStatusType, number>>; // Only the statuses shared with this advisor
+  recentCollegeChanges: {
+    id: number;
+    name: string;
+    status: CollegeStatusType;
+    isNew: boolean;
+    updatedAt: string;
+  }[];
+};
+
+// Kinds of line item on a financial aid award letter
+export const AidItemType = {
+  GRANT: "grant",
+  SCHOLARSHIP: "scholarship",
+  WORK_STUDY: "work_study",
+  LOAN: "loan", // Federal or private student loans
+  PARENT_LOAN: "parent_loan", // Parent PLUS and other loans taken out by parents
+  OTHER: "other"
+} as const;
+
+export type AidItemTypeValue = typeof AidItemType[keyof typeof AidItemType];
+
+export const aidItemSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  type: z.enum([
+    AidItemType.GRANT,
+    AidItemType.SCHOLARSHIP,
+    AidItemType.WORK_STUDY,
+    AidItemType.LOAN,
+    AidItemType.PARENT_LOAN,
+    AidItemType.OTHER
+  ]),
+  amount: z.number().int().min(0).max(1_000_000), // Per year, in dollars
+});
+
+export type AidItem = z.infer<typeof aidItemSchema>;
+
+// A college's financial aid offer, read from an uploaded award letter or entered by hand. Amounts are yearly.
+export const aidOffers = pgTable("aid_offers", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  collegeId: integer("college_id").notNull(),
+  attachment: json("attachment").$type<FileAttachment>(), // The award letter it was read from, if any
+  academicYear: text("academic_year"), // e.g. "2026-27"
+  costOfAttendance: integer("cost_of_attendance"), // As stated on the letter, including housing and books
+  statedTotalAid: integer("stated_total_aid"), // The letter's own "total aid" figure, which often counts loans
+  items: json("items").$type<AidItem[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertAidOfferSchema = createInsertSchema(aidOffers)
+  .omit({
+    id: true,
+    createdAt: true,
+    updatedAt: true
+  })
+  .extend({
+    attachment: fileAttachmentSchema.nullable().optional(),
+    academicYear: z.string().trim().max(20).nullable().optional(),
+    costOfAttendance: z.number().int().min(0).max(1_000_000).nullable().optional(),
+    statedTotalAid: z.number().int().min(0).max(1_000_000).nullable().optional(),
+    items: z.array(aidItemSchema).max(50)
+  });
+
+export type InsertAidOffer = z.infer<typeof insertAidOfferSchema>;
+export type AidOffer = typeof aidOffers.$inferSelect;
+
+// What an aid offer really costs, separating money that has to be paid back from money that doesn't
+export type AidOfferSummary = {
+  giftAid: number; // Grants and scholarships
+  workStudy: number; // Has to be earned during the year
+  loans: number; // Student loans
+  parentLoans: number;
+  netPrice: number | null; // Cost of attendance minus gift aid: the true cost, however it's paid
+  outOfPocket: number | null; // What's left after all aid, work-study and loans
+  loansCountedAsAid: boolean; // The letter's total aid figure includes loans
+};
+
+export type AidOfferWithSummary = AidOffer & { summary: AidOfferSummary };
+
+// One column of the college comparison: a college on the student's list or a recommendation
+export type CollegeComparisonEntry = {
+  kind: "college" | "recommendation";
+  id: number;
+  name: string;
+  status: CollegeStatusType | null; // Null for recommendations
+  institution: Institution | null;
+  fit: CollegeFitResult | null;
+  netPrice: NetPriceEstimate | null; // Only once the student has entered their finances
+  aidOffer: AidOfferSummary | null; // From the latest award letter for the college
+  deadlines: CollegeTask[]; // Open tasks with a due date, soonest first
+  notes: string | null;
+  pros: string[];
+  cons: string[];
+  ratings: CollegeRating[]; // The student's own, so empty for recommendations
+};
+
+// Activity types from the Common App activities section
+export const ActivityType = {
+  ACADEMIC: "academic",
+  ART: "art",
+  ATHLETICS_CLUB: "athletics_club",
+  ATHLETICS_VARSITY: "athletics_varsity",
+  CAREER_ORIENTED: "career_oriented",
+  COMMUNITY_SERVICE: "community_service",
+  COMPUTER_TECHNOLOGY: "computer_technology",
+  CULTURAL: "cultural",
+  DANCE: "dance",
+  DEBATE_SPEECH: "debate_speech",
+  ENVIRONMENTAL: "environmental",
+  FAMILY_RESPONSIBILITIES: "family_responsibilities",
+  FOREIGN_EXCHANGE: "foreign_exchange",
+  FOREIGN_LANGUAGE: "foreign_language",
+  INTERNSHIP: "internship",
+  JOURNALISM_PUBLICATION: "journalism_publication",
+  JUNIOR_ROTC: "junior_rotc",
+  LGBT: "lgbt",
+  MUSIC_INSTRUMENTAL: "music_instrumental",
+  MUSIC_VOCAL: "music_vocal",
+  RELIGIOUS: "religious",
+  RESEARCH: "research",
+  ROBOTICS: "robotics",
+  SCHOOL_SPIRIT: "school_spirit",
+  SCIENCE_MATH: "science_math",
+  SOCIAL_JUSTICE: "social_justice",
+  STUDENT_GOVERNMENT: "student_government",
+  THEATER_DRAMA: "theater_drama",
+  WORK_PAID: "work_paid",
+  OTHER: "other"
+} as const;
+
+export type ActivityTypeValue = typeof ActivityType[keyof typeof ActivityType];
+
+// The Common App's own wording for each type
+export const ActivityTypeLabels: Record<ActivityTypeValue, string> = {
+  academic: "Academic",
+  art: "Art",
+  athletics_club: "Athletics: Club",
+  athletics_varsity: "Athletics: JV/Varsity",
+  career_oriented: "Career Oriented",
+  community_service: "Community Service (Volunteer)",
+  computer_technology: "Computer/Technology",
+  cultural: "Cultural",
+  dance: "Dance",
+  debate_speech: "Debate/Speech",
+  environmental: "Environmental",
+  family_responsibilities: "Family Responsibilities",
+  foreign_exchange: "Foreign Exchange",
+  foreign_language: "Foreign Language",
+  internship: "Internship",
+  journalism_publication: "Journalism/Publication",
+  junior_rotc: "Junior R.O.T.C.",
+  lgbt: "LGBT",
+  music_instrumental: "Music: Instrumental",
+  music_vocal: "Music: Vocal",
+  religious: "Religious",
+  research: "Research",
+  robotics: "Robotics",
+  school_spirit: "School Spirit",
+  science_math: "Science/Math",
+  social_justice: "Social Justice",
+  student_government: "Student Govt./Politics",
+  theater_drama: "Theater/Drama",
+  work_paid: "Work (Paid)",
+  other: "Other Club/Activity"
+};
+
+// Common App limits for the activities section
+export const MAX_ACTIVITIES = 10;
+export const ACTIVITY_ROLE_LIMIT = 50;
+export const ACTIVITY_ORGANIZATION_LIMIT = 100;
+export const ACTIVITY_DESCRIPTION_LIMIT = 150;
+export const ACTIVITY_GRADE_LEVELS = [9, 10, 11, 12] as const;
+
+// An extracurricular activity in the Common App's format, ranked by position (most important first)
+export const activities = pgTable("activities", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  position: integer("position").notNull(),
+  type: text("type").notNull().$type<ActivityTypeValue>().default(ActivityType.OTHER),
+  role: text("role").notNull().default(""), // "Position/leadership description"
+  organization: text("organization").notNull().default(""),
+  description: text("description").notNull().default(""),
+  gradeLevels: json("grade_levels").$type<number[]>().notNull().default([]),
+  hoursPerWeek: integer("hours_per_week"),
+  weeksPerYear: integer("weeks_per_year"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertActivitySchema = createInsertSchema(activities)
+  .omit({
+    id: true,
+    position: true, // Set server-side: new activities go to the bottom, then the student reorders them
+    createdAt: true,
+    updatedAt: true
+  })
+  .extend({
+    type: z.enum(Object.values(ActivityType) as [ActivityTypeValue, ...ActivityTypeValue[]]).optional(),
+    role: z.string().trim().max(ACTIVITY_ROLE_LIMIT).optional(),
+    organization: z.string().trim().max(ACTIVITY_ORGANIZATION_LIMIT).optional(),
+    description: z.string().trim().max(ACTIVITY_DESCRIPTION_LIMIT).optional(),
+    gradeLevels: z.array(z.number().int().min(9).max(12)).max(4)
+      .transform(levels => Array.from(new Set(levels)).sort((a, b) => a - b))
+      .optional(),
+    hoursPerWeek: z.number().int().min(0).max(168).nullable().optional(),
+    weeksPerYear: z.number().int().min(0).max(52).nullable().optional()
+  });
+
+export type InsertActivity = z.infer<typeof insertActivitySchema>;
+export type Activity = typeof activities.$inferSelect;
+
+// Who is writing a recommendation letter
+export const RecommenderRole = {
+  TEACHER: "teacher",
+  COUNSELOR: "counselor",
+  OTHER: "other"
+} as const;
+
+export type RecommenderRoleValue = typeof RecommenderRole[keyof typeof RecommenderRole];
+
+export const RecommenderRoleLabels: Record<RecommenderRoleValue, string> = {
+  teacher: "Teacher",
+  counselor: "Counselor",
+  other: "Other"
+};
+
+export const BRAG_SHEET_LIMIT = 10000;
+
+// A teacher, counselor or other person writing letters for the student, with their own link to the recommender page
+export const recommenders = pgTable("recommenders", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  role: text("role").notNull().$type<RecommenderRoleValue>().default(RecommenderRole.TEACHER),
+  subject: text("subject"), // e.g. "AP Chemistry", for teachers
+  email: text("email"),
+  message: text("message"), // A note from the student shown at the top of the recommender page
+  shareToken: uuid("share_token").notNull().unique(),
+  isActive: boolean("is_active").notNull().default(true),
+  lastViewedAt: timestamp("last_viewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertRecommenderSchema = createInsertSchema(recommenders)
+  .omit({
+    id: true,
+    shareToken: true, // Generated server-side
+    lastViewedAt: true,
+    createdAt: true,
+    updatedAt: true
+  })
+  .extend({
+    name: z.string().trim().min(1).max(100),
+    role: z.enum(Object.values(RecommenderRole) as [RecommenderRoleValue, ...RecommenderRoleValue[]]).optional(),
+    subject: z.string().trim().max(100).nullable().optional(),
+    email: z.string().trim().email().max(200).nullable().optional().or(z.literal("").transform(() => null)),
+    message: z.string().trim().max(2000).nullable().optional()
+  });
+
+export type InsertRecommender = z.infer<typeof insertRecommenderSchema>;
+export type Recommender = typeof recommenders.$inferSelect;
+
+// Where a letter stands at one college
+export const LetterStatus = {
+  REQUESTED: "requested",
+  SUBMITTED: "submitted"
+} as const;
+
+export type LetterStatusValue = typeof LetterStatus[keyof typeof LetterStatus];
+
+// One recommender's letter for one college on the student's list
+export const recommendationLetters = pgTable("recommendation_letters", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  recommenderId: integer("recommender_id").notNull(),
+  collegeId: integer("college_id").notNull(),
+  status: text("status").notNull().$type<LetterStatusValue>().default(LetterStatus.REQUESTED),
+  submittedAt: timestamp("submitted_at"), // Set server-side when the recommender marks it submitted
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertRecommendationLetterSchema = createInsertSchema(recommendationLetters)
+  .omit({
+    id: true,
+    submittedAt: true,
+    createdAt: true,
+    updatedAt: true
+  })
+  .extend({
+    status: z.enum(Object.values(LetterStatus) as [LetterStatusValue, ...LetterStatusValue[]]).optional()
+  });
+
+export type InsertRecommendationLetter = z.infer<typeof insertRecommendationLetterSchema>;
+export type RecommendationLetter = typeof recommendationLetters.$inferSelect;
+
+export type RecommenderWithLetters = Recommender & { letters: RecommendationLetter[] };
+
+// What a recommender sees through their link: the student's brag sheet and the letters they've been asked for
+export type RecommenderPortal = {
+  recommender: Pick<Recommender, "name" | "role" | "subject" | "message">;
+  student: { username: string; bragSheet: string | null };
+  activities: Activity[];
+  letters: (Pick<RecommendationLetter, "id" | "status" | "submittedAt"> & {
+    collegeName: string;
+    deadline: string | null; // ISO date of the soonest open deadline for the college, if the student has one
+    deadlineTitle: string | null;
+  })[];
+};